@@ -27,6 +27,7 @@ import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
 import { AnnouncementManager } from '@/components/admin/announcement-manager'
+import { ModelCatalogManager } from '@/components/admin/model-catalog-manager'
 import Link from 'next/link'
 
 interface AdminStats {
@@ -538,6 +539,9 @@ export function AdminDashboard() {
           </CardContent>
         </Card>
 
+        {/* Model Catalog */}
+        <ModelCatalogManager />
+
         {/* Pricing Management */}
         <Card className="mt-8">
           <CardHeader>
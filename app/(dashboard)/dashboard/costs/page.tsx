@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
-import { getTotalCostThisMonth, getCostsByProvider, getCostsByType, getUsageHistory } from '@/lib/db/settings'
+import { getTotalCostThisMonth, getCostsByProvider, getCostsByType, getUsageHistory, getCacheStats } from '@/lib/db/settings'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { CreditCard, TrendingUp, DollarSign, BarChart3, Zap, Sparkles, Target } from 'lucide-react'
+import { CreditCard, TrendingUp, DollarSign, BarChart3, Zap, Sparkles, Target, Database } from 'lucide-react'
 
 // Disable caching - always fetch fresh data
 export const dynamic = 'force-dynamic'
@@ -20,6 +20,7 @@ export default async function CostsPage() {
   const usageHistory = await getUsageHistory(user.id, 2)
   const providerBreakdown = await getCostsByProvider(user.id)
   const typeBreakdown = await getCostsByType(user.id)
+  const cacheStats = await getCacheStats(user.id)
   
   // Calculate last month cost
   const lastMonth = new Date()
@@ -206,6 +207,51 @@ export default async function CostsPage() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Response Cache */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Response Cache</CardTitle>
+            <CardDescription>
+              AI calls in scans answered from cache at no cost this month
+            </CardDescription>
+          </div>
+          <Database className="w-4 h-4 text-zinc-500" />
+        </CardHeader>
+        <CardContent>
+          {cacheStats.calls === 0 ? (
+            <div className="text-center py-8 text-zinc-500">
+              <p>No AI calls recorded yet</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-baseline gap-2">
+                <span className="text-2xl font-bold">{cacheStats.hitRate}%</span>
+                <span className="text-sm text-zinc-500">
+                  hit rate · {cacheStats.hits} of {cacheStats.calls} calls
+                </span>
+              </div>
+              {cacheStats.byModel.map((item) => (
+                <div key={item.model}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm">{item.model}</span>
+                    <span className="text-sm text-zinc-400">
+                      {item.hitRate}% ({item.hits}/{item.calls})
+                    </span>
+                  </div>
+                  <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 rounded-full"
+                      style={{ width: `${item.hitRate}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
       </div>
     </>
   )
@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/server'
 import { getProjectStats } from '@/lib/db/projects'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { BarChart3, FolderOpen, Zap, TrendingUp } from 'lucide-react'
+import { ModelDeprecationNotice } from '@/components/dashboard/model-deprecation-notice'
 
 // Disable caching - always fetch fresh data
 export const dynamic = 'force-dynamic'
@@ -30,6 +31,9 @@ export default async function DashboardPage() {
       {/* Content */}
       <div className="flex-1 overflow-y-auto px-4 py-4 lg:px-8">
 
+      {/* Projects using retired models */}
+      {stats.projects > 0 && <ModelDeprecationNotice />}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <Card>
@@ -26,15 +26,22 @@ import {
   Pause,
   Link2,
   CalendarClock,
-  AlertTriangle
+  AlertTriangle,
+  GitCompare,
+  UserRound
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { MetricsChart } from '@/components/charts/metrics-chart'
+import { CitedDomains } from '@/components/charts/cited-domains'
+import { ProjectTopics } from '@/components/charts/topic-breakdown'
+import { ProjectPersonas } from '@/components/charts/persona-breakdown'
+import { ScanConfirmDialog } from '@/components/dashboard/scan-cost-estimate'
 import { useScan } from '@/lib/scan/scan-context'
 import { useToast } from '@/components/ui/toast'
 import type { Project, ProjectQuery, Scan } from '@/lib/db/schema'
+import type { ProjectBudgetStatus } from '@/lib/credits/budget'
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
 
@@ -89,15 +96,16 @@ export default function ProjectPage() {
   const router = useRouter()
   const projectId = params.id as string
   const { startScan, cancelScan, getJobForProject, hasActiveJob, clearJob } = useScan()
-  const { showSuccess, showError, showInfo } = useToast()
+  const { showSuccess, showError, showInfo, showWarning } = useToast()
   
   // Track which job IDs we've already shown notifications for
   const notifiedJobsRef = useRef<Set<string>>(new Set())
 
-  const [project, setProject] = useState<Project | null>(null)
+  const [project, setProject] = useState<(Project & { budget?: ProjectBudgetStatus }) | null>(null)
   const [queries, setQueries] = useState<ProjectQuery[]>([])
-  const [scans, setScans] = useState<(Scan & { is_scheduled?: boolean })[]>([])
+  const [scans, setScans] = useState<(Scan & { is_scheduled?: boolean; budget_warning?: string | null })[]>([])
   const [loading, setLoading] = useState(true)
+  const [confirmScanOpen, setConfirmScanOpen] = useState(false)
   
   // Load more scans - persisted in sessionStorage
   const [visibleScansCount, setVisibleScansCount] = useState(() => {
@@ -176,6 +184,15 @@ export default function ProjectPage() {
     }
   }, [])
 
+  // Budget warning from the queue route - once per job
+  useEffect(() => {
+    if (!currentJob?.id || !currentJob.warning) return
+    const key = `${currentJob.id}:warning`
+    if (notifiedJobsRef.current.has(key)) return
+    notifiedJobsRef.current.add(key)
+    showWarning(currentJob.warning)
+  }, [currentJob?.id, currentJob?.warning])
+
   // Reload project when scan completes - only notify once per job
   useEffect(() => {
     if (!currentJob?.id) return
@@ -226,6 +243,7 @@ export default function ProjectPage() {
   }
 
   const runScan = async () => {
+    setConfirmScanOpen(false)
     try {
       await startScan(projectId, project?.name || 'Project')
       showInfo('Scan added to queue')
@@ -345,7 +363,7 @@ export default function ProjectPage() {
             ) : (
               <Button 
                 disabled={queries.length === 0}
-                onClick={runScan}
+                onClick={() => setConfirmScanOpen(true)}
               >
                 <Play className="w-4 h-4" />
                 Run Scan
@@ -381,6 +399,24 @@ export default function ProjectPage() {
           </span>
         </div>
 
+        {/* Monthly Budget */}
+        {project.budget && (project.budget.status === 'warning' || project.budget.status === 'exceeded') && (
+          <Card className={`mb-6 ${project.budget.status === 'exceeded' ? 'border-red-500/30 bg-red-500/5' : 'border-amber-500/30 bg-amber-500/5'}`}>
+            <CardContent className="py-3 flex items-center gap-2 text-sm">
+              <AlertTriangle className={`w-4 h-4 shrink-0 ${project.budget.status === 'exceeded' ? 'text-red-400' : 'text-amber-400'}`} />
+              <span>
+                {project.budget.status === 'exceeded' ? 'Monthly budget reached' : 'Nearing monthly budget'}:
+                {' '}${(project.budget.spentCents / 100).toFixed(2)} of ${((project.budget.budgetCents || 0) / 100).toFixed(2)} spent
+                ({Math.round((project.budget.ratio || 0) * 100)}%).
+                {project.budget.status === 'exceeded' && ' New and scheduled scans are skipped until next month.'}
+              </span>
+              <Link href={`/dashboard/projects/${projectId}/settings`} className="ml-auto text-zinc-400 hover:text-zinc-200 whitespace-nowrap">
+                Adjust budget
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Scan Progress */}
         {currentJob && ['running', 'queued'].includes(currentJob.status) && (
           <Card className="mb-6 border-blue-500/30 bg-blue-500/5">
@@ -563,6 +599,60 @@ export default function ProjectPage() {
           </Card>
         )}
 
+        {/* Top Cited Domains */}
+        {completedScans.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                Top Cited Domains
+              </CardTitle>
+              <CardDescription>
+                Sources AI models cite when answering your queries (last 30 days)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CitedDomains projectId={projectId} days={30} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Topics */}
+        {completedScans.length > 0 && queries.some(q => q.tags?.length > 0) && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="w-4 h-4" />
+                Topics
+              </CardTitle>
+              <CardDescription>
+                Visibility and recommendation by query tag (last 30 days)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProjectTopics projectId={projectId} days={30} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Personas */}
+        {completedScans.length > 0 && queries.some(q => q.persona_id) && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserRound className="w-4 h-4" />
+                Personas
+              </CardTitle>
+              <CardDescription>
+                Visibility and recommendation by the persona queries were asked as (last 30 days)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProjectPersonas projectId={projectId} days={30} />
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Test Queries */}
           <Card className="lg:col-span-2">
@@ -592,9 +682,16 @@ export default function ProjectPage() {
                       className="flex items-center justify-between p-3 bg-zinc-800/50 rounded-lg"
                     >
                       <span className="text-sm">{query.query_text}</span>
-                      <span className="text-xs text-zinc-500 capitalize">
-                        {query.query_type}
-                      </span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {query.tags?.map((tag) => (
+                          <span key={tag} className="text-xs text-zinc-400 px-1.5 py-0.5 bg-zinc-800 rounded">
+                            {tag}
+                          </span>
+                        ))}
+                        <span className="text-xs text-zinc-500 capitalize">
+                          {query.query_type}
+                        </span>
+                      </div>
                     </div>
                   ))}
                   {queries.length > 5 && (
@@ -636,15 +733,25 @@ export default function ProjectPage() {
                 </CardDescription>
               </div>
               {scans.length > 0 && (
-                <Button 
-                  variant="ghost" 
-                  size="sm"
-                  className="text-red-400 hover:text-red-300 hover:bg-red-500/10 -mt-1"
-                  onClick={deleteAllScans}
-                >
-                  <Trash2 className="w-4 h-4 mr-1.5" />
-                  Delete All
-                </Button>
+                <div className="flex items-center gap-1 -mt-1">
+                  {completedScans.length >= 2 && (
+                    <Link href={`/dashboard/projects/${projectId}/scans/compare`}>
+                      <Button variant="ghost" size="sm">
+                        <GitCompare className="w-4 h-4 mr-1.5" />
+                        Compare
+                      </Button>
+                    </Link>
+                  )}
+                  <Button 
+                    variant="ghost" 
+                    size="sm"
+                    className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                    onClick={deleteAllScans}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1.5" />
+                    Delete All
+                  </Button>
+                </div>
               )}
             </CardHeader>
             <CardContent>
@@ -679,6 +786,11 @@ export default function ProjectPage() {
                               <CalendarClock className="w-3 h-3" /> Auto
                             </Badge>
                           )}
+                          {scan.budget_warning && (
+                            <Badge className="gap-1 border-0 bg-amber-500/10 text-amber-400" title={scan.budget_warning}>
+                              <AlertTriangle className="w-3 h-3" /> Budget
+                            </Badge>
+                          )}
                         </div>
                         {/* Mobile: Overall Score on first row right */}
                         {scan.status === 'completed' && scan.overall_score !== null && (
@@ -771,6 +883,13 @@ export default function ProjectPage() {
           </Card>
         </div>
       </div>
+
+      <ScanConfirmDialog
+        projectId={projectId}
+        open={confirmScanOpen}
+        onOpenChange={setConfirmScanOpen}
+        onConfirm={runScan}
+      />
     </div>
   )
 }
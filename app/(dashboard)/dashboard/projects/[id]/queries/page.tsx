@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
 import { 
@@ -12,7 +12,14 @@ import {
   Sparkles,
   Settings,
   ExternalLink,
-  Save
+  Save,
+  Upload,
+  Download,
+  Tag,
+  Check,
+  X,
+  Pencil,
+  UserRound
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -20,10 +27,13 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import type { ProjectQuery, Project } from '@/lib/db/schema'
+import type { ProjectQuery, Project, QueryDraft } from '@/lib/db/schema'
 import { useToast } from '@/components/ui/toast'
 import { MODEL_PRICING, AVAILABLE_MODELS } from '@/lib/ai'
 import { usePricing } from '@/lib/hooks/use-pricing'
+import type { QueryFileFormat, QueryImportPlan, QueryImportStatus } from '@/lib/queries/import-export'
+import type { QueryCoverageReport } from '@/lib/queries/coverage'
+import type { DraftReviewResult } from '@/lib/queries/drafts'
 
 const QUERY_TYPES = [
   { value: 'informational', label: 'Informational' },
@@ -31,6 +41,13 @@ const QUERY_TYPES = [
   { value: 'comparison', label: 'Comparison' },
 ]
 
+const IMPORT_STATUS_LABELS: Record<QueryImportStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'text-emerald-400 bg-emerald-500/10' },
+  duplicate: { label: 'Duplicate', className: 'text-zinc-400 bg-zinc-800' },
+  invalid: { label: 'Invalid', className: 'text-red-400 bg-red-500/10' },
+  over_limit: { label: 'Over limit', className: 'text-amber-400 bg-amber-500/10' },
+}
+
 // Recommended models for QUERY GENERATION - newer, more capable models for quality queries
 const RECOMMENDED_GENERATION_MODELS = [
   'claude-sonnet-4-5',
@@ -54,8 +71,24 @@ export default function QueriesPage() {
   
   const [newQuery, setNewQuery] = useState('')
   const [newQueryType, setNewQueryType] = useState('informational')
+  const [newQueryTags, setNewQueryTags] = useState('')
+  
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null)
+  const [tagsDraft, setTagsDraft] = useState('')
+  
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [importFile, setImportFile] = useState<{ name: string; content: string; format: QueryFileFormat } | null>(null)
+  const [importPlan, setImportPlan] = useState<QueryImportPlan | null>(null)
+  const [importing, setImporting] = useState(false)
+  
+  const [coverage, setCoverage] = useState<QueryCoverageReport | null>(null)
+  const [drafts, setDrafts] = useState<QueryDraft[]>([])
+  const [reviewing, setReviewing] = useState(false)
+  const [editingDraftId, setEditingDraftId] = useState<string | null>(null)
+  const [draftText, setDraftText] = useState('')
   
   const [queryCount, setQueryCount] = useState(5)
+  const [generationPersonaId, setGenerationPersonaId] = useState('none')
   const [generationModel, setGenerationModel] = useState<string>('gpt-5-mini')
 
   // Fetch pricing from API
@@ -108,16 +141,31 @@ export default function QueriesPage() {
     return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output
   }, [generationModel, queryCount])
 
+  // Personas from project settings; queries of a removed persona keep its id
+  const personas = project?.personas || []
+  const getPersonaName = (personaId: string) =>
+    personas.find(p => p.id === personaId)?.name ?? 'Removed persona'
+
   useEffect(() => {
     loadProjectAndQueries()
   }, [projectId])
 
+  // Coverage follows every change of the query list
+  useEffect(() => {
+    if (loading) return
+    fetch(`/api/projects/${projectId}/queries/coverage`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setCoverage)
+      .catch(() => setCoverage(null))
+  }, [projectId, queries, loading])
+
   const loadProjectAndQueries = async () => {
     try {
       // Load project settings and queries in parallel
-      const [projectRes, queriesRes] = await Promise.all([
+      const [projectRes, queriesRes, draftsRes] = await Promise.all([
         fetch(`/api/projects/${projectId}`),
-        fetch(`/api/projects/${projectId}/queries`)
+        fetch(`/api/projects/${projectId}/queries`),
+        fetch(`/api/projects/${projectId}/queries/drafts`)
       ])
       
       if (projectRes.ok) {
@@ -130,6 +178,10 @@ export default function QueriesPage() {
         const queriesData = await queriesRes.json()
         setQueries(queriesData)
       }
+      
+      if (draftsRes.ok) {
+        setDrafts(await draftsRes.json())
+      }
     } catch (error) {
       console.error('Error loading data:', error)
     } finally {
@@ -171,6 +223,7 @@ export default function QueriesPage() {
         body: JSON.stringify({
           query_text: newQuery.trim(),
           query_type: newQueryType,
+          tags: newQueryTags.split(','),
         }),
       })
       
@@ -178,8 +231,12 @@ export default function QueriesPage() {
         const query = await res.json()
         setQueries([...queries, query])
         setNewQuery('')
+        setNewQueryTags('')
       } else if (res.status === 409) {
         showError('This query already exists in the project.')
+      } else {
+        const data = await res.json()
+        showError(data.error || 'Failed to add query')
       }
     } catch (error) {
       console.error('Error adding query:', error)
@@ -188,6 +245,105 @@ export default function QueriesPage() {
     }
   }
 
+  const reviewDrafts = async (accept: string[], reject: string[]) => {
+    setReviewing(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/queries/drafts/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accept, reject }),
+      })
+      const data: DraftReviewResult & { error?: string; limitReason?: string } = await res.json()
+      
+      if (!res.ok) {
+        showError(data.error || 'Failed to review drafts')
+        return
+      }
+      
+      const skipped = new Set(data.skipped.filter(s => s.reason !== 'not_found').map(s => s.id))
+      setQueries([...queries, ...data.accepted])
+      setDrafts(drafts.filter(d => skipped.has(d.id) || (!accept.includes(d.id) && !reject.includes(d.id))))
+      
+      if (data.limitReason) {
+        showError(data.limitReason)
+      } else if (data.skipped.some(s => s.reason === 'duplicate')) {
+        showError('Some drafts already exist in the project. Edit or reject them.')
+      }
+    } catch (error) {
+      console.error('Error reviewing drafts:', error)
+      showError('Failed to review drafts')
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  const updateDraft = async (draftId: string, updates: Partial<Pick<QueryDraft, 'query_text' | 'query_type'>>) => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/queries/drafts/${draftId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      })
+      const data = await res.json()
+      
+      if (res.ok) {
+        setDrafts(drafts.map(d => d.id === draftId ? data : d))
+        setEditingDraftId(null)
+      } else {
+        showError(data.error || 'Failed to update draft')
+      }
+    } catch (error) {
+      console.error('Error updating draft:', error)
+      showError('Failed to update draft')
+    }
+  }
+
+  const startEditingTags = (query: ProjectQuery) => {
+    setEditingTagsId(query.id)
+    setTagsDraft((query.tags || []).join(', '))
+  }
+
+  const saveTags = async (queryId: string) => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/queries/${queryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: tagsDraft.split(',') }),
+      })
+      const data = await res.json()
+      
+      if (res.ok) {
+        setQueries(queries.map(q => q.id === queryId ? data : q))
+        setEditingTagsId(null)
+      } else {
+        showError(data.error || 'Failed to save tags')
+      }
+    } catch (error) {
+      console.error('Error saving tags:', error)
+      showError('Failed to save tags')
+    }
+  }
+
+  const saveQueryPersona = async (queryId: string, personaId: string | null) => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/queries/${queryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ persona_id: personaId }),
+      })
+      const data = await res.json()
+      
+      if (res.ok) {
+        setQueries(queries.map(q => q.id === queryId ? data : q))
+      } else {
+        showError(data.error || 'Failed to save persona')
+      }
+    } catch (error) {
+      console.error('Error saving persona:', error)
+      showError('Failed to save persona')
+    }
+  }
+
   const deleteQuery = async (queryId: string) => {
     try {
       const res = await fetch(`/api/projects/${projectId}/queries/${queryId}`, {
@@ -202,6 +358,65 @@ export default function QueriesPage() {
     }
   }
 
+  const requestImport = async (
+    file: { content: string; format: QueryFileFormat },
+    dryRun: boolean
+  ) => {
+    const res = await fetch(`/api/projects/${projectId}/queries/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: file.content, format: file.format, dryRun }),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to import queries')
+    return data as QueryImportPlan & { imported: number }
+  }
+
+  const previewImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    setImporting(true)
+    try {
+      const file = {
+        name: selected.name,
+        content: await selected.text(),
+        format: (selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv') as QueryFileFormat,
+      }
+      setImportPlan(await requestImport(file, true))
+      setImportFile(file)
+    } catch (error) {
+      console.error('Error previewing import:', error)
+      showError(error instanceof Error ? error.message : 'Failed to read file')
+      cancelImport()
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const confirmImport = async () => {
+    if (!importFile) return
+
+    setImporting(true)
+    try {
+      const result = await requestImport(importFile, false)
+      showSuccess(`Imported ${result.imported} ${result.imported === 1 ? 'query' : 'queries'}`)
+      cancelImport()
+      await loadProjectAndQueries()
+    } catch (error) {
+      console.error('Error importing queries:', error)
+      showError(error instanceof Error ? error.message : 'Failed to import queries')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const cancelImport = () => {
+    setImportFile(null)
+    setImportPlan(null)
+  }
+
   const generateQueries = async () => {
     setGenerating(true)
     
@@ -209,7 +424,10 @@ export default function QueriesPage() {
       const res = await fetch(`/api/projects/${projectId}/queries/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ count: queryCount }),
+        body: JSON.stringify({
+          count: queryCount,
+          persona_id: generationPersonaId === 'none' ? null : generationPersonaId,
+        }),
       })
       
       const data = await res.json()
@@ -219,8 +437,8 @@ export default function QueriesPage() {
         return
       }
       
-      setQueries([...queries, ...data.queries])
-      showSuccess(`Generated ${data.queries.length} queries using ${data.generation.provider} (cost: $${data.generation.costUsd?.toFixed(4) || '0.0000'})`)
+      setDrafts([...drafts, ...data.drafts])
+      showSuccess(`Generated ${data.drafts.length} queries for review using ${data.generation.provider} (cost: $${data.generation.costUsd?.toFixed(4) || '0.0000'})`)
       
       // Refresh credits in sidebar
       window.dispatchEvent(new Event('credits-updated'))
@@ -326,6 +544,63 @@ export default function QueriesPage() {
                   </div>
                 </div>
 
+                {/* Persona */}
+                {personas.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="gen-persona">Write as persona</Label>
+                    <Select value={generationPersonaId} onValueChange={setGenerationPersonaId}>
+                      <SelectTrigger id="gen-persona" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No persona (generic user)</SelectItem>
+                        {personas.map((persona) => (
+                          <SelectItem key={persona.id} value={persona.id}>
+                            {persona.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-zinc-500">
+                      Queries are phrased as this persona and asked as them in scans
+                    </p>
+                  </div>
+                )}
+
+                {/* Coverage */}
+                {coverage && coverage.totalQueries > 0 && (
+                  <div className="space-y-2">
+                    <Label>Coverage</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {coverage.types.map((type) => (
+                        <span
+                          key={type.type}
+                          className={`text-xs px-2 py-1 rounded capitalize ${type.underrepresented ? 'text-amber-400 bg-amber-500/10' : 'text-zinc-400 bg-zinc-800'}`}
+                        >
+                          {type.type} {type.queries}
+                        </span>
+                      ))}
+                    </div>
+                    {coverage.keywords.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {coverage.keywords.map((keyword) => (
+                          <span
+                            key={keyword.keyword}
+                            className={`text-xs px-2 py-1 rounded ${keyword.underrepresented ? 'text-amber-400 bg-amber-500/10' : 'text-zinc-400 bg-zinc-800'}`}
+                          >
+                            {keyword.keyword} {keyword.queries}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {(coverage.gaps.keywords.length > 0 || coverage.gaps.types.length > 0) && (
+                      <p className="text-xs text-zinc-500">
+                        Under-represented keywords and types (amber) are prioritized in the next generation.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Generate Button */}
                 <Button 
                   onClick={generateQueries}
@@ -382,6 +657,16 @@ export default function QueriesPage() {
                     ))}
                   </select>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="query-tags">Tags</Label>
+                  <Input
+                    id="query-tags"
+                    placeholder="e.g., pricing, integrations"
+                    value={newQueryTags}
+                    onChange={(e) => setNewQueryTags(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addQuery()}
+                  />
+                </div>
                 <Button onClick={addQuery} disabled={saving || !newQuery.trim()} className="w-full">
                   {saving ? (
                     <Loader2 className="w-4 h-4 animate-spin" />
@@ -392,10 +677,217 @@ export default function QueriesPage() {
                 </Button>
               </CardContent>
             </Card>
+
+            {/* Import / Export */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Import / Export</CardTitle>
+                <CardDescription>
+                  CSV or JSON with query_text, query_type, tags and active columns
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={previewImport}
+                  className="hidden"
+                />
+                
+                {importPlan && importFile ? (
+                  <div className="space-y-3">
+                    <div className="text-sm">
+                      <p className="font-medium truncate">{importFile.name}</p>
+                      <p className="text-zinc-400">
+                        {importPlan.summary.new} new, {importPlan.summary.duplicate} duplicate, {importPlan.summary.invalid} invalid
+                        {importPlan.summary.over_limit > 0 && `, ${importPlan.summary.over_limit} over your plan's limit`}
+                      </p>
+                    </div>
+                    
+                    {importPlan.rows.some(row => row.status !== 'new') && (
+                      <div className="max-h-60 overflow-y-auto space-y-1">
+                        {importPlan.rows.filter(row => row.status !== 'new').map((row) => (
+                          <div key={row.line} className="text-xs p-2 bg-zinc-800/50 rounded">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="truncate text-zinc-300">
+                                {row.line}: {row.query_text || '(empty)'}
+                              </span>
+                              <span className={`shrink-0 px-1.5 py-0.5 rounded ${IMPORT_STATUS_LABELS[row.status].className}`}>
+                                {IMPORT_STATUS_LABELS[row.status].label}
+                              </span>
+                            </div>
+                            {row.errors.map((error) => (
+                              <p key={error} className="text-red-400 mt-1">{error}</p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={confirmImport}
+                        disabled={importing || importPlan.summary.new === 0}
+                        className="flex-1"
+                      >
+                        {importing ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Upload className="w-4 h-4" />
+                        )}
+                        Import {importPlan.summary.new}
+                      </Button>
+                      <Button variant="outline" onClick={cancelImport} disabled={importing}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={importing}
+                    className="w-full"
+                  >
+                    {importing ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Upload className="w-4 h-4" />
+                    )}
+                    Import File
+                  </Button>
+                )}
+                
+                <div className="flex gap-2">
+                  {(['csv', 'json'] as const).map((format) => (
+                    <Button key={format} variant="ghost" size="sm" asChild className="flex-1">
+                      <a href={`/api/projects/${projectId}/queries/export?format=${format}`} download>
+                        <Download className="w-4 h-4" />
+                        Export {format.toUpperCase()}
+                      </a>
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
-          {/* Right Column - Queries List */}
-          <div className="lg:col-span-8">
+          {/* Right Column - Review Queue & Queries List */}
+          <div className="lg:col-span-8 space-y-6">
+            {/* Generated drafts awaiting review */}
+            {drafts.length > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle>Review Generated Queries ({drafts.length})</CardTitle>
+                    <CardDescription className="mt-1.5">
+                      Accepted queries are added to the project and count towards your plan's query limit.
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={reviewing}
+                      onClick={() => reviewDrafts(drafts.map(d => d.id), [])}
+                    >
+                      <Check className="w-4 h-4" />
+                      Accept all
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={reviewing}
+                      onClick={() => reviewDrafts([], drafts.map(d => d.id))}
+                    >
+                      <X className="w-4 h-4" />
+                      Reject all
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {drafts.map((draft) => (
+                      <div key={draft.id} className="p-3 bg-zinc-800/50 rounded-lg space-y-2">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="flex-1">
+                            {editingDraftId === draft.id ? (
+                              <Input
+                                autoFocus
+                                value={draftText}
+                                onChange={(e) => setDraftText(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') updateDraft(draft.id, { query_text: draftText })
+                                  if (e.key === 'Escape') setEditingDraftId(null)
+                                }}
+                                className="h-8 text-sm"
+                              />
+                            ) : (
+                              <p className="text-sm">{draft.query_text}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <select
+                              value={draft.query_type}
+                              onChange={(e) => updateDraft(draft.id, { query_type: e.target.value as QueryDraft['query_type'] })}
+                              className="h-7 rounded-md border border-zinc-800 bg-zinc-900 px-2 text-xs text-zinc-300 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                            >
+                              {QUERY_TYPES.map((type) => (
+                                <option key={type.value} value={type.value}>
+                                  {type.label}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => {
+                                setEditingDraftId(draft.id)
+                                setDraftText(draft.query_text)
+                              }}
+                              className="text-zinc-500 hover:text-zinc-300"
+                              title="Edit"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => reviewDrafts([draft.id], [])}
+                              disabled={reviewing}
+                              className="text-zinc-500 hover:text-emerald-400"
+                              title="Accept"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => reviewDrafts([], [draft.id])}
+                              disabled={reviewing}
+                              className="text-zinc-500 hover:text-red-400"
+                              title="Reject"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                        {draft.persona_id && (
+                          <span className="inline-flex items-center gap-1 text-xs text-sky-400 px-1.5 py-0.5 bg-sky-500/10 rounded">
+                            <UserRound className="w-3 h-3" />
+                            {getPersonaName(draft.persona_id)}
+                          </span>
+                        )}
+                        {draft.rationale && (
+                          <p className="text-xs text-zinc-500 italic">{draft.rationale}</p>
+                        )}
+                        {draft.similar_to && (
+                          <p className="text-xs text-amber-400">
+                            Near-duplicate: {Math.round((draft.similarity ?? 0) * 100)}% similar to "{draft.similar_to}"
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Queries List */}
             <Card>
               <CardHeader>
@@ -415,6 +907,28 @@ export default function QueriesPage() {
                       >
                         <div className="flex-1">
                           <p className="text-sm">{query.query_text}</p>
+                          {editingTagsId === query.id ? (
+                            <Input
+                              autoFocus
+                              value={tagsDraft}
+                              placeholder="Comma-separated tags"
+                              onChange={(e) => setTagsDraft(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') saveTags(query.id)
+                                if (e.key === 'Escape') setEditingTagsId(null)
+                              }}
+                              onBlur={() => setEditingTagsId(null)}
+                              className="mt-2 h-7 text-xs"
+                            />
+                          ) : query.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {query.tags.map((tag) => (
+                                <span key={tag} className="text-xs text-zinc-400 px-1.5 py-0.5 bg-zinc-800 rounded">
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
                         <div className="flex items-center gap-3">
                           {query.is_ai_generated && (
@@ -423,9 +937,34 @@ export default function QueriesPage() {
                               AI
                             </span>
                           )}
+                          {personas.length > 0 ? (
+                            <select
+                              value={query.persona_id ?? ''}
+                              onChange={(e) => saveQueryPersona(query.id, e.target.value || null)}
+                              className="h-7 max-w-[9rem] rounded-md border border-zinc-800 bg-zinc-900 px-2 text-xs text-zinc-300 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+                              title="Asked as persona"
+                            >
+                              <option value="">No persona</option>
+                              {query.persona_id && !personas.some(p => p.id === query.persona_id) && (
+                                <option value={query.persona_id}>Removed persona</option>
+                              )}
+                              {personas.map((persona) => (
+                                <option key={persona.id} value={persona.id}>
+                                  {persona.name}
+                                </option>
+                              ))}
+                            </select>
+                          ) : null}
                           <span className="text-xs text-zinc-500 capitalize px-2 py-1 bg-zinc-800 rounded">
                             {query.query_type}
                           </span>
+                          <button
+                            onClick={() => startEditingTags(query)}
+                            className="text-zinc-500 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Edit tags"
+                          >
+                            <Tag className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => deleteQuery(query.id)}
                             className="text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
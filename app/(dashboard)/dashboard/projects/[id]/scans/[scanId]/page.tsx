@@ -20,18 +20,32 @@ import {
   Smile,
   MessageCircle,
   ChevronRight,
-  Link2
+  Link2,
+  Users,
+  Repeat,
+  RotateCcw,
+  Tag,
+  UserRound
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { AIResponse } from '@/components/ui/ai-response'
-import type { Scan, ScanResult, ScanMetrics } from '@/lib/db/schema'
+import { TopicBreakdown } from '@/components/charts/topic-breakdown'
+import { PersonaBreakdown } from '@/components/charts/persona-breakdown'
+import type { Scan, ScanResult, ScanMetrics, Competitor } from '@/lib/db/schema'
+import { calculateShareOfVoiceByModel } from '@/lib/scan/competitors'
+import { createClient } from '@/lib/supabase/client'
+import { subscribeToScan } from '@/lib/scan/realtime'
+import type { TopicScore } from '@/lib/scan/topics'
+import type { PersonaScore } from '@/lib/scan/personas'
 
 interface ProjectInfo {
   brand_variations: string[]
   domain: string
   target_keywords: string[]
+  competitors: Competitor[]
+  language: string
 }
 
 export default function ScanResultsPage() {
@@ -42,15 +56,54 @@ export default function ScanResultsPage() {
   
   const [scan, setScan] = useState<Scan | null>(null)
   const [results, setResults] = useState<ScanResult[]>([])
+  const [topics, setTopics] = useState<TopicScore[]>([])
+  const [personas, setPersonas] = useState<PersonaScore[]>([])
   const [projectInfo, setProjectInfo] = useState<ProjectInfo | null>(null)
   const [loading, setLoading] = useState(true)
   const [deleting, setDeleting] = useState(false)
+  const [missingPairs, setMissingPairs] = useState(0)
+  const [retrying, setRetrying] = useState(false)
   const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     loadScan()
   }, [projectId, scanId])
 
+  // Results fill in live while the scan runs (polling if realtime is unavailable)
+  const isRunning = scan?.status === 'running'
+  useEffect(() => {
+    if (!isRunning) return
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    const unsubscribe = subscribeToScan(createClient(), scanId, {
+      onResult: result => {
+        setResults(prev => prev.some(r => r.id === result.id) ? prev : [...prev, result])
+      },
+      onScan: updated => {
+        setScan(prev => prev ? { ...prev, ...updated } : updated)
+        // Final scores, and drops answers of pairs a resumed worker redid
+        if (updated.status !== 'running') loadScan()
+      },
+      onError: () => {
+        if (!pollTimer) pollTimer = setInterval(loadScan, 5000)
+      },
+    })
+
+    return () => {
+      unsubscribe()
+      if (pollTimer) clearInterval(pollTimer)
+    }
+  }, [isRunning, scanId])
+
+  // Pairs without a full answer chain (failed chunks, provider errors)
+  useEffect(() => {
+    if (!scan || isRunning) return
+    fetch(`/api/projects/${projectId}/scans/${scanId}/retry`)
+      .then(res => res.ok ? res.json() : null)
+      .then(data => setMissingPairs(data?.missingPairs || 0))
+      .catch(() => setMissingPairs(0))
+  }, [isRunning, scan?.completed_at, projectId, scanId])
+
   const loadScan = async () => {
     try {
       const res = await fetch(`/api/projects/${projectId}/scans/${scanId}`)
@@ -58,6 +111,8 @@ export default function ScanResultsPage() {
         const data = await res.json()
         setScan(data.scan)
         setResults(data.results)
+        setTopics(data.topics || [])
+        setPersonas(data.personas || [])
         setProjectInfo(data.project)
       }
     } catch (error) {
@@ -79,6 +134,27 @@ export default function ScanResultsPage() {
     })
   }
 
+  const handleRetry = async () => {
+    setRetrying(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/scans/${scanId}/retry`, { method: 'POST' })
+      const data = await res.json()
+
+      if (res.ok) {
+        // The realtime subscription fills in the new answers
+        setMissingPairs(0)
+        setScan(prev => prev ? { ...prev, status: 'running', completed_at: null } : prev)
+      } else {
+        alert(data.error || 'Failed to retry scan')
+      }
+    } catch (error) {
+      console.error('Error retrying scan:', error)
+      alert('Failed to retry scan')
+    } finally {
+      setRetrying(false)
+    }
+  }
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this scan? This action cannot be undone.')) {
       return
@@ -120,9 +196,9 @@ export default function ScanResultsPage() {
     )
   }
 
-  // Group results by query and model to create conversation chains
+  // Group results by query, model and sample to create conversation chains
   const resultsByQueryAndModel = results.reduce((acc, result) => {
-    const key = `${result.query_text}|||${result.model}`
+    const key = `${result.query_text}|||${result.model}|||${result.sample_index ?? 0}`
     if (!acc[key]) {
       acc[key] = []
     }
@@ -160,11 +236,15 @@ export default function ScanResultsPage() {
   } as const
 
   // Get conversation chain for a result
-  const getConversationChain = (queryText: string, model: string): ScanResult[] => {
-    const key = `${queryText}|||${model}`
+  const getConversationChain = (queryText: string, model: string, sampleIndex: number): ScanResult[] => {
+    const key = `${queryText}|||${model}|||${sampleIndex}`
     return resultsByQueryAndModel[key] || []
   }
 
+  // Repeated sampling: siblings are labelled "Sample n" in result headers
+  const hasSamples = results.some(r => (r.sample_index ?? 0) > 0)
+  const countModels = (queryResults: ScanResult[]) => new Set(queryResults.map(r => r.model)).size
+
   // Calculate ranking only from results where ranking > 0 (not n/a)
   const calculatedRanking = (() => {
     const resultsWithRanking = results.filter(r => {
@@ -179,6 +259,21 @@ export default function ScanResultsPage() {
     return Math.round(sum / resultsWithRanking.length)
   })()
 
+  // Per-model mention rates for us vs. tracked competitors
+  const competitors = projectInfo?.competitors || []
+  const shareOfVoiceByModel = competitors.length > 0
+    ? calculateShareOfVoiceByModel(
+        results
+          .filter(r => r.metrics_json && r.competitor_mentions)
+          .map(r => ({
+            model: r.model,
+            visibility_score: (r.metrics_json as ScanMetrics).visibility_score,
+            competitor_mentions: r.competitor_mentions,
+          })),
+        competitors
+      )
+    : {}
+
   return (
     <>
       {/* Header */}
@@ -210,30 +305,53 @@ export default function ScanResultsPage() {
                    <Loader2 className="w-4 h-4 animate-spin" />}
                   {scan.status === 'stopped' ? 'Stopped' : scan.status}
                 </span>
+                {scan.status === 'running' && (
+                  <span className="flex items-center gap-1 text-xs text-zinc-500">
+                    <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
+                    Live · {results.filter(r => (r.follow_up_level || 0) === 0).length} answers · ${(scan.total_cost_usd || 0).toFixed(2)}
+                  </span>
+                )}
                 <Badge className="gap-1 border-0 bg-purple-500/10 text-purple-400">
                   <Cpu className="w-3 h-3" /> AI Evaluated
                 </Badge>
               </div>
             </div>
           </div>
-          <Button
-            variant="destructive"
-            size="sm"
-            onClick={handleDelete}
-            disabled={deleting}
-          >
-            {deleting ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Deleting...
-              </>
-            ) : (
-              <>
-                <Trash2 className="w-4 h-4 mr-2" />
-                Delete Scan
-              </>
+          <div className="flex items-center gap-2">
+            {!isRunning && missingPairs > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRetry}
+                disabled={retrying}
+              >
+                {retrying ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                )}
+                Retry failed pairs ({missingPairs} missing)
+              </Button>
             )}
-          </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleDelete}
+              disabled={deleting}
+            >
+              {deleting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Scan
+                </>
+              )}
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -371,6 +489,128 @@ export default function ScanResultsPage() {
         <span>Output: {scan.total_output_tokens.toLocaleString()} tokens</span>
       </div>
 
+      {/* Sampling Variance */}
+      {scan.sampling_stats && (
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Repeat className="w-4 h-4 text-zinc-400" />
+              <CardTitle className="text-base font-medium">Answer Variance</CardTitle>
+            </div>
+            <CardDescription>
+              Each query was asked {scan.sampling_stats.samples_per_query}× per model. Range across runs and 95% confidence interval.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {([
+                ['Visibility', scan.sampling_stats.visibility, 'text-blue-400'],
+                ['Recommendation', scan.sampling_stats.recommendation, 'text-emerald-400'],
+              ] as const).map(([label, stats, color]) => (
+                <div key={label} className="p-4 bg-zinc-800/50 rounded-lg">
+                  <div className="text-xs font-medium text-zinc-300 mb-2">{label}</div>
+                  <div className={`text-2xl font-bold ${color}`}>{stats.mean}%</div>
+                  <div className="mt-2 flex flex-wrap gap-4 text-xs text-zinc-500">
+                    <span>Min {stats.min}%</span>
+                    <span>Max {stats.max}%</span>
+                    {stats.ci_low !== null && stats.ci_high !== null && (
+                      <span>95% CI {stats.ci_low}–{stats.ci_high}%</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Share of Voice */}
+      {Object.keys(shareOfVoiceByModel).length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Users className="w-4 h-4 text-zinc-400" />
+                <CardTitle className="text-base font-medium">Share of Voice</CardTitle>
+              </div>
+              {scan.share_of_voice !== null && scan.share_of_voice !== undefined && (
+                <span className="text-2xl font-bold text-indigo-400">{scan.share_of_voice}%</span>
+              )}
+            </div>
+            <CardDescription>
+              How often each model mentions your brand vs. tracked competitors (% of answers)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-zinc-500 border-b border-zinc-800">
+                    <th className="py-2 pr-4 font-medium">Model</th>
+                    <th className="py-2 pr-4 font-medium">Your brand</th>
+                    {competitors.map(c => (
+                      <th key={c.name} className="py-2 pr-4 font-medium">{c.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(shareOfVoiceByModel).map(([model, sov]) => (
+                    <tr key={model} className="border-b border-zinc-800/50">
+                      <td className="py-2 pr-4 text-zinc-300">{model}</td>
+                      <td className="py-2 pr-4 font-medium text-blue-400">{sov.brand_mention_rate}%</td>
+                      {sov.competitors.map(c => (
+                        <td key={c.name} className={`py-2 pr-4 ${c.mention_rate > sov.brand_mention_rate ? 'text-red-400' : 'text-zinc-400'}`}>
+                          {c.mention_rate}%
+                          {c.avg_position !== null && (
+                            <span className="ml-1 text-xs text-zinc-600">#{c.avg_position}</span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Topics */}
+      {topics.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Tag className="w-4 h-4 text-zinc-400" />
+              <CardTitle className="text-base font-medium">Topics</CardTitle>
+            </div>
+            <CardDescription>
+              Visibility and recommendation by query tag across all models and follow-ups
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TopicBreakdown topics={topics} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Personas */}
+      {personas.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <UserRound className="w-4 h-4 text-zinc-400" />
+              <CardTitle className="text-base font-medium">Personas</CardTitle>
+            </div>
+            <CardDescription>
+              Visibility and recommendation by the persona each query was asked as
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PersonaBreakdown personas={personas} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Results by Query */}
       <div className="space-y-6">
         {Object.entries(resultsByQuery).map(([query, queryResults]) => (
@@ -380,13 +620,13 @@ export default function ScanResultsPage() {
                 "{query}"
               </CardTitle>
               <CardDescription>
-                {queryResults.length} provider{queryResults.length !== 1 ? 's' : ''} tested
+                {countModels(queryResults)} provider{countModels(queryResults) !== 1 ? 's' : ''} tested
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
                 {queryResults.map((initialResult) => {
-                  const conversationChain = getConversationChain(initialResult.query_text, initialResult.model)
+                  const conversationChain = getConversationChain(initialResult.query_text, initialResult.model, initialResult.sample_index ?? 0)
                   const isExpanded = expandedResults.has(initialResult.id)
                   const totalChainCost = conversationChain.reduce((sum, r) => sum + (r.cost_usd || 0), 0)
 
@@ -426,6 +666,11 @@ export default function ScanResultsPage() {
                         <div className="flex items-center gap-4">
                           <span className="font-medium capitalize">{initialResult.provider}</span>
                           <span className="text-sm text-zinc-500">{initialResult.model}</span>
+                          {hasSamples && (
+                            <Badge variant="outline" className="text-xs">
+                              Sample {(initialResult.sample_index ?? 0) + 1}
+                            </Badge>
+                          )}
                           {conversationChain.length > 1 && (
                             <Badge variant="secondary" className="gap-1 text-xs">
                               <MessageCircle className="w-3 h-3" />
@@ -565,6 +810,8 @@ export default function ScanResultsPage() {
                                           brandVariations={projectInfo?.brand_variations}
                                           domain={projectInfo?.domain}
                                           keywords={projectInfo?.target_keywords}
+                                          competitors={projectInfo?.competitors}
+                                          language={projectInfo?.language}
                                         />
                                         {/* Token Stats */}
                                         <div className="mt-5 pt-4 border-t border-zinc-700/30 flex items-center gap-4 text-xs text-zinc-500">
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
+import {
+  ArrowLeft,
+  ArrowRight,
+  Loader2,
+  GitCompare,
+  TrendingUp,
+  TrendingDown,
+  Eye,
+  EyeOff,
+} from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { Scan } from '@/lib/db/schema'
+import type { ScanComparison, GroupComparison, MetricDelta, ComparedMetric } from '@/lib/scan/compare'
+
+const METRIC_LABELS: Record<ComparedMetric, string> = {
+  visibility_score: 'Visibility',
+  sentiment_score: 'Sentiment',
+  ranking_score: 'Ranking',
+  recommendation_score: 'Recommendation',
+}
+
+const METRICS = Object.keys(METRIC_LABELS) as ComparedMetric[]
+
+type ScanSummary = Pick<Scan, 'id' | 'created_at' | 'overall_score' | 'avg_visibility'>
+
+const formatScanDate = (date: string) => new Date(date).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+})
+
+function DeltaCell({ delta }: { delta: MetricDelta }) {
+  if (delta.delta === null) {
+    return <span className="text-zinc-600">n/a</span>
+  }
+
+  const color = !delta.significant || delta.delta === 0
+    ? 'text-zinc-500'
+    : delta.delta > 0 ? 'text-emerald-400' : 'text-red-400'
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${color}`} title={delta.significant ? 'Beyond noise' : 'Within noise'}>
+      <span className="text-zinc-500">{delta.before}→{delta.after}</span>
+      <span className={delta.significant ? 'font-semibold' : ''}>
+        {delta.delta > 0 ? '+' : ''}{delta.delta}
+      </span>
+      {delta.significant && (delta.delta > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />)}
+    </span>
+  )
+}
+
+function GroupTable({ title, description, groups }: { title: string; description: string; groups: GroupComparison[] }) {
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-base font-medium">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500 border-b border-zinc-800">
+                <th className="py-2 pr-4 font-medium"></th>
+                {METRICS.map(metric => (
+                  <th key={metric} className="py-2 pr-4 font-medium">{METRIC_LABELS[metric]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.key} className="border-b border-zinc-800/50">
+                  <td className="py-2 pr-4 text-zinc-300 max-w-md truncate" title={group.key}>{group.key}</td>
+                  {METRICS.map(metric => (
+                    <td key={metric} className="py-2 pr-4 whitespace-nowrap">
+                      <DeltaCell delta={group.metrics[metric]} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function CompareScansPage() {
+  const params = useParams()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const projectId = params.id as string
+  const baseId = searchParams.get('base') || ''
+  const targetId = searchParams.get('target') || ''
+
+  const [scans, setScans] = useState<ScanSummary[]>([])
+  const [comparison, setComparison] = useState<ScanComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load completed scans for the pickers, default to the two most recent
+  useEffect(() => {
+    const loadScans = async () => {
+      const res = await fetch(`/api/projects/${projectId}/scans`)
+      if (!res.ok) return
+      const data: (Scan & { is_scheduled?: boolean })[] = await res.json()
+      const completed = data.filter(s => s.status === 'completed')
+      setScans(completed)
+
+      if ((!baseId || !targetId) && completed.length >= 2) {
+        router.replace(`/dashboard/projects/${projectId}/scans/compare?base=${completed[1].id}&target=${completed[0].id}`)
+      }
+    }
+    loadScans()
+  }, [projectId])
+
+  useEffect(() => {
+    if (!baseId || !targetId || baseId === targetId) {
+      setComparison(null)
+      return
+    }
+
+    const loadComparison = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/projects/${projectId}/scans/compare?base=${baseId}&target=${targetId}`)
+        const data = await res.json()
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to compare scans')
+        }
+        setComparison(data.comparison)
+      } catch (err) {
+        console.error('Error comparing scans:', err)
+        setError(err instanceof Error ? err.message : 'Failed to compare scans')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadComparison()
+  }, [projectId, baseId, targetId])
+
+  const selectScan = (side: 'base' | 'target', scanId: string) => {
+    const next = { base: baseId, target: targetId, [side]: scanId }
+    router.replace(`/dashboard/projects/${projectId}/scans/compare?base=${next.base}&target=${next.target}`)
+  }
+
+  const appeared = comparison?.brandChanges.filter(c => c.change === 'appeared') || []
+  const disappeared = comparison?.brandChanges.filter(c => c.change === 'disappeared') || []
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-zinc-950 border-b border-zinc-800/50 lg:shrink-0 px-4 py-4 lg:px-8">
+        <div className="flex items-center gap-6">
+          <Link
+            href={`/dashboard/projects/${projectId}`}
+            className="inline-flex items-center gap-2 text-sm text-zinc-400 hover:text-zinc-100"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Project
+          </Link>
+          <div>
+            <h1 className="text-xl font-semibold flex items-center gap-2">
+              <GitCompare className="w-5 h-5" />
+              Compare Scans
+            </h1>
+            <p className="text-sm text-zinc-400">
+              Changes marked in color are beyond run-to-run noise (95% confidence)
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4 lg:px-8 lg:flex-1 lg:overflow-y-auto">
+        {/* Scan pickers */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-8">
+          {(['base', 'target'] as const).map((side, index) => (
+            <div key={side} className="flex items-center gap-4">
+              {index === 1 && <ArrowRight className="w-4 h-4 text-zinc-500 hidden md:block" />}
+              <Select value={side === 'base' ? baseId : targetId} onValueChange={(value) => selectScan(side, value)}>
+                <SelectTrigger className="w-full md:w-72">
+                  <SelectValue placeholder={side === 'base' ? 'Select earlier scan' : 'Select later scan'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scans.map(scan => (
+                    <SelectItem key={scan.id} value={scan.id}>
+                      {formatScanDate(scan.created_at)} · {scan.overall_score ?? 0}%
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {scans.length < 2 && (
+          <p className="text-zinc-500">At least two completed scans are needed for a comparison.</p>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+          </div>
+        )}
+
+        {error && <p className="text-red-400">{error}</p>}
+
+        {comparison && !loading && (
+          <>
+            {/* Overall */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+              {METRICS.map(metric => (
+                <Card key={metric} style={{ background: 'linear-gradient(to top, #18181b, rgba(24, 24, 27, 0.5))' }}>
+                  <CardContent className="pt-6">
+                    <div className="text-xs font-medium text-zinc-300 mb-2">{METRIC_LABELS[metric]}</div>
+                    <div className="text-lg">
+                      <DeltaCell delta={comparison.overall.metrics[metric]} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {(comparison.onlyInBase > 0 || comparison.onlyInTarget > 0) && (
+              <p className="text-xs text-zinc-500 mb-6">
+                Compared {comparison.overall.pairs} query×model pairs present in both scans
+                ({comparison.onlyInBase} only in earlier scan, {comparison.onlyInTarget} only in later scan).
+              </p>
+            )}
+
+            {/* Brand appeared / disappeared */}
+            {comparison.brandChanges.length > 0 && (
+              <Card className="mb-8">
+                <CardHeader>
+                  <CardTitle className="text-base font-medium">Brand Appeared / Disappeared</CardTitle>
+                  <CardDescription>
+                    Queries where the brand was never mentioned in one scan but mentioned in the other
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {[...appeared, ...disappeared].map(change => (
+                    <div
+                      key={`${change.query_text}|${change.model}`}
+                      className="flex items-center justify-between gap-4 p-3 bg-zinc-800/50 rounded-lg text-sm"
+                    >
+                      <span className="text-zinc-200">{change.query_text}</span>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <span className="text-xs text-zinc-500">{change.model}</span>
+                        {change.change === 'appeared' ? (
+                          <Badge className="gap-1 border-0 bg-emerald-500/10 text-emerald-400">
+                            <Eye className="w-3 h-3" /> Appeared
+                          </Badge>
+                        ) : (
+                          <Badge className="gap-1 border-0 bg-red-500/10 text-red-400">
+                            <EyeOff className="w-3 h-3" /> Disappeared
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <GroupTable
+              title="By Model"
+              description="Average change per model across queries present in both scans"
+              groups={comparison.byModel}
+            />
+
+            <GroupTable
+              title="By Query"
+              description="Average change per query across models present in both scans"
+              groups={comparison.byQuery}
+            />
+          </>
+        )}
+      </div>
+    </>
+  )
+}
@@ -18,7 +18,13 @@ import {
   Clock,
   MessageCircle,
   Info,
-  Lock
+  Lock,
+  Users,
+  Repeat,
+  Database,
+  Wallet,
+  Scale,
+  UserRound
 } from 'lucide-react'
 // Note: Evaluation method removed - always uses AI evaluation
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -29,9 +35,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { AVAILABLE_MODELS, getModelsByProvider, type LLMProvider } from '@/lib/ai'
+import { AVAILABLE_MODELS, getModelsByProvider, isMockProviderEnabled, type LLMProvider } from '@/lib/ai'
 import { usePricing } from '@/lib/hooks/use-pricing'
-import type { Project } from '@/lib/db/schema'
+import type { Project, Competitor, FollowUpTemplateOverrides, ProjectPersona } from '@/lib/db/schema'
+import { QUERY_TYPES, MAX_FOLLOW_UP_QUESTION_LENGTH, getFollowUpQuestion, findBrandMentionsInTemplates, type QueryType, type FollowUpMode } from '@/lib/scan/follow-up-templates'
+import { MAX_SAMPLES_PER_QUERY } from '@/lib/scan/sampling'
+import { BUDGET_WARNING_RATIO, type ProjectBudgetStatus } from '@/lib/credits/budget'
+import { LANGUAGE_OPTIONS } from '@/lib/locales'
+import { MAX_PERSONAS, MAX_PERSONA_FIELD_LENGTH, PERSONA_EXPERTISE_LEVELS, type PersonaExpertise } from '@/lib/queries/personas'
+import { DEFAULT_SCORING_PROFILE, SCORING_COEFFICIENT_LIMITS, type ScoringCoefficient } from '@/lib/scan/scoring-profile'
+import type { RescorePreview } from '@/lib/scan/rescore'
 
 // Recommended models for SCANNING - newest, most capable models for testing queries
 const RECOMMENDED_SCAN_MODELS = [
@@ -57,28 +70,28 @@ const RECOMMENDED_EVALUATION_MODELS = [
   'gpt-5-mini',
 ]
 
-
-// Models that are unreliable for evaluation (chain-of-thought with truncation issues)
-const UNRELIABLE_FOR_EVALUATION = ['gpt-5-nano']
-
 const PROVIDERS: { id: LLMProvider; name: string }[] = [
   { id: 'openai', name: 'OpenAI' },
   { id: 'anthropic', name: 'Anthropic' },
   { id: 'google', name: 'Google AI' },
   { id: 'groq', name: 'Groq' },
   { id: 'perplexity', name: 'Perplexity' },
+  ...(isMockProviderEnabled() ? [{ id: 'mock' as const, name: 'Mock (offline)' }] : []),
 ]
 
-const LANGUAGES = [
-  { value: 'en', label: 'English' },
-  { value: 'cs', label: 'Czech' },
-  { value: 'sk', label: 'Slovak' },
-  { value: 'de', label: 'German' },
-  { value: 'pl', label: 'Polish' },
-  { value: 'es', label: 'Spanish' },
-  { value: 'fr', label: 'French' },
+// Resilience scoring coefficients; factors are edited as percentages
+const SCORING_FIELDS: { key: ScoringCoefficient; label: string; description: string; unit: '%' | 'pts' }[] = [
+  { key: 'improvementFactor', label: 'Better follow-up', description: 'Share of a follow-up improvement added to the score', unit: '%' },
+  { key: 'declineFactor', label: 'Worse follow-up', description: 'Share of a decline subtracted while the brand stays', unit: '%' },
+  { key: 'disappearanceFactor', label: 'Brand disappears', description: 'Share of a decline subtracted when the brand drops out', unit: '%' },
+  { key: 'persistenceBonus', label: 'Persistence bonus', description: 'Points for a brand mentioned at every level', unit: 'pts' },
+  { key: 'persistencePenalty', label: 'Persistence penalty', description: 'Points lost when the brand drops out of all follow-ups', unit: 'pts' },
 ]
 
+function toScoringInput(field: (typeof SCORING_FIELDS)[number], value: number): string {
+  return String(field.unit === '%' ? Math.round(value * 1000) / 10 : value)
+}
+
 const DAYS_OF_WEEK = [
   { value: 0, label: 'Sunday' },
   { value: 1, label: 'Monday' },
@@ -126,7 +139,7 @@ export default function ProjectSettingsPage() {
             value: m.id,
             label: m.name,
             provider: m.provider,
-            unreliableForEval: UNRELIABLE_FOR_EVALUATION.includes(m.id),
+            unreliableForEval: m.chainOfThought === true,
           })),
         cheapestModel: null as string | null,
       }
@@ -147,7 +160,7 @@ export default function ProjectSettingsPage() {
           value: p.model,
           label: modelInfo?.name || p.model,
           provider: p.provider,
-          unreliableForEval: UNRELIABLE_FOR_EVALUATION.includes(p.model),
+          unreliableForEval: modelInfo?.chainOfThought === true,
         }
       }),
       cheapestModel: cheapestModel?.model || null,
@@ -194,6 +207,7 @@ export default function ProjectSettingsPage() {
   
   // All providers are available since we use centralized API keys via Vercel AI Gateway
   const availableProviders: LLMProvider[] = ['openai', 'anthropic', 'google', 'groq', 'perplexity']
+  if (isMockProviderEnabled()) availableProviders.push('mock')
   
   // Form state
   const [name, setName] = useState('')
@@ -203,6 +217,12 @@ export default function ProjectSettingsPage() {
   const [keywords, setKeywords] = useState<string[]>([])
   const [newBrand, setNewBrand] = useState('')
   const [newKeyword, setNewKeyword] = useState('')
+  const [competitors, setCompetitors] = useState<Competitor[]>([])
+  const [newCompetitorName, setNewCompetitorName] = useState('')
+  const [newCompetitorVariations, setNewCompetitorVariations] = useState('')
+  const [newCompetitorDomain, setNewCompetitorDomain] = useState('')
+  const [personas, setPersonas] = useState<ProjectPersona[]>([])
+  const [newPersona, setNewPersona] = useState({ name: '', role: '', expertise: 'intermediate' as PersonaExpertise, region: '', budget: '' })
   const [selectedModels, setSelectedModels] = useState<string[]>(['gpt-5-nano'])
   const [modelsChanged, setModelsChanged] = useState(false)
   
@@ -218,6 +238,29 @@ export default function ProjectSettingsPage() {
   // Follow-up queries state
   const [followUpEnabled, setFollowUpEnabled] = useState(false)
   const [followUpDepth, setFollowUpDepth] = useState<number>(1)
+  const [followUpTemplates, setFollowUpTemplates] = useState<FollowUpTemplateOverrides>({})
+  const [followUpMode, setFollowUpMode] = useState<FollowUpMode>('template')
+  
+  // Repeated sampling state
+  const [samplesPerQuery, setSamplesPerQuery] = useState<number>(1)
+  const [cacheGeoResponses, setCacheGeoResponses] = useState(false)
+
+  // Monthly budget state (dollars in the form, cents in the DB)
+  const [monthlyBudget, setMonthlyBudget] = useState('')
+  const [budgetStatus, setBudgetStatus] = useState<ProjectBudgetStatus | null>(null)
+
+  // Scoring profile state (empty = default coefficient)
+  const [scoringForm, setScoringForm] = useState<Partial<Record<ScoringCoefficient, string>>>({})
+
+  // Re-scoring of completed scans (preview first, then apply)
+  const [rescoreFrom, setRescoreFrom] = useState('')
+  const [rescoreTo, setRescoreTo] = useState('')
+  const [rescorePreview, setRescorePreview] = useState<RescorePreview | null>(null)
+  // Page shown in the preview (null = newest) and the next, older page
+  const [rescoreBefore, setRescoreBefore] = useState<string | null>(null)
+  const [rescoreNext, setRescoreNext] = useState<string | null>(null)
+  const [rescoreLoading, setRescoreLoading] = useState(false)
+  const [rescoreMessage, setRescoreMessage] = useState<string | null>(null)
   
   // AI Helper models state
   const [queryGenerationModel, setQueryGenerationModel] = useState('gpt-5-mini')
@@ -238,6 +281,8 @@ export default function ProjectSettingsPage() {
         setLanguage(data.language || 'en')
         setBrandVariations(data.brand_variations || [])
         setKeywords(data.target_keywords || [])
+        setCompetitors(data.competitors || [])
+        setPersonas(data.personas || [])
         setSelectedModels(data.selected_models || ['gpt-5-mini'])
         // Scheduled scan settings
         setScheduledScanEnabled(data.scheduled_scan_enabled || false)
@@ -249,6 +294,17 @@ export default function ProjectSettingsPage() {
         // Follow-up settings
         setFollowUpEnabled(data.follow_up_enabled || false)
         setFollowUpDepth(data.follow_up_depth ?? 1)
+        setFollowUpTemplates(data.follow_up_templates || {})
+        setFollowUpMode(data.follow_up_mode || 'template')
+        setSamplesPerQuery(data.samples_per_query ?? 1)
+        setCacheGeoResponses(data.cache_geo_responses || false)
+        setMonthlyBudget(data.monthly_budget_cents ? (data.monthly_budget_cents / 100).toString() : '')
+        setBudgetStatus(data.budget || null)
+        setScoringForm(Object.fromEntries(
+          SCORING_FIELDS
+            .filter(field => typeof data.scoring_profile?.[field.key] === 'number')
+            .map(field => [field.key, toScoringInput(field, data.scoring_profile[field.key])])
+        ))
         // AI Helper models
         setQueryGenerationModel(data.query_generation_model || 'gpt-5-mini')
         setEvaluationModel(data.evaluation_model || 'gpt-5-mini')
@@ -296,6 +352,43 @@ export default function ProjectSettingsPage() {
     setKeywords(prev => prev.filter(k => k !== keyword))
   }
 
+  const addCompetitor = () => {
+    const name = newCompetitorName.trim()
+    if (!name) return
+    if (competitors.some(c => c.name.toLowerCase() === name.toLowerCase())) return
+    const variations = newCompetitorVariations.split(',').map(v => v.trim()).filter(v => v.length > 0)
+    const domain = newCompetitorDomain.trim().toLowerCase().replace(/^https?:\/\//, '') || null
+    setCompetitors(prev => [...prev, { name, variations, domain }])
+    setNewCompetitorName('')
+    setNewCompetitorVariations('')
+    setNewCompetitorDomain('')
+  }
+
+  const removeCompetitor = (name: string) => {
+    setCompetitors(prev => prev.filter(c => c.name !== name))
+  }
+
+  const addPersona = () => {
+    const name = newPersona.name.trim()
+    const role = newPersona.role.trim()
+    if (!name || !role || personas.length >= MAX_PERSONAS) return
+    if (personas.some(p => p.name.toLowerCase() === name.toLowerCase())) return
+    setPersonas(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name,
+      role,
+      expertise: newPersona.expertise,
+      region: newPersona.region.trim() || null,
+      budget: newPersona.budget.trim() || null,
+    }])
+    setNewPersona({ name: '', role: '', expertise: 'intermediate', region: '', budget: '' })
+  }
+
+  // Queries of a removed persona are asked without one
+  const removePersona = (id: string) => {
+    setPersonas(prev => prev.filter(p => p.id !== id))
+  }
+
   const toggleModel = (model: string) => {
     setSelectedModels(prev => {
       const newModels = prev.includes(model)
@@ -306,7 +399,33 @@ export default function ProjectSettingsPage() {
     })
   }
 
+  const setFollowUpTemplate = (queryType: QueryType, level: number, question: string) => {
+    setFollowUpTemplates(prev => {
+      const chain = [...(prev[queryType] || [])]
+      while (chain.length < level) chain.push('')
+      chain[level - 1] = question
+      return { ...prev, [queryType]: chain }
+    })
+  }
+
+  // Custom follow-ups must not name the brand (checked again on save)
+  const templateIssues = useMemo(
+    () => findBrandMentionsInTemplates(followUpTemplates, brandVariations, domain, language),
+    [followUpTemplates, brandVariations, domain, language]
+  )
+
+  // Form values back to coefficients; weights are not edited here and are kept
+  const buildScoringProfile = () => {
+    const profile: Record<string, unknown> = { followUpWeights: project?.scoring_profile?.followUpWeights }
+    for (const field of SCORING_FIELDS) {
+      const value = parseFloat(scoringForm[field.key] || '')
+      if (!Number.isNaN(value)) profile[field.key] = field.unit === '%' ? value / 100 : value
+    }
+    return profile
+  }
+
   const saveSettings = async () => {
+    if (templateIssues.length > 0) return
     setSaving(true)
     try {
       const res = await fetch(`/api/projects/${projectId}`, {
@@ -318,6 +437,8 @@ export default function ProjectSettingsPage() {
           language,
           brand_variations: brandVariations,
           target_keywords: keywords,
+          competitors,
+          personas,
           llm_models: selectedModels,
           scheduled_scan_enabled: scheduledScanEnabled,
           scheduled_scan_frequency: scheduledFrequency,
@@ -326,6 +447,12 @@ export default function ProjectSettingsPage() {
           scheduled_scan_day_of_month: scheduledDayOfMonth,
           follow_up_enabled: followUpEnabled,
           follow_up_depth: followUpDepth,
+          follow_up_templates: followUpTemplates,
+          follow_up_mode: followUpMode,
+          samples_per_query: samplesPerQuery,
+          cache_geo_responses: cacheGeoResponses,
+          monthly_budget_cents: monthlyBudget.trim() ? Math.round(parseFloat(monthlyBudget) * 100) : null,
+          scoring_profile: buildScoringProfile(),
           query_generation_model: queryGenerationModel,
           evaluation_model: evaluationModel,
         }),
@@ -344,6 +471,53 @@ export default function ProjectSettingsPage() {
     }
   }
 
+  const previewRescore = async (before: string | null = null) => {
+    setRescoreLoading(true)
+    setRescoreMessage(null)
+    try {
+      const params = new URLSearchParams()
+      if (rescoreFrom) params.set('from', rescoreFrom)
+      if (rescoreTo) params.set('to', rescoreTo)
+      if (before) params.set('before', before)
+      const res = await fetch(`/api/projects/${projectId}/scans/rescore?${params}`)
+      const data = await res.json()
+      if (res.ok) {
+        setRescorePreview(data)
+        setRescoreBefore(before)
+        setRescoreNext(data.nextCursor)
+      } else {
+        setRescorePreview(null)
+        setRescoreNext(null)
+        setRescoreMessage(data.error || 'Failed to preview re-scoring')
+      }
+    } catch (error) {
+      console.error('Error previewing re-scoring:', error)
+    } finally {
+      setRescoreLoading(false)
+    }
+  }
+
+  const applyRescore = async () => {
+    setRescoreLoading(true)
+    try {
+      const res = await fetch(`/api/projects/${projectId}/scans/rescore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: rescoreFrom || null, to: rescoreTo || null, before: rescoreBefore }),
+      })
+      const data = await res.json()
+      setRescorePreview(null)
+      setRescoreNext(res.ok ? data.nextCursor : null)
+      setRescoreMessage(res.ok
+        ? `${data.updated} scan${data.updated === 1 ? '' : 's'} re-scored (formula v${data.formulaVersion}, profile v${data.profileVersion})`
+        : data.error || 'Failed to re-score scans')
+    } catch (error) {
+      console.error('Error re-scoring scans:', error)
+    } finally {
+      setRescoreLoading(false)
+    }
+  }
+
   const deleteProject = async () => {
     if (!confirm('Are you sure you want to delete this project? This action cannot be undone.')) {
       return
@@ -412,7 +586,7 @@ export default function ProjectSettingsPage() {
                 <><Trash2 className="w-4 h-4 mr-2" /> Delete Project</>
               )}
             </Button>
-            <Button size="default" onClick={saveSettings} disabled={saving}>
+            <Button size="default" onClick={saveSettings} disabled={saving || templateIssues.length > 0}>
               {saving ? (
                 <><Loader2 className="w-4 h-4 animate-spin mr-2" /> Saving...</>
               ) : (
@@ -516,7 +690,7 @@ export default function ProjectSettingsPage() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {LANGUAGES.map((lang) => (
+                    {LANGUAGE_OPTIONS.map((lang) => (
                       <SelectItem key={lang.value} value={lang.value}>
                         {lang.label}
                       </SelectItem>
@@ -530,6 +704,169 @@ export default function ProjectSettingsPage() {
 
           <Separator />
 
+          {/* Competitors */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                <CardTitle>Competitors</CardTitle>
+              </div>
+              <CardDescription>
+                Track which competitors AI models mention instead of your brand (share of voice)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Input
+                  placeholder="Competitor name"
+                  value={newCompetitorName}
+                  onChange={(e) => setNewCompetitorName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addCompetitor())}
+                />
+                <Input
+                  placeholder="Variations (comma separated)"
+                  value={newCompetitorVariations}
+                  onChange={(e) => setNewCompetitorVariations(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addCompetitor())}
+                />
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="competitor.com"
+                    value={newCompetitorDomain}
+                    onChange={(e) => setNewCompetitorDomain(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addCompetitor())}
+                  />
+                  <Button type="button" size="icon" variant="secondary" onClick={addCompetitor}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              {competitors.length > 0 ? (
+                <div className="space-y-2">
+                  {competitors.map((competitor) => (
+                    <div key={competitor.name} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{competitor.name}</span>
+                          {competitor.domain && (
+                            <span className="text-xs text-muted-foreground">{competitor.domain}</span>
+                          )}
+                        </div>
+                        {competitor.variations.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {competitor.variations.map((variation) => (
+                              <Badge key={variation} variant="secondary" className="text-xs">{variation}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <button type="button" onClick={() => removeCompetitor(competitor.name)} className="text-muted-foreground hover:text-foreground">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No competitors tracked yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Separator />
+
+          {/* Personas */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <UserRound className="w-5 h-5" />
+                <CardTitle>Personas</CardTitle>
+              </div>
+              <CardDescription>
+                Audiences to generate queries for. Scans ask a persona&apos;s queries as that person, so results can be compared per audience.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <Input
+                  placeholder="Name (e.g. Finance lead)"
+                  value={newPersona.name}
+                  maxLength={MAX_PERSONA_FIELD_LENGTH}
+                  onChange={(e) => setNewPersona(prev => ({ ...prev, name: e.target.value }))}
+                />
+                <Input
+                  placeholder="Role (e.g. CFO at a mid-size retailer)"
+                  value={newPersona.role}
+                  maxLength={MAX_PERSONA_FIELD_LENGTH}
+                  onChange={(e) => setNewPersona(prev => ({ ...prev, role: e.target.value }))}
+                />
+                <Select
+                  value={newPersona.expertise}
+                  onValueChange={(value) => setNewPersona(prev => ({ ...prev, expertise: value as PersonaExpertise }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERSONA_EXPERTISE_LEVELS.map(level => (
+                      <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Region (optional)"
+                  value={newPersona.region}
+                  maxLength={MAX_PERSONA_FIELD_LENGTH}
+                  onChange={(e) => setNewPersona(prev => ({ ...prev, region: e.target.value }))}
+                />
+                <div className="flex gap-2 md:col-span-2">
+                  <Input
+                    placeholder="Budget (optional, e.g. under $50/month)"
+                    value={newPersona.budget}
+                    maxLength={MAX_PERSONA_FIELD_LENGTH}
+                    onChange={(e) => setNewPersona(prev => ({ ...prev, budget: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addPersona())}
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="secondary"
+                    onClick={addPersona}
+                    disabled={!newPersona.name.trim() || !newPersona.role.trim() || personas.length >= MAX_PERSONAS}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              {personas.length > 0 ? (
+                <div className="space-y-2">
+                  {personas.map((persona) => (
+                    <div key={persona.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{persona.name}</span>
+                          <Badge variant="secondary" className="text-xs capitalize">{persona.expertise}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {[persona.role, persona.region, persona.budget].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                      <button type="button" onClick={() => removePersona(persona.id)} className="text-muted-foreground hover:text-foreground">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No personas yet. Queries are generated for a generic user.</p>
+              )}
+              {personas.length >= MAX_PERSONAS && (
+                <p className="text-xs text-muted-foreground">Up to {MAX_PERSONAS} personas per project.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Separator />
+
           {/* AI Models */}
           <Card>
             <CardHeader>
@@ -785,6 +1122,77 @@ export default function ProjectSettingsPage() {
                     </div>
                   </div>
 
+                  {/* Mode Selection */}
+                  <div className="space-y-4">
+                    <Label>Question Mode</Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {([
+                        { mode: 'template', title: 'Templates', description: 'Same questions every scan - best for tracking over time' },
+                        { mode: 'adaptive', title: 'Adaptive', description: 'The query generation model asks about the options each answer listed' },
+                      ] as const).map((option) => (
+                        <div
+                          key={option.mode}
+                          onClick={() => setFollowUpMode(option.mode)}
+                          className={`
+                            flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors
+                            ${followUpMode === option.mode ? 'bg-primary/10 border-primary' : 'border-border hover:bg-muted'}
+                          `}
+                        >
+                          <div className={`
+                            w-5 h-5 mt-0.5 rounded-full border-2 flex items-center justify-center shrink-0
+                            ${followUpMode === option.mode ? 'border-primary bg-primary' : 'border-muted-foreground'}
+                          `}>
+                            {followUpMode === option.mode && <Check className="w-3 h-3 text-primary-foreground" />}
+                          </div>
+                          <div>
+                            <span className="font-medium">{option.title}</span>
+                            <p className="text-xs text-muted-foreground">{option.description}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Custom Questions */}
+                  <div className="space-y-4">
+                    <div className="space-y-0.5">
+                      <Label>Follow-up Questions</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Write your own questions per query type, in any language. Empty fields use the default shown.
+                        Questions must not mention your brand or domain.
+                        {followUpMode === 'adaptive' && ' In adaptive mode these are used when a generated question is rejected.'}
+                      </p>
+                    </div>
+                    {QUERY_TYPES.map((queryType) => (
+                      <div key={queryType} className="space-y-2">
+                        <p className="text-sm font-medium capitalize">{queryType}</p>
+                        {Array.from({ length: followUpDepth }, (_, i) => i + 1).map((level) => {
+                          const issue = templateIssues.find(t => t.queryType === queryType && t.level === level)
+                          return (
+                            <div key={level} className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <span className="font-mono text-xs text-muted-foreground w-6">F{level}</span>
+                                <Input
+                                  value={followUpTemplates[queryType]?.[level - 1] || ''}
+                                  onChange={(e) => setFollowUpTemplate(queryType, level, e.target.value)}
+                                  placeholder={getFollowUpQuestion(queryType, level as 1 | 2 | 3, language)}
+                                  maxLength={MAX_FOLLOW_UP_QUESTION_LENGTH}
+                                  className={issue ? 'border-red-500' : undefined}
+                                />
+                              </div>
+                              {issue && (
+                                <p className="text-xs text-red-500 pl-8 flex items-center gap-1">
+                                  <AlertCircle className="w-3 h-3" />
+                                  {issue.message}
+                                </p>
+                              )}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    ))}
+                  </div>
+
                   {/* How it works */}
                   <div className="p-4 bg-muted/50 rounded-lg space-y-3">
                     <div className="flex items-center gap-2 text-sm font-medium">
@@ -816,6 +1224,227 @@ export default function ProjectSettingsPage() {
 
           <Separator />
 
+          {/* Scoring Profile */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                <CardTitle>Scoring Profile</CardTitle>
+                <Badge variant="secondary" className="ml-auto">
+                  Version {project?.scoring_profile_version ?? 1}
+                </Badge>
+              </div>
+              <CardDescription>
+                How follow-ups move the resilience score. Leave a field empty to use the default.
+                Changes apply to new scans; completed scans keep the version they were scored with until re-scored below.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {SCORING_FIELDS.map((field) => {
+                  const limits = SCORING_COEFFICIENT_LIMITS[field.key]
+                  return (
+                    <div key={field.key} className="space-y-2">
+                      <Label htmlFor={`scoring-${field.key}`}>
+                        {field.label} ({field.unit})
+                      </Label>
+                      <Input
+                        id={`scoring-${field.key}`}
+                        type="number"
+                        min={field.unit === '%' ? limits.min * 100 : limits.min}
+                        max={field.unit === '%' ? limits.max * 100 : limits.max}
+                        step={field.unit === '%' ? 5 : 0.5}
+                        placeholder={toScoringInput(field, DEFAULT_SCORING_PROFILE[field.key])}
+                        value={scoringForm[field.key] ?? ''}
+                        onChange={(e) => setScoringForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        className="w-32"
+                      />
+                      <p className="text-xs text-muted-foreground">{field.description}</p>
+                    </div>
+                  )
+                })}
+              </div>
+
+              <Separator />
+
+              {/* Re-score completed scans from their stored results */}
+              <div className="space-y-3">
+                <div className="space-y-0.5">
+                  <Label>Re-score Past Scans</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Recompute scores of completed scans from their stored results with the current formulas and saved profile.
+                    No AI calls, no credits. Every change is kept in the audit log.
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="rescore-from" className="text-xs">From</Label>
+                    <Input id="rescore-from" type="date" value={rescoreFrom} onChange={(e) => { setRescoreFrom(e.target.value); setRescorePreview(null); setRescoreNext(null) }} className="w-40" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rescore-to" className="text-xs">To</Label>
+                    <Input id="rescore-to" type="date" value={rescoreTo} onChange={(e) => { setRescoreTo(e.target.value); setRescorePreview(null); setRescoreNext(null) }} className="w-40" />
+                  </div>
+                  <Button variant="outline" onClick={() => previewRescore()} disabled={rescoreLoading}>
+                    {rescoreLoading && !rescorePreview ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                    Preview
+                  </Button>
+                  {rescorePreview && rescorePreview.changedScans > 0 && (
+                    <Button onClick={applyRescore} disabled={rescoreLoading}>
+                      {rescoreLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                      Re-score {rescorePreview.changedScans} scan{rescorePreview.changedScans === 1 ? '' : 's'}
+                    </Button>
+                  )}
+                  {rescoreNext && (
+                    <Button variant="outline" onClick={() => previewRescore(rescoreNext)} disabled={rescoreLoading}>
+                      Older scans
+                    </Button>
+                  )}
+                </div>
+                {rescoreMessage && (
+                  <p className="text-sm text-muted-foreground">{rescoreMessage}</p>
+                )}
+                {rescorePreview && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      {rescorePreview.scans.length} completed scan{rescorePreview.scans.length === 1 ? '' : 's'}, {rescorePreview.changedScans} with changes
+                      {' '}(formula v{rescorePreview.formulaVersion}, profile v{rescorePreview.profileVersion})
+                      {rescorePreview.truncated && ' - older scans on the next page'}
+                    </p>
+                    {rescorePreview.scans.length > 0 && (
+                      <div className="max-h-64 overflow-y-auto border rounded-lg divide-y text-sm">
+                        {rescorePreview.scans.map((scan) => (
+                          <div key={scan.scanId} className="flex items-center justify-between gap-3 px-3 py-2">
+                            <span className="text-muted-foreground">{new Date(scan.createdAt).toLocaleString()}</span>
+                            <span className="font-mono">
+                              {scan.previous.overall_score ?? '-'} → {scan.current.overall_score}
+                            </span>
+                            <span className="text-xs text-muted-foreground w-32 text-right">
+                              v{scan.previous.scoring_formula_version ?? '?'}/{scan.previous.scoring_profile_version ?? '?'} → v{scan.current.scoring_formula_version}/{scan.current.scoring_profile_version}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Separator />
+
+          {/* Repeated Sampling */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Repeat className="w-5 h-5" />
+                <CardTitle>Repeated Sampling</CardTitle>
+              </div>
+              <CardDescription>
+                Ask each query multiple times per model in manual scans to measure how much answers vary
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-5 gap-3">
+                {Array.from({ length: MAX_SAMPLES_PER_QUERY }, (_, i) => i + 1).map((samples) => (
+                  <div
+                    key={samples}
+                    onClick={() => setSamplesPerQuery(samples)}
+                    className={`
+                      flex flex-col items-center gap-2 p-3 rounded-lg border cursor-pointer transition-colors text-center
+                      ${samplesPerQuery === samples ? 'bg-primary/10 border-primary' : 'border-border hover:bg-muted'}
+                    `}
+                  >
+                    <span className="text-lg font-semibold">{samples}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {samples}× cost
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+              {samplesPerQuery > 1 && (
+                <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 shrink-0" />
+                  <p className="text-sm text-amber-600 dark:text-amber-400">
+                    <strong>Cost impact:</strong> Each query×model pair (including follow-ups) runs {samplesPerQuery}×. 
+                    Scans will report mean, min/max and a 95% confidence interval for visibility and recommendation.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Separator />
+
+          {/* Response Cache */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Database className="w-5 h-5" />
+                <CardTitle>Response Cache</CardTitle>
+              </div>
+              <CardDescription>
+                Identical AI calls are answered from cache at no cost. Evaluations are always cached.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="cache-geo-toggle">Cache Query Answers</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Reuse the answer when the same query is asked to the same model again (e.g. retried or duplicated scans).
+                    Repeated samples stay independent. Leave off to measure fresh answers every scan.
+                  </p>
+                </div>
+                <Switch
+                  id="cache-geo-toggle"
+                  checked={cacheGeoResponses}
+                  onCheckedChange={setCacheGeoResponses}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Separator />
+
+          {/* Monthly Budget */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Wallet className="w-5 h-5" />
+                <CardTitle>Monthly Budget</CardTitle>
+              </div>
+              <CardDescription>
+                Cap what this project may spend per calendar month. Scans that would exceed it are not started
+                and scheduled scans are skipped. You are warned at {Math.round(BUDGET_WARNING_RATIO * 100)}%.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="monthly-budget">Budget (USD per month)</Label>
+                <Input
+                  id="monthly-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No limit"
+                  value={monthlyBudget}
+                  onChange={(e) => setMonthlyBudget(e.target.value)}
+                  className="w-40"
+                />
+              </div>
+              {budgetStatus && (
+                <p className="text-sm text-muted-foreground">
+                  Spent this month: ${(budgetStatus.spentCents / 100).toFixed(2)}
+                  {budgetStatus.budgetCents !== null && ` of $${(budgetStatus.budgetCents / 100).toFixed(2)} (${Math.round((budgetStatus.ratio || 0) * 100)}%)`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Separator />
+
           {/* Scheduled Scans */}
           <Card>
             <CardHeader>
@@ -12,9 +12,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Switch } from '@/components/ui/switch'
-import { AVAILABLE_MODELS, getModelsByProvider, type LLMProvider } from '@/lib/ai'
+import { AVAILABLE_MODELS, getModelsByProvider, isMockProviderEnabled, type LLMProvider } from '@/lib/ai'
 import { useToast } from '@/components/ui/toast'
 import { usePricing, formatPrice } from '@/lib/hooks/use-pricing'
+import { LANGUAGE_OPTIONS } from '@/lib/locales'
 
 // Recommended models for different tasks
 const RECOMMENDED_GENERATION_MODELS = ['claude-sonnet-4-20250514', 'gpt-5-2', 'sonar-pro']
@@ -29,22 +30,13 @@ const RECOMMENDED_SCAN_MODELS = [
   'sonar-reasoning-pro',
 ]
 
-const LANGUAGES = [
-  { value: 'en', label: 'English' },
-  { value: 'cs', label: 'Czech' },
-  { value: 'sk', label: 'Slovak' },
-  { value: 'de', label: 'German' },
-  { value: 'pl', label: 'Polish' },
-  { value: 'es', label: 'Spanish' },
-  { value: 'fr', label: 'French' },
-]
-
 const PROVIDERS: { id: LLMProvider; name: string }[] = [
   { id: 'openai', name: 'OpenAI' },
   { id: 'anthropic', name: 'Anthropic' },
   { id: 'google', name: 'Google AI' },
   { id: 'groq', name: 'Groq' },
   { id: 'perplexity', name: 'Perplexity' },
+  ...(isMockProviderEnabled() ? [{ id: 'mock' as const, name: 'Mock (offline)' }] : []),
 ]
 
 const DAYS_OF_WEEK = [
@@ -76,6 +68,7 @@ export default function NewProjectPage() {
   
   // All providers are available since we use centralized API keys via Vercel AI Gateway
   const availableProviders: LLMProvider[] = ['openai', 'anthropic', 'google', 'groq', 'perplexity']
+  if (isMockProviderEnabled()) availableProviders.push('mock')
   
   // Form state
   const [name, setName] = useState('')
@@ -498,7 +491,7 @@ export default function NewProjectPage() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {LANGUAGES.map((lang) => (
+                    {LANGUAGE_OPTIONS.map((lang) => (
                       <SelectItem key={lang.value} value={lang.value}>
                         {lang.label}
                       </SelectItem>
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { invalidateModelCatalog } from '@/lib/ai/catalog'
+import { safeErrorMessage } from '@/lib/api-error'
+
+export const dynamic = 'force-dynamic'
+
+// Markup applied to list prices when a new model gets its pricing_config row
+const DEFAULT_MARKUP_PERCENTAGE = 200
+
+// Editable catalog columns
+const EDITABLE_FIELDS = [
+  'name',
+  'description',
+  'gateway_model_id',
+  'context_window',
+  'capabilities',
+  'chain_of_thought',
+  'aliases',
+  'input_price_usd',
+  'output_price_usd',
+  'available_free_tier',
+  'is_active',
+  'deprecated_at',
+  'replacement_model',
+] as const
+
+/**
+ * Pick and normalize editable fields from a request body
+ */
+function toCatalogUpdates(body: Record<string, any>): Record<string, any> {
+  const updates: Record<string, any> = {}
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] === undefined) continue
+    const value = body[field]
+
+    switch (field) {
+      case 'capabilities':
+      case 'aliases':
+        updates[field] = (Array.isArray(value) ? value : String(value).split(','))
+          .map((item: string) => String(item).trim())
+          .filter(Boolean)
+        break
+      case 'context_window':
+        updates[field] = Math.max(0, Math.round(Number(value) || 0))
+        break
+      case 'input_price_usd':
+      case 'output_price_usd':
+        updates[field] = Math.max(0, Number(value) || 0)
+        break
+      case 'chain_of_thought':
+      case 'available_free_tier':
+      case 'is_active':
+        updates[field] = value === true
+        break
+      case 'gateway_model_id':
+      case 'deprecated_at':
+      case 'replacement_model':
+        updates[field] = value ? String(value).trim() : null
+        break
+      default:
+        updates[field] = String(value).trim()
+    }
+  }
+
+  return updates
+}
+
+async function requireAdmin() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { supabase, error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from(TABLES.USER_PROFILES)
+    .select('tier')
+    .eq('user_id', user.id)
+    .single()
+
+  if (profile?.tier !== 'admin') {
+    return { supabase, error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) }
+  }
+
+  return { supabase, error: null }
+}
+
+/**
+ * GET /api/admin/models - Model catalog (admin only)
+ */
+export async function GET() {
+  try {
+    const { supabase, error: adminError } = await requireAdmin()
+    if (adminError) return adminError
+
+    const { data: models, error } = await supabase
+      .from(TABLES.MODEL_CATALOG)
+      .select('*')
+      .order('provider', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ models: models || [] })
+  } catch (error: unknown) {
+    console.error('[Admin Models API] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to fetch models') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/models - Add a model to the catalog (admin only)
+ * Also creates its pricing_config row (list price = final price) if missing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, error: adminError } = await requireAdmin()
+    if (adminError) return adminError
+
+    const body = await request.json()
+    const id = String(body.id || '').trim()
+    const provider = String(body.provider || '').trim()
+
+    if (!id || !provider || !body.name) {
+      return NextResponse.json({ error: 'Missing id, provider or name' }, { status: 400 })
+    }
+    if (!/^[a-z0-9][a-z0-9.-]*$/.test(id)) {
+      return NextResponse.json({ error: 'Model id may only contain lowercase letters, digits, dots and dashes' }, { status: 400 })
+    }
+
+    const { data: model, error } = await supabase
+      .from(TABLES.MODEL_CATALOG)
+      .insert({ id, provider, ...toCatalogUpdates(body) })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const { data: existingPricing } = await supabase
+      .from(TABLES.PRICING_CONFIG)
+      .select('id')
+      .eq('model', id)
+      .maybeSingle()
+
+    if (!existingPricing) {
+      const markup = 1 + DEFAULT_MARKUP_PERCENTAGE / 100
+      const { error: pricingError } = await supabase
+        .from(TABLES.PRICING_CONFIG)
+        .insert({
+          provider,
+          model: id,
+          base_input_cost_cents: Math.round((model.input_price_usd * 100) / markup),
+          base_output_cost_cents: Math.round((model.output_price_usd * 100) / markup),
+          markup_percentage: DEFAULT_MARKUP_PERCENTAGE,
+          is_active: model.is_active,
+          available_free_tier: model.available_free_tier,
+        })
+
+      if (pricingError) {
+        console.error(`[Admin Models] Pricing for ${id} not created:`, pricingError.message)
+      }
+    }
+
+    invalidateModelCatalog()
+    console.log(`[Admin Models] Added model ${id}`)
+
+    return NextResponse.json({ success: true, model })
+  } catch (error: unknown) {
+    console.error('[Admin Models API] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to create model') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/admin/models - Update a catalog entry (admin only)
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { supabase, error: adminError } = await requireAdmin()
+    if (adminError) return adminError
+
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing model id' }, { status: 400 })
+    }
+
+    const updates = toCatalogUpdates(body)
+
+    if (updates.replacement_model === id) {
+      return NextResponse.json({ error: 'A model cannot replace itself' }, { status: 400 })
+    }
+    if (updates.replacement_model) {
+      const { data: replacement } = await supabase
+        .from(TABLES.MODEL_CATALOG)
+        .select('id')
+        .eq('id', updates.replacement_model)
+        .maybeSingle()
+
+      if (!replacement) {
+        return NextResponse.json({ error: `Unknown replacement model: ${updates.replacement_model}` }, { status: 400 })
+      }
+    }
+
+    const { data: model, error } = await supabase
+      .from(TABLES.MODEL_CATALOG)
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    invalidateModelCatalog()
+    console.log(`[Admin Models] Updated model ${id}:`, updates)
+
+    return NextResponse.json({ success: true, model })
+  } catch (error: unknown) {
+    console.error('[Admin Models API] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to update model') },
+      { status: 500 }
+    )
+  }
+}
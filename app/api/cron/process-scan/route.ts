@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { TABLES } from '@/lib/db/schema'
-import { getPricingConfigs, estimateScanCost, createReservation, consumeReservation } from '@/lib/credits'
-import { AVAILABLE_MODELS } from '@/lib/ai/providers'
-import { callGEOQuery, callEvaluation, getCheapestEvaluationModel, getModelInfo } from '@/lib/ai'
-import { calculateDynamicCost } from '@/lib/credits'
-import { getFollowUpQuestion, type QueryType } from '@/lib/scan/follow-up-templates'
+import { getPricingConfigs, estimateScanCost, createReservation, releaseReservation } from '@/lib/credits'
+import { resolveProjectModels } from '@/lib/ai/deprecation'
+import { loadModelCatalog } from '@/lib/ai/catalog'
+import { createSupabaseCacheStore } from '@/lib/ai'
+import { checkScanBudget } from '@/lib/credits/budget'
+import { getFollowUpHelperModel } from '@/lib/scan/adaptive-follow-up'
+import {
+  runScanPair,
+  buildScanPairs,
+  addScanTotals,
+  getEvaluationModelForUser,
+  PAIR_CONCURRENCY,
+  type ScanPair,
+  type ScanPairContext,
+} from '@/lib/scan/runner'
+import { finalizeScan } from '@/lib/scan/finalize'
 
 /**
  * PROCESS SCAN WORKER
@@ -13,6 +24,8 @@ import { getFollowUpQuestion, type QueryType } from '@/lib/scan/follow-up-templa
  * Processes ONE scan from the queue using atomic locking.
  * Multiple workers can run in parallel safely.
  * After completing one scan, triggers itself to process the next.
+ * Pairs run and the scan is finalized like a manual scan (lib/scan/runner.ts,
+ * lib/scan/finalize.ts).
  */
 
 export const runtime = 'nodejs'
@@ -57,6 +70,8 @@ async function handleProcessScan(request: NextRequest) {
   const workerId = new URL(request.url).searchParams.get('worker') || '0'
 
   try {
+    await loadModelCatalog(supabase)
+
     // Atomic claim: Find and lock one pending scan
     // Using RPC for atomic operation
     const { data: claimedScan, error: claimError } = await supabase
@@ -181,7 +196,7 @@ async function processClaimedScan(
   // Get queries
   const { data: queries } = await supabase
     .from(TABLES.PROJECT_QUERIES)
-    .select('*')
+    .select('id, query_text, query_type, persona_id')
     .eq('project_id', project.id)
     .eq('is_active', true)
 
@@ -190,20 +205,51 @@ async function processClaimedScan(
     return triggerNext(supabase, workerId, request, { skipped: 1, reason: 'No queries' })
   }
 
-  // Filter models
-  const availableModelIds = AVAILABLE_MODELS.filter(m => m.isActive).map(m => m.id)
-  const selectedModels = (project.selected_models || []).filter((m: string) => availableModelIds.includes(m))
+  // Resolve models (retired models run as their successor)
+  const { models: selectedModels, replacements: modelReplacements } = resolveProjectModels(project.selected_models || [])
+  if (modelReplacements.length > 0) {
+    console.log(`[Worker ${workerId}] Retired models: ${modelReplacements.map(r => `${r.from} → ${r.to || 'dropped'}`).join(', ')}`)
+  }
 
   if (selectedModels.length === 0) {
     await markSkipped(supabase, historyRecord.id, 'No valid models')
     return triggerNext(supabase, workerId, request, { skipped: 1, reason: 'No models' })
   }
 
+  // Repeated samples per query-model pair (run-to-run variance, see lib/scan/sampling.ts)
+  const samplesPerQuery = project.samples_per_query || 1
+
+  // Per-project monthly budget - skipped runs keep the reason in history
+  const pricing = await getPricingConfigs()
+  const evaluationModel = await getEvaluationModelForUser(supabase, project.user_id)
+  const budgetCheck = await checkScanBudget(supabase, project, {
+    pricing,
+    queries,
+    models: selectedModels,
+    samplesPerQuery,
+    followUpDepth: project.follow_up_enabled === true ? (project.follow_up_depth || 1) : 0,
+    evaluationModel,
+    followUpHelperModel: project.follow_up_enabled === true && project.follow_up_mode === 'adaptive'
+      ? getFollowUpHelperModel(project.query_generation_model, evaluationModel)
+      : null,
+  })
+  if (!budgetCheck.allowed) {
+    await markSkipped(supabase, historyRecord.id, budgetCheck.reason || 'Monthly budget exceeded')
+    return triggerNext(supabase, workerId, request, { skipped: 1, reason: 'Budget exceeded' })
+  }
+  if (budgetCheck.warning) {
+    // Shown with the scheduled scan (GET /api/projects/[id]/scans)
+    console.log(`[Worker ${workerId}] ${project.name}: ${budgetCheck.reason}`)
+    await supabase
+      .from(TABLES.SCHEDULED_SCAN_HISTORY)
+      .update({ budget_warning: budgetCheck.reason || null })
+      .eq('id', historyRecord.id)
+  }
+
   // Create credit reservation
   let reservationId: string | undefined
   if (profile.tier === 'paid') {
-    const pricing = await getPricingConfigs()
-    const estimatedCostCents = estimateScanCost(pricing, selectedModels, queries.length)
+    const estimatedCostCents = estimateScanCost(pricing, selectedModels, queries.length * samplesPerQuery)
     const reservationAmount = Math.ceil(estimatedCostCents * 1.2)
 
     const reserveResult = await createReservation(project.user_id, reservationAmount, project.id)
@@ -227,13 +273,13 @@ async function processClaimedScan(
       total_output_tokens: 0,
       total_queries: queries.length,
       total_results: 0,
+      models: selectedModels,
     })
     .select()
     .single()
 
   if (scanError || !scan) {
     if (reservationId) {
-      const { releaseReservation } = await import('@/lib/credits')
       await releaseReservation(reservationId, 'Scan creation failed')
     }
     await markFailed(supabase, historyRecord.id, 'Failed to create scan')
@@ -247,297 +293,92 @@ async function processClaimedScan(
     .eq('id', historyRecord.id)
 
   // Process the scan
-  console.log(`[Worker ${workerId}] Starting scan ${scan.id}: ${queries.length} queries × ${selectedModels.length} models`)
-  
-  const result = await processScan(supabase, scan.id, project, queries, selectedModels, workerId)
+  console.log(`[Worker ${workerId}] Starting scan ${scan.id}: ${queries.length} queries × ${selectedModels.length} models × ${samplesPerQuery} samples`)
+
+  const pairs = buildScanPairs(queries, selectedModels, samplesPerQuery)
+  let successfulPairs = 0
+  let error: string | null = null
 
-  // Complete reservation
-  if (reservationId && !['free-tier', 'test-account', 'admin-account'].includes(reservationId)) {
-    await consumeReservation(reservationId, result.actualCostCents, scan.id)
+  try {
+    successfulPairs = await processScan(supabase, scan.id, project, pairs, evaluationModel, workerId)
+
+    if (successfulPairs > 0) {
+      // Scores with the project's scoring profile, records usage and consumes the reservation
+      await finalizeScan(supabase, {
+        scanId: scan.id,
+        projectId: project.id,
+        userId: project.user_id,
+        reservationId: reservationId || null,
+      })
+    } else {
+      error = 'No query-model pair produced a result'
+      if (reservationId) {
+        await releaseReservation(reservationId, 'Scheduled scan without results')
+      }
+    }
+  } catch (processError: any) {
+    console.error(`[Worker ${workerId}] Scan ${scan.id} failed:`, processError.message)
+    error = 'Scan processing failed'
   }
 
-  // Update scan
-  await supabase
-    .from(TABLES.SCANS)
-    .update({
-      status: result.success ? 'completed' : 'failed',
-      completed_at: new Date().toISOString(),
-      total_cost_usd: result.totalCostUsd,
-      total_input_tokens: result.totalInputTokens,
-      total_output_tokens: result.totalOutputTokens,
-      total_results: result.totalResults,
-      overall_score: result.overallScore,
-      avg_visibility: result.avgVisibility,
-      avg_sentiment: result.avgSentiment,
-      avg_ranking: result.avgRanking,
-    })
-    .eq('id', scan.id)
+  if (error) {
+    await supabase
+      .from(TABLES.SCANS)
+      .update({ status: 'failed', completed_at: new Date().toISOString() })
+      .eq('id', scan.id)
+  }
 
   // Update history
   await supabase
     .from(TABLES.SCHEDULED_SCAN_HISTORY)
     .update({
-      status: result.success ? 'completed' : 'failed',
-      error_message: result.error || null,
+      status: error ? 'failed' : 'completed',
+      error_message: error,
       completed_at: new Date().toISOString()
     })
     .eq('id', historyRecord.id)
 
   const duration = Date.now() - startTime
-  console.log(`[Worker ${workerId}] Completed ${project.name} in ${Math.round(duration/1000)}s: ${result.totalResults} results`)
+  console.log(`[Worker ${workerId}] Completed ${project.name} in ${Math.round(duration/1000)}s: ${successfulPairs}/${pairs.length} pairs`)
 
   return triggerNext(supabase, workerId, request, {
     processed: 1,
     projectName: project.name,
     scanId: scan.id,
-    results: result.totalResults,
+    results: successfulPairs,
     duration
   })
 }
 
+/**
+ * Run the pairs of a scheduled scan with the shared runner, a few at a time
+ * Returns the number of pairs that produced a result.
+ */
 async function processScan(
   supabase: ReturnType<typeof createAdminClient>,
   scanId: string,
-  project: any,
-  queries: any[],
-  models: string[],
+  project: ScanPairContext['project'],
+  pairs: ScanPair[],
+  evaluationModel: string,
   workerId: string
-) {
-  let totalCostUsd = 0
-  let totalInputTokens = 0
-  let totalOutputTokens = 0
-  let totalResults = 0
-  let totalCostCents = 0
-  
-  const allScores = { visibility: [] as number[], sentiment: [] as number[], ranking: [] as number[] }
-  const evaluationModel = getCheapestEvaluationModel()
-  
-  // Calculate total operations including follow-ups
-  const followUpEnabled = project.follow_up_enabled === true
-  const followUpDepth = project.follow_up_depth || 1
-  const operationsPerQuery = followUpEnabled ? (1 + followUpDepth) : 1
-  const totalOperations = queries.length * models.length * operationsPerQuery
-  let completedOperations = 0
-
-  try {
-    for (const modelId of models) {
-      for (const query of queries) {
-        try {
-          const response = await callGEOQuery(modelId, query.query_text, project.language || 'en')
-          completedOperations++
-          
-          if (!response.content) {
-            console.log(`[Worker ${workerId}] Empty response from ${modelId} (${completedOperations}/${totalOperations})`)
-            continue
-          }
-
-          const evalResult = await callEvaluation(
-            evaluationModel,
-            response.content,
-            project.brand_variations || [],
-            project.domain
-          )
-
-          if (!evalResult.metrics) continue
-
-          const modelInfo = getModelInfo(modelId)
-          if (!modelInfo) {
-            console.log(`[Worker ${workerId}] Unknown model: ${modelId}, skipping`)
-            continue
-          }
-          
-          const queryCostCents = await calculateDynamicCost(modelId, response.inputTokens, response.outputTokens)
-          const evalCostCents = await calculateDynamicCost(evaluationModel, evalResult.inputTokens, evalResult.outputTokens)
-
-          totalCostUsd += (queryCostCents + evalCostCents) / 100
-          totalCostCents += queryCostCents + evalCostCents
-          totalInputTokens += response.inputTokens + evalResult.inputTokens
-          totalOutputTokens += response.outputTokens + evalResult.outputTokens
-
-          const { data: initialResult } = await supabase
-            .from(TABLES.SCAN_RESULTS)
-            .insert({
-              scan_id: scanId,
-              provider: modelInfo.provider,
-              model: modelId,
-              query_text: query.query_text,
-              ai_response_raw: response.content,
-              metrics_json: evalResult.metrics,
-              input_tokens: response.inputTokens + evalResult.inputTokens,
-              output_tokens: response.outputTokens + evalResult.outputTokens,
-              cost_usd: (queryCostCents + evalCostCents) / 100,
-              follow_up_level: 0,
-              parent_result_id: null,
-              follow_up_query_used: null,
-            })
-            .select()
-            .single()
-
-          totalResults++
-
-          if (evalResult.metrics) {
-            allScores.visibility.push(evalResult.metrics.visibility_score)
-            if (evalResult.metrics.sentiment_score !== null) {
-              allScores.sentiment.push(evalResult.metrics.sentiment_score)
-            }
-            allScores.ranking.push(evalResult.metrics.ranking_score)
-          }
-
-          // ========================================
-          // FOLLOW-UP QUERIES (if enabled)
-          // ========================================
-          if (followUpEnabled && followUpDepth > 0 && initialResult) {
-            // Build conversation history
-            const conversationHistory: Array<{ role: 'user' | 'assistant', content: string }> = [
-              { role: 'user', content: query.query_text },
-              { role: 'assistant', content: response.content },
-            ]
-            
-            let parentResultId = initialResult.id
-            
-            for (let level = 1; level <= followUpDepth; level++) {
-              // Get follow-up question
-              const followUpQuestion = getFollowUpQuestion(
-                query.query_type as QueryType,
-                level as 1 | 2 | 3,
-                project.language || 'en'
-              )
-              
-              console.log(`[Worker ${workerId}] Follow-up ${level}/${followUpDepth} for ${modelId}`)
-              
-              // Call LLM with conversation history
-              const followUpResponse = await callGEOQuery(
-                modelId,
-                followUpQuestion,
-                project.language || 'en',
-                conversationHistory
-              )
-              
-              completedOperations++
-              
-              if (!followUpResponse.content) {
-                console.log(`[Worker ${workerId}] Empty follow-up response ${level} from ${modelId}, stopping chain`)
-                break
-              }
-              
-              // Evaluate follow-up
-              const followUpEvalResult = await callEvaluation(
-                evaluationModel,
-                followUpResponse.content,
-                project.brand_variations || [],
-                project.domain
-              )
-              
-              if (!followUpEvalResult.metrics) {
-                console.log(`[Worker ${workerId}] Follow-up ${level} evaluation failed for ${modelId}, stopping chain`)
-                break
-              }
-              
-              // Calculate costs
-              const followUpQueryCostCents = await calculateDynamicCost(modelId, followUpResponse.inputTokens, followUpResponse.outputTokens)
-              const followUpEvalCostCents = await calculateDynamicCost(evaluationModel, followUpEvalResult.inputTokens, followUpEvalResult.outputTokens)
-              
-              totalCostUsd += (followUpQueryCostCents + followUpEvalCostCents) / 100
-              totalCostCents += followUpQueryCostCents + followUpEvalCostCents
-              totalInputTokens += followUpResponse.inputTokens + followUpEvalResult.inputTokens
-              totalOutputTokens += followUpResponse.outputTokens + followUpEvalResult.outputTokens
-              
-              // Save follow-up result
-              const { data: followUpResult } = await supabase
-                .from(TABLES.SCAN_RESULTS)
-                .insert({
-                  scan_id: scanId,
-                  provider: modelInfo.provider,
-                  model: modelId,
-                  query_text: query.query_text, // Original query for grouping
-                  ai_response_raw: followUpResponse.content,
-                  metrics_json: followUpEvalResult.metrics,
-                  input_tokens: followUpResponse.inputTokens + followUpEvalResult.inputTokens,
-                  output_tokens: followUpResponse.outputTokens + followUpEvalResult.outputTokens,
-                  cost_usd: (followUpQueryCostCents + followUpEvalCostCents) / 100,
-                  follow_up_level: level,
-                  parent_result_id: parentResultId,
-                  follow_up_query_used: followUpQuestion,
-                })
-                .select()
-                .single()
-              
-              if (followUpResult) {
-                totalResults++
-                parentResultId = followUpResult.id
-                
-                // Add follow-up scores to aggregation
-                if (followUpEvalResult.metrics) {
-                  allScores.visibility.push(followUpEvalResult.metrics.visibility_score)
-                  if (followUpEvalResult.metrics.sentiment_score !== null) {
-                    allScores.sentiment.push(followUpEvalResult.metrics.sentiment_score)
-                  }
-                  allScores.ranking.push(followUpEvalResult.metrics.ranking_score)
-                }
-              }
-              
-              // Add to conversation history
-              conversationHistory.push(
-                { role: 'user', content: followUpQuestion },
-                { role: 'assistant', content: followUpResponse.content }
-              )
-            }
-          }
-
-        } catch (err: any) {
-          console.error(`[Worker ${workerId}] Error ${modelId}:`, err.message)
-          // Skip remaining follow-ups for this query-model pair if error occurs.
-          // Each query-model pair accounts for `operationsPerQuery` operations.
-          // Calculate how many ops remain in the current pair and advance past them.
-          const completedInPair = ((completedOperations - 1) % operationsPerQuery) + 1
-          completedOperations += operationsPerQuery - completedInPair
-        }
-      }
-      
-      // Log progress after each model
-      console.log(`[Worker ${workerId}] Model ${modelId} done (${completedOperations}/${totalOperations})`)
-    }
-
-    const avg = (arr: number[]) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : null
-    const avgVisibility = avg(allScores.visibility)
-    const avgSentiment = avg(allScores.sentiment)
-    const avgRanking = avg(allScores.ranking)
-
-    let overallScore: number | null = null
-    if (avgVisibility !== null && avgRanking !== null) {
-      const scores = [avgVisibility, avgRanking]
-      if (avgSentiment !== null) scores.push(avgSentiment)
-      overallScore = avg(scores)
-    }
-
-    return {
-      success: totalResults > 0,
-      totalCostUsd,
-      actualCostCents: totalCostCents,
-      totalInputTokens,
-      totalOutputTokens,
-      totalResults,
-      overallScore,
-      avgVisibility,
-      avgSentiment,
-      avgRanking,
-    }
+): Promise<number> {
+  const ctx: ScanPairContext = {
+    supabase,
+    scanId,
+    project,
+    evaluationModel,
+    cacheStore: createSupabaseCacheStore(supabase),
+  }
 
-  } catch (error: any) {
-    return {
-      success: false,
-      error: 'Scan processing failed',
-      totalCostUsd,
-      actualCostCents: totalCostCents,
-      totalInputTokens,
-      totalOutputTokens,
-      totalResults,
-      overallScore: null,
-      avgVisibility: null,
-      avgSentiment: null,
-      avgRanking: null,
-    }
+  let successfulPairs = 0
+  for (let i = 0; i < pairs.length; i += PAIR_CONCURRENCY) {
+    const results = await Promise.all(pairs.slice(i, i + PAIR_CONCURRENCY).map(pair => runScanPair(ctx, pair)))
+    await addScanTotals(supabase, scanId, results)
+    successfulPairs += results.filter(r => r.success).length
+    console.log(`[Worker ${workerId}] Scan ${scanId}: ${Math.min(i + PAIR_CONCURRENCY, pairs.length)}/${pairs.length} pairs`)
   }
+
+  return successfulPairs
 }
 
 async function markFailed(supabase: ReturnType<typeof createAdminClient>, id: string, error: string) {
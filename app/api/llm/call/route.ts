@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { callGEOQuery, callAI, getModelInfo } from '@/lib/ai'
+import { callGEOQuery, callAI, getModelInfo, loadModelCatalog } from '@/lib/ai'
+import { getLanguagePromptName, isEnglish } from '@/lib/locales'
 
 export const runtime = 'edge'
 export const maxDuration = 60  // Increased timeout for LLM calls
@@ -24,16 +25,8 @@ When answering questions:
 Your goal is to provide genuinely helpful information that would assist someone in making decisions about products, services, or brands.`
 
   // Add language instruction if not English
-  if (language && language.toLowerCase() !== 'en' && !language.toLowerCase().startsWith('en')) {
-    const languageNames: Record<string, string> = {
-      cs: 'Czech (Čeština)',
-      de: 'German (Deutsch)',
-      fr: 'French (Français)',
-      es: 'Spanish (Español)',
-      pl: 'Polish (Polski)',
-      sk: 'Slovak (Slovenčina)',
-    }
-    const langName = languageNames[language.toLowerCase()] || language
+  if (language && !isEnglish(language)) {
+    const langName = getLanguagePromptName(language)
     return `${basePrompt}
 
 IMPORTANT: You MUST respond in ${langName}. All your answers should be in ${langName}.`
@@ -63,6 +56,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     const { model, query, conversationHistory, language } = await request.json() as {
       model: string
       query: string
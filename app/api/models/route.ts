@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getModelsForUser } from '@/lib/credits/middleware'
-import { AVAILABLE_MODELS, type ModelInfo } from '@/lib/ai'
+import { AVAILABLE_MODELS, loadModelCatalog, type ModelInfo } from '@/lib/ai'
 import { safeErrorMessage } from '@/lib/api-error'
 
 export const runtime = 'edge'
@@ -15,10 +15,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     // Get available models for user from database pricing config
     const { models: dbModels, allModels, isLimited } = await getModelsForUser(user.id)
     
-    // Merge with static model info from AI module for additional metadata
+    // Merge with model catalog info for additional metadata
     const modelsWithInfo = dbModels.map(dbModel => {
       const staticInfo = AVAILABLE_MODELS.find(m => m.id === dbModel.model)
       return {
@@ -27,6 +29,10 @@ export async function GET(request: NextRequest) {
         name: staticInfo?.name || dbModel.model,
         description: staticInfo?.description || '',
         contextWindow: staticInfo?.contextWindow || 0,
+        capabilities: staticInfo?.capabilities || [],
+        chainOfThought: staticInfo?.chainOfThought === true,
+        deprecatedAt: staticInfo?.deprecatedAt ?? null,
+        replacementModel: staticInfo?.replacementModel ?? null,
         // Pricing with markup (what user pays)
         pricing: {
           inputPer1M: dbModel.final_input_cost_cents / 100, // USD per 1M tokens
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getProjectById } from '@/lib/db/projects'
+import { TABLES, type Citation } from '@/lib/db/schema'
+import { fetchAllRows } from '@/lib/db/pagination'
+import { safeErrorMessage } from '@/lib/api-error'
+import { aggregateCitedDomains } from '@/lib/scan/citations'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+/**
+ * GET /api/projects/[id]/citations?days=30&limit=10
+ * Top cited domains across completed scans of the project
+ * days outside 1-365 (or not a number) falls back to 30.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Verify project ownership
+    const project = await getProjectById(id)
+    if (!project || project.user_id !== user.id) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const requestedDays = Number(request.nextUrl.searchParams.get('days') || DEFAULT_DAYS)
+    const days = Number.isInteger(requestedDays) && requestedDays >= 1 && requestedDays <= MAX_DAYS
+      ? requestedDays
+      : DEFAULT_DAYS
+    const limit = Math.min(50, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '10') || 10))
+    const startDate = new Date()
+    startDate.setDate(startDate.getDate() - days)
+
+    const { data: scans, error: scansError } = await supabase
+      .from(TABLES.SCANS)
+      .select('id')
+      .eq('project_id', id)
+      .eq('status', 'completed')
+      .gte('created_at', startDate.toISOString())
+
+    if (scansError) throw scansError
+
+    const scanIds = (scans || []).map(s => s.id)
+    if (scanIds.length === 0) {
+      return NextResponse.json({ domains: [], totalResults: 0, resultsWithCitations: 0 })
+    }
+
+    const allResults = await fetchAllRows<{ citations: Citation[] | null }>((from, to) => supabase
+      .from(TABLES.SCAN_RESULTS)
+      .select('id, citations')
+      .in('scan_id', scanIds)
+      .order('id')
+      .range(from, to))
+
+    return NextResponse.json({
+      domains: aggregateCitedDomains(allResults, project.domain, limit),
+      totalResults: allResults.length,
+      resultsWithCitations: allResults.filter(r => r.citations && r.citations.length > 0).length,
+    })
+  } catch (error: unknown) {
+    console.error('Error fetching citations:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to fetch citations') }, 
+      { status: 500 }
+    )
+  }
+}
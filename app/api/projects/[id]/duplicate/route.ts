@@ -57,8 +57,17 @@ export async function POST(
       newProjectData.selected_models = originalProject.selected_models
       newProjectData.follow_up_enabled = originalProject.follow_up_enabled
       newProjectData.follow_up_depth = originalProject.follow_up_depth
+      newProjectData.follow_up_templates = originalProject.follow_up_templates
+      newProjectData.follow_up_mode = originalProject.follow_up_mode
       newProjectData.query_generation_model = originalProject.query_generation_model
       newProjectData.evaluation_model = originalProject.evaluation_model
+      newProjectData.competitors = originalProject.competitors
+      newProjectData.samples_per_query = originalProject.samples_per_query
+      newProjectData.cache_geo_responses = originalProject.cache_geo_responses
+      newProjectData.monthly_budget_cents = originalProject.monthly_budget_cents
+      newProjectData.scoring_profile = originalProject.scoring_profile
+      newProjectData.scoring_profile_version = originalProject.scoring_profile_version
+      newProjectData.personas = originalProject.personas
     }
 
     // Copy scheduled scan settings if requested
@@ -93,6 +102,9 @@ export async function POST(
           query_text: query.query_text,
           category: query.category,
           is_active: query.is_active,
+          tags: query.tags,
+          // Persona ids only resolve when the personas were copied with the settings
+          persona_id: options.settings ? query.persona_id : null,
         }))
 
         const { error: insertQueriesError } = await supabase
@@ -134,6 +146,8 @@ export async function POST(
             conversational_bonus: scan.conversational_bonus,
             brand_persistence: scan.brand_persistence,
             follow_up_active: scan.follow_up_active,
+            scoring_profile_version: scan.scoring_profile_version,
+            scoring_profile: scan.scoring_profile,
             completed_at: scan.completed_at,
             created_at: scan.created_at,
           }
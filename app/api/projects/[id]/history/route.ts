@@ -1,7 +1,11 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { TABLES } from '@/lib/db/schema'
+import { TABLES, type ScanResult } from '@/lib/db/schema'
+import { fetchAllRows } from '@/lib/db/pagination'
 import { getUserTimezone } from '@/lib/db/settings'
+import { detectModelSwitches } from '@/lib/ai/deprecation'
+import { aggregateTopicScores, buildQueryTopicMap, hasTopics, type TopicScore } from '@/lib/scan/topics'
+import { aggregatePersonaScores, hasPersonaResults, type PersonaScore } from '@/lib/scan/personas'
 
 export async function GET(
   request: Request,
@@ -25,15 +29,17 @@ export async function GET(
     // Get URL params for date range
     const url = new URL(request.url)
     const days = parseInt(url.searchParams.get('days') || '30')
+    const includeTopics = url.searchParams.get('topics') === '1'
+    const includePersonas = url.searchParams.get('personas') === '1'
     const startDate = new Date()
     startDate.setDate(startDate.getDate() - days)
 
     console.log(`[History] Fetching scans for project ${projectId}, user ${user.id}, since ${startDate.toISOString()}`)
 
-    // Get project to check if follow-ups are enabled
+    // Get project to check if follow-ups are enabled (personas name the persona breakdown)
     const { data: project } = await supabase
       .from(TABLES.PROJECTS)
-      .select('follow_up_enabled')
+      .select('follow_up_enabled, personas')
       .eq('id', projectId)
       .single()
     
@@ -42,7 +48,7 @@ export async function GET(
     // Get all completed scans for this project within date range
     const { data: scans, error } = await supabase
       .from(TABLES.SCANS)
-      .select('id, created_at, overall_score, avg_visibility, avg_sentiment, avg_ranking, brand_persistence, follow_up_active')
+      .select('id, created_at, overall_score, avg_visibility, avg_sentiment, avg_ranking, brand_persistence, follow_up_active, share_of_voice, sampling_stats, models')
       .eq('project_id', projectId)
       .eq('user_id', user.id)
       .eq('status', 'completed')
@@ -66,6 +72,11 @@ export async function GET(
       rankingCount: number    // Track scans with visibility > 0
       persistenceSum: number
       persistenceCount: number // Track scans with follow_up_active
+      shareOfVoiceSum: number
+      shareOfVoiceCount: number // Track scans with competitor tracking
+      visibilityLowSum: number
+      visibilityHighSum: number
+      visibilityBandCount: number // Track scans with repeated sampling
     }> = {}
 
     console.log(`[History] Found ${scans?.length || 0} scans for project ${projectId}`)
@@ -99,6 +110,11 @@ export async function GET(
           rankingCount: 0,
           persistenceSum: 0,
           persistenceCount: 0,
+          shareOfVoiceSum: 0,
+          shareOfVoiceCount: 0,
+          visibilityLowSum: 0,
+          visibilityHighSum: 0,
+          visibilityBandCount: 0,
         }
       }
 
@@ -123,6 +139,20 @@ export async function GET(
         dailyData[dateKey].persistenceSum += scan.brand_persistence
         dailyData[dateKey].persistenceCount += 1
       }
+      
+      // Only include share of voice if competitors were tracked in the scan
+      if (scan.share_of_voice !== null && scan.share_of_voice !== undefined) {
+        dailyData[dateKey].shareOfVoiceSum += scan.share_of_voice
+        dailyData[dateKey].shareOfVoiceCount += 1
+      }
+      
+      // Only include visibility band if scan used repeated sampling
+      const visibilityStats = scan.sampling_stats?.visibility
+      if (visibilityStats && visibilityStats.ci_low !== null && visibilityStats.ci_high !== null) {
+        dailyData[dateKey].visibilityLowSum += visibilityStats.ci_low
+        dailyData[dateKey].visibilityHighSum += visibilityStats.ci_high
+        dailyData[dateKey].visibilityBandCount += 1
+      }
     }
 
     console.log(`[History] Grouped into ${Object.keys(dailyData).length} days:`, Object.keys(dailyData).sort())
@@ -139,11 +169,87 @@ export async function GET(
         ranking: day.rankingCount > 0 ? Math.round(day.rankingSum / day.rankingCount) : null,
         // Persistence is null if no scans with follow_up_active
         persistence: day.persistenceCount > 0 ? Math.round(day.persistenceSum / day.persistenceCount) : null,
+        // Share of voice is null if no scans tracked competitors
+        shareOfVoice: day.shareOfVoiceCount > 0 ? Math.round(day.shareOfVoiceSum / day.shareOfVoiceCount) : null,
+        // Visibility 95% confidence band is null if no scans used repeated sampling
+        visibilityLow: day.visibilityBandCount > 0 ? Math.round(day.visibilityLowSum / day.visibilityBandCount) : null,
+        visibilityHigh: day.visibilityBandCount > 0 ? Math.round(day.visibilityHighSum / day.visibilityBandCount) : null,
       }))
       .sort((a, b) => a.date.localeCompare(b.date)) // Sort by date ascending
 
+    // Scans that ran a different model set than the one before (e.g. retired model → successor)
+    const modelSwitches = detectModelSwitches(scans || []).map(({ createdAt, ...modelSwitch }) => ({
+      ...modelSwitch,
+      date: getLocalDateKey(createdAt),
+    }))
+
+    // Topic breakdown (?topics=1): visibility and recommendation per query tag,
+    // for the whole range and per day. Skipped when no query is tagged.
+    // Persona breakdown (?personas=1): the same per persona the queries were
+    // asked as. Skipped when no result has a persona.
+    let topics: TopicScore[] = []
+    let topicHistory: { date: string; topics: TopicScore[] }[] = []
+    let personas: PersonaScore[] = []
+    let personaHistory: { date: string; personas: PersonaScore[] }[] = []
+
+    if ((includeTopics || includePersonas) && scans && scans.length > 0) {
+      const { data: queries } = includeTopics
+        ? await supabase
+          .from(TABLES.PROJECT_QUERIES)
+          .select('query_text, tags')
+          .eq('project_id', projectId)
+        : { data: null }
+      const withTopics = !!queries && hasTopics(queries)
+
+      if (withTopics || includePersonas) {
+        type BreakdownResult = Pick<ScanResult, 'id' | 'scan_id' | 'query_text' | 'metrics_json' | 'persona_id'>
+        let results: BreakdownResult[]
+        try {
+          // Every result of the range - a single read stops at PostgREST's 1000 rows
+          results = await fetchAllRows<BreakdownResult>((from, to) => supabase
+            .from(TABLES.SCAN_RESULTS)
+            .select('id, scan_id, query_text, metrics_json, persona_id')
+            .in('scan_id', scans.map(scan => scan.id))
+            .order('id')
+            .range(from, to))
+        } catch (resultsError) {
+          console.error('Error fetching results for breakdowns:', resultsError)
+          return NextResponse.json({ error: 'Failed to fetch history' }, { status: 500 })
+        }
+
+        const scanDates = new Map(scans.map(scan => [scan.id, getLocalDateKey(scan.created_at)]))
+        const resultsByDate = new Map<string, BreakdownResult[]>()
+        for (const result of results) {
+          const date = scanDates.get(result.scan_id)
+          if (!date) continue
+          const dayResults = resultsByDate.get(date)
+          if (dayResults) dayResults.push(result)
+          else resultsByDate.set(date, [result])
+        }
+        const resultDays = Array.from(resultsByDate.entries()).sort(([a], [b]) => a.localeCompare(b))
+
+        if (withTopics) {
+          const topicMap = buildQueryTopicMap(queries)
+          topics = aggregateTopicScores(results, topicMap)
+          topicHistory = resultDays.map(([date, dayResults]) => ({ date, topics: aggregateTopicScores(dayResults, topicMap) }))
+        }
+
+        if (includePersonas && hasPersonaResults(results)) {
+          const projectPersonas = project?.personas || []
+          personas = aggregatePersonaScores(results, projectPersonas)
+          personaHistory = resultDays.map(([date, dayResults]) => ({ date, personas: aggregatePersonaScores(dayResults, projectPersonas) }))
+        }
+      }
+    }
+
     console.log(`[History] Returning ${history.length} days of data`)
-    return NextResponse.json({ history, followUpEnabled })
+    return NextResponse.json({
+      history,
+      followUpEnabled,
+      modelSwitches,
+      ...(includeTopics && { topics, topicHistory }),
+      ...(includePersonas && { personas, personaHistory }),
+    })
   } catch (error) {
     console.error('Error in history API:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
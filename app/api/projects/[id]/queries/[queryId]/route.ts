@@ -1,11 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getProjectById, deleteProjectQuery } from '@/lib/db/projects'
+import { getProjectById, deleteProjectQuery, updateProjectQuery } from '@/lib/db/projects'
+import { QUERY_TYPE_VALUES, validateQueryTags } from '@/lib/queries/import-export'
+import { findPersona } from '@/lib/queries/personas'
+import type { ProjectQuery } from '@/lib/db/schema'
 
 interface RouteParams {
   params: Promise<{ id: string; queryId: string }>
 }
 
+/**
+ * Update a query's tags, type, active flag or persona
+ * Body: { tags?: string[], query_type?, is_active?, persona_id?: string | null }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, queryId } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Verify project ownership
+    const project = await getProjectById(id)
+    if (!project || project.user_id !== user.id) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const updates: Partial<Pick<ProjectQuery, 'query_type' | 'is_active' | 'tags' | 'persona_id'>> = {}
+
+    if (body.tags !== undefined) {
+      const { tags, errors } = validateQueryTags(body.tags)
+      if (errors.length > 0) {
+        return NextResponse.json({ error: errors[0] }, { status: 400 })
+      }
+      updates.tags = tags
+    }
+
+    if (body.query_type !== undefined) {
+      if (!QUERY_TYPE_VALUES.includes(body.query_type)) {
+        return NextResponse.json({ error: 'Invalid query type' }, { status: 400 })
+      }
+      updates.query_type = body.query_type
+    }
+
+    if (typeof body.is_active === 'boolean') {
+      updates.is_active = body.is_active
+    }
+
+    if (body.persona_id !== undefined) {
+      if (body.persona_id !== null && !findPersona(project.personas, body.persona_id)) {
+        return NextResponse.json({ error: 'Persona not found' }, { status: 400 })
+      }
+      updates.persona_id = body.persona_id
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
+    }
+
+    const query = await updateProjectQuery(queryId, id, updates)
+    if (!query) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(query)
+  } catch (error: any) {
+    console.error('Error updating query:', error)
+    return NextResponse.json(
+      { error: 'Failed to update query' }, 
+      { status: 500 }
+    )
+  }
+}
+
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id, queryId } = await params
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { analyzeQueryCoverage } from '@/lib/queries/coverage'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Coverage of target keywords and query types by the project's active queries
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: project } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('target_keywords')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { data: queries, error } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('query_text, query_type, is_active')
+      .eq('project_id', projectId)
+
+    if (error) throw error
+
+    return NextResponse.json(analyzeQueryCoverage(queries || [], project.target_keywords || []))
+  } catch (error: unknown) {
+    console.error('[Query Coverage] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to analyze query coverage') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES, type QueryDraft } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { MAX_QUERY_TEXT_LENGTH, QUERY_TYPE_VALUES } from '@/lib/queries/import-export'
+import { findNearDuplicate } from '@/lib/queries/similarity'
+
+interface RouteParams {
+  params: Promise<{ id: string; draftId: string }>
+}
+
+/**
+ * Edit a pending draft before accepting it
+ * Body: { query_text?, query_type? }. The near-duplicate match is recomputed for new text.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId, draftId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const updates: Partial<Pick<QueryDraft, 'query_text' | 'query_type' | 'similar_to' | 'similarity'>> = {}
+
+    if (body.query_type !== undefined) {
+      if (!QUERY_TYPE_VALUES.includes(body.query_type)) {
+        return NextResponse.json({ error: 'Invalid query type' }, { status: 400 })
+      }
+      updates.query_type = body.query_type
+    }
+
+    if (body.query_text !== undefined) {
+      const text = typeof body.query_text === 'string' ? body.query_text.trim() : ''
+      if (!text) {
+        return NextResponse.json({ error: 'Query text is required' }, { status: 400 })
+      }
+      if (text.length > MAX_QUERY_TEXT_LENGTH) {
+        return NextResponse.json({ error: `Query text is limited to ${MAX_QUERY_TEXT_LENGTH} characters` }, { status: 400 })
+      }
+
+      const { data: existing } = await supabase
+        .from(TABLES.PROJECT_QUERIES)
+        .select('query_text')
+        .eq('project_id', projectId)
+
+      const match = findNearDuplicate(text, (existing || []).map((q: { query_text: string }) => q.query_text))
+      updates.query_text = text
+      updates.similar_to = match?.similarTo ?? null
+      updates.similarity = match?.similarity ?? null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
+    }
+
+    const { data: draft, error } = await supabase
+      .from(TABLES.QUERY_DRAFTS)
+      .update(updates)
+      .eq('id', draftId)
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(draft)
+  } catch (error: unknown) {
+    console.error('[Query Drafts] Update error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to update draft') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { canAddQuery } from '@/lib/credits/middleware'
+import { reviewQueryDrafts } from '@/lib/queries/drafts'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Accept or reject pending drafts
+ * Body: { accept?: string[], reject?: string[] } (draft IDs)
+ * Accepted drafts become project queries within the tier's query limit;
+ * the others are reported in `skipped` and stay pending.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: project } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const toIds = (value: unknown) =>
+      Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : []
+    const accept = toIds(body.accept)
+    const reject = toIds(body.reject).filter(id => !accept.includes(id))
+
+    if (accept.length === 0 && reject.length === 0) {
+      return NextResponse.json({ error: 'No drafts to review' }, { status: 400 })
+    }
+
+    let remaining: number | null = null
+    let limitReason: string | undefined
+    if (accept.length > 0) {
+      const access = await canAddQuery(user.id, projectId, accept.length)
+      if (access.remainingQueries === undefined) {
+        return NextResponse.json({ error: access.reason, code: 'QUERY_LIMIT_REACHED' }, { status: 403 })
+      }
+      remaining = access.remainingQueries
+      limitReason = access.reason
+    }
+
+    const result = await reviewQueryDrafts(supabase, { projectId, accept, reject, remaining })
+
+    // Nothing accepted because the project is full
+    if (accept.length > 0 && result.accepted.length === 0 && result.skipped.some(s => s.reason === 'over_limit')) {
+      return NextResponse.json({ error: limitReason, code: 'QUERY_LIMIT_REACHED', ...result }, { status: 403 })
+    }
+
+    return NextResponse.json({ ...result, limitReason: result.skipped.some(s => s.reason === 'over_limit') ? limitReason : undefined })
+  } catch (error: unknown) {
+    console.error('[Query Drafts] Review error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to review drafts') },
+      { status: 500 }
+    )
+  }
+}
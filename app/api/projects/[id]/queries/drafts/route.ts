@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Pending drafts of generated queries, oldest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: drafts, error } = await supabase
+      .from(TABLES.QUERY_DRAFTS)
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json(drafts || [])
+  } catch (error: unknown) {
+    console.error('[Query Drafts] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to fetch drafts') },
+      { status: 500 }
+    )
+  }
+}
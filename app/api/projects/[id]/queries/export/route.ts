@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { exportQueries, type QueryFileFormat } from '@/lib/queries/import-export'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Download the project's queries in the import format
+ * Query: ?format=csv|json (default csv)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: project } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('id, name')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format: QueryFileFormat = searchParams.get('format') === 'json' ? 'json' : 'csv'
+
+    const { data: queries, error } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('query_text, query_type, tags, is_active')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'
+
+    return new NextResponse(exportQueries(queries || [], format), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}-queries.${format}"`,
+      },
+    })
+  } catch (error: unknown) {
+    console.error('[Query Export] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to export queries') },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,23 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { TABLES } from '@/lib/db/schema'
-import { callAI, getCheapestEvaluationModel, getModelInfo } from '@/lib/ai'
+import { callAI, getCheapestEvaluationModel, getModelInfo, loadModelCatalog } from '@/lib/ai'
 import { calculateDynamicCost, deductCredits, getUserProfile } from '@/lib/credits'
+import { analyzeQueryCoverage, buildCoverageHint } from '@/lib/queries/coverage'
+import { prepareDrafts, type DraftCandidate } from '@/lib/queries/drafts'
+import { buildPersonaGenerationHint, findPersona } from '@/lib/queries/personas'
 
 const GENERATION_PROMPT = `You are an expert in GEO (Generative Engine Optimization). Generate test queries that real people would ask an AI assistant.
 
 Context (for understanding the industry only - DO NOT use these names in queries):
 - Industry/Category: Based on keywords: {keywords}
 - Domain type: {domain}
-- Language: {language}
+- Language: {language}{persona}
 
 CRITICAL RULES:
 1. DO NOT include any brand names, company names, or product names
 2. Queries must be GENERIC industry questions where a brand MIGHT naturally be recommended
-3. The goal is to test if AI will organically mention the brand without being asked directly
+3. The goal is to test if AI will organically mention the brand without being asked directly{coverage}
 
 Generate exactly {count} diverse test queries. Make them sound HUMAN and CONVERSATIONAL:
 
@@ -42,7 +45,8 @@ Return ONLY a valid JSON array:
 [
   {
     "query_text": "The actual query text",
-    "query_type": "informational" | "transactional" | "comparison"
+    "query_type": "informational" | "transactional" | "comparison",
+    "rationale": "One sentence: what this query tests and why a real user would ask it"
   }
 ]
 
@@ -56,13 +60,17 @@ export async function POST(
     const supabase = await createClient()
     const { id: projectId } = await params
 
-    // Parse request body for count
+    // Parse request body for count and the persona to write the queries as
     let count = 5
+    let personaId: string | null = null
     try {
       const body = await request.json()
       if (body.count && typeof body.count === 'number' && body.count >= 1 && body.count <= 20) {
         count = body.count
       }
+      if (typeof body.persona_id === 'string' && body.persona_id) {
+        personaId = body.persona_id
+      }
     } catch {
       // If no body or invalid JSON, use default count of 5
     }
@@ -74,6 +82,8 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     // Get project details
     const { data: project, error: projectError } = await supabase
       .from(TABLES.PROJECTS)
@@ -86,6 +96,11 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
+    const persona = findPersona(project.personas, personaId)
+    if (personaId && !persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 400 })
+    }
+
     // Use project-level query generation model or default to cheapest
     let modelToUse = project.query_generation_model || getCheapestEvaluationModel()
     
@@ -96,12 +111,22 @@ export async function POST(
       modelToUse = getCheapestEvaluationModel()
     }
 
+    // Existing queries: coverage gaps steer the prompt, texts are used for deduplication
+    const { data: existingQueries } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('query_text, query_type, is_active')
+      .eq('project_id', projectId)
+
+    const coverage = analyzeQueryCoverage(existingQueries || [], project.target_keywords || [])
+
     // Build the prompt - intentionally NOT including brand name to keep queries generic
     const prompt = GENERATION_PROMPT
       .replace('{domain}', project.domain)
       .replace('{keywords}', project.target_keywords?.join(', ') || 'general')
       .replace('{language}', project.language || 'English')
       .replace('{count}', count.toString())
+      .replace('{coverage}', buildCoverageHint(coverage))
+      .replace('{persona}', buildPersonaGenerationHint(persona))
 
     // Call AI using new module
     const response = await callAI({
@@ -120,7 +145,7 @@ export async function POST(
     }
 
     // Parse the response
-    let generatedQueries: Array<{ query_text: string; query_type: string }>
+    let generatedQueries: Array<{ query_text: string; query_type: string; rationale?: unknown }>
     
     try {
       // Try to extract JSON from the response (handle potential markdown wrapping)
@@ -144,12 +169,18 @@ export async function POST(
       )
     }
 
-    // Validate and insert queries
-    const validQueries = generatedQueries.filter(q => 
-      q.query_text && 
-      typeof q.query_text === 'string' &&
-      ['informational', 'transactional', 'comparison'].includes(q.query_type)
-    )
+    // Validate queries
+    const validQueries: DraftCandidate[] = generatedQueries
+      .filter(q => 
+        q.query_text && 
+        typeof q.query_text === 'string' &&
+        ['informational', 'transactional', 'comparison'].includes(q.query_type)
+      )
+      .map(q => ({
+        query_text: q.query_text,
+        query_type: q.query_type as DraftCandidate['query_type'],
+        rationale: typeof q.rationale === 'string' && q.rationale.trim() ? q.rationale.trim() : null,
+      }))
 
     if (validQueries.length === 0) {
       return NextResponse.json(
@@ -158,38 +189,22 @@ export async function POST(
       )
     }
 
-    // Deduplicate: fetch existing query texts for this project
-    const { data: existingQueries } = await supabase
-      .from(TABLES.PROJECT_QUERIES)
+    // Drafts for review: exact duplicates of project queries and pending drafts are dropped,
+    // rephrasings are flagged as near-duplicates
+    const { data: pendingDrafts } = await supabase
+      .from(TABLES.QUERY_DRAFTS)
       .select('query_text')
       .eq('project_id', projectId)
+      .eq('status', 'pending')
 
-    const existingTexts = new Set(
-      (existingQueries || []).map((q: { query_text: string }) => q.query_text.trim().toLowerCase())
-    )
-
-    // Filter out queries that already exist (case-insensitive) and deduplicate within batch
-    const seenTexts = new Set<string>()
-    const queriesToInsert = validQueries
-      .filter(q => {
-        const normalized = q.query_text.trim().toLowerCase()
-        if (existingTexts.has(normalized) || seenTexts.has(normalized)) {
-          return false
-        }
-        seenTexts.add(normalized)
-        return true
-      })
-      .map(q => ({
-        project_id: projectId,
-        query_text: q.query_text.trim(),
-        query_type: q.query_type,
-        is_ai_generated: true,
-        is_active: true,
-      }))
+    const draftsToInsert = prepareDrafts(validQueries, [
+      ...(existingQueries || []).map((q: { query_text: string }) => q.query_text),
+      ...(pendingDrafts || []).map((d: { query_text: string }) => d.query_text),
+    ])
 
-    if (queriesToInsert.length === 0) {
+    if (draftsToInsert.length === 0) {
       return NextResponse.json({
-        queries: [],
+        drafts: [],
         generation: {
           provider: response.provider,
           model: modelToUse,
@@ -201,13 +216,21 @@ export async function POST(
       })
     }
 
-    const { data: insertedQueries, error: insertError } = await supabase
-      .from(TABLES.PROJECT_QUERIES)
-      .insert(queriesToInsert)
+    const batchId = crypto.randomUUID()
+    const { data: insertedDrafts, error: insertError } = await supabase
+      .from(TABLES.QUERY_DRAFTS)
+      .insert(draftsToInsert.map(draft => ({
+        ...draft,
+        project_id: projectId,
+        user_id: user.id,
+        batch_id: batchId,
+        persona_id: persona?.id ?? null,
+        generation_model: modelToUse,
+      })))
       .select()
 
     if (insertError) {
-      console.error('Error inserting queries:', insertError)
+      console.error('Error inserting query drafts:', insertError)
       return NextResponse.json(
         { error: 'Failed to save generated queries' },
         { status: 500 }
@@ -286,7 +309,7 @@ export async function POST(
     }
 
     return NextResponse.json({
-      queries: insertedQueries,
+      drafts: insertedDrafts,
       generation: {
         provider: response.provider,
         model: modelToUse,
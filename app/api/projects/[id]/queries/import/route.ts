@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { canAddQuery } from '@/lib/credits/middleware'
+import { detectQueryFileFormat, parseQueryFile, planQueryImport } from '@/lib/queries/import-export'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Import queries from a CSV or JSON file
+ * Body: { content, format?: 'csv' | 'json', dryRun?: boolean }
+ * A dry run returns the plan (per-row status and validation errors) without
+ * writing; otherwise the new rows within the tier limit are inserted.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: project } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      return NextResponse.json(
+        { error: 'File content is required', code: 'INVALID_IMPORT_FILE' },
+        { status: 400 }
+      )
+    }
+
+    const format = detectQueryFileFormat(body.content, body.format)
+    const { rows, error: parseError } = parseQueryFile(body.content, format)
+    if (parseError) {
+      return NextResponse.json({ error: parseError, code: 'INVALID_IMPORT_FILE' }, { status: 400 })
+    }
+
+    const access = await canAddQuery(user.id, projectId)
+    if (access.remainingQueries === undefined) {
+      return NextResponse.json({ error: access.reason, code: 'QUERY_LIMIT_REACHED' }, { status: 403 })
+    }
+
+    const { data: existing } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('query_text')
+      .eq('project_id', projectId)
+
+    const plan = planQueryImport(
+      rows,
+      (existing || []).map((q: { query_text: string }) => q.query_text),
+      access.remainingQueries
+    )
+
+    if (body.dryRun) {
+      return NextResponse.json({ format, ...plan, imported: 0 })
+    }
+
+    if (plan.toInsert.length === 0 && plan.summary.over_limit > 0) {
+      return NextResponse.json({ error: access.reason, code: 'QUERY_LIMIT_REACHED' }, { status: 403 })
+    }
+
+    let imported = 0
+    if (plan.toInsert.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from(TABLES.PROJECT_QUERIES)
+        .insert(plan.toInsert.map(q => ({ ...q, project_id: projectId, is_ai_generated: false })))
+        .select('id')
+
+      if (insertError) {
+        throw new Error(`Failed to insert queries: ${insertError.message}`)
+      }
+      imported = inserted?.length || 0
+    }
+
+    console.log(`[Query Import] Project ${projectId}: ${imported} imported, ${plan.summary.duplicate} duplicates, ${plan.summary.invalid} invalid, ${plan.summary.over_limit} over limit`)
+
+    return NextResponse.json({ format, ...plan, imported })
+  } catch (error: unknown) {
+    console.error('[Query Import] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to import queries') },
+      { status: 500 }
+    )
+  }
+}
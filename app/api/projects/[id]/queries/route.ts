@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getProjectById, getProjectQueries, createProjectQuery } from '@/lib/db/projects'
+import { validateQueryTags } from '@/lib/queries/import-export'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -56,6 +57,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Query text is required' }, { status: 400 })
     }
 
+    const { tags, errors: tagErrors } = validateQueryTags(body.tags)
+    if (tagErrors.length > 0) {
+      return NextResponse.json({ error: tagErrors[0] }, { status: 400 })
+    }
+
     // Check for duplicate query text in this project
     const supabaseForCheck = await createClient()
     const { data: existing } = await supabaseForCheck
@@ -75,6 +81,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       query_type: query_type || 'informational',
       is_active: true,
       is_ai_generated: false,
+      tags,
     })
 
     return NextResponse.json(query)
@@ -4,6 +4,12 @@ import { getProjectById, updateProject, deleteProject } from '@/lib/db/projects'
 import { calculateNextScheduledScan } from '@/lib/scan/scheduling'
 import { TABLES } from '@/lib/db/schema'
 import { safeErrorMessage } from '@/lib/api-error'
+import { normalizeCompetitors } from '@/lib/scan/competitors'
+import { normalizePersonas } from '@/lib/queries/personas'
+import { normalizeSamplesPerQuery } from '@/lib/scan/sampling'
+import { normalizeMonthlyBudget, getProjectBudgetStatus } from '@/lib/credits/budget'
+import { normalizeFollowUpTemplates, normalizeFollowUpMode, findBrandMentionsInTemplates } from '@/lib/scan/follow-up-templates'
+import { normalizeScoringProfile, isSameScoringProfile, DEFAULT_SCORING_PROFILE_VERSION } from '@/lib/scan/scoring-profile'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -35,9 +41,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     
     const generationCostCents = transactions?.reduce((sum, t) => sum + Math.abs(t.amount_cents), 0) || 0
 
+    // Spend vs monthly budget (status 'warning' from 80%)
+    const budget = await getProjectBudgetStatus(supabase, project)
+
     return NextResponse.json({
       ...project,
       generation_cost_usd: generationCostCents / 100,
+      budget,
     })
   } catch (error: unknown) {
     console.error('Error fetching project:', error)
@@ -81,6 +91,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       'selected_models',  // Database column name
       'query_generation_model',
       'evaluation_model',
+      'competitors',
+      'samples_per_query',
+      'cache_geo_responses',
+      'monthly_budget_cents',
+      'follow_up_templates',
+      'follow_up_mode',
+      'scoring_profile',
+      'personas',
     ]
     
     const updates: Record<string, any> = {}
@@ -95,6 +113,69 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updates.selected_models = body.llm_models
     }
 
+    // Normalize competitors (drop empty names, trim variations/domains)
+    if (updates.competitors !== undefined) {
+      updates.competitors = normalizeCompetitors(updates.competitors)
+    }
+
+    // Personas keep their ids (queries and results refer to them), new ones get an id
+    if (updates.personas !== undefined) {
+      updates.personas = normalizePersonas(updates.personas)
+    }
+
+    // Clamp repeated sampling to 1-MAX_SAMPLES_PER_QUERY
+    if (updates.samples_per_query !== undefined) {
+      updates.samples_per_query = normalizeSamplesPerQuery(updates.samples_per_query)
+    }
+
+    if (updates.cache_geo_responses !== undefined) {
+      updates.cache_geo_responses = updates.cache_geo_responses === true
+    }
+
+    if (updates.follow_up_templates !== undefined) {
+      updates.follow_up_templates = normalizeFollowUpTemplates(updates.follow_up_templates)
+    }
+
+    // Custom follow-ups must stay brand-neutral: checked against the brand after this update,
+    // so saved templates are re-checked when the brand, domain or language changes
+    const brandChanged = updates.brand_variations !== undefined || updates.domain !== undefined || updates.language !== undefined
+    if (updates.follow_up_templates !== undefined || brandChanged) {
+      const issues = findBrandMentionsInTemplates(
+        updates.follow_up_templates ?? existing.follow_up_templates ?? {},
+        updates.brand_variations ?? existing.brand_variations ?? [],
+        updates.domain ?? existing.domain,
+        updates.language ?? existing.language
+      )
+      if (issues.length > 0) {
+        return NextResponse.json({
+          error: updates.follow_up_templates === undefined
+            ? `${issues[0].message} - update the custom follow-ups first`
+            : issues[0].message,
+          code: 'FOLLOW_UP_MENTIONS_BRAND',
+          issues,
+        }, { status: 400 })
+      }
+    }
+
+    if (updates.follow_up_mode !== undefined) {
+      updates.follow_up_mode = normalizeFollowUpMode(updates.follow_up_mode)
+    }
+
+    // A changed scoring profile gets a new version (stored with every scan scored under it)
+    if (updates.scoring_profile !== undefined) {
+      updates.scoring_profile = normalizeScoringProfile(updates.scoring_profile)
+      if (isSameScoringProfile(updates.scoring_profile, existing.scoring_profile)) {
+        delete updates.scoring_profile
+      } else {
+        updates.scoring_profile_version = (existing.scoring_profile_version ?? DEFAULT_SCORING_PROFILE_VERSION) + 1
+      }
+    }
+
+    // Whole cents, empty or 0 removes the cap
+    if (updates.monthly_budget_cents !== undefined) {
+      updates.monthly_budget_cents = normalizeMonthlyBudget(updates.monthly_budget_cents)
+    }
+
     // Validation for scheduling parameters
     if (updates.scheduled_scan_frequency !== undefined) {
       const validFrequencies = ['daily', 'weekly', 'monthly']
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
-import { callGEOQuery, callEvaluation, getModelInfo, getCheapestEvaluationModel, type EvaluationMetrics } from '@/lib/ai'
-import { calculateDynamicCost } from '@/lib/credits'
-import { TABLES, type ScanMetrics } from '@/lib/db/schema'
-import { getFollowUpQuestion, type QueryType } from '@/lib/scan/follow-up-templates'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { getModelInfo, createSupabaseCacheStore, loadModelCatalog } from '@/lib/ai'
+import { TABLES } from '@/lib/db/schema'
+import { runScanPair, addScanTotals, getEvaluationModelForUser, type ScanPairContext } from '@/lib/scan/runner'
 
 export const runtime = 'edge'
 export const maxDuration = 25 // Edge runtime allows up to 30s on Hobby plan
@@ -23,6 +22,8 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     const { id: projectId } = await params
     const { scanId, queryIds, modelIds } = await request.json()
 
@@ -55,16 +56,8 @@ export async function POST(
       return NextResponse.json({ error: 'Queries not found' }, { status: 404 })
     }
 
-    // Get evaluation model settings
-    const { data: helperSettings } = await supabase
-      .from('user_settings')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('provider', '_helpers')
-      .single()
-    
     // Use configured evaluation model or default to cheapest
-    const evaluationModel = helperSettings?.encrypted_api_key || getCheapestEvaluationModel()
+    const evaluationModel = await getEvaluationModelForUser(supabase, user.id)
     
     // Validate evaluation model exists
     if (!getModelInfo(evaluationModel)) {
@@ -73,23 +66,32 @@ export async function POST(
       }, { status: 400 })
     }
 
-    // Get follow-up settings from project
-    const followUpEnabled = project.follow_up_enabled === true
-    const followUpDepth = project.follow_up_depth || 1
+    const samplesPerQuery = project.samples_per_query || 1
+
+    // Response cache: evaluations always, GEO answers only when the project opts in.
+    // The shared cache table is server-only, so it goes through the service role.
+    const ctx: ScanPairContext = {
+      supabase,
+      scanId,
+      project,
+      evaluationModel,
+      cacheStore: createSupabaseCacheStore(createAdminClient()),
+    }
     
     // ================================================================
-    // IDEMPOTENCY CHECK: Skip query-model pairs already processed
+    // IDEMPOTENCY CHECK: Skip query-model samples already processed
     // This prevents duplicates when chunks are retried (e.g. edge timeout)
     // ================================================================
     const { data: existingResults } = await supabase
       .from(TABLES.SCAN_RESULTS)
-      .select('query_text, model, follow_up_level')
+      .select('query_text, model, follow_up_level, sample_index')
       .eq('scan_id', scanId)
       .eq('follow_up_level', 0)
 
-    // Build a set of already-processed "query_text|model" pairs
+    // Build a set of already-processed "query_text|model|sample_index" keys
     const alreadyProcessed = new Set<string>(
-      (existingResults || []).map((r: { query_text: string; model: string }) => `${r.query_text}|${r.model}`)
+      (existingResults || []).map((r: { query_text: string; model: string; sample_index: number | null }) =>
+        `${r.query_text}|${r.model}|${r.sample_index ?? 0}`)
     )
     
     if (alreadyProcessed.size > 0) {
@@ -99,27 +101,31 @@ export async function POST(
     // Process each query × model combination
     const results = []
     let totalCostCents = 0
-    let totalInputTokens = 0
-    let totalOutputTokens = 0
     let totalOperations = 0
 
-    // Process all query-model combinations in parallel
+    // Each model is sampled samplesPerQuery times (siblings differ only in sample_index)
+    const modelSamples = (modelIds as string[]).flatMap(modelId =>
+      Array.from({ length: samplesPerQuery }, (_, sampleIndex) => ({ modelId, sampleIndex }))
+    )
+
+    // Process all query-model-sample combinations in parallel
     const tasks = []
     for (const query of queries) {
-      for (const modelId of modelIds) {
+      for (const { modelId, sampleIndex } of modelSamples) {
         const modelInfo = getModelInfo(modelId)
         if (!modelInfo || !modelInfo.isActive) {
           console.warn(`[Chunk] Model ${modelId} not found or inactive`)
           continue
         }
 
-        // Skip if this query-model combination was already processed (retry idempotency)
-        const pairKey = `${query.query_text}|${modelId}`
+        // Skip if this query-model sample was already processed (retry idempotency)
+        const pairKey = `${query.query_text}|${modelId}|${sampleIndex}`
         if (alreadyProcessed.has(pairKey)) {
-          console.log(`[Chunk] Skipping already processed: ${modelId} × "${query.query_text.substring(0, 40)}..."`)
+          console.log(`[Chunk] Skipping already processed: ${modelId} #${sampleIndex} × "${query.query_text.substring(0, 40)}..."`)
           results.push({
             queryId: query.id,
             modelId,
+            sampleIndex,
             success: true,
             metrics: null,
             skipped: true,
@@ -127,224 +133,8 @@ export async function POST(
           continue
         }
 
-        // Create a promise for this query-model combination (including follow-ups)
-        tasks.push((async () => {
-          let operationCount = 0
-          let costCents = 0
-          let inputTokens = 0
-          let outputTokens = 0
-          
-          try {
-            // ========================================
-            // INITIAL RESPONSE (follow_up_level = 0)
-            // ========================================
-            const response = await callGEOQuery(modelId, query.query_text, project.language || 'en')
-            operationCount++
-            // Accumulate tokens immediately so partial progress is tracked on error
-            inputTokens += response.inputTokens
-            outputTokens += response.outputTokens
-
-            if (!response.content) {
-              console.log(`[Chunk] Empty response from ${modelId}`)
-              return {
-                queryId: query.id,
-                modelId,
-                success: false,
-                error: 'Empty response',
-                costCents,
-                inputTokens,
-                outputTokens,
-                operationCount,
-              }
-            }
-
-            // Analyze response with AI evaluation
-            const evalResult = await callEvaluation(
-              evaluationModel,
-              response.content,
-              project.brand_variations || [],
-              project.domain
-            )
-            // Accumulate eval tokens immediately
-            inputTokens += evalResult.inputTokens
-            outputTokens += evalResult.outputTokens
-
-            if (!evalResult.metrics) {
-              return {
-                queryId: query.id,
-                modelId,
-                success: false,
-                error: 'No metrics',
-                costCents,
-                inputTokens,
-                outputTokens,
-                operationCount,
-              }
-            }
-
-            // Calculate costs with dynamic pricing (includes markup)
-            const queryCostCents = await calculateDynamicCost(
-              modelId,
-              response.inputTokens,
-              response.outputTokens
-            )
-            costCents += queryCostCents
-            
-            const evalCostCents = await calculateDynamicCost(
-              evaluationModel,
-              evalResult.inputTokens,
-              evalResult.outputTokens
-            )
-            costCents += evalCostCents
-
-            // Validate metrics
-            const metrics: ScanMetrics = {
-              visibility_score: evalResult.metrics.visibility_score,
-              sentiment_score: evalResult.metrics.visibility_score > 0 
-                ? evalResult.metrics.sentiment_score 
-                : null,
-              ranking_score: evalResult.metrics.ranking_score,
-              recommendation_score: evalResult.metrics.visibility_score > 0 
-                ? evalResult.metrics.recommendation_score 
-                : 0,
-            }
-
-            // Save initial result
-            const { data: initialResult } = await supabase
-              .from(TABLES.SCAN_RESULTS)
-              .insert({
-                scan_id: scanId,
-                provider: modelInfo.provider,
-                model: modelId,
-                query_text: query.query_text,
-                ai_response_raw: response.content,
-                metrics_json: metrics,
-                input_tokens: response.inputTokens + evalResult.inputTokens,
-                output_tokens: response.outputTokens + evalResult.outputTokens,
-                cost_usd: (queryCostCents + evalCostCents) / 100,
-                follow_up_level: 0,
-                parent_result_id: null,
-                follow_up_query_used: null,
-              })
-              .select()
-              .single()
-
-            // ========================================
-            // FOLLOW-UP QUERIES (if enabled)
-            // ========================================
-            if (followUpEnabled && followUpDepth > 0 && initialResult) {
-              // Build conversation history
-              const conversationHistory: Array<{ role: 'user' | 'assistant', content: string }> = [
-                { role: 'user', content: query.query_text },
-                { role: 'assistant', content: response.content },
-              ]
-              
-              let parentResultId = initialResult.id
-              
-              for (let level = 1; level <= followUpDepth; level++) {
-                // Get follow-up question
-                const followUpQuestion = getFollowUpQuestion(
-                  query.query_type as QueryType,
-                  level as 1 | 2 | 3,
-                  project.language || 'en'
-                )
-                
-                // Call LLM with conversation history
-                const followUpResponse = await callGEOQuery(
-                  modelId,
-                  followUpQuestion,
-                  project.language || 'en',
-                  conversationHistory
-                )
-                
-                operationCount++
-                // Accumulate follow-up tokens immediately
-                inputTokens += followUpResponse.inputTokens
-                outputTokens += followUpResponse.outputTokens
-                
-                if (!followUpResponse.content) {
-                  console.log(`[Chunk] Empty follow-up response ${level} from ${modelId}, stopping chain`)
-                  break
-                }
-                
-                // Evaluate follow-up
-                const followUpEvalResult = await callEvaluation(
-                  evaluationModel,
-                  followUpResponse.content,
-                  project.brand_variations || [],
-                  project.domain
-                )
-                // Accumulate eval tokens immediately
-                inputTokens += followUpEvalResult.inputTokens
-                outputTokens += followUpEvalResult.outputTokens
-                
-                if (!followUpEvalResult.metrics) {
-                  console.log(`[Chunk] Follow-up ${level} evaluation failed for ${modelId}, stopping chain`)
-                  break
-                }
-                
-                // Calculate costs
-                const followUpQueryCostCents = await calculateDynamicCost(modelId, followUpResponse.inputTokens, followUpResponse.outputTokens)
-                costCents += followUpQueryCostCents
-                const followUpEvalCostCents = await calculateDynamicCost(evaluationModel, followUpEvalResult.inputTokens, followUpEvalResult.outputTokens)
-                costCents += followUpEvalCostCents
-                
-                // Save follow-up result
-                const { data: followUpResult } = await supabase
-                  .from(TABLES.SCAN_RESULTS)
-                  .insert({
-                    scan_id: scanId,
-                    provider: modelInfo.provider,
-                    model: modelId,
-                    query_text: query.query_text, // Original query for grouping
-                    ai_response_raw: followUpResponse.content,
-                    metrics_json: followUpEvalResult.metrics,
-                    input_tokens: followUpResponse.inputTokens + followUpEvalResult.inputTokens,
-                    output_tokens: followUpResponse.outputTokens + followUpEvalResult.outputTokens,
-                    cost_usd: (followUpQueryCostCents + followUpEvalCostCents) / 100,
-                    follow_up_level: level,
-                    parent_result_id: parentResultId,
-                    follow_up_query_used: followUpQuestion,
-                  })
-                  .select()
-                  .single()
-                
-                if (followUpResult) {
-                  parentResultId = followUpResult.id
-                }
-                
-                // Add to conversation history
-                conversationHistory.push(
-                  { role: 'user', content: followUpQuestion },
-                  { role: 'assistant', content: followUpResponse.content }
-                )
-              }
-            }
-
-            return {
-              queryId: query.id,
-              modelId,
-              success: true,
-              metrics,
-              costCents,
-              inputTokens,
-              outputTokens,
-              operationCount,
-            }
-          } catch (error: any) {
-            console.error(`[Chunk] Error for ${modelId}:`, error.message)
-            return {
-              queryId: query.id,
-              modelId,
-              success: false,
-              error: 'Processing failed',
-              costCents,
-              inputTokens,
-              outputTokens,
-              operationCount,
-            }
-          }
-        })())
+        // Query-model sample including follow-ups
+        tasks.push(runScanPair(ctx, { query, modelId, sampleIndex }))
       }
     }
 
@@ -354,14 +144,13 @@ export async function POST(
     // Aggregate results
     for (const taskResult of taskResults) {
       totalCostCents += taskResult.costCents
-      totalInputTokens += taskResult.inputTokens
-      totalOutputTokens += taskResult.outputTokens
       totalOperations += taskResult.operationCount
       
       if (taskResult.success) {
         results.push({
           queryId: taskResult.queryId,
           modelId: taskResult.modelId,
+          sampleIndex: taskResult.sampleIndex,
           success: true,
           metrics: taskResult.metrics,
         })
@@ -369,6 +158,7 @@ export async function POST(
         results.push({
           queryId: taskResult.queryId,
           modelId: taskResult.modelId,
+          sampleIndex: taskResult.sampleIndex,
           success: false,
           error: taskResult.error,
         })
@@ -379,26 +169,8 @@ export async function POST(
     const newSuccessful = results.filter(r => r.success && !(r as any).skipped).length
     const skippedCount = results.filter(r => (r as any).skipped).length
 
-    // Only update scan totals if we actually processed something new
-    if (totalCostCents > 0 || totalInputTokens > 0 || newSuccessful > 0) {
-      const { data: currentScan } = await supabase
-        .from(TABLES.SCANS)
-        .select('total_cost_usd, total_input_tokens, total_output_tokens, total_results')
-        .eq('id', scanId)
-        .single()
-
-      if (currentScan) {
-        await supabase
-          .from(TABLES.SCANS)
-          .update({
-            total_cost_usd: (currentScan.total_cost_usd || 0) + (totalCostCents / 100),
-            total_input_tokens: (currentScan.total_input_tokens || 0) + totalInputTokens,
-            total_output_tokens: (currentScan.total_output_tokens || 0) + totalOutputTokens,
-            total_results: (currentScan.total_results || 0) + newSuccessful,
-          })
-          .eq('id', scanId)
-      }
-    }
+    // Only updates scan totals if we actually processed something new
+    await addScanTotals(supabase, scanId, taskResults)
 
     const duration = Date.now() - startTime
     const completedQueries = queries.length // Number of original queries processed (not including follow-ups)
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { getPricingConfigs, getUserProfile } from '@/lib/credits'
+import { buildScanCostEstimate, loadTokenHistory } from '@/lib/credits/estimate'
+import { resolveProjectModels } from '@/lib/ai/deprecation'
+import { loadModelCatalog } from '@/lib/ai/catalog'
+import { getEvaluationModelForUser } from '@/lib/scan/runner'
+import { getFollowUpHelperModel } from '@/lib/scan/adaptive-follow-up'
+
+export const runtime = 'edge'
+export const maxDuration = 10
+
+/**
+ * Dry run of a scan: what it would cost, per query × model
+ * Uses the same queries, models, samples and follow-up depth as the queue route,
+ * without creating a scan or reserving credits.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await loadModelCatalog(supabase)
+
+    const { id: projectId } = await params
+
+    const { data: project, error: projectError } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('*')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { data: queries } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('id, query_text')
+      .eq('project_id', projectId)
+      .eq('is_active', true)
+
+    const { models, replacements: modelReplacements } = resolveProjectModels((project.selected_models || []) as string[])
+
+    const [pricing, history, evaluationModel, profile] = await Promise.all([
+      getPricingConfigs(),
+      loadTokenHistory(supabase, models),
+      getEvaluationModelForUser(supabase, user.id),
+      getUserProfile(user.id),
+    ])
+
+    const followUpEnabled = project.follow_up_enabled === true
+    const estimate = buildScanCostEstimate({
+      pricing,
+      queries: queries || [],
+      models,
+      samplesPerQuery: project.samples_per_query || 1,
+      followUpDepth: followUpEnabled ? (project.follow_up_depth || 1) : 0,
+      evaluationModel,
+      history,
+      followUpHelperModel: followUpEnabled && project.follow_up_mode === 'adaptive'
+        ? getFollowUpHelperModel(project.query_generation_model, evaluationModel)
+        : null,
+    })
+
+    return NextResponse.json({
+      ...estimate,
+      totalUsd: estimate.totalCents / 100,
+      // Free scans and test/admin accounts are not charged to the credit balance
+      chargedToCredits: profile?.tier === 'paid',
+      balanceCents: profile?.credit_balance_cents ?? null,
+      modelReplacements,
+    })
+  } catch (error: unknown) {
+    console.error('[Scan Estimate] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to estimate scan cost') },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { TABLES } from '@/lib/db/schema'
+import { TABLES, type ScanQueueItem } from '@/lib/db/schema'
+import { closeScan, QUEUE_STALE_AFTER_MS } from '@/lib/scan/runner'
 
 export const runtime = 'edge'
 
@@ -35,9 +36,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Queue item not found' }, { status: 404 })
     }
 
-    // If scan is completed or failed, also return the scan data
+    // If scan is finished, also return the scan data
     let scanData = null
-    if (queueItem.scan_id && ['completed', 'failed'].includes(queueItem.status)) {
+    if (queueItem.scan_id && ['completed', 'failed', 'cancelled'].includes(queueItem.status)) {
       const { data: scan } = await supabase
         .from(TABLES.SCANS)
         .select('*')
@@ -57,6 +58,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         message: queueItem.progress_message,
       },
       error: queueItem.error_message,
+      lastPair: queueItem.last_pair,
       createdAt: queueItem.created_at,
       startedAt: queueItem.started_at,
       completedAt: queueItem.completed_at,
@@ -85,7 +87,22 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     const { id: projectId, queueId } = await params
 
-    // Update queue item to cancelled (only if pending or running)
+    const { data: current } = await supabase
+      .from('scan_queue')
+      .select('*')
+      .eq('id', queueId)
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .in('status', ['pending', 'running'])
+      .single()
+
+    if (!current) {
+      return NextResponse.json({ 
+        error: 'Cannot cancel: scan not found or already completed' 
+      }, { status: 404 })
+    }
+
+    // Update queue item to cancelled (only if still pending or running)
     const { data: queueItem, error: updateError } = await supabase
       .from('scan_queue')
       .update({ 
@@ -94,9 +111,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         completed_at: new Date().toISOString()
       })
       .eq('id', queueId)
-      .eq('project_id', projectId)
-      .eq('user_id', user.id)
-      .in('status', ['pending', 'running'])
+      .eq('status', current.status)
       .select()
       .single()
 
@@ -106,12 +121,12 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       }, { status: 404 })
     }
 
-    // If there's an associated scan, mark it as cancelled too
-    if (queueItem.scan_id) {
-      await supabase
-        .from(TABLES.SCANS)
-        .update({ status: 'cancelled' })
-        .eq('id', queueItem.scan_id)
+    // A running worker closes the scan after its current pairs. Without a live
+    // worker, close it here: score the finished pairs or stop it and release credits.
+    const workerAlive = current.status === 'running' &&
+      Date.now() - new Date(current.updated_at).getTime() < QUEUE_STALE_AFTER_MS
+    if (!workerAlive) {
+      await closeScan(supabase, queueItem, (queueItem as ScanQueueItem).checkpoint)
     }
 
     console.log(`[Scan Queue] Cancelled queue item ${queueId}`)
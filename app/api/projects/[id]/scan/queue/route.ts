@@ -2,15 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { TABLES } from '@/lib/db/schema'
 import { canRunScan, validateModelSelection } from '@/lib/credits/middleware'
-import { createReservation, getPricingConfigs, estimateScanCost, getUserProfile } from '@/lib/credits'
-import { AVAILABLE_MODELS } from '@/lib/ai/providers'
+import { createReservation, releaseReservation, getPricingConfigs, estimateScanCost, getUserProfile } from '@/lib/credits'
+import { resolveProjectModels } from '@/lib/ai/deprecation'
+import { loadModelCatalog } from '@/lib/ai/catalog'
+import { checkScanBudget } from '@/lib/credits/budget'
+import { createScanCheckpoint, triggerQueueWorker, getEvaluationModelForUser } from '@/lib/scan/runner'
+import { getFollowUpHelperModel } from '@/lib/scan/adaptive-follow-up'
 
 export const runtime = 'edge'
 export const maxDuration = 10
 
 /**
  * Queue a scan for background processing
- * This creates a scan_queue entry that will be processed by the cron worker
+ * Creates the scan, reserves credits and adds a scan_queue entry with a checkpoint
+ * that the process-queue worker works through pair by pair.
  * The scan will continue running even if the user refreshes or closes the browser
  */
 export async function POST(
@@ -25,6 +30,8 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     const { id: projectId } = await params
 
     // Check if user can run a scan (tier limits, credits)
@@ -75,12 +82,13 @@ export async function POST(
       }, { status: 409 })
     }
 
-    // Check if user has selected models and filter out unavailable ones
+    // Check if user has selected models; retired ones run as their successor
     const projectModels = (project.selected_models || []) as string[]
-    const availableModelIds = AVAILABLE_MODELS.filter(m => m.isActive).map(m => m.id)
-    
-    // Filter out models that no longer exist in AVAILABLE_MODELS
-    const selectedModels = projectModels.filter(m => availableModelIds.includes(m))
+    const { models: selectedModels, replacements: modelReplacements } = resolveProjectModels(projectModels)
+
+    if (modelReplacements.length > 0) {
+      console.log(`[Scan Queue] Retired models: ${modelReplacements.map(r => `${r.from} → ${r.to || 'dropped'}`).join(', ')}`)
+    }
     
     if (selectedModels.length === 0) {
       return NextResponse.json({ 
@@ -98,30 +106,89 @@ export async function POST(
       }, { status: 403 })
     }
 
-    // Calculate total operations
+    // Calculate total operations (including follow-ups and repeated samples)
     const followUpEnabled = project.follow_up_enabled === true
     const followUpDepth = project.follow_up_depth || 1
-    const operationsPerQuery = followUpEnabled ? (1 + followUpDepth) : 1
+    const samplesPerQuery = project.samples_per_query || 1
+    const operationsPerQuery = (followUpEnabled ? (1 + followUpDepth) : 1) * samplesPerQuery
     const totalOperations = queries.length * selectedModels.length * operationsPerQuery
+    // Progress is tracked per query-model pair (one pair = one sample incl. follow-ups)
+    const totalPairs = queries.length * selectedModels.length * samplesPerQuery
+
+    // Per-project monthly budget
+    const pricing = await getPricingConfigs()
+    const evaluationModel = await getEvaluationModelForUser(supabase, user.id)
+    const budgetCheck = await checkScanBudget(supabase, project, {
+      pricing,
+      queries,
+      models: selectedModels,
+      samplesPerQuery,
+      followUpDepth: followUpEnabled ? followUpDepth : 0,
+      evaluationModel,
+      followUpHelperModel: followUpEnabled && project.follow_up_mode === 'adaptive'
+        ? getFollowUpHelperModel(project.query_generation_model, evaluationModel)
+        : null,
+    })
+    if (!budgetCheck.allowed) {
+      return NextResponse.json({
+        error: budgetCheck.reason,
+        code: 'PROJECT_BUDGET_EXCEEDED',
+        budget: budgetCheck.budget,
+      }, { status: 403 })
+    }
 
-    // Estimate cost for paid users
+    // Estimate cost and create credit reservation (for paid users)
     const profile = await getUserProfile(user.id)
+    let reservationId: string | undefined
     let estimatedCostCents = 0
 
     if (profile && profile.tier !== 'free') {
-      const pricing = await getPricingConfigs()
-      estimatedCostCents = estimateScanCost(pricing, selectedModels, queries.length)
+      estimatedCostCents = estimateScanCost(pricing, selectedModels, queries.length * samplesPerQuery)
       
-      // Check if user has enough credits (with 20% buffer)
-      const requiredCents = Math.ceil(estimatedCostCents * 1.2)
-      if (profile.credit_balance_cents < requiredCents) {
+      // Add 20% buffer for evaluation costs
+      const reserveResult = await createReservation(user.id, Math.ceil(estimatedCostCents * 1.2), projectId)
+      if (!reserveResult.success) {
         return NextResponse.json({ 
-          error: 'Insufficient credits for this scan',
+          error: reserveResult.error || 'Failed to reserve credits',
           code: 'INSUFFICIENT_CREDITS',
-          estimatedCost: estimatedCostCents / 100,
-          available: profile.credit_balance_cents / 100
+          estimatedCost: estimatedCostCents / 100
         }, { status: 402 })
       }
+
+      reservationId = reserveResult.reservationId
+    }
+
+    // Create scan record
+    const { data: scan, error: scanError } = await supabase
+      .from(TABLES.SCANS)
+      .insert({
+        project_id: projectId,
+        user_id: user.id,
+        status: 'running',
+        evaluation_method: 'ai',
+        total_cost_usd: 0,
+        total_input_tokens: 0,
+        total_output_tokens: 0,
+        total_queries: queries.length,
+        total_results: 0,
+        models: selectedModels,
+      })
+      .select()
+      .single()
+
+    if (scanError || !scan) {
+      if (reservationId) {
+        await releaseReservation(reservationId, 'Scan creation failed')
+      }
+      return NextResponse.json({ error: 'Failed to create scan' }, { status: 500 })
+    }
+
+    // Update reservation with actual scan ID
+    if (reservationId && reservationId !== 'free-tier' && reservationId !== 'test-account' && reservationId !== 'admin-account') {
+      await supabase
+        .from('credit_reservations')
+        .update({ scan_id: scan.id })
+        .eq('id', reservationId)
     }
 
     // Create queue entry
@@ -130,31 +197,51 @@ export async function POST(
       .insert({
         user_id: user.id,
         project_id: projectId,
+        scan_id: scan.id,
         status: 'pending',
         priority: 0,
         progress_current: 0,
-        progress_total: totalOperations,
+        progress_total: totalPairs,
         progress_message: 'Waiting in queue...',
         is_scheduled: false,
+        checkpoint: createScanCheckpoint(
+          queries.map(q => q.id),
+          selectedModels,
+          samplesPerQuery,
+          reservationId || null
+        ),
+        attempts: 0,
       })
       .select()
       .single()
 
     if (queueError || !queueItem) {
       console.error('[Scan Queue] Failed to create queue item:', queueError)
+      if (reservationId) {
+        await releaseReservation(reservationId, 'Scan queueing failed')
+      }
+      await supabase
+        .from(TABLES.SCANS)
+        .update({ status: 'failed', completed_at: new Date().toISOString() })
+        .eq('id', scan.id)
       return NextResponse.json({ error: 'Failed to queue scan' }, { status: 500 })
     }
 
-    console.log(`[Scan Queue] Created queue item ${queueItem.id} for project ${projectId}: ${totalOperations} operations`)
+    console.log(`[Scan Queue] Created queue item ${queueItem.id} for scan ${scan.id}: ${totalPairs} pairs, ${totalOperations} operations, reservation: ${reservationId}`)
 
     // Trigger the worker to start processing (fire and forget)
-    triggerWorker(request)
+    triggerQueueWorker()
 
     return NextResponse.json({
       queueId: queueItem.id,
+      scanId: scan.id,
       status: 'pending',
       totalOperations,
+      totalPairs,
+      models: selectedModels,
+      modelReplacements,
       estimatedCostUsd: estimatedCostCents / 100,
+      budgetWarning: budgetCheck.warning ? budgetCheck.reason : null,
       message: 'Scan queued for processing'
     })
   } catch (error: any) {
@@ -165,28 +252,3 @@ export async function POST(
     )
   }
 }
-
-// Trigger the worker to process the queue
-async function triggerWorker(request: NextRequest) {
-  try {
-    const baseUrl = process.env.VERCEL_URL 
-      ? `https://${process.env.VERCEL_URL}` 
-      : process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
-    
-    const cronSecret = process.env.CRON_SECRET
-    const authHeader = cronSecret ? `Bearer ${cronSecret}` : ''
-    
-    // Fire and forget - don't wait for response
-    fetch(`${baseUrl}/api/cron/process-queue`, {
-      method: 'POST',
-      headers: {
-        'Authorization': authHeader,
-        'Content-Type': 'application/json'
-      }
-    }).catch(err => {
-      console.warn('[Scan Queue] Worker trigger failed:', err.message)
-    })
-  } catch (error) {
-    console.warn('[Scan Queue] Failed to trigger worker:', error)
-  }
-}
@@ -3,7 +3,11 @@ import { createClient } from '@/lib/supabase/server'
 import { TABLES } from '@/lib/db/schema'
 import { canRunScan, validateModelSelection, getModelsForUser } from '@/lib/credits/middleware'
 import { createReservation, getPricingConfigs, estimateScanCost, getUserProfile } from '@/lib/credits'
-import { AVAILABLE_MODELS } from '@/lib/ai/providers'
+import { resolveProjectModels } from '@/lib/ai/deprecation'
+import { loadModelCatalog } from '@/lib/ai/catalog'
+import { checkScanBudget } from '@/lib/credits/budget'
+import { getEvaluationModelForUser } from '@/lib/scan/runner'
+import { getFollowUpHelperModel } from '@/lib/scan/adaptive-follow-up'
 
 export const runtime = 'edge'
 export const maxDuration = 10
@@ -21,6 +25,8 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     const { id: projectId } = await params
 
     // Check if user can run a scan (tier limits, credits)
@@ -55,16 +61,12 @@ export async function POST(
       return NextResponse.json({ error: 'No active queries found' }, { status: 400 })
     }
 
-    // Check if user has selected models and filter out unavailable ones
+    // Check if user has selected models; retired ones run as their successor
     const projectModels = (project.selected_models || []) as string[]
-    const availableModelIds = AVAILABLE_MODELS.filter(m => m.isActive).map(m => m.id)
-    
-    // Filter out models that no longer exist in AVAILABLE_MODELS
-    const selectedModels = projectModels.filter(m => availableModelIds.includes(m))
-    const removedModels = projectModels.filter(m => !availableModelIds.includes(m))
+    const { models: selectedModels, replacements: modelReplacements } = resolveProjectModels(projectModels)
     
-    if (removedModels.length > 0) {
-      console.log(`[Scan Start] Filtered out unavailable models: ${removedModels.join(', ')}`)
+    if (modelReplacements.length > 0) {
+      console.log(`[Scan Start] Retired models: ${modelReplacements.map(r => `${r.from} → ${r.to || 'dropped'}`).join(', ')}`)
     }
     
     if (selectedModels.length === 0) {
@@ -85,19 +87,41 @@ export async function POST(
     const followUpEnabled = project.follow_up_enabled === true
     const followUpDepth = project.follow_up_depth || 1
     
-    // Calculate total operations (including follow-ups)
-    const operationsPerQuery = followUpEnabled ? (1 + followUpDepth) : 1
+    const samplesPerQuery = project.samples_per_query || 1
+    
+    // Calculate total operations (including follow-ups and repeated samples)
+    const operationsPerQuery = (followUpEnabled ? (1 + followUpDepth) : 1) * samplesPerQuery
     const totalOperations = queries.length * selectedModels.length * operationsPerQuery
 
+    // Per-project monthly budget
+    const pricing = await getPricingConfigs()
+    const evaluationModel = await getEvaluationModelForUser(supabase, user.id)
+    const budgetCheck = await checkScanBudget(supabase, project, {
+      pricing,
+      queries,
+      models: selectedModels,
+      samplesPerQuery,
+      followUpDepth: followUpEnabled ? followUpDepth : 0,
+      evaluationModel,
+      followUpHelperModel: followUpEnabled && project.follow_up_mode === 'adaptive'
+        ? getFollowUpHelperModel(project.query_generation_model, evaluationModel)
+        : null,
+    })
+    if (!budgetCheck.allowed) {
+      return NextResponse.json({
+        error: budgetCheck.reason,
+        code: 'PROJECT_BUDGET_EXCEEDED',
+        budget: budgetCheck.budget,
+      }, { status: 403 })
+    }
+
     // Estimate cost and create credit reservation (for paid users)
     const profile = await getUserProfile(user.id)
     let reservationId: string | undefined
     let estimatedCostCents = 0
 
     if (profile && profile.tier !== 'free') {
-      // Get pricing to estimate cost
-      const pricing = await getPricingConfigs()
-      estimatedCostCents = estimateScanCost(pricing, selectedModels, queries.length)
+      estimatedCostCents = estimateScanCost(pricing, selectedModels, queries.length * samplesPerQuery)
       
       // Add 20% buffer for evaluation costs
       const reservationAmount = Math.ceil(estimatedCostCents * 1.2)
@@ -128,6 +152,7 @@ export async function POST(
         total_output_tokens: 0,
         total_queries: queries.length,
         total_results: 0,
+        models: selectedModels,
       })
       .select()
       .single()
@@ -160,14 +185,17 @@ export async function POST(
         query_type: q.query_type || 'informational', // Default to informational if not set
       })),
       models: selectedModels,
+      modelReplacements,
       brandVariations: project.brand_variations || [],
       domain: project.domain,
       language: project.language || 'en',
       reservationId,
       estimatedCostUsd: estimatedCostCents / 100,
+      budgetWarning: budgetCheck.warning ? budgetCheck.reason : null,
       // Follow-up settings
       followUpEnabled,
       followUpDepth,
+      samplesPerQuery,
     })
   } catch (error: unknown) {
     console.error('[Scan Start] Error:', error)
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { applyRescore } from '@/lib/scan/rescore'
+
+export const runtime = 'edge'
+export const maxDuration = 10
+
+interface RouteParams {
+  params: Promise<{ id: string; scanId: string }>
+}
+
+/**
+ * Re-score a completed scan under the current formulas and scoring profile
+ * Uses the stored metrics only - no AI calls, no credits. Changes are audited.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId, scanId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: scan } = await supabase
+      .from(TABLES.SCANS)
+      .select('id, status')
+      .eq('id', scanId)
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!scan) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+    if (scan.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Only completed scans can be re-scored', code: 'SCAN_NOT_COMPLETED' },
+        { status: 400 }
+      )
+    }
+
+    const result = await applyRescore(supabase, { projectId, userId: user.id, scanIds: [scanId] }, createAdminClient())
+
+    return NextResponse.json({
+      success: true,
+      rescore: result.scans[0] ?? null,
+      updated: result.updated > 0,
+      formulaVersion: result.formulaVersion,
+      profileVersion: result.profileVersion,
+    })
+  } catch (error: unknown) {
+    console.error('[Scan Rescore] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to re-score scan') },
+      { status: 500 }
+    )
+  }
+}
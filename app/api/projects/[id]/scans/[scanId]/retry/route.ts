@@ -0,0 +1,254 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { validateModelSelection } from '@/lib/credits/middleware'
+import { createReservation, releaseReservation, getPricingConfigs, estimateScanCost, getUserProfile } from '@/lib/credits'
+import { loadModelCatalog } from '@/lib/ai/catalog'
+import { checkRetryBudget } from '@/lib/credits/budget'
+import { loadScanRetryPlan, createRetryCheckpoint } from '@/lib/scan/retry'
+import { createScanCheckpoint, triggerQueueWorker, getEvaluationModelForUser } from '@/lib/scan/runner'
+import { getFollowUpHelperModel } from '@/lib/scan/adaptive-follow-up'
+
+export const runtime = 'edge'
+export const maxDuration = 10
+
+interface RouteParams {
+  params: Promise<{ id: string; scanId: string }>
+}
+
+async function loadScan(supabase: Awaited<ReturnType<typeof createClient>>, userId: string, projectId: string, scanId: string) {
+  const { data: project } = await supabase
+    .from(TABLES.PROJECTS)
+    .select('id, selected_models, follow_up_enabled, follow_up_depth, follow_up_mode, query_generation_model, monthly_budget_cents')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .single()
+
+  if (!project) return { project: null, scan: null }
+
+  const { data: scan } = await supabase
+    .from(TABLES.SCANS)
+    .select('*')
+    .eq('id', scanId)
+    .eq('project_id', projectId)
+    .single()
+
+  return { project, scan }
+}
+
+/**
+ * Missing (query, model, follow-up level) answers of a finished scan
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, scanId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { project, scan } = await loadScan(supabase, user.id, id, scanId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (!scan) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+
+    const { plan, followUpDepth, samplesPerQuery } = await loadScanRetryPlan(supabase, scan, project)
+
+    return NextResponse.json({
+      missing: plan.missing,
+      missingPairs: plan.missing.length,
+      missingResults: plan.missingResults,
+      followUpDepth,
+      samplesPerQuery,
+    })
+  } catch (error: unknown) {
+    console.error('[Scan Retry] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to check scan for missing results') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Re-run only the missing answers of a finished scan
+ * Queues a retry item on the scan's own queue: partial chains are continued,
+ * the scan is re-finalized and only the new answers are charged.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId, scanId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await loadModelCatalog(supabase)
+
+    const { project, scan } = await loadScan(supabase, user.id, projectId, scanId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (!scan) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+    if (scan.status === 'running') {
+      return NextResponse.json({ error: 'Scan is still running' }, { status: 409 })
+    }
+
+    // One queued scan per project, retries included
+    const { data: existingQueue } = await supabase
+      .from('scan_queue')
+      .select('id, status')
+      .eq('project_id', projectId)
+      .in('status', ['pending', 'running'])
+      .limit(1)
+
+    if (existingQueue && existingQueue.length > 0) {
+      return NextResponse.json({
+        error: 'A scan is already queued or running for this project',
+        code: 'SCAN_ALREADY_QUEUED',
+        queueId: existingQueue[0].id
+      }, { status: 409 })
+    }
+
+    const { queries, models, samplesPerQuery, followUpDepth, results, plan } = await loadScanRetryPlan(supabase, scan, project)
+
+    if (plan.missing.length === 0) {
+      return NextResponse.json({ error: 'Scan has no missing results', code: 'NOTHING_TO_RETRY' }, { status: 400 })
+    }
+
+    const retryModels = Array.from(new Set(plan.missing.map(pair => pair.modelId)))
+    const modelValidation = await validateModelSelection(user.id, retryModels)
+    if (!modelValidation.valid) {
+      return NextResponse.json({
+        error: modelValidation.reason,
+        invalidModels: modelValidation.invalidModels,
+        code: 'INVALID_MODELS'
+      }, { status: 403 })
+    }
+
+    // Per-project monthly budget, for the missing answers only
+    const pricing = await getPricingConfigs()
+    const evaluationModel = await getEvaluationModelForUser(supabase, user.id)
+    const budgetCheck = await checkRetryBudget(supabase, project, {
+      pricing,
+      queries,
+      models,
+      samplesPerQuery,
+      followUpDepth,
+      evaluationModel,
+      followUpHelperModel: followUpDepth > 0 && project.follow_up_mode === 'adaptive'
+        ? getFollowUpHelperModel(project.query_generation_model, evaluationModel)
+        : null,
+    }, plan.missingResults)
+    if (!budgetCheck.allowed) {
+      return NextResponse.json({
+        error: budgetCheck.reason,
+        code: 'PROJECT_BUDGET_EXCEEDED',
+        budget: budgetCheck.budget,
+      }, { status: 403 })
+    }
+
+    // Reserve credits for the missing answers only (for paid users)
+    const profile = await getUserProfile(user.id)
+    let reservationId: string | undefined
+    let estimatedCostCents = 0
+
+    if (profile && profile.tier !== 'free') {
+      for (const modelId of retryModels) {
+        const answers = plan.missing
+          .filter(pair => pair.modelId === modelId)
+          .reduce((sum, pair) => sum + pair.missingLevels.length, 0)
+        estimatedCostCents += estimateScanCost(pricing, [modelId], answers)
+      }
+
+      const reserveResult = await createReservation(user.id, Math.ceil(estimatedCostCents * 1.2), projectId)
+      if (!reserveResult.success) {
+        return NextResponse.json({
+          error: reserveResult.error || 'Failed to reserve credits',
+          code: 'INSUFFICIENT_CREDITS',
+          estimatedCost: estimatedCostCents / 100
+        }, { status: 402 })
+      }
+
+      reservationId = reserveResult.reservationId
+    }
+
+    if (reservationId && reservationId !== 'free-tier' && reservationId !== 'test-account' && reservationId !== 'admin-account') {
+      await supabase
+        .from('credit_reservations')
+        .update({ scan_id: scanId })
+        .eq('id', reservationId)
+    }
+
+    // Kept results were charged when the scan first completed
+    const checkpoint = createScanCheckpoint(queries.map(q => q.id), models, samplesPerQuery, reservationId || null)
+    checkpoint.completed = plan.completedPairKeys
+    checkpoint.retry = createRetryCheckpoint({ followUpDepth, results, plan })
+
+    const totalPairs = queries.length * models.length * samplesPerQuery
+
+    const { data: queueItem, error: queueError } = await supabase
+      .from('scan_queue')
+      .insert({
+        user_id: user.id,
+        project_id: projectId,
+        scan_id: scanId,
+        status: 'pending',
+        priority: 0,
+        progress_current: plan.completedPairKeys.length,
+        progress_total: totalPairs,
+        progress_message: `Retrying ${plan.missing.length} query-model pair(s)...`,
+        is_scheduled: false,
+        checkpoint,
+        attempts: 0,
+      })
+      .select()
+      .single()
+
+    if (queueError || !queueItem) {
+      console.error('[Scan Retry] Failed to create queue item:', queueError)
+      if (reservationId) {
+        await releaseReservation(reservationId, 'Scan retry queueing failed')
+      }
+      return NextResponse.json({ error: 'Failed to queue retry' }, { status: 500 })
+    }
+
+    // Back to running until the worker finalizes it again
+    await supabase
+      .from(TABLES.SCANS)
+      .update({ status: 'running', completed_at: null })
+      .eq('id', scanId)
+
+    console.log(`[Scan Retry] Queued ${queueItem.id} for scan ${scanId}: ${plan.missing.length} pairs, ${plan.missingResults} answers, reservation: ${reservationId}`)
+
+    triggerQueueWorker()
+
+    return NextResponse.json({
+      queueId: queueItem.id,
+      scanId,
+      status: 'pending',
+      missingPairs: plan.missing.length,
+      missingResults: plan.missingResults,
+      totalPairs,
+      estimatedCostUsd: estimatedCostCents / 100,
+      budgetWarning: budgetCheck.warning ? budgetCheck.reason : null,
+      message: 'Retry queued for processing'
+    })
+  } catch (error: unknown) {
+    console.error('[Scan Retry] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to retry scan') },
+      { status: 500 }
+    )
+  }
+}
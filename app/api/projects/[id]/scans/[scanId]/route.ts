@@ -3,6 +3,8 @@ import { createClient } from '@/lib/supabase/server'
 import { getProjectById } from '@/lib/db/projects'
 import { TABLES } from '@/lib/db/schema'
 import { safeErrorMessage } from '@/lib/api-error'
+import { aggregateTopicScores, buildQueryTopicMap, hasTopics } from '@/lib/scan/topics'
+import { aggregatePersonaScores, hasPersonaResults } from '@/lib/scan/personas'
 
 interface RouteParams {
   params: Promise<{ id: string; scanId: string }>
@@ -45,13 +47,32 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       .order('model', { ascending: true })
       .order('follow_up_level', { ascending: true })
 
+    // Breakdown by query tag (current tags of the project's queries)
+    const { data: queries } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('query_text, tags')
+      .eq('project_id', id)
+
+    const topics = queries && hasTopics(queries)
+      ? aggregateTopicScores(results || [], buildQueryTopicMap(queries))
+      : []
+
+    // Breakdown by the persona each query was asked as
+    const personas = results && hasPersonaResults(results)
+      ? aggregatePersonaScores(results, project.personas || [])
+      : []
+
     return NextResponse.json({
       scan,
       results: results || [],
+      topics,
+      personas,
       project: {
         brand_variations: project.brand_variations || [],
         domain: project.domain,
         target_keywords: project.target_keywords || [],
+        competitors: project.competitors || [],
+        language: project.language || 'en',
       },
     })
   } catch (error: unknown) {
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getProjectById } from '@/lib/db/projects'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { compareScans } from '@/lib/scan/compare'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const SCAN_SUMMARY_FIELDS = 'id, created_at, completed_at, status, overall_score, avg_visibility, avg_sentiment, avg_ranking, total_results'
+
+/**
+ * GET /api/projects/[id]/scans/compare?base=<scanId>&target=<scanId>
+ * Per-query and per-model deltas between two scans of the same project
+ * If base is newer than target, the scans are swapped so deltas read "old → new".
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Verify project ownership
+    const project = await getProjectById(id)
+    if (!project || project.user_id !== user.id) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const baseId = request.nextUrl.searchParams.get('base')
+    const targetId = request.nextUrl.searchParams.get('target')
+
+    if (!baseId || !targetId) {
+      return NextResponse.json({ error: 'Both base and target scan IDs are required' }, { status: 400 })
+    }
+    if (baseId === targetId) {
+      return NextResponse.json({ error: 'Cannot compare a scan with itself' }, { status: 400 })
+    }
+
+    const { data: scans, error: scansError } = await supabase
+      .from(TABLES.SCANS)
+      .select(SCAN_SUMMARY_FIELDS)
+      .eq('project_id', id)
+      .in('id', [baseId, targetId])
+
+    if (scansError) throw scansError
+
+    const found = scans || []
+    if (found.length !== 2) {
+      return NextResponse.json({ error: 'Scan not found' }, { status: 404 })
+    }
+    if (found.some(s => s.status !== 'completed')) {
+      return NextResponse.json({ error: 'Only completed scans can be compared' }, { status: 400 })
+    }
+
+    const [base, target] = [...found].sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+    const { data: results, error: resultsError } = await supabase
+      .from(TABLES.SCAN_RESULTS)
+      .select('scan_id, query_text, model, follow_up_level, metrics_json')
+      .in('scan_id', [base.id, target.id])
+      .eq('follow_up_level', 0)
+
+    if (resultsError) throw resultsError
+
+    const allResults = results || []
+    const comparison = compareScans(
+      allResults.filter(r => r.scan_id === base.id),
+      allResults.filter(r => r.scan_id === target.id)
+    )
+
+    return NextResponse.json({ base, target, comparison })
+  } catch (error: unknown) {
+    console.error('Error comparing scans:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to compare scans') }, 
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { safeErrorMessage } from '@/lib/api-error'
+import { applyRescore, parseRescoreRange, previewRescore } from '@/lib/scan/rescore'
+
+export const runtime = 'edge'
+export const maxDuration = 10
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+async function verifyProject(supabase: Awaited<ReturnType<typeof createClient>>, userId: string, projectId: string) {
+  const { data: project } = await supabase
+    .from(TABLES.PROJECTS)
+    .select('id')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .single()
+  return !!project
+}
+
+function invalidRange() {
+  return NextResponse.json(
+    { error: 'Invalid date range or cursor', code: 'INVALID_DATE_RANGE' },
+    { status: 400 }
+  )
+}
+
+/**
+ * Preview: completed scans in the range with their stored and recomputed scores
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (both optional, inclusive)&before=<nextCursor>
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!await verifyProject(supabase, user.id, projectId)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const range = parseRescoreRange(searchParams.get('from'), searchParams.get('to'), searchParams.get('before'))
+    if (!range) return invalidRange()
+
+    const preview = await previewRescore(supabase, { projectId, userId: user.id, ...range })
+
+    return NextResponse.json(preview)
+  } catch (error: unknown) {
+    console.error('[Rescore] Preview error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to preview re-scoring') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Re-score completed scans in the range from their stored results
+ * Body: { from?, to?, before? }. No AI calls, no credits; every change is audited.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: projectId } = await params
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!await verifyProject(supabase, user.id, projectId)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const range = parseRescoreRange(body.from, body.to, body.before)
+    if (!range) return invalidRange()
+
+    const result = await applyRescore(supabase, { projectId, userId: user.id, ...range }, createAdminClient())
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: unknown) {
+    console.error('[Rescore] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to re-score scans') },
+      { status: 500 }
+    )
+  }
+}
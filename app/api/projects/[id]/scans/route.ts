@@ -29,17 +29,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Get scheduled scan history to identify which scans were scheduled
     const { data: scheduledHistory } = await supabase
       .from(TABLES.SCHEDULED_SCAN_HISTORY)
-      .select('scan_id')
+      .select('scan_id, budget_warning')
       .eq('project_id', id)
       .not('scan_id', 'is', null)
     
-    // Create a set of scan IDs that were scheduled
-    const scheduledScanIds = new Set(scheduledHistory?.map(h => h.scan_id) || [])
+    // Scheduled scan IDs with the budget warning of their run
+    const scheduledScans = new Map((scheduledHistory || []).map(h => [h.scan_id, h.budget_warning as string | null]))
     
     // Add is_scheduled flag to each scan
     const scansWithScheduledFlag = scans.map(scan => ({
       ...scan,
-      is_scheduled: scheduledScanIds.has(scan.id)
+      is_scheduled: scheduledScans.has(scan.id),
+      budget_warning: scheduledScans.get(scan.id) ?? null,
     }))
     
     return NextResponse.json(scansWithScheduledFlag)
@@ -37,6 +37,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         scheduled_for,
         status,
         error_message,
+        budget_warning,
         created_at,
         completed_at
       `)
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { TABLES } from '@/lib/db/schema'
+import { getModelInfo } from '@/lib/ai/providers'
+import { loadModelCatalog } from '@/lib/ai/catalog'
+import { getDeprecatedSelections, migrateModelSelection, type ModelReplacement } from '@/lib/ai/deprecation'
+import { validateModelSelection } from '@/lib/credits/middleware'
+import { safeErrorMessage } from '@/lib/api-error'
+
+export const dynamic = 'force-dynamic'
+
+function withModelNames(replacement: ModelReplacement) {
+  return {
+    ...replacement,
+    fromName: getModelInfo(replacement.from)?.name || replacement.from,
+    toName: replacement.to ? getModelInfo(replacement.to)?.name || replacement.to : null,
+  }
+}
+
+/**
+ * GET /api/projects/model-migrations - Projects using retired or deprecated models
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await loadModelCatalog(supabase)
+
+    const { data: projects, error } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('id, name, selected_models')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+
+    if (error) throw error
+
+    const affected = (projects || [])
+      .map(project => {
+        const selectedModels = (project.selected_models || []) as string[]
+        const deprecated = getDeprecatedSelections(selectedModels)
+        return {
+          projectId: project.id,
+          projectName: project.name,
+          selectedModels,
+          migratedModels: migrateModelSelection(selectedModels).models,
+          replacements: deprecated.map(withModelNames),
+        }
+      })
+      .filter(project => project.replacements.length > 0)
+
+    return NextResponse.json({ projects: affected })
+  } catch (error: unknown) {
+    console.error('[Model Migrations] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to check model deprecations') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/projects/model-migrations - Move a project's deprecated models to their successors
+ * Body: { projectId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { projectId } = await request.json()
+    if (!projectId) {
+      return NextResponse.json({ error: 'Missing projectId' }, { status: 400 })
+    }
+
+    await loadModelCatalog(supabase)
+
+    const { data: project } = await supabase
+      .from(TABLES.PROJECTS)
+      .select('id, selected_models')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { models, replacements } = migrateModelSelection((project.selected_models || []) as string[])
+
+    if (replacements.length === 0) {
+      return NextResponse.json({ success: true, selectedModels: project.selected_models || [], replacements: [] })
+    }
+    if (models.length === 0) {
+      return NextResponse.json({
+        error: 'None of the selected models has a successor. Please choose new models in Project Settings.',
+      }, { status: 400 })
+    }
+
+    // Successors must be available on the user's tier
+    const modelValidation = await validateModelSelection(user.id, models)
+    if (!modelValidation.valid) {
+      return NextResponse.json({
+        error: modelValidation.reason,
+        invalidModels: modelValidation.invalidModels,
+        code: 'INVALID_MODELS'
+      }, { status: 403 })
+    }
+
+    const { error } = await supabase
+      .from(TABLES.PROJECTS)
+      .update({ selected_models: models, updated_at: new Date().toISOString() })
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+
+    console.log(`[Model Migrations] Project ${projectId}: ${replacements.map(r => `${r.from} → ${r.to || 'removed'}`).join(', ')}`)
+
+    return NextResponse.json({
+      success: true,
+      selectedModels: models,
+      replacements: replacements.map(withModelNames),
+    })
+  } catch (error: unknown) {
+    console.error('[Model Migrations] Error:', error)
+    return NextResponse.json(
+      { error: safeErrorMessage(error, 'Failed to migrate models') },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createProject, getProjects } from '@/lib/db/projects'
 import { safeErrorMessage } from '@/lib/api-error'
+import { normalizeCompetitors } from '@/lib/scan/competitors'
 
 export async function GET() {
   try {
@@ -41,6 +42,7 @@ export async function POST(request: NextRequest) {
       language, 
       brand_variations,
       target_keywords,
+      competitors,
       llm_models,  // Frontend sends as llm_models
       query_generation_model,
       evaluation_model,
@@ -79,6 +81,7 @@ export async function POST(request: NextRequest) {
       evaluation_method: 'ai' as const,
       brand_variations: brand_variations.filter((b: string) => b.trim()),
       target_keywords: target_keywords?.filter((k: string) => k.trim()) || [],
+      competitors: normalizeCompetitors(competitors),
       selected_models: llm_models,  // Database column is selected_models
       scheduled_scan_enabled: scheduled_scan_enabled || false,
       scheduled_scan_day: scheduled_scan_enabled ? (scheduled_scan_day ?? 1) : null,
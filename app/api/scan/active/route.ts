@@ -33,7 +33,8 @@ export async function GET(request: NextRequest) {
         progress_message,
         created_at,
         started_at,
-        error_message
+        error_message,
+        last_pair
       `)
       .eq('user_id', user.id)
       .in('status', ['pending', 'running'])
@@ -107,6 +108,7 @@ export async function GET(request: NextRequest) {
         message: scan.progress_message,
       },
       error: scan.error_message,
+      lastPair: scan.last_pair,
       createdAt: scan.created_at,
       startedAt: scan.started_at,
     }))
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { callEvaluation, getCheapestEvaluationModel, getModelInfo, type EvaluationMetrics } from '@/lib/ai'
+import { callEvaluation, getCheapestEvaluationModel, getModelInfo, loadModelCatalog, type EvaluationMetrics } from '@/lib/ai'
 import { calculateDynamicCost } from '@/lib/credits'
 
 export const runtime = 'edge'
@@ -19,8 +19,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    await loadModelCatalog(supabase)
+
     const body = await request.json()
-    const { content, brandVariations, domain, evaluationModel } = body
+    const { content, brandVariations, domain, evaluationModel, language } = body
     
     console.log(`[AI Evaluate] Content length: ${content?.length || 0}, domain: ${domain}`)
 
@@ -65,7 +67,9 @@ export async function POST(request: NextRequest) {
           modelToUse,
           content,
           brandVariations,
-          domain
+          domain,
+          language,
+          { fallback: true }
         )
         
         // If we got valid metrics, break out of retry loop
@@ -95,7 +99,7 @@ export async function POST(request: NextRequest) {
 
     // Calculate cost with markup
     const costCents = await calculateDynamicCost(
-      modelToUse,
+      result.model, // Fallback model when modelToUse failed
       result.inputTokens,
       result.outputTokens
     )
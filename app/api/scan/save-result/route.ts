@@ -62,6 +62,8 @@ export async function POST(request: NextRequest) {
         metrics_json: metrics,
         input_tokens: inputTokens,
         output_tokens: outputTokens,
+        answer_input_tokens: inputTokens,
+        answer_output_tokens: outputTokens,
         cost_usd: cost,
         // Follow-up fields
         follow_up_level: followUpLevel ?? 0,
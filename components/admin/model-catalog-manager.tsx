@@ -0,0 +1,419 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Cpu, Plus, Edit2, Check, X, Brain, Globe, AlertTriangle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import type { ModelCatalogEntry } from '@/lib/db/schema'
+
+const PROVIDERS = ['openai', 'anthropic', 'google', 'groq', 'perplexity']
+
+const EMPTY_FORM = {
+  id: '',
+  provider: 'openai',
+  name: '',
+  description: '',
+  gateway_model_id: '',
+  context_window: '128000',
+  input_price_usd: '',
+  output_price_usd: '',
+  capabilities: '',
+  aliases: '',
+  chain_of_thought: false,
+  available_free_tier: false,
+  is_active: true,
+  deprecated_at: '',
+  replacement_model: '',
+}
+
+type CatalogForm = typeof EMPTY_FORM
+
+const selectClassName = 'w-full h-9 rounded-md border border-zinc-800 bg-zinc-800 px-3 text-sm text-zinc-100 focus:outline-none focus:ring-1 focus:ring-zinc-600'
+
+function Toggle({ checked, onChange, label }: { checked: boolean; onChange: (value: boolean) => void; label: string }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!checked)}
+      className="flex items-center gap-2 text-sm text-zinc-300"
+    >
+      <span className={cn(
+        'w-5 h-5 rounded border flex items-center justify-center',
+        checked ? 'bg-emerald-500 border-emerald-500' : 'border-zinc-600'
+      )}>
+        {checked && <Check className="w-3 h-3" />}
+      </span>
+      {label}
+    </button>
+  )
+}
+
+export function ModelCatalogManager() {
+  const [models, setModels] = useState<ModelCatalogEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState<CatalogForm>(EMPTY_FORM)
+
+  useEffect(() => {
+    fetchModels()
+  }, [])
+
+  async function fetchModels() {
+    try {
+      const res = await fetch('/api/admin/models')
+      if (res.ok) {
+        const data = await res.json()
+        setModels(data.models || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch model catalog:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function startEditing(model: ModelCatalogEntry) {
+    setEditingId(model.id)
+    setIsCreating(false)
+    setFormData({
+      id: model.id,
+      provider: model.provider,
+      name: model.name,
+      description: model.description || '',
+      gateway_model_id: model.gateway_model_id || '',
+      context_window: String(model.context_window),
+      input_price_usd: String(model.input_price_usd),
+      output_price_usd: String(model.output_price_usd),
+      capabilities: (model.capabilities || []).join(', '),
+      aliases: (model.aliases || []).join(', '),
+      chain_of_thought: model.chain_of_thought,
+      available_free_tier: model.available_free_tier,
+      is_active: model.is_active,
+      deprecated_at: model.deprecated_at || '',
+      replacement_model: model.replacement_model || '',
+    })
+  }
+
+  function cancelEditing() {
+    setEditingId(null)
+    setIsCreating(false)
+    setFormData(EMPTY_FORM)
+  }
+
+  async function saveModel() {
+    if (!formData.name.trim() || (!editingId && !formData.id.trim())) {
+      alert('Model ID and name are required')
+      return
+    }
+
+    setActionLoading(true)
+    try {
+      const res = await fetch('/api/admin/models', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          id: editingId || formData.id.trim(),
+        }),
+      })
+
+      if (res.ok) {
+        await fetchModels()
+        cancelEditing()
+      } else {
+        const data = await res.json()
+        alert(data.error || 'Failed to save model')
+      }
+    } catch (error) {
+      console.error('Failed to save model:', error)
+      alert('Failed to save model')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="w-5 h-5" />
+              Model Catalog
+            </CardTitle>
+            <CardDescription>
+              Models, capabilities, aliases and deprecations. Changes reach running servers within 5 minutes.
+            </CardDescription>
+          </div>
+          {!isCreating && !editingId && (
+            <Button onClick={() => { setIsCreating(true); setFormData(EMPTY_FORM) }} size="sm">
+              <Plus className="w-4 h-4 mr-1" />
+              Add Model
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {/* Create/Edit Form */}
+        {(isCreating || editingId) && (
+          <div className="mb-6 p-4 bg-zinc-900/50 rounded-lg border border-zinc-800">
+            <h4 className="font-medium mb-4">
+              {editingId ? `Edit ${editingId}` : 'Add Model'}
+            </h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Model ID *</label>
+                <Input
+                  value={formData.id}
+                  onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+                  placeholder="gpt-5-mini"
+                  disabled={!!editingId}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Provider</label>
+                <select
+                  value={formData.provider}
+                  onChange={(e) => setFormData({ ...formData, provider: e.target.value })}
+                  disabled={!!editingId}
+                  className={selectClassName}
+                >
+                  {PROVIDERS.map((provider) => (
+                    <option key={provider} value={provider}>{provider}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Name *</label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="GPT-5 Mini"
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Description</label>
+                <Input
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Gateway Model ID</label>
+                <Input
+                  value={formData.gateway_model_id}
+                  onChange={(e) => setFormData({ ...formData, gateway_model_id: e.target.value })}
+                  placeholder={`${formData.provider}/${formData.id || 'model'}`}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Context Window</label>
+                <Input
+                  type="number"
+                  value={formData.context_window}
+                  onChange={(e) => setFormData({ ...formData, context_window: e.target.value })}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">List Price Input ($/1M)</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={formData.input_price_usd}
+                  onChange={(e) => setFormData({ ...formData, input_price_usd: e.target.value })}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">List Price Output ($/1M)</label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={formData.output_price_usd}
+                  onChange={(e) => setFormData({ ...formData, output_price_usd: e.target.value })}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Capabilities</label>
+                <Input
+                  value={formData.capabilities}
+                  onChange={(e) => setFormData({ ...formData, capabilities: e.target.value })}
+                  placeholder="web_search, reasoning"
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Aliases</label>
+                <Input
+                  value={formData.aliases}
+                  onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+                  placeholder="gpt-4o, gpt-4o-mini"
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Deprecation Date</label>
+                <Input
+                  type="date"
+                  value={formData.deprecated_at}
+                  onChange={(e) => setFormData({ ...formData, deprecated_at: e.target.value })}
+                  className="bg-zinc-800"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Replacement Model</label>
+                <select
+                  value={formData.replacement_model}
+                  onChange={(e) => setFormData({ ...formData, replacement_model: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">None</option>
+                  {models.filter(m => m.id !== (editingId || formData.id)).map((model) => (
+                    <option key={model.id} value={model.id}>{model.name} ({model.id})</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6 mb-4">
+              <Toggle
+                checked={formData.chain_of_thought}
+                onChange={(value) => setFormData({ ...formData, chain_of_thought: value })}
+                label="Chain-of-thought (higher token limits, not used for evaluation)"
+              />
+              <Toggle
+                checked={formData.available_free_tier}
+                onChange={(value) => setFormData({ ...formData, available_free_tier: value })}
+                label="Free tier"
+              />
+              <Toggle
+                checked={formData.is_active}
+                onChange={(value) => setFormData({ ...formData, is_active: value })}
+                label="Active"
+              />
+            </div>
+
+            {!editingId && (
+              <p className="text-xs text-zinc-500 mb-4">
+                A pricing entry is created with the list price as the final price (200% markup) - adjust it under Model Pricing.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={saveModel} disabled={actionLoading} size="sm">
+                <Check className="w-4 h-4 mr-1" />
+                Save
+              </Button>
+              <Button onClick={cancelEditing} disabled={actionLoading} variant="ghost" size="sm">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-zinc-500">Loading model catalog...</div>
+        ) : models.length === 0 ? (
+          <div className="text-center py-8 text-zinc-500">
+            Catalog is empty - the built-in model list is used.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-zinc-800">
+                  <th className="text-left py-2 px-3 text-xs font-medium text-zinc-400">Model</th>
+                  <th className="text-left py-2 px-3 text-xs font-medium text-zinc-400">Provider</th>
+                  <th className="text-right py-2 px-3 text-xs font-medium text-zinc-400">Context</th>
+                  <th className="text-left py-2 px-3 text-xs font-medium text-zinc-400">Capabilities</th>
+                  <th className="text-left py-2 px-3 text-xs font-medium text-zinc-400">Aliases</th>
+                  <th className="text-left py-2 px-3 text-xs font-medium text-zinc-400">Deprecation</th>
+                  <th className="text-center py-2 px-3 text-xs font-medium text-zinc-400">Active</th>
+                  <th className="text-right py-2 px-3 text-xs font-medium text-zinc-400">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {models.map((model) => {
+                  const isRetired = model.deprecated_at !== null && model.deprecated_at <= today
+
+                  return (
+                    <tr key={model.id} className="border-b border-zinc-800/50 hover:bg-zinc-800/30">
+                      <td className="py-2 px-3">
+                        <div className="font-medium text-zinc-300">{model.name}</div>
+                        <code className="text-xs bg-zinc-800 px-1.5 py-0.5 rounded">{model.id}</code>
+                      </td>
+                      <td className="py-2 px-3 text-zinc-400">{model.provider}</td>
+                      <td className="py-2 px-3 text-right text-zinc-400">
+                        {(model.context_window / 1000).toLocaleString('en-US')}K
+                      </td>
+                      <td className="py-2 px-3">
+                        <div className="flex flex-wrap gap-1">
+                          {model.chain_of_thought && (
+                            <Badge variant="outline" className="text-xs gap-1">
+                              <Brain className="w-3 h-3" />
+                              chain-of-thought
+                            </Badge>
+                          )}
+                          {(model.capabilities || []).map((capability) => (
+                            <Badge key={capability} variant="secondary" className="text-xs gap-1">
+                              {capability === 'web_search' && <Globe className="w-3 h-3" />}
+                              {capability}
+                            </Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-2 px-3 text-xs text-zinc-500">
+                        {(model.aliases || []).join(', ') || '–'}
+                      </td>
+                      <td className="py-2 px-3 text-xs">
+                        {model.deprecated_at ? (
+                          <span className={cn('inline-flex items-center gap-1', isRetired ? 'text-red-400' : 'text-amber-400')}>
+                            <AlertTriangle className="w-3 h-3" />
+                            {model.deprecated_at}
+                            {model.replacement_model && <span className="text-zinc-400">→ {model.replacement_model}</span>}
+                          </span>
+                        ) : (
+                          <span className="text-zinc-600">–</span>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-center">
+                        {model.is_active
+                          ? <Check className="w-4 h-4 text-emerald-400 mx-auto" />
+                          : <X className="w-4 h-4 text-red-400 mx-auto" />}
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 px-2"
+                          onClick={() => startEditing(model)}
+                          disabled={actionLoading || isCreating}
+                        >
+                          <Edit2 className="w-3 h-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { CitedDomain } from '@/lib/scan/citations'
+
+interface CitedDomainsProps {
+  projectId: string
+  days?: number
+  limit?: number
+}
+
+export function CitedDomains({ projectId, days = 30, limit = 10 }: CitedDomainsProps) {
+  const [domains, setDomains] = useState<CitedDomain[]>([])
+  const [totalResults, setTotalResults] = useState(0)
+  const [resultsWithCitations, setResultsWithCitations] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchCitations() {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/projects/${projectId}/citations?days=${days}&limit=${limit}`)
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch citations')
+        }
+
+        const result = await response.json()
+        setDomains(result.domains || [])
+        setTotalResults(result.totalResults || 0)
+        setResultsWithCitations(result.resultsWithCitations || 0)
+      } catch (err) {
+        console.error('Error fetching citations:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load citations')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCitations()
+  }, [projectId, days, limit])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32 text-zinc-400 text-sm">
+        Loading citations...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-32 text-red-400 text-sm">
+        {error}
+      </div>
+    )
+  }
+
+  if (domains.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-zinc-500 text-sm">
+        No sources cited in the last {days} days.
+      </div>
+    )
+  }
+
+  const maxResults = Math.max(...domains.map(d => d.results))
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-zinc-500">
+        {resultsWithCitations} of {totalResults} responses cited at least one source
+      </p>
+      <div className="space-y-2">
+        {domains.map(domain => (
+          <div key={domain.domain} className="flex items-center gap-3 text-sm">
+            <span className={`w-48 truncate ${domain.is_own_domain ? 'text-emerald-400 font-medium' : 'text-zinc-300'}`}>
+              {domain.domain}
+            </span>
+            <div className="flex-1 h-2 bg-zinc-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${domain.is_own_domain ? 'bg-emerald-500' : 'bg-blue-500'}`}
+                style={{ width: `${(domain.results / maxResults) * 100}%` }}
+              />
+            </div>
+            <span className="w-24 text-right text-xs text-zinc-500">
+              {domain.citation_rate}% · {domain.citations}×
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -2,15 +2,18 @@
 
 import { useState, useEffect } from 'react'
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from 'recharts'
+import { Cpu } from 'lucide-react'
 
 interface HistoryData {
   date: string
@@ -20,6 +23,16 @@ interface HistoryData {
   sentiment: number | null  // null when no visibility (n/a)
   ranking: number | null    // null when no visibility (n/a)
   persistence: number | null // null when no follow-up queries
+  visibilityLow?: number | null  // 95% confidence band, null without repeated sampling
+  visibilityHigh?: number | null
+}
+
+interface ModelSwitch {
+  scanId: string
+  date: string
+  removed: string[]
+  added: string[]
+  replacements: { from: string; to: string }[]
 }
 
 interface MetricsChartProps {
@@ -48,6 +61,7 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [followUpEnabled, setFollowUpEnabled] = useState(false)
+  const [modelSwitches, setModelSwitches] = useState<ModelSwitch[]>([])
   const [visibleMetrics, setVisibleMetrics] = useState({
     overall: true,
     visibility: true,
@@ -72,6 +86,7 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
         console.log('History data received:', result)
         setData(result.history || [])
         setFollowUpEnabled(result.followUpEnabled || false)
+        setModelSwitches(result.modelSwitches || [])
       } catch (err) {
         console.error('Error fetching history:', err)
         setError(err instanceof Error ? err.message : 'Failed to load history')
@@ -116,6 +131,9 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
     const date = new Date(d.date + 'T12:00:00Z') // Add noon UTC to avoid date shifts
     return {
       ...d,
+      visibilityBand: d.visibilityLow != null && d.visibilityHigh != null
+        ? [d.visibilityLow, d.visibilityHigh]
+        : null,
       displayDate: date.toLocaleDateString('en-US', {
         month: 'short',
         day: 'numeric',
@@ -124,6 +142,21 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
     }
   })
 
+  // Chart label for each day with a model switch
+  const switchDates = Array.from(new Set(modelSwitches.map(s => s.date)))
+    .map(date => formattedData.find(d => d.date === date)?.displayDate)
+    .filter((displayDate): displayDate is string => !!displayDate)
+
+  // "gpt-4o → gpt-5-mini", plus any other added/removed models
+  const describeSwitch = (modelSwitch: ModelSwitch) => {
+    const paired = new Set(modelSwitch.replacements.flatMap(r => [r.from, r.to]))
+    return [
+      ...modelSwitch.replacements.map(r => `${r.from} → ${r.to}`),
+      ...modelSwitch.removed.filter(m => !paired.has(m)).map(m => `−${m}`),
+      ...modelSwitch.added.filter(m => !paired.has(m)).map(m => `+${m}`),
+    ].join(', ')
+  }
+
   return (
     <div className="space-y-6">
       {/* Legend / Metric toggles - Minimalist */}
@@ -158,7 +191,7 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
       {/* Chart */}
       <div style={{ width: '100%', height: '280px' }}>
         <ResponsiveContainer width="100%" height={280}>
-          <LineChart
+          <ComposedChart
             data={formattedData}
             margin={{ top: 10, right: 10, left: -20, bottom: 0 }}
           >
@@ -189,6 +222,9 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
               }}
               labelStyle={{ color: '#71717a', fontSize: '11px', marginBottom: '4px' }}
               formatter={(value, name) => {
+                if (name === 'visibilityBand') {
+                  return Array.isArray(value) ? [`${value[0]}–${value[1]}%`, 'Visibility 95% CI'] : ['n/a', 'Visibility 95% CI']
+                }
                 if (value === null || value === undefined) return ['n/a', METRIC_LABELS[name as keyof typeof METRIC_LABELS] || name]
                 // Show overall with one decimal place
                 const formattedValue = name === 'overall' 
@@ -207,6 +243,17 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
                 activeDot={{ r: 3, strokeWidth: 0 }}
               />
             )}
+            {visibleMetrics.visibility && (
+              <Area
+                type="monotone"
+                dataKey="visibilityBand"
+                stroke="none"
+                fill={METRIC_COLORS.visibility}
+                fillOpacity={0.15}
+                connectNulls={false}
+                activeDot={false}
+              />
+            )}
             {visibleMetrics.visibility && (
               <Line
                 type="monotone"
@@ -250,10 +297,35 @@ export function MetricsChart({ projectId, days = 30 }: MetricsChartProps) {
                 connectNulls={false}
               />
             )}
-          </LineChart>
+            {switchDates.map(displayDate => (
+              <ReferenceLine
+                key={displayDate}
+                x={displayDate}
+                stroke="#f59e0b"
+                strokeDasharray="4 4"
+                strokeOpacity={0.6}
+                label={{ value: 'Models', position: 'insideTopRight', fill: '#f59e0b', fontSize: 10 }}
+              />
+            ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
+      {/* Model switches - explain breaks in the trend lines */}
+      {modelSwitches.length > 0 && (
+        <div className="space-y-1">
+          {modelSwitches.map(modelSwitch => (
+            <div key={modelSwitch.scanId} className="flex items-center gap-1.5 text-xs text-amber-500/80">
+              <Cpu className="w-3 h-3 shrink-0" />
+              <span className="text-zinc-500">
+                {new Date(modelSwitch.date + 'T12:00:00Z').toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}:
+              </span>
+              <span>Models changed ({describeSwitch(modelSwitch)})</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Summary */}
       <div className="text-xs text-zinc-600 text-right">
         {data.reduce((sum, d) => sum + d.scans, 0)} scans over {data.length} {data.length === 1 ? 'day' : 'days'}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ScoreBreakdown } from '@/components/charts/topic-breakdown'
+import type { PersonaScore } from '@/lib/scan/personas'
+
+interface PersonaBreakdownProps {
+  personas: PersonaScore[]
+}
+
+/**
+ * Visibility and recommendation per persona the queries were asked as
+ */
+export function PersonaBreakdown({ personas }: PersonaBreakdownProps) {
+  return (
+    <ScoreBreakdown
+      label="Persona"
+      rows={personas.map(({ persona_id, name, ...score }) => ({
+        ...score,
+        key: persona_id ?? '__none',
+        label: persona_id === null ? 'No persona' : name ?? 'Removed persona',
+        muted: persona_id === null || name === null,
+      }))}
+    />
+  )
+}
+
+interface ProjectPersonasProps {
+  projectId: string
+  days?: number
+}
+
+/**
+ * Persona breakdown across a project's completed scans (history API)
+ */
+export function ProjectPersonas({ projectId, days = 30 }: ProjectPersonasProps) {
+  const [personas, setPersonas] = useState<PersonaScore[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchPersonas() {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/projects/${projectId}/history?days=${days}&personas=1`)
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch personas')
+        }
+
+        const result = await response.json()
+        setPersonas(result.personas || [])
+      } catch (err) {
+        console.error('Error fetching personas:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load personas')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPersonas()
+  }, [projectId, days])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32 text-zinc-400 text-sm">
+        Loading personas...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-32 text-red-400 text-sm">
+        {error}
+      </div>
+    )
+  }
+
+  if (personas.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-zinc-500 text-sm">
+        Generate queries for a persona to compare audiences.
+      </div>
+    )
+  }
+
+  return <PersonaBreakdown personas={personas} />
+}
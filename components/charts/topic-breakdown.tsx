@@ -0,0 +1,148 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { ResultScores, TopicScore } from '@/lib/scan/topics'
+
+export interface ScoreBreakdownRow extends ResultScores {
+  key: string
+  label: string
+  muted?: boolean             // Catch-all groups (untagged, no persona)
+}
+
+interface ScoreBreakdownProps {
+  label: string               // First column heading
+  rows: ScoreBreakdownRow[]
+}
+
+/**
+ * Visibility and recommendation per group of results (topics, personas)
+ */
+export function ScoreBreakdown({ label, rows }: ScoreBreakdownProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-zinc-500 border-b border-zinc-800">
+            <th className="py-2 pr-4 font-medium">{label}</th>
+            <th className="py-2 pr-4 font-medium">Queries</th>
+            <th className="py-2 pr-4 font-medium w-1/3">Visibility</th>
+            <th className="py-2 pr-4 font-medium">Recommendation</th>
+            <th className="py-2 pr-4 font-medium">Mentioned</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-zinc-800/50">
+              <td className={`py-2 pr-4 ${row.muted ? 'text-zinc-500 italic' : 'text-zinc-300'}`}>
+                {row.label}
+              </td>
+              <td className="py-2 pr-4 text-zinc-400">{row.queries}</td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-2 bg-zinc-800 rounded-full overflow-hidden">
+                    <div className="h-full rounded-full bg-blue-500" style={{ width: `${row.visibility}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-xs text-blue-400">{row.visibility}%</span>
+                </div>
+              </td>
+              <td className={`py-2 pr-4 font-medium ${getScoreColor(row.recommendation)}`}>
+                {row.recommendation}
+              </td>
+              <td className="py-2 pr-4 text-zinc-400">{row.mention_rate}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+interface TopicBreakdownProps {
+  topics: TopicScore[]
+}
+
+/**
+ * Visibility and recommendation per query topic
+ */
+export function TopicBreakdown({ topics }: TopicBreakdownProps) {
+  return (
+    <ScoreBreakdown
+      label="Topic"
+      rows={topics.map(({ topic, ...score }) => ({
+        ...score,
+        key: topic ?? '__untagged',
+        label: topic ?? 'Untagged',
+        muted: topic === null,
+      }))}
+    />
+  )
+}
+
+function getScoreColor(score: number): string {
+  if (score >= 60) return 'text-emerald-400'
+  if (score >= 30) return 'text-amber-400'
+  return 'text-red-400'
+}
+
+interface ProjectTopicsProps {
+  projectId: string
+  days?: number
+}
+
+/**
+ * Topic breakdown across a project's completed scans (history API)
+ */
+export function ProjectTopics({ projectId, days = 30 }: ProjectTopicsProps) {
+  const [topics, setTopics] = useState<TopicScore[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchTopics() {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/projects/${projectId}/history?days=${days}&topics=1`)
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch topics')
+        }
+
+        const result = await response.json()
+        setTopics(result.topics || [])
+      } catch (err) {
+        console.error('Error fetching topics:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load topics')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTopics()
+  }, [projectId, days])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32 text-zinc-400 text-sm">
+        Loading topics...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-32 text-red-400 text-sm">
+        {error}
+      </div>
+    )
+  }
+
+  if (topics.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32 text-zinc-500 text-sm">
+        Tag your queries to compare topics.
+      </div>
+    )
+  }
+
+  return <TopicBreakdown topics={topics} />
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, ArrowRight, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface ModelReplacement {
+  from: string
+  fromName: string
+  to: string | null
+  toName: string | null
+  deprecatedAt: string | null
+  retired: boolean
+}
+
+interface AffectedProject {
+  projectId: string
+  projectName: string
+  replacements: ModelReplacement[]
+}
+
+/**
+ * Lists projects that still select retired or soon-retired models,
+ * with a one-click migration to the successor models
+ */
+export function ModelDeprecationNotice() {
+  const [projects, setProjects] = useState<AffectedProject[]>([])
+  const [migrating, setMigrating] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchDeprecations()
+  }, [])
+
+  async function fetchDeprecations() {
+    try {
+      const res = await fetch('/api/projects/model-migrations')
+      if (res.ok) {
+        const data = await res.json()
+        setProjects(data.projects || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch model deprecations:', err)
+    }
+  }
+
+  async function migrate(projectId: string) {
+    setMigrating(projectId)
+    setError(null)
+    try {
+      const res = await fetch('/api/projects/model-migrations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to migrate models')
+      setProjects(prev => prev.filter(p => p.projectId !== projectId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to migrate models')
+    } finally {
+      setMigrating(null)
+    }
+  }
+
+  if (projects.length === 0) return null
+
+  return (
+    <div className="mb-8 rounded-lg border border-amber-500/30 bg-amber-500/10 p-4">
+      <div className="flex items-center gap-2 text-amber-400 mb-1">
+        <AlertTriangle className="w-4 h-4" />
+        <h2 className="text-sm font-medium">Models are being retired</h2>
+      </div>
+      <p className="text-xs text-zinc-400 mb-4">
+        Scans already run the successor model in place of a retired one. Migrate to make the switch permanent.
+      </p>
+
+      {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+      <div className="space-y-3">
+        {projects.map(project => (
+          <div key={project.projectId} className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <div className="min-w-0">
+              <Link href={`/dashboard/projects/${project.projectId}`} className="text-sm font-medium hover:underline">
+                {project.projectName}
+              </Link>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                {project.replacements.map(replacement => (
+                  <span key={replacement.from} className="flex items-center gap-1 text-xs text-zinc-400">
+                    <span className={replacement.retired ? 'line-through text-zinc-500' : ''}>{replacement.fromName}</span>
+                    <ArrowRight className="w-3 h-3" />
+                    <span className={replacement.toName ? 'text-zinc-200' : 'text-red-400'}>
+                      {replacement.toName || 'no successor'}
+                    </span>
+                    {!replacement.retired && replacement.deprecatedAt && (
+                      <span className="text-zinc-500">
+                        (retires {new Date(replacement.deprecatedAt).toLocaleDateString()})
+                      </span>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="shrink-0"
+              disabled={migrating !== null}
+              onClick={() => migrate(project.projectId)}
+            >
+              {migrating === project.projectId && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+              Migrate
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card } from '@/components/ui/card'
-import { PlayCircle, Loader2, CheckCircle2, Clock } from 'lucide-react'
+import { PlayCircle, Loader2, CheckCircle2, Clock, ChevronDown, ChevronRight } from 'lucide-react'
 import { useScan } from '@/lib/scan/scan-context'
+import { formatUsdPrecise } from '@/lib/credits/types'
+import {
+  ScanCostBreakdown,
+  fetchScanCostEstimate,
+  type ScanCostEstimateResponse,
+} from '@/components/dashboard/scan-cost-estimate'
 import type { Project } from '@/lib/db/schema'
 
 interface MultiScanDialogProps {
@@ -18,6 +24,26 @@ export function MultiScanDialog({ projects, onScanStarted }: MultiScanDialogProp
   const [selectedProjects, setSelectedProjects] = useState<Set<string>>(new Set())
   const [isOpen, setIsOpen] = useState(false)
   const [isStarting, setIsStarting] = useState(false)
+  // Cost estimates per project, loaded when a project is selected
+  const [estimates, setEstimates] = useState<Record<string, ScanCostEstimateResponse | 'loading' | 'error'>>({})
+  const [expandedEstimate, setExpandedEstimate] = useState<string | null>(null)
+
+  useEffect(() => {
+    for (const projectId of selectedProjects) {
+      if (estimates[projectId]) continue
+      setEstimates(prev => ({ ...prev, [projectId]: 'loading' }))
+      fetchScanCostEstimate(projectId)
+        .then(estimate => setEstimates(prev => ({ ...prev, [projectId]: estimate })))
+        .catch(() => setEstimates(prev => ({ ...prev, [projectId]: 'error' })))
+    }
+  }, [selectedProjects])
+
+  const selectedEstimates = Array.from(selectedProjects).map(id => estimates[id])
+  const estimatesReady = selectedEstimates.every(e => e && e !== 'loading')
+  const totalEstimateCents = selectedEstimates.reduce(
+    (sum, e) => sum + (e && typeof e === 'object' ? e.totalCents : 0),
+    0
+  )
 
   const toggleProject = (projectId: string) => {
     const newSelected = new Set(selectedProjects)
@@ -148,6 +174,13 @@ export function MultiScanDialog({ projects, onScanStarted }: MultiScanDialogProp
                         {project.domain}
                       </div>
                     </div>
+                    {isSelected && !isActive && (
+                      <ProjectEstimate
+                        estimate={estimates[project.id]}
+                        expanded={expandedEstimate === project.id}
+                        onToggle={() => setExpandedEstimate(prev => prev === project.id ? null : project.id)}
+                      />
+                    )}
                     {isSelected && !isActive && (
                       <CheckCircle2 className="w-5 h-5 text-blue-400 flex-shrink-0 ml-3" />
                     )}
@@ -155,6 +188,11 @@ export function MultiScanDialog({ projects, onScanStarted }: MultiScanDialogProp
                       <Clock className="w-5 h-5 text-zinc-500 flex-shrink-0 ml-3" />
                     )}
                   </div>
+                  {isSelected && !isActive && expandedEstimate === project.id && typeof estimates[project.id] === 'object' && (
+                    <div className="mt-3 pt-3 border-t border-zinc-700" onClick={e => e.stopPropagation()}>
+                      <ScanCostBreakdown estimate={estimates[project.id] as ScanCostEstimateResponse} />
+                    </div>
+                  )}
                 </div>
               )
             })}
@@ -172,6 +210,18 @@ export function MultiScanDialog({ projects, onScanStarted }: MultiScanDialogProp
           >
             Cancel
           </Button>
+          {selectedProjects.size > 0 && (
+            <div className="text-sm text-zinc-400">
+              {estimatesReady ? (
+                <>Estimated total: <span className="font-medium text-zinc-100">~{formatUsdPrecise(totalEstimateCents)}</span></>
+              ) : (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Estimating cost...
+                </span>
+              )}
+            </div>
+          )}
           <Button
             onClick={startScans}
             disabled={selectedProjects.size === 0 || isStarting}
@@ -194,3 +244,34 @@ export function MultiScanDialog({ projects, onScanStarted }: MultiScanDialogProp
     </div>
   )
 }
+
+function ProjectEstimate({
+  estimate,
+  expanded,
+  onToggle,
+}: {
+  estimate: ScanCostEstimateResponse | 'loading' | 'error' | undefined
+  expanded: boolean
+  onToggle: () => void
+}) {
+  if (!estimate || estimate === 'loading') {
+    return <Loader2 className="w-4 h-4 animate-spin text-zinc-500 flex-shrink-0 ml-3" />
+  }
+  if (estimate === 'error') {
+    return <span className="text-xs text-zinc-500 flex-shrink-0 ml-3">No estimate</span>
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={e => {
+        e.stopPropagation()
+        onToggle()
+      }}
+      className="flex items-center gap-1 text-xs text-zinc-300 hover:text-zinc-100 flex-shrink-0 ml-3"
+    >
+      {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      ~{formatUsdPrecise(estimate.totalCents)}
+    </button>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ChevronDown, ChevronRight, Loader2, Play, Wallet } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { formatUsdPrecise } from '@/lib/credits/types'
+import type { ScanCostEstimate } from '@/lib/credits/estimate'
+
+export interface ScanCostEstimateResponse extends ScanCostEstimate {
+  totalUsd: number
+  chargedToCredits: boolean
+  balanceCents: number | null
+}
+
+/**
+ * Dry run of a project's next scan (GET /api/projects/[id]/scan/estimate)
+ */
+export async function fetchScanCostEstimate(projectId: string): Promise<ScanCostEstimateResponse> {
+  const res = await fetch(`/api/projects/${projectId}/scan/estimate`)
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || 'Failed to estimate scan cost')
+  return data
+}
+
+const SOURCE_LABELS = {
+  query: 'earlier answers to this query',
+  model: 'model average',
+  default: 'no history yet',
+} as const
+
+/**
+ * Estimated cost split into answers, follow-ups and evaluation, per model and per query
+ */
+export function ScanCostBreakdown({ estimate }: { estimate: ScanCostEstimateResponse }) {
+  const [showQueries, setShowQueries] = useState(false)
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="rounded-md bg-zinc-800/50 p-2">
+          <div className="text-xs text-zinc-500">Answers</div>
+          <div className="font-medium">{formatUsdPrecise(estimate.queryCents)}</div>
+        </div>
+        <div className="rounded-md bg-zinc-800/50 p-2">
+          <div className="text-xs text-zinc-500">Follow-ups{estimate.followUpDepth > 0 ? ` (×${estimate.followUpDepth})` : ''}</div>
+          <div className="font-medium">{estimate.followUpDepth > 0 ? formatUsdPrecise(estimate.followUpCents) : 'Off'}</div>
+        </div>
+        <div className="rounded-md bg-zinc-800/50 p-2">
+          <div className="text-xs text-zinc-500">Evaluation</div>
+          <div className="font-medium">{formatUsdPrecise(estimate.evaluationCents)}</div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {estimate.byModel.map(model => (
+          <div key={model.model} className="flex items-center justify-between text-xs">
+            <span className="text-zinc-400">{model.model}</span>
+            <span className={model.priced ? 'text-zinc-300' : 'text-amber-400'}>
+              {model.priced ? formatUsdPrecise(model.totalCents) : 'no pricing'}
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between text-xs text-zinc-500">
+          <span>Evaluator</span>
+          <span>{estimate.evaluationModel}</span>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowQueries(prev => !prev)}
+        className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200"
+      >
+        {showQueries ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Per query ({estimate.lines.length} query × model pairs, {estimate.samplesPerQuery} sample{estimate.samplesPerQuery !== 1 ? 's' : ''} each)
+      </button>
+
+      {showQueries && (
+        <div className="max-h-60 overflow-y-auto rounded-md border border-zinc-800">
+          <table className="w-full text-xs">
+            <thead className="bg-zinc-800/50 text-zinc-500">
+              <tr>
+                <th className="px-2 py-1 text-left font-normal">Query</th>
+                <th className="px-2 py-1 text-left font-normal">Model</th>
+                <th className="px-2 py-1 text-right font-normal">Answers</th>
+                <th className="px-2 py-1 text-right font-normal">Follow-ups</th>
+                <th className="px-2 py-1 text-right font-normal">Eval</th>
+                <th className="px-2 py-1 text-right font-normal">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.lines.map(line => (
+                <tr key={`${line.queryId}|${line.model}`} className="border-t border-zinc-800">
+                  <td className="px-2 py-1 max-w-[200px] truncate" title={`${line.queryText} (${SOURCE_LABELS[line.source]})`}>
+                    {line.queryText}
+                  </td>
+                  <td className="px-2 py-1 text-zinc-400">{line.model}</td>
+                  <td className="px-2 py-1 text-right">{formatUsdPrecise(line.queryCents)}</td>
+                  <td className="px-2 py-1 text-right">{formatUsdPrecise(line.followUpCents)}</td>
+                  <td className="px-2 py-1 text-right">{formatUsdPrecise(line.evaluationCents)}</td>
+                  <td className="px-2 py-1 text-right font-medium">{formatUsdPrecise(line.totalCents)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ScanConfirmDialogProps {
+  projectId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: () => void
+}
+
+/**
+ * Shows the cost estimate before a scan is queued
+ */
+export function ScanConfirmDialog({ projectId, open, onOpenChange, onConfirm }: ScanConfirmDialogProps) {
+  const [estimate, setEstimate] = useState<ScanCostEstimateResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setEstimate(null)
+    setError(null)
+    fetchScanCostEstimate(projectId)
+      .then(setEstimate)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to estimate scan cost'))
+  }, [open, projectId])
+
+  const overBalance = estimate?.chargedToCredits && estimate.balanceCents !== null && estimate.totalCents > estimate.balanceCents
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Estimated scan cost
+          </DialogTitle>
+          <DialogDescription>
+            Based on current pricing and the token usage of your earlier scans. The final charge uses actual usage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!estimate && !error && (
+            <div className="flex items-center gap-2 text-sm text-zinc-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Estimating...
+            </div>
+          )}
+          {estimate && (
+            <>
+              <div className="mb-3 flex items-baseline justify-between">
+                <span className="text-2xl font-semibold">~{formatUsdPrecise(estimate.totalCents)}</span>
+                <span className="text-xs text-zinc-500">
+                  {estimate.chargedToCredits ? 'charged to your credits' : 'not charged to credits'}
+                </span>
+              </div>
+              {overBalance && (
+                <p className="mb-3 text-xs text-amber-400">
+                  The estimate is higher than your balance of {formatUsdPrecise(estimate.balanceCents!)}.
+                </p>
+              )}
+              <ScanCostBreakdown estimate={estimate} />
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!estimate && !error}>
+            <Play className="w-4 h-4" />
+            Run Scan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -229,24 +229,48 @@ export function DashboardSidebar({ user, isOpen = false, onClose }: DashboardSid
                   {activeJobs.map((job) => (
                     <Link
                       key={job.projectId}
-                      href={`/dashboard/projects/${job.projectId}`}
+                      href={job.scanId
+                        ? `/dashboard/projects/${job.projectId}/scans/${job.scanId}`
+                        : `/dashboard/projects/${job.projectId}`}
                       onClick={onClose}
-                      className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-zinc-800/50 transition-colors"
+                      className="block px-2 py-1.5 rounded-md hover:bg-zinc-800/50 transition-colors"
                     >
-                      {job.status === 'running' ? (
-                        <Loader2 className="w-3 h-3 animate-spin text-blue-400 shrink-0" />
-                      ) : (
-                        <Clock className="w-3 h-3 text-zinc-500 shrink-0" />
+                      <div className="flex items-center gap-2">
+                        {job.status === 'running' ? (
+                          <Loader2 className="w-3 h-3 animate-spin text-blue-400 shrink-0" />
+                        ) : (
+                          <Clock className="w-3 h-3 text-zinc-500 shrink-0" />
+                        )}
+                        <span className="text-sm truncate flex-1">{job.projectName}</span>
+                        <span className={cn(
+                          "text-xs px-1.5 py-0.5 rounded shrink-0",
+                          job.status === 'running' 
+                            ? "bg-blue-500/10 text-blue-400" 
+                            : "bg-zinc-500/10 text-zinc-400"
+                        )}>
+                          {job.status === 'running' ? 'Running' : 'Queued'}
+                        </span>
+                      </div>
+                      {job.progress.total > 0 && (
+                        <div className="mt-1.5 ml-5 h-1 bg-zinc-800 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-blue-500 transition-all duration-300"
+                            style={{ width: `${(job.progress.current / job.progress.total) * 100}%` }}
+                          />
+                        </div>
+                      )}
+                      {/* Latest finished pair, pushed live by the worker */}
+                      {job.lastPair && (
+                        <div className="mt-1 ml-5 flex items-center gap-1.5 text-[11px] text-zinc-500">
+                          <span className="truncate flex-1">
+                            {job.lastPair.model}
+                            {job.lastPair.metrics
+                              ? ` · ${job.lastPair.metrics.visibility_score}% visible`
+                              : ' · failed'}
+                          </span>
+                          <span className="shrink-0">${job.lastPair.totalCostUsd.toFixed(2)}</span>
+                        </div>
                       )}
-                      <span className="text-sm truncate flex-1">{job.projectName}</span>
-                      <span className={cn(
-                        "text-xs px-1.5 py-0.5 rounded shrink-0",
-                        job.status === 'running' 
-                          ? "bg-blue-500/10 text-blue-400" 
-                          : "bg-zinc-500/10 text-zinc-400"
-                      )}>
-                        {job.status === 'running' ? 'Running' : 'Queued'}
-                      </span>
                     </Link>
                   ))}
                 </div>
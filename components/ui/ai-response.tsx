@@ -2,53 +2,47 @@
 
 import ReactMarkdown from 'react-markdown'
 import rehypeRaw from 'rehype-raw'
+import { extractMentions } from '@/lib/scan/mentions'
+import type { Competitor } from '@/lib/db/schema'
 
 interface AIResponseProps {
   content: string
   brandVariations?: string[]
   keywords?: string[]
   domain?: string
+  competitors?: Competitor[]
+  language?: string
 }
 
-export function AIResponse({ content, brandVariations, keywords, domain }: AIResponseProps) {
+export function AIResponse({ content, brandVariations, keywords, domain, competitors, language }: AIResponseProps) {
   // Process highlights before passing to ReactMarkdown
   const processedContent = (() => {
-    if (!brandVariations && !keywords && !domain) {
+    if (!brandVariations && !keywords && !domain && !competitors?.length) {
       return content
     }
 
-    // Create array of all terms to highlight - use Set to avoid duplicates
-    const brandTermsSet = new Set<string>()
-    
-    // Add brand variations and domain
-    if (brandVariations) {
-      brandVariations.forEach(brand => brandTermsSet.add(brand.toLowerCase()))
-    }
-    if (domain) {
-      brandTermsSet.add(domain.toLowerCase())
-    }
-    
-    // Add common domain extensions
-    const commonExtensions = ['.cz', '.com', '.sk', '.de', '.net', '.org', '.io']
-    if (brandVariations) {
-      brandVariations.forEach(brand => {
-        commonExtensions.forEach(ext => {
-          brandTermsSet.add(`${brand.toLowerCase()}${ext}`)
-        })
-      })
-    }
-    
-    // Convert to array and sort by length (longest first) to match longer terms first
-    const sortedBrands = Array.from(brandTermsSet).sort((a, b) => b.length - a.length)
-    const sortedKeywords = (keywords || []).sort((a, b) => b.length - a.length)
-    
-    let processed = content
-    
-    // Replace brand names with markers (skip already marked text)
-    sortedBrands.forEach(term => {
-      const regex = new RegExp(`(?<!«BRAND»[^«]*)\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b(?![^«]*«/BRAND»)`, 'gi')
-      processed = processed.replace(regex, (match) => `«BRAND»${match}«/BRAND»`)
+    // Use the same deterministic extractor as evaluation, so highlights match the scores
+    const mentions = extractMentions(content, {
+      brandVariations: brandVariations || [],
+      domain,
+      competitors,
+      language,
     })
+    const marks = [
+      ...mentions.brand.spans.map(span => ({ ...span, marker: 'BRAND' })),
+      ...mentions.competitors.flatMap(c => c.spans.map(span => ({ ...span, marker: 'COMP' }))),
+    ].sort((a, b) => a.start - b.start)
+
+    let processed = ''
+    let cursor = 0
+    marks.forEach(mark => {
+      if (mark.start < cursor) return // Overlaps previous mark (brand wins over competitor)
+      processed += `${content.slice(cursor, mark.start)}«${mark.marker}»${mark.text}«/${mark.marker}»`
+      cursor = mark.end
+    })
+    processed += content.slice(cursor)
+
+    const sortedKeywords = (keywords || []).sort((a, b) => b.length - a.length)
     
     // Replace keywords with markers (skip already marked text)
     sortedKeywords.forEach(term => {
@@ -59,6 +53,7 @@ export function AIResponse({ content, brandVariations, keywords, domain }: AIRes
     // Convert markers to HTML
     processed = processed
       .replace(/«BRAND»([^«]+)«\/BRAND»/g, '<mark data-type="brand">$1</mark>')
+      .replace(/«COMP»([^«]+)«\/COMP»/g, '<mark data-type="competitor">$1</mark>')
       .replace(/«KW»([^«]+)«\/KW»/g, '<mark data-type="keyword">$1</mark>')
     
     return processed
@@ -93,6 +88,14 @@ export function AIResponse({ content, brandVariations, keywords, domain }: AIRes
           margin: 0 2px !important;
           border-radius: 2px !important;
         }
+        mark[data-type="competitor"] {
+          background-color: rgba(96, 165, 250, 0.85) !important;
+          color: #18181b !important;
+          font-weight: 600 !important;
+          padding: 2px 6px !important;
+          margin: 0 2px !important;
+          border-radius: 2px !important;
+        }
         mark[data-type="keyword"] {
           background-color: rgba(251, 146, 60, 0.85) !important;
           color: #18181b !important;
@@ -0,0 +1,183 @@
+// =====================================================
+// AI Response Cache
+// Content-addressed cache for identical AI calls
+//
+// Key = SHA-256 of model, system prompt, messages, temperature and max tokens.
+// An in-process LRU is always checked first; an optional shared store
+// (Supabase table ai_response_cache) survives across serverless instances.
+// =====================================================
+
+import { LRUCache } from 'lru-cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES } from '@/lib/db/schema'
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface CachedAIResponse {
+  content: string
+  finishReason: string
+  // Token usage of the original (paid) call - hits themselves cost nothing
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface AIResponseCacheStore {
+  get(key: string): Promise<CachedAIResponse | null>
+  set(key: string, value: CachedAIResponse, ttlSeconds: number): Promise<void>
+}
+
+export interface AICacheOptions {
+  store?: AIResponseCacheStore  // Shared store, checked after the in-memory cache
+  ttlSeconds?: number           // Defaults to getCacheTtlSeconds()
+  variant?: string | number     // Extra key part, e.g. sample index (keeps repeated samples distinct)
+}
+
+export interface CacheKeyInput {
+  model: string
+  systemPrompt?: string
+  userPrompt: string
+  conversationHistory?: Array<{ role: 'user' | 'assistant', content: string }>
+  temperature: number
+  maxOutputTokens: number
+  variant?: string | number
+}
+
+// =====================================================
+// Settings
+// =====================================================
+
+export const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60 // 7 days
+
+/**
+ * Cache TTL from AI_CACHE_TTL_SECONDS (falls back to 7 days)
+ */
+export function getCacheTtlSeconds(): number {
+  const value = parseInt(process.env.AI_CACHE_TTL_SECONDS || '', 10)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CACHE_TTL_SECONDS
+}
+
+// =====================================================
+// Key
+// =====================================================
+
+/**
+ * Content-addressed cache key (hex SHA-256, Web Crypto - works in Edge runtime)
+ */
+export async function getCacheKey(input: CacheKeyInput): Promise<string> {
+  const payload = JSON.stringify([
+    input.model,
+    input.systemPrompt || '',
+    input.conversationHistory || [],
+    input.userPrompt,
+    input.temperature,
+    input.maxOutputTokens,
+    input.variant ?? null,
+  ])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// =====================================================
+// Stores
+// =====================================================
+
+const memoryCache = new LRUCache<string, CachedAIResponse>({ max: 1000 })
+
+/**
+ * In-process LRU store (per serverless instance)
+ */
+export const memoryCacheStore: AIResponseCacheStore = {
+  async get(key) {
+    return memoryCache.get(key) ?? null
+  },
+  async set(key, value, ttlSeconds) {
+    memoryCache.set(key, value, { ttl: ttlSeconds * 1000 })
+  },
+}
+
+/**
+ * Clear the in-process cache (tests)
+ */
+export function clearMemoryCache(): void {
+  memoryCache.clear()
+}
+
+/**
+ * Shared store backed by the ai_response_cache table
+ * Pass the service-role client: users have no access to the table (Migration 043).
+ * Failures are logged and treated as a miss - the cache must never break a scan.
+ */
+export function createSupabaseCacheStore(supabase: Pick<SupabaseClient, 'from'>): AIResponseCacheStore {
+  return {
+    async get(key) {
+      const { data, error } = await supabase
+        .from(TABLES.AI_RESPONSE_CACHE)
+        .select('content, finish_reason, input_tokens, output_tokens')
+        .eq('cache_key', key)
+        .gte('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (error) {
+        console.error('[AI Cache] Read failed:', error.message)
+        return null
+      }
+      if (!data) return null
+
+      return {
+        content: data.content,
+        finishReason: data.finish_reason,
+        inputTokens: data.input_tokens,
+        outputTokens: data.output_tokens,
+      }
+    },
+    async set(key, value, ttlSeconds) {
+      const { error } = await supabase
+        .from(TABLES.AI_RESPONSE_CACHE)
+        .upsert({
+          cache_key: key,
+          content: value.content,
+          finish_reason: value.finishReason,
+          input_tokens: value.inputTokens,
+          output_tokens: value.outputTokens,
+          expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+        }, { onConflict: 'cache_key' })
+
+      if (error) {
+        console.error('[AI Cache] Write failed:', error.message)
+      }
+    },
+  }
+}
+
+// =====================================================
+// Read / Write
+// =====================================================
+
+/**
+ * Look up a response: memory first, then the shared store (hits are copied into memory)
+ */
+export async function readCachedResponse(key: string, options: AICacheOptions): Promise<CachedAIResponse | null> {
+  const fromMemory = await memoryCacheStore.get(key)
+  if (fromMemory) return fromMemory
+
+  if (!options.store) return null
+
+  const fromStore = await options.store.get(key)
+  if (fromStore) {
+    await memoryCacheStore.set(key, fromStore, options.ttlSeconds ?? getCacheTtlSeconds())
+  }
+  return fromStore
+}
+
+/**
+ * Save a response to memory and the shared store
+ */
+export async function writeCachedResponse(key: string, value: CachedAIResponse, options: AICacheOptions): Promise<void> {
+  const ttlSeconds = options.ttlSeconds ?? getCacheTtlSeconds()
+  await memoryCacheStore.set(key, value, ttlSeconds)
+  if (options.store) {
+    await options.store.set(key, value, ttlSeconds)
+  }
+}
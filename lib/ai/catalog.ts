@@ -0,0 +1,101 @@
+// =====================================================
+// Model Catalog
+// Runtime loader for the model_catalog table
+//
+// The table is the source of truth for models (capabilities, context window,
+// chain-of-thought flag, aliases, deprecation). Loaded rows replace the
+// in-memory registry in lib/ai/providers.ts; the built-in list is only a
+// fallback when the table is empty or unreachable.
+// =====================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES, type ModelCatalogEntry } from '@/lib/db/schema'
+import { registerModels, resetModelRegistry, type AIProvider, type ModelInfo } from './providers'
+
+// How long a loaded catalog is reused before the next query
+export const MODEL_CATALOG_TTL_MS = 5 * 60 * 1000
+
+let loadedAt: number | null = null
+let pending: Promise<ModelInfo[] | null> | null = null
+
+/**
+ * Map a catalog row to the ModelInfo shape used across the app
+ */
+export function catalogEntryToModelInfo(entry: ModelCatalogEntry): ModelInfo {
+  return {
+    id: entry.id,
+    name: entry.name,
+    provider: entry.provider as AIProvider,
+    description: entry.description || '',
+    contextWindow: entry.context_window,
+    pricing: {
+      input: Number(entry.input_price_usd),
+      output: Number(entry.output_price_usd),
+    },
+    availableFreeTier: entry.available_free_tier,
+    isActive: entry.is_active,
+    gatewayId: entry.gateway_model_id || undefined,
+    capabilities: entry.capabilities || [],
+    chainOfThought: entry.chain_of_thought,
+    aliases: entry.aliases || [],
+    deprecatedAt: entry.deprecated_at,
+    replacementModel: entry.replacement_model,
+  }
+}
+
+/**
+ * Load the catalog into the model registry (cached for MODEL_CATALOG_TTL_MS)
+ * Call at the start of server routes that validate or call models.
+ * Failures are logged and the current registry is kept - a catalog outage
+ * must never block scans.
+ */
+export async function loadModelCatalog(
+  supabase: Pick<SupabaseClient, 'from'>,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  if (!options.force && loadedAt !== null && Date.now() - loadedAt < MODEL_CATALOG_TTL_MS) {
+    return
+  }
+
+  // Concurrent requests share one query
+  if (!pending) {
+    pending = fetchCatalog(supabase).finally(() => { pending = null })
+  }
+
+  const models = await pending
+  if (models && models.length > 0) {
+    registerModels(models)
+  }
+  loadedAt = Date.now()
+}
+
+async function fetchCatalog(supabase: Pick<SupabaseClient, 'from'>): Promise<ModelInfo[] | null> {
+  const { data, error } = await supabase
+    .from(TABLES.MODEL_CATALOG)
+    .select('*')
+    .order('provider', { ascending: true })
+    .order('id', { ascending: true })
+
+  if (error) {
+    console.error('[Model Catalog] Load failed, keeping current models:', error.message)
+    return null
+  }
+
+  return (data as ModelCatalogEntry[] || []).map(catalogEntryToModelInfo)
+}
+
+/**
+ * Force the next loadModelCatalog() call to query the table (after admin edits)
+ */
+export function invalidateModelCatalog(): void {
+  loadedAt = null
+}
+
+/**
+ * Forget the loaded catalog and restore built-in models (tests)
+ */
+export function resetModelCatalog(): void {
+  loadedAt = null
+  pending = null
+  resetModelRegistry()
+}
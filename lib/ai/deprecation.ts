@@ -0,0 +1,182 @@
+// =====================================================
+// Model Deprecation
+// Maps retired models to their successors
+//
+// A model is retired when it is missing from the registry, inactive, or its
+// deprecation date has passed. Each retired model may name a successor
+// (model_catalog.replacement_model, or an alias for renamed IDs). Scans run
+// the successor instead of silently dropping the model, and project owners
+// are offered a one-click migration of their saved selection.
+// =====================================================
+
+import { AVAILABLE_MODELS, resolveModelId, type ModelInfo } from './providers'
+
+export interface ModelReplacement {
+  from: string
+  to: string | null        // null when no active successor exists
+  deprecatedAt: string | null
+  retired: boolean         // false while the deprecation date is still ahead
+}
+
+export interface ProjectModelResolution {
+  models: string[]                  // Models to run (successors substituted, deduped)
+  replacements: ModelReplacement[]  // Retired models that were swapped or dropped
+}
+
+export interface ScanModelSwitch {
+  scanId: string
+  createdAt: string
+  removed: string[]
+  added: string[]
+  replacements: { from: string; to: string }[]
+}
+
+function findModel(modelId: string): ModelInfo | undefined {
+  return AVAILABLE_MODELS.find(m => m.id === modelId)
+}
+
+function isPastDate(date: string | null | undefined, now: Date): boolean {
+  if (!date) return false
+  const time = Date.parse(date)
+  return !Number.isNaN(time) && time <= now.getTime()
+}
+
+/**
+ * Whether a model can no longer be scanned
+ */
+export function isModelRetired(modelId: string, now: Date = new Date()): boolean {
+  const model = findModel(modelId)
+  return !model || !model.isActive || isPastDate(model.deprecatedAt, now)
+}
+
+/**
+ * First non-retired model in the replacement chain, or null
+ * Unknown IDs fall back to their alias target (renamed models).
+ */
+export function getModelSuccessor(modelId: string, now: Date = new Date()): string | null {
+  const visited = new Set<string>([modelId])
+  let current = modelId
+
+  while (true) {
+    const model = findModel(current)
+    let next: string | null | undefined = model?.replacementModel
+    if (!next && !model) {
+      const aliased = resolveModelId(current)
+      next = aliased !== current ? aliased : null
+    }
+
+    if (!next || visited.has(next)) return null
+    if (!isModelRetired(next, now)) return next
+
+    visited.add(next)
+    current = next
+  }
+}
+
+function describeReplacement(modelId: string, now: Date): ModelReplacement {
+  return {
+    from: modelId,
+    to: getModelSuccessor(modelId, now),
+    deprecatedAt: findModel(modelId)?.deprecatedAt ?? null,
+    retired: isModelRetired(modelId, now),
+  }
+}
+
+/**
+ * Models a scan should run for a project's selection
+ * Retired models are replaced by their successor; models without one are dropped.
+ */
+export function resolveProjectModels(selectedModels: string[], now: Date = new Date()): ProjectModelResolution {
+  const models: string[] = []
+  const replacements: ModelReplacement[] = []
+
+  for (const modelId of selectedModels) {
+    if (!isModelRetired(modelId, now)) {
+      if (!models.includes(modelId)) models.push(modelId)
+      continue
+    }
+
+    const replacement = describeReplacement(modelId, now)
+    replacements.push(replacement)
+    if (replacement.to && !models.includes(replacement.to)) {
+      models.push(replacement.to)
+    }
+  }
+
+  return { models, replacements }
+}
+
+/**
+ * Deprecated models in a project's selection (retired or scheduled for retirement)
+ * Only models that are retired or have a successor to move to are listed.
+ */
+export function getDeprecatedSelections(selectedModels: string[], now: Date = new Date()): ModelReplacement[] {
+  return selectedModels
+    .filter(modelId => isModelRetired(modelId, now) || !!findModel(modelId)?.deprecatedAt)
+    .map(modelId => describeReplacement(modelId, now))
+    .filter(replacement => replacement.retired || replacement.to !== null)
+}
+
+/**
+ * Selection after moving every deprecated model to its successor
+ * Retired models without a successor are removed.
+ */
+export function migrateModelSelection(selectedModels: string[], now: Date = new Date()): ProjectModelResolution {
+  const deprecated = new Map(getDeprecatedSelections(selectedModels, now).map(r => [r.from, r]))
+  const models: string[] = []
+
+  for (const modelId of selectedModels) {
+    const replacement = deprecated.get(modelId)
+    const target = replacement ? replacement.to : modelId
+    if (target && !models.includes(target)) models.push(target)
+  }
+
+  return { models, replacements: Array.from(deprecated.values()) }
+}
+
+/**
+ * Scans whose model set differs from the previous scan (oldest first input)
+ * Scans without a recorded model list are skipped.
+ */
+export function detectModelSwitches(
+  scans: { id: string; created_at: string; models?: string[] | null }[]
+): ScanModelSwitch[] {
+  const switches: ScanModelSwitch[] = []
+  let previous: string[] | null = null
+
+  for (const scan of scans) {
+    if (!scan.models || scan.models.length === 0) continue
+
+    if (previous) {
+      const removed = previous.filter(m => !scan.models!.includes(m))
+      const added = scan.models.filter(m => !previous!.includes(m))
+
+      if (removed.length > 0 || added.length > 0) {
+        const replacements = removed
+          .map(from => ({ from, to: resolveSuccessorIn(from, added) }))
+          .filter((r): r is { from: string; to: string } => r.to !== null)
+
+        switches.push({ scanId: scan.id, createdAt: scan.created_at, removed, added, replacements })
+      }
+    }
+
+    previous = scan.models
+  }
+
+  return switches
+}
+
+// Successor of a removed model if it is among the added ones (follows the whole chain)
+function resolveSuccessorIn(modelId: string, added: string[]): string | null {
+  const visited = new Set<string>([modelId])
+  let current = modelId
+
+  while (true) {
+    const model = findModel(current)
+    const next = model?.replacementModel || (model ? null : resolveModelId(current))
+    if (!next || visited.has(next)) return null
+    if (added.includes(next)) return next
+    visited.add(next)
+    current = next
+  }
+}
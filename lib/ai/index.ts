@@ -10,13 +10,57 @@ import {
   calculateBaseCost,
   resolveModelId,
   getProviderFromModelId,
+  isChainOfThoughtModel,
   AVAILABLE_MODELS,
   type AIProvider,
   type ModelInfo,
 } from './providers'
+import {
+  extractMentions,
+  visibilityScoreFromMentions,
+  rankingScoreFromPosition,
+  type EntityMentions,
+} from '@/lib/scan/mentions'
+import { getLanguagePromptName, isEnglish } from '@/lib/locales'
+import { buildPersonaSystemPrompt, type PersonaProfile } from '@/lib/queries/personas'
+import {
+  getCacheKey,
+  readCachedResponse,
+  writeCachedResponse,
+  type AICacheOptions,
+} from './cache'
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyAIError,
+  isRetryableAIError,
+  getRetryAfterMs,
+  getRetryDelayMs,
+  sleep,
+  type AIErrorCode,
+  type AIRetryRecord,
+  type AIFallbackRecord,
+  type RetryPolicy,
+} from './retry'
 
 // Re-export everything from providers
 export * from './providers'
+export { createSupabaseCacheStore, type AICacheOptions } from './cache'
+export { loadModelCatalog, invalidateModelCatalog } from './catalog'
+export {
+  resolveProjectModels,
+  getDeprecatedSelections,
+  migrateModelSelection,
+  detectModelSwitches,
+  type ModelReplacement,
+  type ScanModelSwitch,
+} from './deprecation'
+export {
+  DEFAULT_RETRY_POLICY,
+  type AIErrorCode,
+  type AIRetryRecord,
+  type AIFallbackRecord,
+  type RetryPolicy,
+} from './retry'
 
 // =====================================================
 // Backward Compatibility Exports
@@ -30,35 +74,22 @@ export type { AIProvider as LLMProvider } from './providers'
 export const MODEL_PRICING: Record<string, { input: number; output: number }> = 
   Object.fromEntries(AVAILABLE_MODELS.map(m => [m.id, m.pricing]))
 
-// Legacy LLMModel type union (for strict typing)
-export type LLMModel = 
-  | 'gpt-5-2'
-  | 'gpt-5-mini'
-  | 'gpt-5-nano'
-  | 'claude-sonnet-4-5'
-  | 'claude-opus-4-5'
-  | 'claude-haiku-4-5'
-  | 'claude-opus-4-1'
-  | 'gemini-3-flash-preview'
-  | 'gemini-2-5-flash'
-  | 'gemini-2-5-flash-lite'
-  | 'llama-4-scout'
-  | 'llama-4-maverick'
-  | 'sonar-reasoning-pro'
+// Legacy LLMModel type (model IDs now come from the model catalog)
+export type LLMModel = string
 
 // Legacy calculateCost function (use calculateBaseCost instead)
 export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
   return calculateBaseCost(model, inputTokens, outputTokens)
 }
 
-// Legacy DEFAULT_MODELS (cheapest model per provider)
-export const DEFAULT_MODELS: Record<string, LLMModel> = {
-  openai: 'gpt-5-nano',
-  anthropic: 'claude-haiku-4-5',
-  google: 'gemini-2-5-flash-lite',
-  groq: 'llama-4-scout',
-  perplexity: 'sonar-reasoning-pro',
-}
+// Legacy DEFAULT_MODELS (cheapest built-in model per provider)
+export const DEFAULT_MODELS: Record<string, LLMModel> = AVAILABLE_MODELS.reduce((defaults, model) => {
+  const current = AVAILABLE_MODELS.find(m => m.id === defaults[model.provider])
+  if (!current || model.pricing.input + model.pricing.output < current.pricing.input + current.pricing.output) {
+    defaults[model.provider] = model.id
+  }
+  return defaults
+}, {} as Record<string, LLMModel>)
 
 // Legacy getProviderForModel (use getProviderFromModelId instead)
 export function getProviderForModel(modelId: string) {
@@ -139,6 +170,10 @@ export interface AICallConfig {
   conversationHistory?: Array<{ role: 'user' | 'assistant', content: string }>
   maxOutputTokens?: number
   temperature?: number
+  // Response cache: true = in-memory only, object = with shared store / TTL / variant
+  cache?: boolean | AICacheOptions
+  // Retries of transient errors (defaults to DEFAULT_RETRY_POLICY, false = single attempt)
+  retry?: Partial<RetryPolicy> | false
 }
 
 export interface AICallResult {
@@ -151,13 +186,17 @@ export interface AICallResult {
   baseCostUsd: number      // Cost before markup
   finishReason: string
   durationMs: number
+  cached?: boolean         // Served from the response cache (zero tokens, zero cost)
+  retries?: AIRetryRecord[]       // Transient errors retried before this result
+  fallbacks?: AIFallbackRecord[]  // Models that failed before `model` answered
 }
 
 export interface AICallError {
   error: string
-  code?: string
+  code?: AIErrorCode
   provider?: AIProvider
   model?: string
+  retries?: AIRetryRecord[]
 }
 
 // =====================================================
@@ -183,6 +222,42 @@ export async function callAI(config: AICallConfig): Promise<AICallResult> {
     throw new Error(`Model is not active: ${resolvedModelId}`)
   }
   
+  const maxOutputTokens = config.maxOutputTokens || 4096
+  const temperature = config.temperature ?? 0.7
+  
+  // Response cache - identical calls are answered without calling the provider
+  const cacheOptions = config.cache === true ? {} : config.cache || null
+  const cacheKey = cacheOptions
+    ? await getCacheKey({
+        model: resolvedModelId,
+        systemPrompt: config.systemPrompt,
+        userPrompt: config.userPrompt,
+        conversationHistory: config.conversationHistory,
+        temperature,
+        maxOutputTokens,
+        variant: cacheOptions.variant,
+      })
+    : null
+  
+  if (cacheOptions && cacheKey) {
+    const cached = await readCachedResponse(cacheKey, cacheOptions)
+    if (cached) {
+      console.log(`[AI] Cache hit: ${resolvedModelId} (saved ${cached.inputTokens}+${cached.outputTokens} tokens)`)
+      return {
+        content: cached.content,
+        model: resolvedModelId,
+        provider: modelInfo.provider,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        baseCostUsd: 0,
+        finishReason: cached.finishReason,
+        durationMs: Date.now() - startTime,
+        cached: true,
+      }
+    }
+  }
+  
   // Get provider client and formatted model ID
   const { client, modelId: formattedModelId } = getProviderClient(resolvedModelId)
   
@@ -193,52 +268,78 @@ export async function callAI(config: AICallConfig): Promise<AICallResult> {
   
   console.log(`[AI] Calling: ${formattedModelId}`)
   
-  try {
-    const result = await generateText({
-      model: client(formattedModelId),
-      system: config.systemPrompt,
-      prompt: config.userPrompt,
-      maxOutputTokens: config.maxOutputTokens || 4096,
-      temperature: config.temperature ?? 0.7,
-    })
-    
-    const durationMs = Date.now() - startTime
-    
-    // Extract token usage
-    const inputTokens = result.usage?.inputTokens || 0
-    const outputTokens = result.usage?.outputTokens || 0
-    const totalTokens = inputTokens + outputTokens
-    
-    // Calculate base cost (before markup)
-    const baseCostUsd = calculateBaseCost(resolvedModelId, inputTokens, outputTokens)
-    
-    console.log(`[AI] ${formattedModelId}: ${inputTokens}+${outputTokens} tokens, $${baseCostUsd.toFixed(6)}, ${durationMs}ms`)
-    
-    return {
-      content: result.text,
-      model: resolvedModelId,  // Return our internal model ID
-      provider: modelInfo.provider,
-      inputTokens,
-      outputTokens,
-      totalTokens,
-      baseCostUsd,
-      finishReason: result.finishReason || 'unknown',
-      durationMs,
-    }
-  } catch (error: any) {
-    console.error(`[AI] Error calling ${formattedModelId}:`, error.message)
-    
-    // Re-throw with more context
-    const enhancedError = new Error(`AI call failed: ${error.message}`) as Error & { 
-      code?: string
-      provider?: AIProvider
-      model?: string 
+  const retryPolicy: RetryPolicy = config.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, maxRetries: 0 }
+    : { ...DEFAULT_RETRY_POLICY, ...config.retry }
+  const retries: AIRetryRecord[] = []
+  
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await generateText({
+        model: client(formattedModelId),
+        system: config.systemPrompt,
+        prompt: config.userPrompt,
+        maxOutputTokens,
+        temperature,
+        maxRetries: 0, // Retries are handled here (classified, Retry-After aware, recorded)
+      })
+      
+      const durationMs = Date.now() - startTime
+      
+      // Extract token usage
+      const inputTokens = result.usage?.inputTokens || 0
+      const outputTokens = result.usage?.outputTokens || 0
+      const totalTokens = inputTokens + outputTokens
+      
+      // Calculate base cost (before markup)
+      const baseCostUsd = calculateBaseCost(resolvedModelId, inputTokens, outputTokens)
+      
+      console.log(`[AI] ${formattedModelId}: ${inputTokens}+${outputTokens} tokens, $${baseCostUsd.toFixed(6)}, ${durationMs}ms`)
+      
+      // Only complete answers are worth reusing
+      if (cacheOptions && cacheKey && result.text && result.finishReason === 'stop') {
+        await writeCachedResponse(cacheKey, {
+          content: result.text,
+          finishReason: result.finishReason,
+          inputTokens,
+          outputTokens,
+        }, cacheOptions)
+      }
+      
+      return {
+        content: result.text,
+        model: resolvedModelId,  // Return our internal model ID
+        provider: modelInfo.provider,
+        inputTokens,
+        outputTokens,
+        totalTokens,
+        baseCostUsd,
+        finishReason: result.finishReason || 'unknown',
+        durationMs,
+        ...(retries.length > 0 && { retries }),
+      }
+    } catch (error: any) {
+      const code = classifyAIError(error)
+      
+      if (attempt < retryPolicy.maxRetries && isRetryableAIError(code)) {
+        const delayMs = getRetryDelayMs(attempt + 1, retryPolicy, getRetryAfterMs(error))
+        retries.push({ model: resolvedModelId, attempt: attempt + 1, code, message: error.message, delayMs })
+        console.warn(`[AI] ${code} from ${formattedModelId}, retry ${attempt + 1}/${retryPolicy.maxRetries} in ${delayMs}ms`)
+        await sleep(delayMs)
+        continue
+      }
+      
+      console.error(`[AI] Error calling ${formattedModelId}:`, error.message)
+      
+      // Re-throw with more context
+      const enhancedError = new Error(`AI call failed: ${error.message}`) as Error & Omit<AICallError, 'error'>
+      enhancedError.code = code
+      enhancedError.provider = modelInfo.provider
+      enhancedError.model = resolvedModelId
+      enhancedError.retries = retries
+      
+      throw enhancedError
     }
-    enhancedError.code = error.code || 'AI_CALL_FAILED'
-    enhancedError.provider = modelInfo.provider
-    enhancedError.model = resolvedModelId
-    
-    throw enhancedError
   }
 }
 
@@ -257,29 +358,19 @@ IMPORTANT: Keep your response concise (2-4 paragraphs maximum). Focus on the mos
 
 /**
  * Get system prompt for GEO analysis with optional language instruction
+ * and persona of the asking user
  */
-export function getGEOSystemPrompt(language?: string): string {
+export function getGEOSystemPrompt(language?: string, persona?: PersonaProfile | null): string {
+  const personaPrompt = buildPersonaSystemPrompt(persona)
+
   // If no language or English, use base prompt
-  if (!language || language.toLowerCase() === 'en' || language.toLowerCase().startsWith('en')) {
-    return GEO_SYSTEM_PROMPT_BASE
+  if (!language || isEnglish(language)) {
+    return `${GEO_SYSTEM_PROMPT_BASE}${personaPrompt}`
   }
   
-  // Map language codes to full names
-  const languageNames: Record<string, string> = {
-    cs: 'Czech (Čeština)',
-    de: 'German (Deutsch)',
-    fr: 'French (Français)',
-    es: 'Spanish (Español)',
-    pl: 'Polish (Polski)',
-    sk: 'Slovak (Slovenčina)',
-    it: 'Italian (Italiano)',
-    pt: 'Portuguese (Português)',
-    nl: 'Dutch (Nederlands)',
-    ru: 'Russian (Русский)',
-  }
-  const langName = languageNames[language.toLowerCase()] || language
+  const langName = getLanguagePromptName(language)
   
-  return `${GEO_SYSTEM_PROMPT_BASE}
+  return `${GEO_SYSTEM_PROMPT_BASE}${personaPrompt}
 
 IMPORTANT: You MUST respond in ${langName}. All your answers should be written in ${langName}.`
 }
@@ -299,47 +390,101 @@ Always respond with valid JSON only, no explanations or markdown.`
  * @param model - Model ID to use
  * @param query - User query
  * @param language - Optional language code (e.g., 'cs', 'en', 'de') for response language
+ * @param options.cache - Response cache (opt-in; GEO answers are what scans measure)
+ * @param options.persona - Asking user's persona, added to the system prompt (lib/queries/personas.ts)
  */
 export async function callGEOQuery(
   model: string,
   query: string,
   language?: string,
-  conversationHistory?: Array<{ role: 'user' | 'assistant', content: string }>
+  conversationHistory?: Array<{ role: 'user' | 'assistant', content: string }>,
+  options: { cache?: boolean | AICacheOptions; persona?: PersonaProfile | null } = {}
 ): Promise<AICallResult> {
-  // GPT-5 Nano and other chain-of-thought models need higher token limits
+  // Chain-of-thought models (catalog flag) need higher token limits
   // because they use tokens for internal "thinking" that doesn't count as visible output
-  const isChainOfThoughtModel = ['gpt-5-nano'].includes(model)
-  const maxOutputTokens = isChainOfThoughtModel ? 8192 : 4096
+  const maxOutputTokens = isChainOfThoughtModel(model) ? 8192 : 4096
   
   return callAI({
     model,
-    systemPrompt: getGEOSystemPrompt(language),
+    systemPrompt: getGEOSystemPrompt(language, options.persona),
     userPrompt: query,
     conversationHistory,
     maxOutputTokens,
     temperature: 0.7,
+    cache: options.cache ?? false,
+  })
+}
+
+/**
+ * System prompt for adaptive follow-up questions (helper model writes the user's next turn)
+ */
+export const FOLLOW_UP_GENERATION_SYSTEM_PROMPT = `You write the next message of a person chatting with an AI assistant about products or services.
+The person is deciding what to choose and asks short, natural follow-up questions.
+Reply with the question only - no quotes, no explanation.`
+
+/**
+ * Call a helper model to write the next follow-up question from the conversation so far
+ * The measured model never sees this call; its answer becomes the next user turn.
+ * @param avoidTerms - Brand names and domain the question must not contain
+ */
+export async function callFollowUpGeneration(
+  model: string,
+  conversationHistory: Array<{ role: 'user' | 'assistant', content: string }>,
+  avoidTerms: string[],
+  language?: string,
+  options: { cache?: boolean | AICacheOptions } = {}
+): Promise<AICallResult> {
+  const transcript = conversationHistory
+    .map(turn => `${turn.role === 'user' ? 'USER' : 'ASSISTANT'}: ${turn.content}`)
+    .join('\n\n')
+  const terms = avoidTerms.filter(t => t && t.trim())
+
+  const prompt = `Conversation so far:
+"""
+${transcript}
+"""
+
+Write the question the user would naturally ask next. Build on the assistant's last answer - for example ask it to compare, rank or pick between the options it listed, or to go deeper on a point it made.
+
+Rules:
+- Refer to options generically ("the first one", "these tools"), never by name
+${terms.length > 0 ? `- Never mention: ${terms.join(', ')}\n` : ''}- One sentence, at most 25 words
+- Write in the language of the conversation${language ? ` (${getLanguagePromptName(language)})` : ''}`
+
+  return callAI({
+    model,
+    systemPrompt: FOLLOW_UP_GENERATION_SYSTEM_PROMPT,
+    userPrompt: prompt,
+    maxOutputTokens: isChainOfThoughtModel(model) ? 2048 : 256,
+    temperature: 0.3,
+    cache: options.cache ?? false,
   })
 }
 
 /**
  * Call AI for evaluation (analyzing a response for brand mentions)
+ * Brand/domain detection is deterministic (see lib/scan/mentions), the model
+ * only scores sentiment and recommendation.
+ * Responses are cached by default (identical input always gets the same scores).
+ * @param options.fallback - true = next-cheapest evaluation models, or an explicit model list
  */
 export async function callEvaluation(
   model: string,
   content: string,
   brandVariations: string[],
-  domain: string
-): Promise<AICallResult & { metrics?: EvaluationMetrics }> {
-  // Pre-check: Do a case-insensitive string check for brand/domain presence
-  const contentLower = content.toLowerCase()
-  const hasBrandMention = brandVariations.some(brand => 
-    contentLower.includes(brand.toLowerCase())
-  )
-  const hasDomainMention = contentLower.includes(domain.toLowerCase())
-  
-  // If neither brand nor domain is mentioned (string check), return 0 visibility immediately
+  domain: string,
+  language?: string,
+  options: { cache?: boolean | AICacheOptions; fallback?: boolean | string[] } = {}
+): Promise<AICallResult & { metrics?: EvaluationMetrics; mentions: EntityMentions }> {
+  // Deterministic extraction: word boundaries, diacritics, inflections, domain normalization
+  // Visibility and ranking come from here, the LLM only judges sentiment and recommendation
+  const { brand: mentions } = extractMentions(content, { brandVariations, domain, language })
+  const visibilityScore = visibilityScoreFromMentions(mentions)
+  const rankingScore = rankingScoreFromPosition(mentions.position)
+
+  // Neither brand nor domain mentioned - return 0 metrics without calling the LLM
   // This prevents AI hallucination giving false positives
-  if (!hasBrandMention && !hasDomainMention) {
+  if (visibilityScore === 0) {
     const modelInfo = getModelInfo(model)
     return {
       content: '{"visibility_score":0,"sentiment_score":null,"ranking_score":0,"recommendation_score":0}',
@@ -356,66 +501,74 @@ export async function callEvaluation(
         sentiment_score: null,
         ranking_score: 0,
         recommendation_score: 0,
-      }
+      },
+      mentions,
     }
   }
 
-  const evaluationPrompt = `Analyze the following AI response and evaluate how well it mentions and recommends the brand.
-
-BRAND NAMES TO LOOK FOR (exact matches only): ${brandVariations.join(', ')}
-DOMAIN TO LOOK FOR: ${domain}
+  const mentionedAs = [...new Set(mentions.spans.map(s => s.text))].join(', ')
 
-IMPORTANT: Only count EXACT brand name matches. Generic phrases that happen to contain similar words do NOT count.
-For example, if the brand is "Vkontextu", the Czech phrase "v kontextu" (meaning "in context") does NOT count as a brand mention.
+  const evaluationPrompt = `Analyze the following AI response and evaluate how it talks about the brand.
 
+BRAND NAMES: ${brandVariations.join(', ')}
+DOMAIN: ${domain}
+THE BRAND APPEARS IN THE RESPONSE AS: ${mentionedAs}
+${mentions.position !== null ? `THE BRAND IS LISTED AT POSITION: ${mentions.position}\n` : ''}
 AI Response to analyze:
 """
 ${content}
 """
 
-Evaluate the response on these metrics (return scores 0-100):
-
-1. **Visibility Score** (0-100): Combined brand + domain presence
-   - EXACT brand name mentioned = 50 points
-   - Domain (${domain}) mentioned = 50 points
-   - Both = 100, one = 50, neither = 0
-   - Generic phrases that are NOT the brand name = 0 points
+Evaluate the response on these metrics:
 
-2. **Sentiment Score** (0-100 or null): What's the sentiment toward the brand?
-   - If visibility_score is 0 (neither brand nor domain mentioned), return null
-   - Otherwise, analyze ONLY sentences where brand or domain is mentioned
+1. **Sentiment Score** (0-100): What's the sentiment toward the brand?
+   - Analyze ONLY sentences where brand or domain is mentioned
    - 10 = very negative, 50 = neutral, 90 = very positive
 
-3. **Ranking Score** (0-100): If mentioned in a list, what position?
-   - 100 = first/top position
-   - 80 = second position
-   - 60 = third position
-   - 40 = fourth or lower
-   - 0 = not in a list or not mentioned
-
-4. **Recommendation Score** (0-100): Overall, how strongly is the brand recommended?
-   - If brand NOT mentioned, return 0
-   - If brand IS mentioned, consider: visibility, sentiment, ranking, prominence
+2. **Recommendation Score** (0-100): Overall, how strongly is the brand recommended?
+   - Consider: sentiment, list position, prominence, whether it is suggested as a choice
 
 Return ONLY a JSON object with this exact structure (no explanation):
 {
-  "visibility_score": <number>,
-  "sentiment_score": <number or null>,
-  "ranking_score": <number>,
+  "sentiment_score": <number>,
   "recommendation_score": <number>
 }`
 
-  // Use higher token limit for chain-of-thought models
-  const isChainOfThoughtModel = ['gpt-5-nano'].includes(model)
-  const maxOutputTokens = isChainOfThoughtModel ? 4096 : 1024
-  
-  const result = await callAI({
+  // Primary model first, then the fallback chain (only after its retries are exhausted)
+  const candidates = [
     model,
-    systemPrompt: EVALUATION_SYSTEM_PROMPT,
-    userPrompt: evaluationPrompt,
-    maxOutputTokens,
-    temperature: 0.1, // Low temperature for consistent evaluation
-  })
+    ...(options.fallback === true ? getEvaluationFallbackChain(model) : options.fallback || []),
+  ]
+  const fallbacks: AIFallbackRecord[] = []
+  const failedRetries: AIRetryRecord[] = []
+  let result: AICallResult | undefined
+  
+  for (let i = 0; !result; i++) {
+    // Use higher token limit for chain-of-thought models
+    const maxOutputTokens = isChainOfThoughtModel(candidates[i]) ? 4096 : 1024
+    
+    try {
+      result = await callAI({
+        model: candidates[i],
+        systemPrompt: EVALUATION_SYSTEM_PROMPT,
+        userPrompt: evaluationPrompt,
+        maxOutputTokens,
+        temperature: 0.1, // Low temperature for consistent evaluation
+        cache: options.cache ?? true,
+      })
+    } catch (error: any) {
+      if (i === candidates.length - 1) throw error
+      
+      failedRetries.push(...(error.retries || []))
+      fallbacks.push({ from: candidates[i], to: candidates[i + 1], code: error.code || 'AI_CALL_FAILED', message: error.message })
+      console.warn(`[AI Evaluation] ${candidates[i]} failed (${error.code}), falling back to ${candidates[i + 1]}`)
+    }
+  }
+  
+  if (fallbacks.length > 0) {
+    const retries = [...failedRetries, ...(result.retries || [])]
+    result = { ...result, fallbacks, ...(retries.length > 0 && { retries }) }
+  }
   
   // Try to parse metrics from response
   let metrics: EvaluationMetrics | undefined
@@ -431,14 +584,10 @@ Return ONLY a JSON object with this exact structure (no explanation):
     const parsed = JSON.parse(jsonContent)
     
     // Validate and clamp scores
-    const visibilityScore = Math.min(100, Math.max(0, parsed.visibility_score || 0))
-    const sentimentScore = visibilityScore > 0 && parsed.sentiment_score !== null
+    const sentimentScore = parsed.sentiment_score !== null && parsed.sentiment_score !== undefined
       ? Math.min(100, Math.max(0, parsed.sentiment_score))
       : null
-    const rankingScore = Math.min(100, Math.max(0, parsed.ranking_score || 0))
-    const recommendationScore = visibilityScore > 0 
-      ? Math.min(100, Math.max(0, parsed.recommendation_score || 0))
-      : 0
+    const recommendationScore = Math.min(100, Math.max(0, parsed.recommendation_score || 0))
     
     metrics = {
       visibility_score: visibilityScore,
@@ -453,9 +602,31 @@ Return ONLY a JSON object with this exact structure (no explanation):
   return {
     ...result,
     metrics,
+    mentions,
   }
 }
 
+/**
+ * AI calls behind a stored result and how many were served from the cache
+ * (an evaluation pre-check never reaches the model; helpers = e.g. adaptive follow-up generation)
+ */
+export function countAICalls(response: AICallResult, evaluation: AICallResult, ...helpers: AICallResult[]): { ai_calls: number; cache_hits: number } {
+  return {
+    ai_calls: 1 + (evaluation.finishReason === 'pre_check' ? 0 : 1) + helpers.length,
+    cache_hits: [response, evaluation, ...helpers].filter(r => r.cached).length,
+  }
+}
+
+/**
+ * Retries and fallbacks behind a stored result (null when every call went through first time)
+ */
+export function getCallDiagnostics(...results: AICallResult[]): { retries: AIRetryRecord[]; fallbacks: AIFallbackRecord[] } | null {
+  const retries = results.flatMap(r => r.retries || [])
+  const fallbacks = results.flatMap(r => r.fallbacks || [])
+  
+  return retries.length > 0 || fallbacks.length > 0 ? { retries, fallbacks } : null
+}
+
 // =====================================================
 // Types for Evaluation
 // =====================================================
@@ -504,22 +675,41 @@ export function isValidModel(modelId: string): boolean {
   return AVAILABLE_MODELS.some(m => m.id === resolvedId && m.isActive)
 }
 
+// Fallbacks tried after the primary evaluation model
+const MAX_EVALUATION_FALLBACKS = 2
+
 /**
- * Get cheapest model for evaluation (to minimize costs)
- * Excludes chain-of-thought models like gpt-5-nano which are unreliable for structured JSON output
+ * Active models suitable for evaluation, cheapest first
  */
-export function getCheapestEvaluationModel(): string {
-  // Models that use chain-of-thought and are unreliable for evaluation
-  const unreliableForEvaluation = ['gpt-5-nano']
-  
-  const sorted = [...AVAILABLE_MODELS]
-    .filter(m => m.isActive && !unreliableForEvaluation.includes(m.id))
+export function getEvaluationModelsByCost(): string[] {
+  return [...AVAILABLE_MODELS]
+    .filter(m => m.isActive && !m.chainOfThought)
     .sort((a, b) => {
       // Sort by total cost (input + output)
       const costA = a.pricing.input + a.pricing.output
       const costB = b.pricing.input + b.pricing.output
       return costA - costB
     })
+    .map(m => m.id)
+}
+
+/**
+ * Get cheapest model for evaluation (to minimize costs)
+ * Excludes chain-of-thought models (catalog flag) which are unreliable for structured JSON output
+ */
+export function getCheapestEvaluationModel(): string {
+  return getEvaluationModelsByCost()[0] || 'gpt-5-mini'
+}
+
+/**
+ * Fallback chain for an evaluation model: the next-cheapest models after it
+ * (or the cheapest ones when the model isn't a standard evaluation model)
+ */
+export function getEvaluationFallbackChain(model: string): string[] {
+  const resolvedId = resolveModelId(model)
+  const byCost = getEvaluationModelsByCost()
+  const index = byCost.indexOf(resolvedId)
+  const next = index === -1 ? byCost : byCost.slice(index + 1)
   
-  return sorted[0]?.id || 'gpt-5-mini'
-}
\ No newline at end of file
+  return next.filter(id => id !== resolvedId).slice(0, MAX_EVALUATION_FALLBACKS)
+}
@@ -0,0 +1,244 @@
+// =====================================================
+// Mock AI Provider
+// Offline stand-in for Gateway / provider SDKs (enable with AI_MOCK_PROVIDER=true)
+//
+// Answers are either scripted (fixtures keyed by query text) or generated
+// from a seeded random generator, so the same prompt always produces the
+// same answer and the whole scan pipeline can run without API keys.
+// =====================================================
+
+import { MockLanguageModelV3 } from 'ai/test'
+import defaultFixtures from './mock-fixtures.json'
+
+// =====================================================
+// Fixtures
+// =====================================================
+
+/**
+ * Scripted answers keyed by query text (case/whitespace-insensitive)
+ * An array is cycled through on repeated calls (e.g. repeated sampling).
+ */
+export type MockFixtures = Record<string, string | string[]>
+
+const normalizeKey = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+
+function indexFixtures(fixtures: MockFixtures): Map<string, string[]> {
+  return new Map(Object.entries(fixtures).map(([query, answers]) => [
+    normalizeKey(query),
+    Array.isArray(answers) ? answers : [answers],
+  ]))
+}
+
+let fixtures = indexFixtures(defaultFixtures as MockFixtures)
+
+// Calls per prompt - makes repeated calls with temperature > 0 differ
+const callCounts = new Map<string, number>()
+
+// Errors thrown by the next calls, in order (simulated provider failures)
+let queuedErrors: Error[] = []
+
+/**
+ * Replace the scripted answers (defaults come from lib/ai/mock-fixtures.json)
+ */
+export function setMockFixtures(next: MockFixtures): void {
+  fixtures = indexFixtures(next)
+}
+
+/**
+ * Make the next calls fail with these errors (e.g. APICallError with status 429)
+ */
+export function queueMockErrors(...errors: Error[]): void {
+  queuedErrors.push(...errors)
+}
+
+/**
+ * Restore default fixtures and forget call counts and queued errors (use between tests)
+ */
+export function resetMockProvider(): void {
+  fixtures = indexFixtures(defaultFixtures as MockFixtures)
+  callCounts.clear()
+  queuedErrors = []
+}
+
+// =====================================================
+// Seeded Random
+// =====================================================
+
+function hashString(text: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function createRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)]
+const between = (random: () => number, min: number, max: number) => Math.round(min + random() * (max - min))
+
+// =====================================================
+// Answer Generation
+// =====================================================
+
+const OPENINGS = [
+  'There are several good options depending on your needs and budget.',
+  'It depends a bit on what you value most, but a few choices stand out.',
+  'Most people in your situation end up comparing a handful of well-known options.',
+]
+
+const OPTION_NAMES = ['Northwind', 'Contoso', 'Fabrikam', 'Tailspin', 'Litware', 'Proseware', 'Adatum']
+
+const OPTION_DETAILS = [
+  'is known for a straightforward setup and solid support.',
+  'offers the most features, though it takes longer to learn.',
+  'is the budget-friendly pick with a generous free plan.',
+  'works well for small teams that need to get started quickly.',
+  'has strong reviews for reliability and integrations.',
+]
+
+const CLOSINGS = [
+  'I would suggest trying one or two of them before committing.',
+  'Check current pricing and reviews, as offerings change frequently.',
+  'If you share more about your requirements, I can narrow it down further.',
+]
+
+function generateAnswer(random: () => number): string {
+  const names = [...OPTION_NAMES].sort(() => random() - 0.5).slice(0, between(random, 3, 5))
+  const list = names.map((name, i) => `${i + 1}. **${name}** ${pick(random, OPTION_DETAILS)}`).join('\n')
+  return `${pick(random, OPENINGS)}\n\n${list}\n\n${pick(random, CLOSINGS)}`
+}
+
+function generateEvaluation(random: () => number): string {
+  return JSON.stringify({
+    sentiment_score: between(random, 40, 90),
+    recommendation_score: between(random, 30, 90),
+  })
+}
+
+function generateQueries(random: () => number, prompt: string): string {
+  const count = parseInt(prompt.match(/Generate exactly (\d+)/)?.[1] || '5', 10)
+  const types = ['informational', 'transactional', 'comparison']
+  const starters = ['What is the best tool for', 'Can you recommend something for', 'How do people usually handle']
+  const topics = ['managing a small team', 'tracking expenses', 'planning projects', 'customer support', 'online marketing']
+  return JSON.stringify(Array.from({ length: count }, () => ({
+    query_text: `${pick(random, starters)} ${pick(random, topics)}?`,
+    query_type: pick(random, types),
+  })))
+}
+
+const FOLLOW_UPS = [
+  'Which of these would you pick for a small team, and why?',
+  'How do the first two options compare on price?',
+  'Is there a catch with the cheapest option you mentioned?',
+  'Which one is easiest to get started with?',
+]
+
+/**
+ * Produce the mock answer for a prompt
+ * Fixtures win for the user prompt; otherwise the answer shape follows what
+ * the caller asks for (evaluation JSON, generated queries, a follow-up question
+ * or a GEO answer).
+ */
+export function getMockAnswer(options: {
+  modelId: string
+  systemPrompt?: string
+  userPrompt: string
+  temperature?: number
+}): string {
+  const promptKey = `${options.modelId}\n${options.systemPrompt || ''}\n${options.userPrompt}`
+  const callIndex = callCounts.get(promptKey) || 0
+  callCounts.set(promptKey, callIndex + 1)
+
+  // Deterministic prompts (temperature 0) always get the same answer
+  const variant = options.temperature === 0 ? 0 : callIndex
+  const seed = process.env.AI_MOCK_SEED || 'geo-analyser'
+  const random = createRandom(hashString(`${seed}\n${promptKey}\n${variant}`))
+
+  const scripted = fixtures.get(normalizeKey(options.userPrompt))
+  if (scripted && scripted.length > 0) {
+    return scripted[variant % scripted.length]
+  }
+
+  if (options.userPrompt.includes('"recommendation_score"')) {
+    return generateEvaluation(random)
+  }
+  if (options.userPrompt.includes('"query_text"')) {
+    return generateQueries(random, options.userPrompt)
+  }
+  if (options.userPrompt.includes('Write the question the user would naturally ask next')) {
+    return pick(random, FOLLOW_UPS)
+  }
+  return generateAnswer(random)
+}
+
+/**
+ * Rough token estimate (~4 characters per token, like English text)
+ */
+export function estimateMockTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4))
+}
+
+// =====================================================
+// AI SDK Provider
+// =====================================================
+
+/**
+ * Create a provider function compatible with the AI SDK clients
+ * returned by getProviderClient: `client(modelId)` gives a language model.
+ */
+export function createMockProvider() {
+  return (modelId: string) => new MockLanguageModelV3({
+    provider: 'mock',
+    modelId,
+    doGenerate: async (callOptions) => {
+      const queuedError = queuedErrors.shift()
+      if (queuedError) throw queuedError
+
+      let systemPrompt = ''
+      const userParts: string[] = []
+
+      for (const message of callOptions.prompt) {
+        if (message.role === 'system') {
+          systemPrompt += message.content
+        } else if (message.role === 'user') {
+          for (const part of message.content) {
+            if (part.type === 'text') userParts.push(part.text)
+          }
+        }
+      }
+
+      const userPrompt = userParts.join('\n')
+      const text = getMockAnswer({
+        modelId,
+        systemPrompt,
+        userPrompt,
+        temperature: callOptions.temperature,
+      })
+
+      const inputTokens = estimateMockTokens(systemPrompt + userPrompt)
+      const outputTokens = estimateMockTokens(text)
+
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: { unified: 'stop', raw: 'stop' },
+        usage: {
+          inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: 0, cacheWrite: 0 },
+          outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 },
+        },
+        warnings: [],
+      }
+    },
+  })
+}
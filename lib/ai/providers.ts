@@ -7,6 +7,7 @@
 import { createOpenAI } from '@ai-sdk/openai'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createMockProvider } from './mock'
 
 // Gateway configuration
 const GATEWAY_URL = 'https://ai-gateway.vercel.sh/v1'
@@ -33,6 +34,13 @@ function getPerplexityKey(): string | undefined {
   return process.env.PERPLEXITY_API_KEY
 }
 
+// Mock provider (offline development and tests, no API keys needed)
+// NEXT_PUBLIC_ variant also exposes the mock model to client-side model pickers
+export function isMockProviderEnabled(): boolean {
+  const flag = process.env.AI_MOCK_PROVIDER || process.env.NEXT_PUBLIC_AI_MOCK_PROVIDER
+  return flag === 'true' || flag === '1'
+}
+
 // Check if Gateway is available (at runtime)
 function isGatewayAvailable(): boolean {
   const key = getGatewayApiKey()
@@ -43,7 +51,7 @@ function isGatewayAvailable(): boolean {
 // Provider Types
 // =====================================================
 
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'groq' | 'perplexity'
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'groq' | 'perplexity' | 'mock'
 
 export interface ModelInfo {
   id: string
@@ -60,6 +68,29 @@ export interface ModelInfo {
   availableFreeTier: boolean
   // Is this model active/available?
   isActive: boolean
+  // Catalog metadata (see model_catalog table / lib/ai/catalog.ts)
+  gatewayId?: string               // Gateway model ID (provider/model), defaults to `${provider}/${id}`
+  capabilities?: string[]          // e.g. 'web_search', 'reasoning'
+  chainOfThought?: boolean         // Spends output tokens on hidden reasoning (needs higher limits, unreliable JSON)
+  aliases?: string[]               // Old IDs that resolve to this model
+  deprecatedAt?: string | null     // ISO date the provider retires the model
+  replacementModel?: string | null // Successor model ID
+}
+
+// =====================================================
+// Mock Model
+// Scripted / seeded-random answers, see lib/ai/mock.ts
+// =====================================================
+
+export const MOCK_MODEL: ModelInfo = {
+  id: 'mock-model',
+  name: 'Mock Model',
+  provider: 'mock',
+  description: 'Offline scripted answers for development and tests',
+  contextWindow: 128000,
+  pricing: { input: 0.05, output: 0.10 },
+  availableFreeTier: true,
+  isActive: true,
 }
 
 // =====================================================
@@ -77,6 +108,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 1.75, output: 14.00 },
     availableFreeTier: false,
     isActive: true,
+    gatewayId: 'openai/gpt-5.2',
   },
   {
     id: 'gpt-5-mini',
@@ -87,6 +119,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.25, output: 2.00 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'openai/gpt-5-mini',
   },
   {
     id: 'gpt-5-nano',
@@ -97,6 +130,9 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.10, output: 0.40 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'openai/gpt-5-nano',
+    capabilities: ['reasoning'],
+    chainOfThought: true,
   },
   
   // Anthropic
@@ -109,6 +145,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 5.00, output: 25.00 },
     availableFreeTier: false,
     isActive: true,
+    gatewayId: 'anthropic/claude-opus-4-5',
   },
   {
     id: 'claude-sonnet-4-5',
@@ -119,6 +156,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 3.00, output: 15.00 },
     availableFreeTier: false,
     isActive: true,
+    gatewayId: 'anthropic/claude-sonnet-4-5',
   },
   {
     id: 'claude-haiku-4-5',
@@ -129,6 +167,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 1.00, output: 5.00 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'anthropic/claude-haiku-4-5',
   },
   {
     id: 'claude-opus-4-1',
@@ -139,6 +178,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 12.00, output: 60.00 },
     availableFreeTier: false,
     isActive: true,
+    gatewayId: 'anthropic/claude-opus-4-1',
   },
   
   // Google
@@ -151,6 +191,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.50, output: 3.00 },
     availableFreeTier: false,
     isActive: true,
+    gatewayId: 'google/gemini-3-flash-preview',
   },
   {
     id: 'gemini-2-5-flash',
@@ -161,6 +202,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.60, output: 3.50 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'google/gemini-2.5-flash',
   },
   {
     id: 'gemini-2-5-flash-lite',
@@ -171,6 +213,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.30, output: 2.50 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'google/gemini-2.5-flash-lite',
   },
   
   // Groq (ultra-fast inference)
@@ -183,6 +226,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.10, output: 0.15 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'groq/llama-4-scout',
   },
   {
     id: 'llama-4-maverick',
@@ -193,6 +237,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 0.20, output: 0.60 },
     availableFreeTier: true,
     isActive: true,
+    gatewayId: 'meta/llama-4-maverick',
   },
   
   // Perplexity (web-connected)
@@ -205,7 +250,12 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     pricing: { input: 2.00, output: 8.00 },
     availableFreeTier: false,
     isActive: true,
+    gatewayId: 'perplexity/sonar-reasoning-pro',
+    capabilities: ['web_search', 'reasoning'],
   },
+
+  // Mock (registered only when AI_MOCK_PROVIDER is enabled)
+  ...(isMockProviderEnabled() ? [MOCK_MODEL] : []),
 ]
 
 // =====================================================
@@ -223,6 +273,15 @@ export function getProviderClient(modelId: string): { client: ReturnType<typeof
     throw new Error(`Unknown model: ${modelId}`)
   }
   
+  // Mock mode - never leaves the process, even when Gateway is configured
+  if (model.provider === 'mock') {
+    console.log(`[AI] Using mock provider for model: ${modelId}`)
+    return {
+      client: createMockProvider() as unknown as ReturnType<typeof createOpenAI>,
+      modelId,
+    }
+  }
+  
   const gatewayKey = getGatewayApiKey()
   
   // Gateway mode - single client for all providers
@@ -234,28 +293,7 @@ export function getProviderClient(modelId: string): { client: ReturnType<typeof
     })
     
     // Map to Gateway model format (provider/model)
-    const gatewayModelMap: Record<string, string> = {
-      // OpenAI
-      'gpt-5-2': 'openai/gpt-5.2',
-      'gpt-5-mini': 'openai/gpt-5-mini',
-      'gpt-5-nano': 'openai/gpt-5-nano',
-      // Anthropic
-      'claude-opus-4-5': 'anthropic/claude-opus-4-5',
-      'claude-sonnet-4-5': 'anthropic/claude-sonnet-4-5',
-      'claude-haiku-4-5': 'anthropic/claude-haiku-4-5',
-      'claude-opus-4-1': 'anthropic/claude-opus-4-1',
-      // Google
-      'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-      'gemini-2-5-flash': 'google/gemini-2.5-flash',
-      'gemini-2-5-flash-lite': 'google/gemini-2.5-flash-lite',
-      // Groq / Meta
-      'llama-4-scout': 'groq/llama-4-scout',
-      'llama-4-maverick': 'meta/llama-4-maverick',
-      // Perplexity
-      'sonar-reasoning-pro': 'perplexity/sonar-reasoning-pro',
-    }
-    
-    const mappedModelId = gatewayModelMap[modelId] || `${model.provider}/${modelId}`
+    const mappedModelId = model.gatewayId || `${model.provider}/${modelId}`
     console.log(`[AI] Gateway model ID: ${mappedModelId}`)
     
     return {
@@ -354,30 +392,16 @@ export function getGatewayModelId(modelId: string): string {
   if (!model) {
     throw new Error(`Unknown model: ${modelId}`)
   }
-  const gatewayModelMap: Record<string, string> = {
-    'gpt-5-2': 'openai/gpt-5.2',
-    'gpt-5-mini': 'openai/gpt-5-mini',
-    'gpt-5-nano': 'openai/gpt-5-nano',
-    'claude-opus-4-5': 'anthropic/claude-opus-4-5',
-    'claude-sonnet-4-5': 'anthropic/claude-sonnet-4-5',
-    'claude-haiku-4-5': 'anthropic/claude-haiku-4-5',
-    'claude-opus-4-1': 'anthropic/claude-opus-4-1',
-    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-    'gemini-2-5-flash': 'google/gemini-2.5-flash',
-    'gemini-2-5-flash-lite': 'google/gemini-2.5-flash-lite',
-    'llama-4-scout': 'groq/llama-4-scout',
-    'llama-4-maverick': 'meta/llama-4-maverick',
-    'sonar-reasoning-pro': 'perplexity/sonar-reasoning-pro',
-  }
-  return gatewayModelMap[modelId] || `${model.provider}/${modelId}`
+  return model.gatewayId || `${model.provider}/${modelId}`
 }
 
 // =====================================================
 // Model Aliases (backward compatibility)
 // Maps old/deprecated model IDs to current ones
+// Catalog models add their own aliases on top (see registerModels)
 // =====================================================
 
-const MODEL_ALIASES: Record<string, string> = {
+const BUILT_IN_MODEL_ALIASES: Record<string, string> = {
   // Very old legacy models (if any projects still use them)
   'gpt-4o': 'gpt-5-mini',
   'gpt-4o-mini': 'gpt-5-mini',
@@ -390,11 +414,46 @@ const MODEL_ALIASES: Record<string, string> = {
   'gemini-1.5-pro': 'gemini-3-flash-preview',
 }
 
+let modelAliases: Record<string, string> = { ...BUILT_IN_MODEL_ALIASES }
+
 /**
  * Resolve model ID from alias if needed
  */
 export function resolveModelId(modelId: string): string {
-  return MODEL_ALIASES[modelId] || modelId
+  return modelAliases[modelId] || modelId
+}
+
+// =====================================================
+// Registry
+// AVAILABLE_MODELS starts with the built-in list above and is replaced
+// in place by the database catalog (lib/ai/catalog.ts), so synchronous
+// helpers always see the latest loaded models.
+// =====================================================
+
+const BUILT_IN_MODELS: ModelInfo[] = AVAILABLE_MODELS.filter(m => m.provider !== 'mock')
+
+/**
+ * Replace the model registry (the mock model stays registered while enabled)
+ */
+export function registerModels(models: ModelInfo[]): void {
+  const withMock = isMockProviderEnabled() && !models.some(m => m.id === MOCK_MODEL.id)
+    ? [...models, MOCK_MODEL]
+    : models
+  AVAILABLE_MODELS.splice(0, AVAILABLE_MODELS.length, ...withMock)
+
+  modelAliases = { ...BUILT_IN_MODEL_ALIASES }
+  for (const model of withMock) {
+    for (const alias of model.aliases || []) {
+      modelAliases[alias] = model.id
+    }
+  }
+}
+
+/**
+ * Restore the built-in model list (tests, or when the catalog is unavailable)
+ */
+export function resetModelRegistry(): void {
+  registerModels(BUILT_IN_MODELS)
 }
 
 // =====================================================
@@ -464,3 +523,11 @@ export function calculateBaseCost(
   
   return inputCost + outputCost
 }
+
+/**
+ * Whether a model spends output tokens on hidden reasoning (resolves aliases)
+ * These need higher token limits and are unreliable for structured JSON output.
+ */
+export function isChainOfThoughtModel(modelId: string): boolean {
+  return getModelInfo(modelId)?.chainOfThought === true
+}
@@ -0,0 +1,137 @@
+// =====================================================
+// AI Retry Policy
+// Per-call retries with exponential backoff and jitter
+//
+// Errors are classified into AICallError codes; only transient ones
+// (rate limits, provider outages, timeouts, network) are retried.
+// A Retry-After header from the provider always wins over the backoff.
+// =====================================================
+
+// =====================================================
+// Types
+// =====================================================
+
+export type AIErrorCode =
+  | 'RATE_LIMITED'          // 429
+  | 'PROVIDER_UNAVAILABLE'  // 5xx
+  | 'TIMEOUT'               // 408 / aborted by timeout
+  | 'NETWORK_ERROR'         // Connection reset, DNS, fetch failed
+  | 'AUTH_ERROR'            // 401 / 403
+  | 'INVALID_REQUEST'       // Other 4xx
+  | 'AI_CALL_FAILED'        // Anything else
+
+export interface RetryPolicy {
+  maxRetries: number   // Retries after the first attempt
+  baseDelayMs: number  // First backoff step, doubled on every retry
+  maxDelayMs: number   // Upper bound for backoff and Retry-After
+}
+
+export interface AIRetryRecord {
+  model: string
+  attempt: number      // 1 = first retry
+  code: AIErrorCode
+  message: string
+  delayMs: number
+}
+
+export interface AIFallbackRecord {
+  from: string
+  to: string
+  code: AIErrorCode
+  message: string
+}
+
+// =====================================================
+// Settings
+// =====================================================
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+}
+
+const RETRYABLE_CODES: AIErrorCode[] = ['RATE_LIMITED', 'PROVIDER_UNAVAILABLE', 'TIMEOUT', 'NETWORK_ERROR']
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET']
+
+// =====================================================
+// Classification
+// =====================================================
+
+/**
+ * Map a provider / SDK error to an AICallError code
+ */
+export function classifyAIError(error: any): AIErrorCode {
+  const status: number | undefined = error?.statusCode ?? error?.status
+  const message = String(error?.message || '').toLowerCase()
+
+  if (status === 429) return 'RATE_LIMITED'
+  if (status === 408) return 'TIMEOUT'
+  if (status === 401 || status === 403) return 'AUTH_ERROR'
+  if (status !== undefined && status >= 500) return 'PROVIDER_UNAVAILABLE'
+  if (status !== undefined && status >= 400) return 'INVALID_REQUEST'
+
+  if (error?.name === 'TimeoutError' || error?.code === 'ETIMEDOUT' || message.includes('timed out')) {
+    return 'TIMEOUT'
+  }
+  if (NETWORK_ERROR_CODES.includes(error?.code) || NETWORK_ERROR_CODES.includes(error?.cause?.code) || message.includes('fetch failed')) {
+    return 'NETWORK_ERROR'
+  }
+  if (message.includes('rate limit')) return 'RATE_LIMITED'
+
+  // The SDK knows about provider-specific transient errors we don't
+  return error?.isRetryable === true ? 'PROVIDER_UNAVAILABLE' : 'AI_CALL_FAILED'
+}
+
+export function isRetryableAIError(code: AIErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code)
+}
+
+// =====================================================
+// Delays
+// =====================================================
+
+/**
+ * Delay requested by the provider (retry-after-ms, retry-after seconds or HTTP date)
+ */
+export function getRetryAfterMs(error: any, now = Date.now()): number | null {
+  const headers: Record<string, string> | undefined = error?.responseHeaders
+  if (!headers) return null
+
+  const header = (name: string) => Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1]
+
+  const retryAfterMs = parseFloat(header('retry-after-ms') || '')
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs
+
+  const retryAfter = header('retry-after')
+  if (!retryAfter) return null
+
+  const seconds = parseFloat(retryAfter)
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000
+
+  const date = Date.parse(retryAfter)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based)
+ * Exponential with equal jitter; Retry-After replaces it when present.
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs: number | null = null,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, policy.maxDelayMs)
+  }
+
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs)
+  return Math.round(exponential / 2 + random() * exponential / 2)
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
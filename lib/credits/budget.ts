@@ -0,0 +1,168 @@
+// =====================================================
+// Per-project Monthly Budget
+// =====================================================
+//
+// Credits are shared by all projects of an account; the budget caps what one
+// project may spend per calendar month (UTC, like monthly_usage). Spend is
+// the sum of scans.total_cost_usd of the month. A scan is refused when its
+// estimate would take the project over the budget; the owner is warned from
+// BUDGET_WARNING_RATIO on.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES } from '@/lib/db/schema'
+import { buildScanCostEstimate, estimateScanTotalCents, loadTokenHistory, type ScanCostEstimateInput } from './estimate'
+
+export const BUDGET_WARNING_RATIO = 0.8
+
+// Highest budget accepted from the settings form ($100,000)
+const MAX_MONTHLY_BUDGET_CENTS = 10_000_000
+
+export interface ProjectBudgetStatus {
+  budgetCents: number | null     // null = no cap
+  spentCents: number             // This month so far
+  ratio: number | null           // spent / budget
+  status: 'none' | 'ok' | 'warning' | 'exceeded'
+}
+
+export interface ProjectBudgetCheck {
+  allowed: boolean
+  warning: boolean               // Spend incl. this scan reaches BUDGET_WARNING_RATIO
+  reason?: string                // Why the scan is refused, or the warning
+  budget: ProjectBudgetStatus
+}
+
+/**
+ * Budget from the settings form: positive whole cents, or null for no cap
+ */
+export function normalizeMonthlyBudget(input: unknown): number | null {
+  if (input === null || input === undefined || input === '') return null
+  const cents = Math.round(Number(input))
+  if (!Number.isFinite(cents) || cents <= 0) return null
+  return Math.min(cents, MAX_MONTHLY_BUDGET_CENTS)
+}
+
+/**
+ * First day of the month (UTC) as ISO string
+ */
+export function getBudgetMonthStart(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+}
+
+export function getBudgetStatus(budgetCents: number | null, spentCents: number): ProjectBudgetStatus {
+  if (!budgetCents) {
+    return { budgetCents: null, spentCents, ratio: null, status: 'none' }
+  }
+  const ratio = spentCents / budgetCents
+  return {
+    budgetCents,
+    spentCents,
+    ratio,
+    status: ratio >= 1 ? 'exceeded' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok',
+  }
+}
+
+/**
+ * Cost of all scans a project started this month
+ */
+export async function getProjectMonthlySpendCents(
+  supabase: Pick<SupabaseClient, 'from'>,
+  projectId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const { data: scans } = await supabase
+    .from(TABLES.SCANS)
+    .select('total_cost_usd')
+    .eq('project_id', projectId)
+    .gte('created_at', getBudgetMonthStart(now))
+
+  const spentUsd = (scans || []).reduce((sum: number, s: { total_cost_usd: number | null }) => sum + (s.total_cost_usd || 0), 0)
+  return Math.ceil(spentUsd * 100)
+}
+
+export async function getProjectBudgetStatus(
+  supabase: Pick<SupabaseClient, 'from'>,
+  project: { id: string; monthly_budget_cents: number | null },
+  now: Date = new Date()
+): Promise<ProjectBudgetStatus> {
+  const spentCents = await getProjectMonthlySpendCents(supabase, project.id, now)
+  return getBudgetStatus(project.monthly_budget_cents, spentCents)
+}
+
+/**
+ * Can a scan estimated at estimatedCents run within the project's budget?
+ */
+export async function checkProjectBudget(
+  supabase: Pick<SupabaseClient, 'from'>,
+  project: { id: string; monthly_budget_cents: number | null },
+  estimatedCents: number,
+  now: Date = new Date()
+): Promise<ProjectBudgetCheck> {
+  const budget = await getProjectBudgetStatus(supabase, project, now)
+  if (budget.budgetCents === null) {
+    return { allowed: true, warning: false, budget }
+  }
+
+  const projectedCents = budget.spentCents + estimatedCents
+  if (projectedCents > budget.budgetCents) {
+    return {
+      allowed: false,
+      warning: true,
+      reason: `Monthly budget of $${(budget.budgetCents / 100).toFixed(2)} would be exceeded ($${(budget.spentCents / 100).toFixed(2)} spent, this scan ~$${(estimatedCents / 100).toFixed(2)})`,
+      budget,
+    }
+  }
+
+  if (projectedCents >= budget.budgetCents * BUDGET_WARNING_RATIO) {
+    return {
+      allowed: true,
+      warning: true,
+      reason: `This scan brings the project to ~${Math.round(projectedCents / budget.budgetCents * 100)}% of its monthly budget of $${(budget.budgetCents / 100).toFixed(2)}`,
+      budget,
+    }
+  }
+
+  return { allowed: true, warning: false, budget }
+}
+
+/**
+ * Budget check for a scan about to be queued or run
+ * Projects without a budget skip the estimate; otherwise the scan is priced
+ * like the cost preview (GET /api/projects/[id]/scan/estimate).
+ */
+export async function checkScanBudget(
+  supabase: Pick<SupabaseClient, 'from'>,
+  project: { id: string; monthly_budget_cents: number | null },
+  scan: Omit<ScanCostEstimateInput, 'history'>,
+  now: Date = new Date()
+): Promise<ProjectBudgetCheck> {
+  if (!project.monthly_budget_cents) {
+    return { allowed: true, warning: false, budget: getBudgetStatus(null, 0) }
+  }
+
+  const estimatedCents = await estimateScanTotalCents(supabase, scan)
+  return checkProjectBudget(supabase, project, estimatedCents, now)
+}
+
+/**
+ * Budget check for re-running the missing answers of a finished scan
+ * The scan's grid is priced like a new scan; the retry counts for the share
+ * of its answers that are missing.
+ */
+export async function checkRetryBudget(
+  supabase: Pick<SupabaseClient, 'from'>,
+  project: { id: string; monthly_budget_cents: number | null },
+  scan: Omit<ScanCostEstimateInput, 'history'>,
+  missingResults: number,
+  now: Date = new Date()
+): Promise<ProjectBudgetCheck> {
+  if (!project.monthly_budget_cents) {
+    return { allowed: true, warning: false, budget: getBudgetStatus(null, 0) }
+  }
+
+  const history = await loadTokenHistory(supabase, scan.models)
+  const estimate = buildScanCostEstimate({ ...scan, history })
+  const estimatedCents = estimate.answerCalls > 0
+    ? Math.ceil(estimate.totalCents * Math.min(1, missingResults / estimate.answerCalls))
+    : 0
+  return checkProjectBudget(supabase, project, estimatedCents, now)
+}
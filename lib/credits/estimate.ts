@@ -0,0 +1,260 @@
+// =====================================================
+// Scan Cost Estimate (dry run)
+// =====================================================
+//
+// Prices a scan before it runs: every query × model pair with its samples,
+// follow-up levels and evaluator calls, using pricing_config and the token
+// counts of earlier scan_results. estimateScanCost() in types.ts stays the
+// quick number used for credit reservations.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PricingConfig } from './types'
+import { MAX_ROWS_PER_REQUEST } from '@/lib/db/pagination'
+
+// Defaults when a model has no history (same as estimateScanCost)
+const DEFAULT_INPUT_TOKENS = 500
+const DEFAULT_OUTPUT_TOKENS = 1000
+
+// Evaluator call: prompt + system prompt around the answer, short JSON reply
+const EVALUATION_PROMPT_TOKENS = 350
+const EVALUATION_OUTPUT_TOKENS = 40
+
+// Adaptive follow-up: helper reads the conversation, writes one short question
+const FOLLOW_UP_GENERATION_PROMPT_TOKENS = 200
+const FOLLOW_UP_GENERATION_OUTPUT_TOKENS = 30
+
+// Recent results considered for the averages (one PostgREST page)
+const HISTORY_LIMIT = MAX_ROWS_PER_REQUEST
+
+export interface TokenAverage {
+  inputTokens: number
+  outputTokens: number
+  count: number
+}
+
+export interface ModelTokenHistory {
+  initial: TokenAverage | null      // follow_up_level = 0
+  followUp: TokenAverage | null     // all follow-up levels
+  evaluationRate: number | null     // Share of answers that needed an evaluator call (others are pre-checked)
+}
+
+export interface TokenHistory {
+  byModel: Record<string, ModelTokenHistory>
+  byQuery: Record<string, ModelTokenHistory>  // Key 'model|query_text' - the same question asked before
+}
+
+export type ResultForTokenHistory = {
+  model: string
+  query_text: string
+  follow_up_level: number | null
+  input_tokens: number | null
+  output_tokens: number | null
+  answer_input_tokens?: number | null
+  answer_output_tokens?: number | null
+  ai_calls: number | null
+}
+
+export interface ScanCostLine {
+  queryId: string
+  queryText: string
+  model: string
+  source: 'query' | 'model' | 'default'  // Where the token counts came from
+  queryCents: number       // Initial answers (all samples)
+  followUpCents: number    // Follow-up answers (all samples and levels), incl. adaptive question generation
+  evaluationCents: number  // Evaluator calls for all of the above
+  totalCents: number
+}
+
+export interface ScanCostEstimate {
+  lines: ScanCostLine[]
+  byModel: Array<{ model: string; priced: boolean; totalCents: number }>
+  evaluationModel: string
+  samplesPerQuery: number
+  followUpDepth: number
+  answerCalls: number       // GEO queries incl. follow-ups
+  evaluationCalls: number   // Upper bound - unmentioned brands skip the evaluator
+  queryCents: number
+  followUpCents: number
+  evaluationCents: number
+  totalCents: number        // Rounded up to whole cents
+}
+
+export interface ScanCostEstimateInput {
+  pricing: PricingConfig[]
+  queries: Array<{ id: string; query_text: string }>
+  models: string[]
+  samplesPerQuery: number
+  followUpDepth: number     // 0 = follow-ups off
+  evaluationModel: string
+  history: TokenHistory
+  followUpHelperModel?: string | null  // Adaptive follow-ups: model writing each question
+}
+
+/**
+ * Tokens of the answer model call - the evaluator is priced on its own
+ * Results before Migration 044 only store the total with the evaluation, so
+ * its estimated share is taken off (ai_calls 0 = before the counter, evaluated).
+ */
+function answerTokens(r: ResultForTokenHistory): { input: number; output: number } | null {
+  if (r.answer_input_tokens != null || r.answer_output_tokens != null) {
+    return { input: r.answer_input_tokens || 0, output: r.answer_output_tokens || 0 }
+  }
+  if (r.input_tokens === null && r.output_tokens === null) return null
+
+  const evaluated = (r.ai_calls || 2) > 1
+  const output = Math.max(0, (r.output_tokens || 0) - (evaluated ? EVALUATION_OUTPUT_TOKENS : 0))
+  const input = Math.max(0, (r.input_tokens || 0) - (evaluated ? EVALUATION_PROMPT_TOKENS + output : 0))
+  return { input, output }
+}
+
+function average(rows: ResultForTokenHistory[]): TokenAverage | null {
+  const tokens = rows.map(answerTokens).filter(t => t !== null)
+  if (tokens.length === 0) return null
+  return {
+    inputTokens: Math.round(tokens.reduce((sum, t) => sum + t.input, 0) / tokens.length),
+    outputTokens: Math.round(tokens.reduce((sum, t) => sum + t.output, 0) / tokens.length),
+    count: tokens.length,
+  }
+}
+
+function summarize(rows: ResultForTokenHistory[]): ModelTokenHistory {
+  // ai_calls = answer + evaluation; 0 on results saved before the counter existed
+  const counted = rows.filter(r => (r.ai_calls || 0) > 0)
+  return {
+    initial: average(rows.filter(r => (r.follow_up_level || 0) === 0)),
+    followUp: average(rows.filter(r => (r.follow_up_level || 0) > 0)),
+    evaluationRate: counted.length > 0
+      ? counted.reduce((sum, r) => sum + Math.min(1, (r.ai_calls || 0) - 1), 0) / counted.length
+      : null,
+  }
+}
+
+/**
+ * Average answer token counts per model and per model+query from earlier results
+ */
+export function buildTokenHistory(results: ResultForTokenHistory[]): TokenHistory {
+  const groups = (keyOf: (r: ResultForTokenHistory) => string) => {
+    const map = new Map<string, ResultForTokenHistory[]>()
+    for (const row of results) {
+      const key = keyOf(row)
+      map.set(key, [...(map.get(key) || []), row])
+    }
+    return Object.fromEntries(Array.from(map, ([key, rows]) => [key, summarize(rows)]))
+  }
+
+  return {
+    byModel: groups(r => r.model),
+    byQuery: groups(r => `${r.model}|${r.query_text}`),
+  }
+}
+
+/**
+ * Load recent results of the given models (RLS limits them to the user's own scans)
+ */
+export async function loadTokenHistory(supabase: Pick<SupabaseClient, 'from'>, models: string[]): Promise<TokenHistory> {
+  const { data } = await supabase
+    .from('scan_results')
+    .select('model, query_text, follow_up_level, input_tokens, output_tokens, answer_input_tokens, answer_output_tokens, ai_calls')
+    .in('model', models)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  return buildTokenHistory(data || [])
+}
+
+/**
+ * Cents for one call - rounded up per call like calculateDynamicCost()
+ */
+function callCents(config: PricingConfig | undefined, inputTokens: number, outputTokens: number): number {
+  if (!config) return 0
+  const inputCost = (inputTokens / 1_000_000) * config.final_input_cost_cents
+  const outputCost = (outputTokens / 1_000_000) * config.final_output_cost_cents
+  return Math.ceil(inputCost + outputCost)
+}
+
+/**
+ * Per query × model cost breakdown of a scan
+ */
+export function buildScanCostEstimate({
+  pricing,
+  queries,
+  models,
+  samplesPerQuery,
+  followUpDepth,
+  evaluationModel,
+  history,
+  followUpHelperModel,
+}: ScanCostEstimateInput): ScanCostEstimate {
+  const evaluatorPricing = pricing.find(p => p.model === evaluationModel)
+  const helperPricing = followUpHelperModel ? pricing.find(p => p.model === followUpHelperModel) : undefined
+  const lines: ScanCostLine[] = []
+
+  for (const query of queries) {
+    for (const model of models) {
+      const modelPricing = pricing.find(p => p.model === model)
+      const fromQuery = history.byQuery[`${model}|${query.query_text}`]
+      const fromModel = history.byModel[model]
+      const source: ScanCostLine['source'] = fromQuery?.initial ? 'query' : fromModel?.initial ? 'model' : 'default'
+
+      const initial = fromQuery?.initial || fromModel?.initial
+        || { inputTokens: DEFAULT_INPUT_TOKENS, outputTokens: DEFAULT_OUTPUT_TOKENS, count: 0 }
+      // Follow-ups carry the conversation so far
+      const followUp = fromQuery?.followUp || fromModel?.followUp
+        || { inputTokens: initial.inputTokens + initial.outputTokens, outputTokens: initial.outputTokens, count: 0 }
+      const evaluationRate = fromModel?.evaluationRate ?? 1
+
+      const queryCents = callCents(modelPricing, initial.inputTokens, initial.outputTokens) * samplesPerQuery
+      const followUpCallCents = callCents(modelPricing, followUp.inputTokens, followUp.outputTokens)
+        + (followUpHelperModel ? callCents(helperPricing, FOLLOW_UP_GENERATION_PROMPT_TOKENS + followUp.inputTokens, FOLLOW_UP_GENERATION_OUTPUT_TOKENS) : 0)
+      const followUpCents = followUpCallCents * followUpDepth * samplesPerQuery
+      const evaluationCents = evaluationRate * samplesPerQuery * (
+        callCents(evaluatorPricing, EVALUATION_PROMPT_TOKENS + initial.outputTokens, EVALUATION_OUTPUT_TOKENS)
+        + followUpDepth * callCents(evaluatorPricing, EVALUATION_PROMPT_TOKENS + followUp.outputTokens, EVALUATION_OUTPUT_TOKENS)
+      )
+
+      lines.push({
+        queryId: query.id,
+        queryText: query.query_text,
+        model,
+        source,
+        queryCents,
+        followUpCents,
+        evaluationCents,
+        totalCents: queryCents + followUpCents + evaluationCents,
+      })
+    }
+  }
+
+  const sum = (pick: (line: ScanCostLine) => number, from: ScanCostLine[] = lines) =>
+    from.reduce((total, line) => total + pick(line), 0)
+  const answerCalls = queries.length * models.length * samplesPerQuery * (1 + followUpDepth)
+
+  return {
+    lines,
+    byModel: models.map(model => ({
+      model,
+      priced: pricing.some(p => p.model === model),
+      totalCents: Math.ceil(sum(line => line.totalCents, lines.filter(line => line.model === model))),
+    })),
+    evaluationModel,
+    samplesPerQuery,
+    followUpDepth,
+    answerCalls,
+    evaluationCalls: answerCalls,
+    queryCents: Math.ceil(sum(line => line.queryCents)),
+    followUpCents: Math.ceil(sum(line => line.followUpCents)),
+    evaluationCents: Math.ceil(sum(line => line.evaluationCents)),
+    totalCents: Math.ceil(sum(line => line.totalCents)),
+  }
+}
+
+/**
+ * Total of buildScanCostEstimate() with the token history loaded - for budget checks
+ */
+export async function estimateScanTotalCents(
+  supabase: Pick<SupabaseClient, 'from'>,
+  input: Omit<ScanCostEstimateInput, 'history'>
+): Promise<number> {
+  const history = await loadTokenHistory(supabase, input.models)
+  return buildScanCostEstimate({ ...input, history }).totalCents
+}
@@ -500,17 +500,6 @@ export async function consumeReservation(
   
   // If we reserved more than needed, add back the difference
   if (refundAmount > 0) {
-    await supabase
-      .from('user_profiles')
-      .update({ 
-        credit_balance_cents: supabase.rpc('increment_balance', { 
-          user_id: reservation.user_id, 
-          amount: refundAmount 
-        })
-      })
-      .eq('user_id', reservation.user_id)
-    
-    // Simpler approach: just add back
     const profile = await getUserProfile(reservation.user_id)
     if (profile) {
       await supabase
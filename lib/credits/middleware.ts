@@ -4,13 +4,14 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { getUserProfile, getTierLimits, getPricingConfigs, checkAndResetFreeTierLimits } from './index'
-import { canUserPerformAction, getAvailableModels, UserProfile, TierLimits, PricingConfig } from './types'
+import { canUserPerformAction, getAvailableModels, getRemainingQueries, UserProfile, TierLimits, PricingConfig } from './types'
 
 export interface AccessCheckResult {
   allowed: boolean
   reason?: string
   profile?: UserProfile
   limits?: TierLimits
+  remainingQueries?: number | null  // canAddQuery only, null = unlimited
 }
 
 /**
@@ -45,9 +46,9 @@ export async function canCreateProject(userId: string): Promise<AccessCheckResul
 }
 
 /**
- * Check if user can add a query to a project
+ * Check if user can add queries to a project (one by default, or a batch)
  */
-export async function canAddQuery(userId: string, projectId: string): Promise<AccessCheckResult> {
+export async function canAddQuery(userId: string, projectId: string, adding = 1): Promise<AccessCheckResult> {
   const supabase = await createClient()
   
   const profile = await getUserProfile(userId)
@@ -66,12 +67,13 @@ export async function canAddQuery(userId: string, projectId: string): Promise<Ac
     .select('*', { count: 'exact', head: true })
     .eq('project_id', projectId)
   
-  const result = canUserPerformAction(profile, limits, 'add_query', { queries: count || 0 })
+  const result = canUserPerformAction(profile, limits, 'add_query', { queries: count || 0, adding })
   
   return {
     ...result,
     profile,
     limits,
+    remainingQueries: getRemainingQueries(profile, limits, count || 0),
   }
 }
 
@@ -201,6 +201,21 @@ export function estimateScanCost(
   return Math.ceil(totalCents * 1.5)
 }
 
+/**
+ * Queries that can still be added to a project, null when unlimited
+ */
+export function getRemainingQueries(
+  profile: UserProfile,
+  limits: TierLimits,
+  queries: number
+): number | null {
+  if (profile.tier === 'admin' || (profile.tier === 'test' && !profile.test_simulate_no_credits)) {
+    return null
+  }
+  if (limits.max_queries_per_project === null) return null
+  return Math.max(0, limits.max_queries_per_project - queries)
+}
+
 /**
  * Check if user can perform an action based on tier
  */
@@ -208,7 +223,7 @@ export function canUserPerformAction(
   profile: UserProfile,
   limits: TierLimits,
   action: 'create_project' | 'add_query' | 'run_scan' | 'schedule_scan',
-  currentCounts?: { projects?: number; queries?: number }
+  currentCounts?: { projects?: number; queries?: number; adding?: number }
 ): { allowed: boolean; reason?: string } {
   const { tier } = profile
 
@@ -236,7 +251,7 @@ export function canUserPerformAction(
 
     case 'add_query':
       if (limits.max_queries_per_project !== null && currentCounts?.queries !== undefined) {
-        if (currentCounts.queries >= limits.max_queries_per_project) {
+        if (currentCounts.queries + (currentCounts.adding ?? 1) > limits.max_queries_per_project) {
           return { 
             allowed: false, 
             reason: `Free tier is limited to ${limits.max_queries_per_project} queries per project. Upgrade to Pro for unlimited queries.`
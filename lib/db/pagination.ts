@@ -0,0 +1,28 @@
+/**
+ * Paged reads
+ *
+ * PostgREST returns at most 1000 rows per request (db-max-rows) and cuts the
+ * rest off without an error. Reads that can grow past that are paged with
+ * range(); the query must have a stable order (e.g. .order('id')).
+ */
+
+export const MAX_ROWS_PER_REQUEST = 1000
+
+/**
+ * Read every row of a query, one range() page at a time
+ * Throws the first error PostgREST returns.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  pageSize: number = MAX_ROWS_PER_REQUEST
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await page(from, from + pageSize - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < pageSize) return rows
+  }
+}
@@ -166,6 +166,25 @@ export async function createProjectQueries(queries: InsertProjectQuery[]): Promi
   return data || []
 }
 
+export async function updateProjectQuery(
+  id: string,
+  projectId: string,
+  updates: Partial<Pick<ProjectQuery, 'query_type' | 'is_active' | 'tags' | 'persona_id'>>
+): Promise<ProjectQuery | null> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .from(TABLES.PROJECT_QUERIES)
+    .update(updates)
+    .eq('id', id)
+    .eq('project_id', projectId)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
 export async function deleteProjectQuery(id: string): Promise<void> {
   const supabase = await createClient()
   
@@ -49,10 +49,50 @@ export interface Project {
   query_generation_model: string // Model used for AI-generated queries
   evaluation_model: string // Model used for evaluating AI responses
   evaluation_method?: 'ai' | 'regex' // DEPRECATED - always uses AI evaluation now
+  competitors: Competitor[] // JSONB stored as array
+  samples_per_query: number // Times each query×model pair is asked per scan (1-5)
+  cache_geo_responses: boolean // Reuse cached answers for identical GEO queries (evaluations are always cached)
+  monthly_budget_cents: number | null // Spending cap per calendar month (UTC), null = no cap
+  follow_up_templates: FollowUpTemplateOverrides // Custom follow-up chains per query type (built-ins fill the gaps)
+  follow_up_mode: 'template' | 'adaptive' // adaptive = helper model writes each follow-up from the last answer
+  scoring_profile: ScoringProfileOverrides // Resilience scoring coefficients that differ from the defaults
+  scoring_profile_version: number // Bumped on every scoring profile change
+  personas: ProjectPersona[] // JSONB stored as array; audiences queries can be written for
   created_at: string
   updated_at: string
 }
 
+// Custom follow-up questions per query type, index 0 = level 1, in the project's language
+// Empty or missing levels fall back to the built-in templates (lib/scan/follow-up-templates.ts)
+export type FollowUpTemplateOverrides = Partial<Record<ProjectQuery['query_type'], string[]>>
+
+// Resilience scoring coefficients that override DEFAULT_SCORING_PROFILE (lib/scan/scoring-profile.ts)
+export interface ScoringProfileOverrides {
+  improvementFactor?: number
+  declineFactor?: number
+  disappearanceFactor?: number
+  persistenceBonus?: number
+  persistencePenalty?: number
+  followUpWeights?: Partial<Record<'depth1' | 'depth2' | 'depth3', Record<number, number>>>
+}
+
+// Audience a query is written for (lib/queries/personas.ts)
+// Generation phrases queries as this person; scans can ask them with a persona system prompt
+export interface ProjectPersona {
+  id: string
+  name: string               // Label shown in the UI, e.g. "Finance lead"
+  role: string               // Job or situation, e.g. "CFO at a mid-size retailer"
+  expertise: 'beginner' | 'intermediate' | 'expert'
+  region: string | null      // Market or country, e.g. "Germany"
+  budget: string | null      // Free-form, e.g. "under $50/month", "enterprise"
+}
+
+export interface Competitor {
+  name: string
+  variations: string[] // Alternative names/spellings
+  domain: string | null
+}
+
 export interface ScheduledScanHistory {
   id: string
   project_id: string
@@ -60,6 +100,7 @@ export interface ScheduledScanHistory {
   scheduled_for: string
   status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
   error_message: string | null
+  budget_warning: string | null    // Run brought the project to 80% of its monthly budget
   created_at: string
   completed_at: string | null
 }
@@ -71,9 +112,30 @@ export interface ProjectQuery {
   query_type: 'informational' | 'transactional' | 'comparison'
   is_active: boolean
   is_ai_generated: boolean
+  tags: string[] // JSONB stored as array (lowercase topic labels)
+  persona_id: string | null // Project persona the query is asked as (null = no persona)
   created_at: string
 }
 
+// Generated query awaiting review (accepted drafts are copied to project_queries)
+export interface QueryDraft {
+  id: string
+  project_id: string
+  user_id: string
+  batch_id: string                  // One generation request
+  query_text: string
+  query_type: ProjectQuery['query_type']
+  rationale: string | null          // Why the generation model proposed this query
+  persona_id: string | null         // Persona the batch was generated for
+  similar_to: string | null         // Closest existing query when this is a near-duplicate
+  similarity: number | null         // 0-1 token similarity to similar_to
+  status: 'pending' | 'accepted' | 'rejected'
+  query_id: string | null           // project_queries row created on accept
+  generation_model: string
+  created_at: string
+  reviewed_at: string | null
+}
+
 export interface Scan {
   id: string
   project_id: string
@@ -94,6 +156,11 @@ export interface Scan {
   brand_persistence: number | null    // % of levels where brand mentioned (0-100)
   follow_up_active: boolean | null    // Whether follow-ups were used
   
+  // Competitor tracking
+  share_of_voice: number | null       // Our share of all brand mentions incl. competitors (0-100)
+  competitor_share_of_voice: CompetitorShareOfVoice[] | null
+  sampling_stats: ScanSamplingStats | null  // Run-to-run variance, null for single-sample scans
+  
   // Cost tracking
   total_cost_usd: number
   total_input_tokens: number
@@ -103,6 +170,13 @@ export interface Scan {
   total_queries: number
   total_results: number
   
+  models: string[] | null             // Models the scan ran (after retired-model substitution), null for older scans
+  
+  // Scoring profile the scores were calculated with (null = defaults, scans before profiles)
+  scoring_profile_version: number | null
+  scoring_profile: ScoringProfileOverrides | null  // Resolved coefficients, so the scan can be re-scored and audited
+  scoring_formula_version: number | null  // SCORING_FORMULA_VERSION of the aggregates (null = unknown, before auditing)
+  
   created_at: string
   completed_at: string | null
 }
@@ -110,20 +184,70 @@ export interface Scan {
 export interface ScanResult {
   id: string
   scan_id: string
-  provider: 'openai' | 'anthropic' | 'google' | 'groq' | 'perplexity'
+  provider: 'openai' | 'anthropic' | 'google' | 'groq' | 'perplexity' | 'mock'
   model: string
   query_text: string
   ai_response_raw: string
   metrics_json: ScanMetrics | null
-  input_tokens: number | null
+  input_tokens: number | null   // Answer + evaluation (+ follow-up helper) calls
   output_tokens: number | null
+  answer_input_tokens: number | null   // Answer model call alone (null before Migration 044)
+  answer_output_tokens: number | null
   cost_usd: number | null
   follow_up_level: number // 0=initial, 1-3=follow-up depth
   parent_result_id: string | null // Links to previous result in chain
   follow_up_query_used: string | null // The follow-up question asked
+  competitor_mentions: CompetitorMention[] | null // Competitors found in the response
+  citations: Citation[] | null  // Sources (URLs, links, domains) cited in the response
+  sample_index: number // 0-based sample number for repeated sampling (siblings share query/model/level)
+  ai_calls: number   // AI calls behind this result (query + evaluation, pre-checks don't count)
+  cache_hits: number // How many of those calls were served from the response cache
+  ai_diagnostics: AICallDiagnostics | null // Retries / fallbacks behind this result (null = clean run)
+  persona_id: string | null // Persona the query was asked as (snapshot at scan time)
   created_at: string
 }
 
+export interface Citation {
+  url: string | null         // Full URL, null for bare domain mentions
+  domain: string             // Normalized host (no protocol, no www.)
+  title: string | null       // Markdown link text, if any
+  type: 'markdown_link' | 'url' | 'domain'
+}
+
+export interface CompetitorMention {
+  name: string
+  mentioned: boolean         // Name or variation found in response
+  domain_mentioned: boolean  // Competitor domain found in response
+  position: number | null    // 1-based position in a list, null if not listed
+}
+
+export interface CompetitorShareOfVoice {
+  name: string
+  mention_rate: number         // % of results mentioning this competitor
+  share_of_voice: number       // Share of all brand mentions (0-100)
+  avg_position: number | null  // Average list position when listed
+}
+
+export interface AICallDiagnostics {
+  retries: Array<{ model: string; attempt: number; code: string; message: string; delayMs: number }>
+  fallbacks: Array<{ from: string; to: string; code: string; message: string }>  // Evaluation model fallbacks
+}
+
+export interface SampleStats {
+  mean: number
+  min: number
+  max: number
+  ci_low: number | null   // 95% confidence interval of the mean, null with < 2 samples
+  ci_high: number | null
+  n: number
+}
+
+export interface ScanSamplingStats {
+  samples_per_query: number
+  visibility: SampleStats
+  recommendation: SampleStats
+}
+
 export interface ScanMetrics {
   visibility_score: number           // 0-100: Brand + domain presence (100=both, 50=brand or domain only, 0=neither)
   sentiment_score: number | null     // 0-100: Sentiment when brand mentioned (50 = neutral, null = not mentioned/n/a)
@@ -146,6 +270,30 @@ export interface ResilienceScore {
   follow_up_active: boolean          // Whether follow-ups were used in calculation
 }
 
+// One re-scored scan: aggregates and versions before and after (audit trail)
+export interface ScanScoreAudit {
+  id: string
+  scan_id: string
+  project_id: string
+  user_id: string
+  previous: ScanScoreSnapshot
+  current: ScanScoreSnapshot
+  created_at: string
+}
+
+export interface ScanScoreSnapshot {
+  overall_score: number | null
+  initial_score: number | null
+  conversational_bonus: number | null
+  brand_persistence: number | null
+  follow_up_active: boolean | null
+  avg_visibility: number | null
+  avg_sentiment: number | null
+  avg_ranking: number | null
+  scoring_formula_version: number | null
+  scoring_profile_version: number | null
+}
+
 export interface MonthlyUsage {
   id: string
   user_id: string
@@ -157,14 +305,100 @@ export interface MonthlyUsage {
   total_output_tokens: number
   total_cost_usd: number
   scan_count: number
+  ai_call_count: number   // AI calls made for scans (including cache hits)
+  cache_hit_count: number // Calls served from the response cache
+}
+
+// Model registry row (runtime copy in lib/ai/catalog.ts)
+export interface ModelCatalogEntry {
+  id: string                     // Internal model ID, e.g. 'gpt-5-mini'
+  provider: string
+  name: string
+  description: string
+  gateway_model_id: string | null  // Gateway format 'provider/model', null = `${provider}/${id}`
+  context_window: number
+  capabilities: string[]         // e.g. 'web_search', 'reasoning'
+  chain_of_thought: boolean      // Hidden reasoning tokens - higher limits, not used for evaluation
+  aliases: string[]              // Old IDs that resolve to this model
+  input_price_usd: number        // List price per 1M tokens
+  output_price_usd: number
+  available_free_tier: boolean
+  is_active: boolean
+  deprecated_at: string | null   // Date the provider retires the model
+  replacement_model: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Server-side progress of a queued scan (see lib/scan/runner.ts)
+export interface ScanQueueCheckpoint {
+  queryIds: string[]
+  models: string[]
+  samplesPerQuery: number
+  reservationId: string | null
+  completed: string[]              // Pair keys 'queryId|model|sampleIndex' with all results saved
+  failed: Record<string, string>   // Pair key → error, not retried by later workers
+  retry?: ScanRetryCheckpoint      // Set when re-running missing pairs of a finished scan
+  totals?: ScanQueueTotals         // Scan totals including the checkpointed pairs
+}
+
+// Running totals of a queued scan, saved with the checkpoint and copied to the scan row
+export interface ScanQueueTotals {
+  costUsd: number
+  inputTokens: number
+  outputTokens: number
+  results: number                  // Successful pairs
+}
+
+// Retry of a finished scan: partial chains are continued, earlier results are already billed
+export interface ScanRetryCheckpoint {
+  followUpDepth: number            // Depth the scan ran with (0 = no follow-ups)
+  chargedCents: number             // Charged for the kept results when the scan first completed
+  resultIds: string[]              // Results already counted in monthly usage
+}
+
+// Latest finished pair of a queued scan, pushed to the browser via realtime
+export interface ScanPairEvent {
+  queryId: string
+  queryText: string
+  model: string
+  sampleIndex: number
+  success: boolean
+  metrics: ScanMetrics | null      // Initial answer (follow-ups are in scan_results)
+  error: string | null
+  costUsd: number                  // This pair incl. follow-ups and evaluations
+  totalCostUsd: number             // Scan so far
+  finishedAt: string
+}
+
+export interface ScanQueueItem {
+  id: string
+  user_id: string
+  project_id: string
+  scan_id: string | null
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+  priority: number
+  progress_current: number         // Finished query-model pairs
+  progress_total: number
+  progress_message: string | null
+  is_scheduled: boolean
+  scheduled_for: string | null
+  checkpoint: ScanQueueCheckpoint | null
+  attempts: number                 // Times a worker claimed the item
+  last_pair: ScanPairEvent | null
+  started_at: string | null
+  completed_at: string | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
 }
 
 // Fields that have database-level defaults and are optional when inserting
-type ProjectDBDefaults = 'scheduled_scan_frequency' | 'scheduled_scan_hour' | 'scheduled_scan_day_of_month'
+type ProjectDBDefaults = 'scheduled_scan_frequency' | 'scheduled_scan_hour' | 'scheduled_scan_day_of_month' | 'competitors' | 'samples_per_query' | 'cache_geo_responses' | 'monthly_budget_cents' | 'follow_up_templates' | 'follow_up_mode' | 'scoring_profile' | 'scoring_profile_version' | 'personas'
 
 // Type for inserting new records (without auto-generated fields, DB-defaulted fields are optional)
 export type InsertProject = Omit<Project, 'id' | 'created_at' | 'updated_at' | ProjectDBDefaults> & Partial<Pick<Project, ProjectDBDefaults>>
-export type InsertProjectQuery = Omit<ProjectQuery, 'id' | 'created_at'>
+export type InsertProjectQuery = Omit<ProjectQuery, 'id' | 'created_at' | 'tags' | 'persona_id'> & Partial<Pick<ProjectQuery, 'tags' | 'persona_id'>>
 export type InsertScan = Omit<Scan, 'id' | 'created_at' | 'completed_at'>
 export type InsertScanResult = Omit<ScanResult, 'id' | 'created_at'>
 export type InsertUserSettings = Omit<UserSettings, 'id' | 'created_at' | 'updated_at'>
@@ -183,4 +417,8 @@ export const TABLES = {
   SCAN_RESULTS: 'scan_results',
   MONTHLY_USAGE: 'monthly_usage',
   SCHEDULED_SCAN_HISTORY: 'scheduled_scan_history',
+  AI_RESPONSE_CACHE: 'ai_response_cache',
+  MODEL_CATALOG: 'model_catalog',
+  SCAN_SCORE_AUDIT: 'scan_score_audit',
+  QUERY_DRAFTS: 'query_drafts',
 } as const
@@ -220,6 +220,42 @@ export async function getCostsByType(userId: string, month?: string) {
   }))
 }
 
+// ============================================
+// RESPONSE CACHE HIT RATES
+// ============================================
+
+export async function getCacheStats(userId: string, month?: string) {
+  const usage = await getMonthlyUsage(userId, month)
+  
+  const byModel: Record<string, { calls: number; hits: number }> = {}
+  
+  for (const u of usage) {
+    if (!u.ai_call_count) continue
+    if (!byModel[u.model]) {
+      byModel[u.model] = { calls: 0, hits: 0 }
+    }
+    byModel[u.model].calls += u.ai_call_count
+    byModel[u.model].hits += u.cache_hit_count || 0
+  }
+  
+  const calls = Object.values(byModel).reduce((sum, m) => sum + m.calls, 0)
+  const hits = Object.values(byModel).reduce((sum, m) => sum + m.hits, 0)
+  
+  return {
+    calls,
+    hits,
+    hitRate: calls > 0 ? Math.round((hits / calls) * 100) : 0,
+    byModel: Object.entries(byModel)
+      .map(([model, data]) => ({
+        model,
+        calls: data.calls,
+        hits: data.hits,
+        hitRate: Math.round((data.hits / data.calls) * 100),
+      }))
+      .sort((a, b) => b.calls - a.calls),
+  }
+}
+
 // ============================================
 // USER PROFILE (Timezone, etc.)
 // ============================================
@@ -8,6 +8,7 @@ import { callGroq } from './groq'
 import { callPerplexity } from './perplexity'
 import { calculateDynamicCost } from '@/lib/credits'
 import type { LLMConfig, LLMResponse, LLMProvider, ConversationMessage } from '@/lib/ai'
+import { getLanguagePromptName, isEnglish } from '@/lib/locales'
 
 // Re-export types from lib/ai (for backward compatibility)
 export type { LLMConfig, LLMResponse, LLMProvider, ConversationMessage } from '@/lib/ai'
@@ -77,24 +78,11 @@ IMPORTANT: Keep your response concise (2-4 paragraphs maximum). Focus on the mos
  */
 export function getGEOSystemPrompt(language?: string): string {
   // If no language specified or English, return base prompt
-  if (!language || language.toLowerCase() === 'en' || language.toLowerCase().startsWith('en')) {
+  if (!language || isEnglish(language)) {
     return GEO_SYSTEM_PROMPT_BASE
   }
   
-  // Map language codes to full names for clearer instruction
-  const languageNames: Record<string, string> = {
-    cs: 'Czech (Čeština)',
-    de: 'German (Deutsch)',
-    fr: 'French (Français)',
-    es: 'Spanish (Español)',
-    pl: 'Polish (Polski)',
-    sk: 'Slovak (Slovenčina)',
-    it: 'Italian (Italiano)',
-    pt: 'Portuguese (Português)',
-    nl: 'Dutch (Nederlands)',
-    ru: 'Russian (Русский)',
-  }
-  const langName = languageNames[language.toLowerCase()] || language
+  const langName = getLanguagePromptName(language)
   
   return `${GEO_SYSTEM_PROMPT_BASE}
 
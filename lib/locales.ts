@@ -0,0 +1,65 @@
+/**
+ * Supported project languages
+ *
+ * Single registry for everything language-dependent: response instructions in
+ * system prompts, follow-up templates and the language pickers. Codes are
+ * ISO 639-1; regional variants ("cs-CZ", "en-US") resolve to their base code.
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'cs', 'sk', 'de', 'pl', 'es', 'fr', 'it', 'pt', 'nl', 'ru'] as const
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number]
+
+export interface LocaleInfo {
+  label: string       // English name, used in the UI
+  nativeName: string
+}
+
+export const LOCALES: Record<SupportedLanguage, LocaleInfo> = {
+  en: { label: 'English', nativeName: 'English' },
+  cs: { label: 'Czech', nativeName: 'Čeština' },
+  sk: { label: 'Slovak', nativeName: 'Slovenčina' },
+  de: { label: 'German', nativeName: 'Deutsch' },
+  pl: { label: 'Polish', nativeName: 'Polski' },
+  es: { label: 'Spanish', nativeName: 'Español' },
+  fr: { label: 'French', nativeName: 'Français' },
+  it: { label: 'Italian', nativeName: 'Italiano' },
+  pt: { label: 'Portuguese', nativeName: 'Português' },
+  nl: { label: 'Dutch', nativeName: 'Nederlands' },
+  ru: { label: 'Russian', nativeName: 'Русский' },
+}
+
+/**
+ * Supported base language of a code, null when unknown
+ */
+export function getSupportedLanguage(language?: string | null): SupportedLanguage | null {
+  const base = (language || '').toLowerCase().split(/[-_]/)[0]
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? (base as SupportedLanguage) : null
+}
+
+/**
+ * Supported base language of a code, English when unknown
+ */
+export function resolveLanguage(language?: string | null): SupportedLanguage {
+  return getSupportedLanguage(language) || 'en'
+}
+
+export function isEnglish(language?: string | null): boolean {
+  return !language || language.toLowerCase().startsWith('en')
+}
+
+/**
+ * Language name for prompt instructions, e.g. "German (Deutsch)"
+ * Unknown codes are passed through so the model can still interpret them.
+ */
+export function getLanguagePromptName(language: string): string {
+  const supported = getSupportedLanguage(language)
+  if (!supported) return language
+  const { label, nativeName } = LOCALES[supported]
+  return label === nativeName ? label : `${label} (${nativeName})`
+}
+
+/**
+ * Options for language pickers
+ */
+export const LANGUAGE_OPTIONS = SUPPORTED_LANGUAGES.map(value => ({ value, label: LOCALES[value].label }))
@@ -0,0 +1,103 @@
+/**
+ * Coverage of a project's queries
+ *
+ * How many active queries address each target keyword and each query type,
+ * so gaps can be filled before generating more. A keyword is covered by a
+ * query containing all of its tokens (same normalization as near-duplicate
+ * detection, so "CRM tools" matches "best crm tool"). Keywords and types with
+ * less than half of an even share are under-represented.
+ */
+
+import type { ProjectQuery } from '@/lib/db/schema'
+import { QUERY_TYPE_VALUES, normalizeQueryText, type QueryType } from '@/lib/queries/import-export'
+import { tokenizeQuery } from '@/lib/queries/similarity'
+
+export interface CoverageEntry {
+  queries: number
+  share: number               // % of active queries
+  underrepresented: boolean
+}
+
+export interface KeywordCoverage extends CoverageEntry {
+  keyword: string
+}
+
+export interface QueryTypeCoverage extends CoverageEntry {
+  type: QueryType
+}
+
+export interface QueryCoverageReport {
+  totalQueries: number        // Active queries
+  keywords: KeywordCoverage[]
+  types: QueryTypeCoverage[]
+  gaps: {
+    keywords: string[]
+    types: QueryType[]
+  }
+}
+
+/**
+ * Whether a query addresses a keyword
+ */
+export function queryMatchesKeyword(queryText: string, keyword: string): boolean {
+  const keywordTokens = tokenizeQuery(keyword)
+  // Keywords made only of short words or stopwords: plain substring match
+  if (keywordTokens.length === 0) {
+    const normalized = normalizeQueryText(keyword)
+    return normalized.length > 0 && normalizeQueryText(queryText).includes(normalized)
+  }
+  const queryTokens = new Set(tokenizeQuery(queryText))
+  return keywordTokens.every(token => queryTokens.has(token))
+}
+
+export function analyzeQueryCoverage(
+  queries: Pick<ProjectQuery, 'query_text' | 'query_type' | 'is_active'>[],
+  targetKeywords: string[]
+): QueryCoverageReport {
+  const active = queries.filter(q => q.is_active)
+  const total = active.length
+  const keywords = Array.from(new Set(targetKeywords.map(k => k.trim()).filter(Boolean)))
+
+  const entry = (count: number, buckets: number): CoverageEntry => ({
+    queries: count,
+    share: total > 0 ? Math.round(count / total * 100) : 0,
+    underrepresented: count < Math.max(1, total / buckets / 2),
+  })
+
+  const keywordCoverage = keywords.map(keyword => ({
+    keyword,
+    ...entry(active.filter(q => queryMatchesKeyword(q.query_text, keyword)).length, keywords.length),
+  }))
+
+  const typeCoverage = QUERY_TYPE_VALUES.map(type => ({
+    type,
+    ...entry(active.filter(q => q.query_type === type).length, QUERY_TYPE_VALUES.length),
+  }))
+
+  return {
+    totalQueries: total,
+    keywords: keywordCoverage,
+    types: typeCoverage,
+    gaps: {
+      keywords: keywordCoverage.filter(k => k.underrepresented).map(k => k.keyword),
+      types: typeCoverage.filter(t => t.underrepresented).map(t => t.type),
+    },
+  }
+}
+
+/**
+ * Generation prompt hint that steers new queries towards the gaps
+ * Empty when there are no gaps or no queries yet (everything would be a gap).
+ */
+export function buildCoverageHint(report: QueryCoverageReport): string {
+  if (report.totalQueries === 0) return ''
+  const parts: string[] = []
+  if (report.gaps.keywords.length > 0) {
+    parts.push(`topics: ${report.gaps.keywords.join(', ')}`)
+  }
+  if (report.gaps.types.length > 0) {
+    parts.push(`query types: ${report.gaps.types.join(', ')}`)
+  }
+  if (parts.length === 0) return ''
+  return `\n\n**PRIORITIZE GAPS** - the existing queries under-represent these ${parts.join('; ')}. Cover them first.`
+}
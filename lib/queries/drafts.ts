@@ -0,0 +1,160 @@
+/**
+ * Review queue for generated queries
+ *
+ * Query generation writes drafts (query_drafts) instead of project queries.
+ * Each draft keeps the model's rationale and, for rephrasings of existing
+ * queries, the closest match. The user edits, accepts or rejects drafts;
+ * accepting copies a draft to project_queries. Drafts are not project
+ * queries, so only accepted ones count against max_queries_per_project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES, type ProjectQuery, type QueryDraft } from '@/lib/db/schema'
+import { normalizeQueryText, type QueryType } from '@/lib/queries/import-export'
+import { findNearDuplicate } from '@/lib/queries/similarity'
+
+export interface DraftCandidate {
+  query_text: string
+  query_type: QueryType
+  rationale: string | null
+}
+
+export type PreparedDraft = DraftCandidate & Pick<QueryDraft, 'similar_to' | 'similarity'>
+
+export type DraftSkipReason = 'not_found' | 'duplicate' | 'over_limit'
+
+export interface DraftReviewResult {
+  accepted: ProjectQuery[]
+  rejected: string[]                                   // Draft IDs
+  skipped: { id: string; reason: DraftSkipReason }[]  // Accepts that were not applied; the drafts stay pending
+}
+
+/**
+ * Drafts for a generated batch
+ * Exact duplicates of project queries, pending drafts or earlier candidates
+ * are dropped; rephrasings of any of them are kept and flagged with the
+ * closest match.
+ */
+export function prepareDrafts(candidates: DraftCandidate[], existingTexts: string[]): PreparedDraft[] {
+  const seen = new Set(existingTexts.map(normalizeQueryText))
+  const comparable = [...existingTexts]
+  const drafts: PreparedDraft[] = []
+
+  for (const candidate of candidates) {
+    const text = candidate.query_text.trim()
+    const key = normalizeQueryText(text)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+
+    const match = findNearDuplicate(text, comparable)
+    drafts.push({
+      ...candidate,
+      query_text: text,
+      similar_to: match?.similarTo ?? null,
+      similarity: match?.similarity ?? null,
+    })
+    comparable.push(text)
+  }
+
+  return drafts
+}
+
+/**
+ * Accept and reject pending drafts of a project
+ * Accepted drafts become active, AI-generated project queries with the
+ * persona they were generated for, in the order given, until `remaining`
+ * (tier limit, null = unlimited) is used up. Drafts whose text exists in
+ * the project by now are skipped as duplicates.
+ */
+export async function reviewQueryDrafts(
+  supabase: Pick<SupabaseClient, 'from'>,
+  options: { projectId: string; accept: string[]; reject: string[]; remaining: number | null }
+): Promise<DraftReviewResult> {
+  const ids = [...options.accept, ...options.reject]
+  const result: DraftReviewResult = { accepted: [], rejected: [], skipped: [] }
+  if (ids.length === 0) return result
+
+  const { data: drafts, error } = await supabase
+    .from(TABLES.QUERY_DRAFTS)
+    .select('*')
+    .eq('project_id', options.projectId)
+    .eq('status', 'pending')
+    .in('id', ids)
+
+  if (error) throw new Error(`Failed to load drafts: ${error.message}`)
+
+  const draftsById = new Map(((drafts || []) as QueryDraft[]).map(draft => [draft.id, draft]))
+  const reviewedAt = new Date().toISOString()
+
+  const rejectIds = options.reject.filter(id => draftsById.has(id))
+  if (rejectIds.length > 0) {
+    const { error: rejectError } = await supabase
+      .from(TABLES.QUERY_DRAFTS)
+      .update({ status: 'rejected', reviewed_at: reviewedAt })
+      .in('id', rejectIds)
+
+    if (rejectError) throw new Error(`Failed to reject drafts: ${rejectError.message}`)
+    result.rejected = rejectIds
+  }
+  for (const id of options.reject) {
+    if (!draftsById.has(id)) result.skipped.push({ id, reason: 'not_found' })
+  }
+
+  if (options.accept.length === 0) return result
+
+  const { data: existing } = await supabase
+    .from(TABLES.PROJECT_QUERIES)
+    .select('query_text')
+    .eq('project_id', options.projectId)
+
+  const existingTexts = new Set(((existing || []) as { query_text: string }[]).map(q => normalizeQueryText(q.query_text)))
+
+  for (const id of options.accept) {
+    const draft = draftsById.get(id)
+    if (!draft) {
+      result.skipped.push({ id, reason: 'not_found' })
+      continue
+    }
+
+    const key = normalizeQueryText(draft.query_text)
+    if (existingTexts.has(key)) {
+      result.skipped.push({ id, reason: 'duplicate' })
+      continue
+    }
+    if (options.remaining !== null && result.accepted.length >= options.remaining) {
+      result.skipped.push({ id, reason: 'over_limit' })
+      continue
+    }
+
+    const { data: query, error: insertError } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .insert({
+        project_id: options.projectId,
+        query_text: draft.query_text,
+        query_type: draft.query_type,
+        is_active: true,
+        is_ai_generated: true,
+        persona_id: draft.persona_id,
+      })
+      .select()
+      .single()
+
+    if (insertError || !query) {
+      throw new Error(`Failed to accept draft ${id}: ${insertError?.message || 'no row returned'}`)
+    }
+
+    const { error: updateError } = await supabase
+      .from(TABLES.QUERY_DRAFTS)
+      .update({ status: 'accepted', query_id: query.id, reviewed_at: reviewedAt })
+      .eq('id', id)
+
+    if (updateError) {
+      console.error(`[Query Drafts] Failed to mark draft ${id} as accepted:`, updateError)
+    }
+
+    existingTexts.add(key)
+    result.accepted.push(query as ProjectQuery)
+  }
+
+  return result
+}
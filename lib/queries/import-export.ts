@@ -0,0 +1,367 @@
+/**
+ * Bulk import and export of project queries
+ *
+ * One file format for both directions, as CSV or JSON, with the columns
+ * query_text, query_type, tags and active. Imports are planned before anything
+ * is written: every row is validated, deduplicated against the project's
+ * queries and earlier rows of the file, and checked against the remaining
+ * tier limit (canAddQuery), so the same plan serves as the preview.
+ */
+
+import type { ProjectQuery } from '@/lib/db/schema'
+
+export type QueryFileFormat = 'csv' | 'json'
+
+export type QueryType = ProjectQuery['query_type']
+
+export const QUERY_FILE_FORMATS: QueryFileFormat[] = ['csv', 'json']
+
+export const QUERY_FILE_COLUMNS = ['query_text', 'query_type', 'tags', 'active'] as const
+
+export const QUERY_TYPE_VALUES: QueryType[] = ['informational', 'transactional', 'comparison']
+
+export const MAX_IMPORT_ROWS = 500
+export const MAX_QUERY_TEXT_LENGTH = 1000
+export const MAX_TAGS_PER_QUERY = 10
+export const MAX_TAG_LENGTH = 40
+
+// Separator of tags inside the CSV tags column
+const TAG_SEPARATOR = ';'
+
+// Spreadsheets run cells starting with these as formulas (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y']
+const FALSE_VALUES = ['false', '0', 'no', 'n']
+
+export interface QueryFileRow {
+  query_text: string
+  query_type: QueryType
+  tags: string[]
+  is_active: boolean
+}
+
+export type QueryImportStatus = 'new' | 'duplicate' | 'invalid' | 'over_limit'
+
+export interface QueryImportRow extends QueryFileRow {
+  line: number          // CSV line or JSON array position, 1-based
+  status: QueryImportStatus
+  errors: string[]
+}
+
+export interface QueryImportPlan {
+  rows: QueryImportRow[]
+  toInsert: QueryFileRow[]
+  summary: Record<QueryImportStatus, number> & { total: number }
+  remaining: number | null  // Queries the tier still allows before the import, null = unlimited
+}
+
+/**
+ * Key used to detect duplicates: case and whitespace insensitive
+ */
+export function normalizeQueryText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Trimmed, lowercase, unique tags
+ */
+export function normalizeQueryTags(tags: string[]): string[] {
+  const normalized = tags
+    .map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+  return Array.from(new Set(normalized))
+}
+
+/**
+ * Format from an explicit value or the file content
+ */
+export function detectQueryFileFormat(content: string, format?: string | null): QueryFileFormat {
+  if (format === 'csv' || format === 'json') return format
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv'
+}
+
+/**
+ * Parse and validate a query file
+ * Returns an error for files that cannot be read at all (malformed JSON,
+ * missing query_text column, too many rows); row problems are reported per row.
+ */
+export function parseQueryFile(
+  content: string,
+  format: QueryFileFormat
+): { rows: QueryImportRow[]; error: string | null } {
+  const parsed = format === 'json' ? readJsonRecords(content) : readCsvRecords(content)
+  if (parsed.error !== null) return { rows: [], error: parsed.error }
+
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Files are limited to ${MAX_IMPORT_ROWS} queries (found ${parsed.records.length})` }
+  }
+
+  return { rows: parsed.records.map(({ line, record }) => validateRecord(line, record)), error: null }
+}
+
+/**
+ * Decide what happens to each row of an import
+ * Valid rows are new unless their text already exists in the project or
+ * earlier in the file. New rows beyond `remaining` are over the tier limit.
+ */
+export function planQueryImport(
+  rows: QueryImportRow[],
+  existingTexts: string[],
+  remaining: number | null
+): QueryImportPlan {
+  const seen = new Set(existingTexts.map(normalizeQueryText))
+  const toInsert: QueryFileRow[] = []
+
+  const planned = rows.map((row): QueryImportRow => {
+    if (row.errors.length > 0) return { ...row, status: 'invalid' }
+
+    const key = normalizeQueryText(row.query_text)
+    if (seen.has(key)) return { ...row, status: 'duplicate' }
+    seen.add(key)
+
+    if (remaining !== null && toInsert.length >= remaining) return { ...row, status: 'over_limit' }
+
+    toInsert.push({ query_text: row.query_text, query_type: row.query_type, tags: row.tags, is_active: row.is_active })
+    return { ...row, status: 'new' }
+  })
+
+  const summary = { total: planned.length, new: 0, duplicate: 0, invalid: 0, over_limit: 0 }
+  for (const row of planned) summary[row.status]++
+
+  return { rows: planned, toInsert, summary, remaining }
+}
+
+/**
+ * Serialize queries in the import format
+ */
+export function exportQueries(
+  queries: Pick<ProjectQuery, 'query_text' | 'query_type' | 'tags' | 'is_active'>[],
+  format: QueryFileFormat
+): string {
+  const rows = queries.map(q => ({
+    query_text: q.query_text,
+    query_type: q.query_type,
+    tags: q.tags || [],
+    active: q.is_active,
+  }))
+
+  if (format === 'json') return JSON.stringify(rows, null, 2)
+
+  const lines = rows.map(row => [
+    row.query_text,
+    row.query_type,
+    row.tags.join(TAG_SEPARATOR),
+    String(row.active),
+  ].map(escapeCsvField).join(','))
+
+  return [QUERY_FILE_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
+
+// ================================
+// Validation
+// ================================
+
+type RawRecord = Record<string, unknown>
+
+/**
+ * Tags from a list or a separated string (";" by default, as in the CSV column)
+ */
+export function validateQueryTags(
+  input: unknown,
+  separator: string | RegExp = TAG_SEPARATOR
+): { tags: string[]; errors: string[] } {
+  const errors: string[] = []
+  let tags: string[] = []
+
+  if (Array.isArray(input) && input.every(tag => typeof tag === 'string')) {
+    tags = normalizeQueryTags(input)
+  } else if (typeof input === 'string') {
+    tags = normalizeQueryTags(input.split(separator))
+  } else if (input !== undefined && input !== null) {
+    errors.push('tags must be a list of strings')
+  }
+
+  if (tags.length > MAX_TAGS_PER_QUERY) {
+    errors.push(`At most ${MAX_TAGS_PER_QUERY} tags per query`)
+  }
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    errors.push(`Tags are limited to ${MAX_TAG_LENGTH} characters`)
+  }
+  // The CSV export joins tags with the separator
+  if (tags.some(tag => tag.includes(TAG_SEPARATOR))) {
+    errors.push(`Tags cannot contain "${TAG_SEPARATOR}"`)
+  }
+
+  return { tags, errors }
+}
+
+function validateRecord(line: number, record: RawRecord): QueryImportRow {
+  const errors: string[] = []
+
+  const text = typeof record.query_text === 'string' ? record.query_text.trim() : ''
+  if (!text) {
+    errors.push('query_text is required')
+  } else if (text.length > MAX_QUERY_TEXT_LENGTH) {
+    errors.push(`query_text is longer than ${MAX_QUERY_TEXT_LENGTH} characters`)
+  }
+
+  let queryType: QueryType = 'informational'
+  const rawType = typeof record.query_type === 'string' ? record.query_type.trim().toLowerCase() : record.query_type
+  if (rawType !== undefined && rawType !== null && rawType !== '') {
+    if (QUERY_TYPE_VALUES.includes(rawType as QueryType)) {
+      queryType = rawType as QueryType
+    } else {
+      errors.push(`query_type must be one of ${QUERY_TYPE_VALUES.join(', ')}`)
+    }
+  }
+
+  const { tags, errors: tagErrors } = validateQueryTags(record.tags)
+  errors.push(...tagErrors)
+
+  let isActive = true
+  const rawActive = typeof record.active === 'string' ? record.active.trim().toLowerCase() : record.active
+  if (typeof rawActive === 'boolean') {
+    isActive = rawActive
+  } else if (rawActive === 1 || rawActive === 0) {
+    isActive = rawActive === 1
+  } else if (typeof rawActive === 'string' && TRUE_VALUES.includes(rawActive)) {
+    isActive = true
+  } else if (typeof rawActive === 'string' && FALSE_VALUES.includes(rawActive)) {
+    isActive = false
+  } else if (rawActive !== undefined && rawActive !== null && rawActive !== '') {
+    errors.push('active must be true or false')
+  }
+
+  return {
+    line,
+    query_text: text,
+    query_type: queryType,
+    tags,
+    is_active: isActive,
+    status: errors.length > 0 ? 'invalid' : 'new',
+    errors,
+  }
+}
+
+// ================================
+// Readers
+// ================================
+
+type ReadResult = { records: { line: number; record: RawRecord }[]; error: string | null }
+
+function readJsonRecords(content: string): ReadResult {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return { records: [], error: 'File is not valid JSON' }
+  }
+
+  // A bare array or { queries: [...] }
+  const items = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as RawRecord).queries)
+      ? (data as { queries: unknown[] }).queries
+      : null
+
+  if (!items) {
+    return { records: [], error: 'JSON must be an array of queries' }
+  }
+
+  return {
+    records: items.map((item, index) => ({
+      line: index + 1,
+      record: item && typeof item === 'object' && !Array.isArray(item) ? (item as RawRecord) : {},
+    })),
+    error: null,
+  }
+}
+
+function readCsvRecords(content: string): ReadResult {
+  const lines = parseCsv(content.replace(/^\uFEFF/, ''))
+  const header = lines.shift()
+  if (!header) return { records: [], error: 'File is empty' }
+
+  const columns = header.values.map(name => name.trim().toLowerCase())
+  if (!columns.includes('query_text')) {
+    return { records: [], error: `Missing query_text column (expected ${QUERY_FILE_COLUMNS.join(',')})` }
+  }
+
+  const records = lines
+    .filter(({ values }) => values.some(value => value.trim() !== ''))
+    .map(({ line, values }) => {
+      const record: RawRecord = {}
+      columns.forEach((column, index) => {
+        if ((QUERY_FILE_COLUMNS as readonly string[]).includes(column)) record[column] = unescapeCsvFormula(values[index] ?? '')
+      })
+      return { line, record }
+    })
+
+  return { records, error: null }
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+ */
+function parseCsv(content: string): { line: number; values: string[] }[] {
+  const rows: { line: number; values: string[] }[] = []
+  let values: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      values.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      values.push(field)
+      rows.push({ line: rowLine, values })
+      values = []
+      field = ''
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    values.push(field)
+    rows.push({ line: rowLine, values })
+  }
+
+  return rows
+}
+
+/**
+ * Cells that a spreadsheet would run as a formula get a leading ' (removed again on import)
+ */
+function escapeCsvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]|^\s|\s$/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
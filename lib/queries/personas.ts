@@ -0,0 +1,126 @@
+/**
+ * Query personas
+ *
+ * Real AI users differ: a CFO asks differently than a developer. A project
+ * keeps a few personas (role, expertise, region, budget). Query generation can
+ * write a batch as one persona; the queries keep its id (persona_id), and
+ * scans ask them with a persona system prompt so the measured model answers
+ * that person. Results store the persona, so scans can be compared per
+ * audience (lib/scan/personas.ts).
+ */
+
+import type { ProjectPersona } from '@/lib/db/schema'
+
+export type PersonaExpertise = ProjectPersona['expertise']
+
+/** What the prompts describe (name and id are labels only) */
+export type PersonaProfile = Pick<ProjectPersona, 'role' | 'expertise' | 'region' | 'budget'>
+
+/** Maximum number of personas per project */
+export const MAX_PERSONAS = 5
+
+/** Maximum length of a persona's name, role, region and budget */
+export const MAX_PERSONA_FIELD_LENGTH = 80
+
+export const PERSONA_EXPERTISE_LEVELS: PersonaExpertise[] = ['beginner', 'intermediate', 'expert']
+
+const EXPERTISE_DESCRIPTIONS: Record<PersonaExpertise, string> = {
+  beginner: 'new to the topic, asks basic questions in plain words',
+  intermediate: 'knows the basics, asks about practical trade-offs',
+  expert: 'experienced, uses precise terminology and asks about specifics',
+}
+
+function normalizeField(value: unknown): string {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_PERSONA_FIELD_LENGTH) : ''
+}
+
+/**
+ * Normalize persona input from API requests
+ * Drops entries without a name or role and duplicate names; entries without
+ * an id get a new one (ids of existing personas must be kept, queries and
+ * results refer to them).
+ */
+export function normalizePersonas(input: unknown): ProjectPersona[] {
+  if (!Array.isArray(input)) return []
+
+  const personas: ProjectPersona[] = []
+  const seenNames = new Set<string>()
+  const seenIds = new Set<string>()
+
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue
+    const entry = raw as Record<string, unknown>
+
+    const name = normalizeField(entry.name)
+    const role = normalizeField(entry.role)
+    if (!name || !role || seenNames.has(name.toLowerCase())) continue
+    seenNames.add(name.toLowerCase())
+
+    const id = typeof entry.id === 'string' && entry.id.trim() && !seenIds.has(entry.id.trim())
+      ? entry.id.trim()
+      : crypto.randomUUID()
+    seenIds.add(id)
+
+    personas.push({
+      id,
+      name,
+      role,
+      expertise: PERSONA_EXPERTISE_LEVELS.includes(entry.expertise as PersonaExpertise)
+        ? entry.expertise as PersonaExpertise
+        : 'intermediate',
+      region: normalizeField(entry.region) || null,
+      budget: normalizeField(entry.budget) || null,
+    })
+    if (personas.length >= MAX_PERSONAS) break
+  }
+
+  return personas
+}
+
+/**
+ * Persona by id, null when the id is empty or the persona was removed
+ */
+export function findPersona(
+  personas: ProjectPersona[] | null | undefined,
+  personaId: string | null | undefined
+): ProjectPersona | null {
+  if (!personaId) return null
+  return (personas || []).find(p => p.id === personaId) ?? null
+}
+
+function describePersona(persona: PersonaProfile): string {
+  return [
+    `- Role: ${persona.role}`,
+    `- Expertise: ${persona.expertise} (${EXPERTISE_DESCRIPTIONS[persona.expertise]})`,
+    persona.region && `- Region: ${persona.region}`,
+    persona.budget && `- Budget: ${persona.budget}`,
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * Persona section for the query generation prompt ('' without a persona)
+ */
+export function buildPersonaGenerationHint(persona: PersonaProfile | null): string {
+  if (!persona) return ''
+
+  return `
+
+Persona - write EVERY query as this person would ask it:
+${describePersona(persona)}
+Let the role, expertise, region and budget show in the wording and the situation described, without naming any brand.`
+}
+
+/**
+ * Persona section for the GEO system prompt ('' without a persona)
+ * Tells the measured model who is asking, the way assistant memory or a
+ * custom profile would.
+ */
+export function buildPersonaSystemPrompt(persona: PersonaProfile | null | undefined): string {
+  if (!persona) return ''
+
+  return `
+
+About the user you are talking to:
+${describePersona(persona)}
+Tailor your answer to this person.`
+}
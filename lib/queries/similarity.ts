@@ -0,0 +1,97 @@
+/**
+ * Near-duplicate detection for queries
+ *
+ * A normalized-token heuristic instead of embeddings: no extra AI call per
+ * generation, and it works for every project language. Texts are lowercased
+ * and stripped of diacritics and stopwords, English plurals are singularized,
+ * and two queries are compared by the Jaccard similarity of their token sets.
+ * Rephrasings like "best CRM for a small business?" and "What's the best CRM
+ * for small businesses" score 1, related but different questions stay below
+ * NEAR_DUPLICATE_THRESHOLD.
+ */
+
+// Jaccard similarity at which a query counts as a near-duplicate
+export const NEAR_DUPLICATE_THRESHOLD = 0.6
+
+// Function words that carry no topic (English and the most common ones of other supported languages)
+const STOPWORDS = new Set([
+  // English
+  'the', 'and', 'for', 'are', 'you', 'your', 'with', 'what', 'whats', 'which', 'who', 'how', 'can', 'any',
+  'that', 'this', 'there', 'from', 'about', 'some', 'should', 'would', 'could', 'does', 'have', 'has', 'use',
+  'need', 'want', 'looking', 'into', 'than', 'then', 'them', 'they', 'their', 'its', 'our', 'out', 'get',
+  'good', 'know', 'anyone', 'someone', 'really', 'just', 'like', 'recommend', 'suggestions', 'please',
+  // Czech / Slovak
+  'jak', 'jaky', 'jaka', 'jake', 'ktery', 'ktera', 'ktere', 'pro', 'nebo', 'pri', 'pokud', 'mam', 'mate',
+  'jsou', 'neni', 'aby', 'ale', 'tak', 'kde', 'pre', 'ako', 'aky', 'ktory',
+  // German
+  'der', 'die', 'das', 'und', 'fur', 'ist', 'ein', 'eine', 'mit', 'was', 'wie', 'welche', 'ich', 'gibt',
+  // Spanish / Portuguese / Italian / French
+  'los', 'las', 'para', 'con', 'que', 'por', 'una', 'como', 'cual', 'uma', 'com', 'per', 'gli', 'che',
+  'les', 'des', 'pour', 'avec', 'une', 'est', 'quel', 'quelle',
+  // Polish / Dutch
+  'jaki', 'jest', 'dla', 'czy', 'het', 'een', 'voor', 'met', 'wat', 'welke',
+])
+
+/**
+ * Topic tokens of a query text
+ */
+export function tokenizeQuery(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word))
+
+  return Array.from(new Set(words.map(stem)))
+}
+
+// English plurals only: "tools" → "tool", "businesses" → "business", "companies" → "company"
+function stem(word: string): string {
+  if (word.length <= 4) return word
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(ss|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2)
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Jaccard similarity of two queries' token sets (0-1)
+ */
+export function querySimilarity(a: string, b: string): number {
+  return tokenSimilarity(tokenizeQuery(a), tokenizeQuery(b))
+}
+
+function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const setB = new Set(b)
+  const shared = a.filter(token => setB.has(token)).length
+  return shared / (a.length + b.length - shared)
+}
+
+export interface NearDuplicateMatch {
+  similarTo: string     // Text of the closest existing query
+  similarity: number    // 0-1, two decimals
+}
+
+/**
+ * Closest query in `existing` at or above the threshold, null when there is none
+ */
+export function findNearDuplicate(
+  text: string,
+  existing: string[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): NearDuplicateMatch | null {
+  const tokens = tokenizeQuery(text)
+  let best: NearDuplicateMatch | null = null
+
+  for (const candidate of existing) {
+    const similarity = tokenSimilarity(tokens, tokenizeQuery(candidate))
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { similarTo: candidate, similarity: Math.round(similarity * 100) / 100 }
+    }
+  }
+
+  return best
+}
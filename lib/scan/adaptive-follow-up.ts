@@ -0,0 +1,79 @@
+/**
+ * Next follow-up question of a scan chain
+ *
+ * Template mode uses the project's custom chain or the built-in templates.
+ * Adaptive mode lets a helper model read the conversation and ask what a
+ * person would ask next (e.g. drilling into the options just listed). The
+ * generated question is checked like custom templates: when it names the
+ * brand or the helper fails, the template question is used instead, so the
+ * chain always stays organic.
+ */
+
+import { callFollowUpGeneration, getModelInfo, type AICallResult, type AICacheOptions } from '@/lib/ai'
+import type { FollowUpTemplateOverrides } from '@/lib/db/schema'
+import {
+  cleanGeneratedFollowUp,
+  findBrandInQuestion,
+  getFollowUpQuestion,
+  type FollowUpMode,
+  type QueryType,
+} from '@/lib/scan/follow-up-templates'
+
+export interface NextFollowUpOptions {
+  mode: FollowUpMode
+  helperModel: string
+  queryType: QueryType
+  level: 1 | 2 | 3
+  language: string
+  templates?: FollowUpTemplateOverrides | null
+  brandVariations: string[]
+  domain: string
+  conversationHistory: Array<{ role: 'user' | 'assistant', content: string }>
+  cache?: boolean | AICacheOptions
+}
+
+export interface NextFollowUp {
+  question: string
+  adaptive: boolean               // false = template question (mode, or fallback)
+  generation: AICallResult | null // Helper call, also when its question was rejected (tokens were spent)
+}
+
+/**
+ * Helper model for adaptive follow-ups: the project's query generation model when usable
+ */
+export function getFollowUpHelperModel(queryGenerationModel: string | null | undefined, evaluationModel: string): string {
+  return queryGenerationModel && getModelInfo(queryGenerationModel)?.isActive ? queryGenerationModel : evaluationModel
+}
+
+export async function getNextFollowUp(options: NextFollowUpOptions): Promise<NextFollowUp> {
+  const templateQuestion = getFollowUpQuestion(options.queryType, options.level, options.language, options.templates)
+  if (options.mode !== 'adaptive' || !getModelInfo(options.helperModel)?.isActive) {
+    return { question: templateQuestion, adaptive: false, generation: null }
+  }
+
+  let generation: AICallResult
+  try {
+    generation = await callFollowUpGeneration(
+      options.helperModel,
+      options.conversationHistory,
+      [...options.brandVariations, options.domain],
+      options.language,
+      { cache: options.cache }
+    )
+  } catch (error: any) {
+    console.warn(`[Follow-up] Generation with ${options.helperModel} failed (${error.code || error.message}), using template`)
+    return { question: templateQuestion, adaptive: false, generation: null }
+  }
+
+  const question = cleanGeneratedFollowUp(generation.content)
+  const mention = question
+    ? findBrandInQuestion(question, options.brandVariations, options.domain, options.language)
+    : null
+
+  if (!question || mention) {
+    console.log(`[Follow-up] Generated question ${mention ? `mentions the brand ("${mention}")` : 'is empty'}, using template`)
+    return { question: templateQuestion, adaptive: false, generation }
+  }
+
+  return { question, adaptive: true, generation }
+}
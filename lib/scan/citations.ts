@@ -0,0 +1,187 @@
+/**
+ * Citation and source extraction
+ *
+ * Parses AI responses for cited sources (markdown links, raw URLs and bare
+ * domains) and aggregates them per project, so reports show which domains
+ * models actually quote - our own site or third-party review sites.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES, type Citation } from '@/lib/db/schema'
+import { normalizeDomain } from '@/lib/scan/mentions'
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/** Markdown link: [title](https://url) */
+const MARKDOWN_LINK_PATTERN = /\[([^\]\n]*)\]\((https?:\/\/[^\s)]+)\)/g
+
+/** Raw URL: https://example.com/path */
+const URL_PATTERN = /https?:\/\/[^\s<>"'`)\]]+/g
+
+/** Bare domain: example.com, shop.example.co.uk (not part of an email or URL) */
+const BARE_DOMAIN_PATTERN = /(?<![\w@./-])((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,24})(?![\w@-]|\.\w)/gi
+
+/**
+ * Common file extensions and abbreviations that look like domains but are not
+ * ("index.html", "e.g", "node.js")
+ */
+const NON_DOMAIN_TLDS = new Set([
+  'html', 'htm', 'php', 'asp', 'aspx', 'js', 'ts', 'json', 'xml', 'css', 'md', 'txt',
+  'pdf', 'png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'csv', 'xls', 'xlsx', 'doc', 'docx',
+  'zip', 'exe', 'py', 'rb', 'sh', 'yml', 'yaml',
+])
+
+/** Trailing punctuation that belongs to the sentence, not the URL */
+function trimUrl(url: string): string {
+  return url.replace(/[.,;:!?*_]+$/, '')
+}
+
+function isLikelyDomain(domain: string): boolean {
+  const tld = domain.split('.').pop() || ''
+  return !NON_DOMAIN_TLDS.has(tld.toLowerCase()) && !/^\d+$/.test(tld)
+}
+
+/**
+ * Extract cited sources from an AI response
+ * Each URL is returned once; bare domains are skipped when the same domain
+ * was already cited via a URL.
+ */
+export function extractCitations(content: string): Citation[] {
+  const citations: Citation[] = []
+  const seenUrls = new Set<string>()
+  const seenDomains = new Set<string>()
+  const consumed: Array<{ start: number; end: number }> = []
+
+  const addUrl = (url: string, title: string | null, type: Citation['type']) => {
+    const domain = normalizeDomain(url)
+    if (!domain || seenUrls.has(url)) return
+    seenUrls.add(url)
+    seenDomains.add(domain)
+    citations.push({ url, domain, title, type })
+  }
+
+  for (const match of content.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const start = match.index ?? 0
+    consumed.push({ start, end: start + match[0].length })
+    addUrl(trimUrl(match[2]), match[1].trim() || null, 'markdown_link')
+  }
+
+  for (const match of content.matchAll(URL_PATTERN)) {
+    const start = match.index ?? 0
+    if (consumed.some(r => start >= r.start && start < r.end)) continue
+    consumed.push({ start, end: start + match[0].length })
+    addUrl(trimUrl(match[0]), null, 'url')
+  }
+
+  for (const match of content.matchAll(BARE_DOMAIN_PATTERN)) {
+    const start = match.index ?? 0
+    if (consumed.some(r => start >= r.start && start < r.end)) continue
+
+    const domain = normalizeDomain(match[1])
+    if (!isLikelyDomain(domain) || seenDomains.has(domain)) continue
+    seenDomains.add(domain)
+    citations.push({ url: null, domain, title: null, type: 'domain' })
+  }
+
+  return citations
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+export interface CitedDomain {
+  domain: string
+  citations: number       // Total citations (URLs + bare mentions)
+  results: number         // Number of results citing this domain
+  citation_rate: number   // % of results citing this domain (0-100)
+  is_own_domain: boolean  // Project's own domain (incl. subdomains)
+}
+
+/**
+ * Check whether a cited domain belongs to the project domain (incl. subdomains)
+ */
+export function isOwnDomain(citedDomain: string, projectDomain: string | null | undefined): boolean {
+  if (!projectDomain) return false
+  const own = normalizeDomain(projectDomain)
+  return citedDomain === own || citedDomain.endsWith(`.${own}`)
+}
+
+/**
+ * Aggregate citations across results into a "top cited domains" list
+ * Sorted by number of citing results, then total citations.
+ */
+export function aggregateCitedDomains(
+  results: Array<{ citations: Citation[] | null }>,
+  projectDomain: string | null | undefined,
+  limit = 10
+): CitedDomain[] {
+  const stats = new Map<string, { citations: number; results: number }>()
+
+  for (const result of results) {
+    const domainsInResult = new Set<string>()
+    for (const citation of result.citations || []) {
+      const entry = stats.get(citation.domain) || { citations: 0, results: 0 }
+      entry.citations++
+      if (!domainsInResult.has(citation.domain)) {
+        entry.results++
+        domainsInResult.add(citation.domain)
+      }
+      stats.set(citation.domain, entry)
+    }
+  }
+
+  const total = results.length
+
+  return Array.from(stats.entries())
+    .map(([domain, s]) => ({
+      domain,
+      citations: s.citations,
+      results: s.results,
+      citation_rate: total > 0 ? Math.round(s.results / total * 100) : 0,
+      is_own_domain: isOwnDomain(domain, projectDomain),
+    }))
+    .sort((a, b) => b.results - a.results || b.citations - a.citations || a.domain.localeCompare(b.domain))
+    .slice(0, limit)
+}
+
+// ============================================
+// BACKFILL
+// ============================================
+
+/**
+ * Extract citations for results stored before citation tracking
+ * Reads results without citations in batches and saves what their stored
+ * response cites (an empty list when nothing), so every pass shrinks the set.
+ * Returns the number of updated results.
+ */
+export async function backfillCitations(
+  supabase: Pick<SupabaseClient, 'from'>,
+  batchSize = 500
+): Promise<number> {
+  let updated = 0
+
+  for (;;) {
+    const { data: results, error } = await supabase
+      .from(TABLES.SCAN_RESULTS)
+      .select('id, ai_response_raw')
+      .is('citations', null)
+      .order('id')
+      .limit(batchSize)
+
+    if (error) throw new Error(`Failed to read scan results: ${error.message}`)
+    if (!results || results.length === 0) return updated
+
+    for (const result of results) {
+      const { error: updateError } = await supabase
+        .from(TABLES.SCAN_RESULTS)
+        .update({ citations: extractCitations(result.ai_response_raw || '') })
+        .eq('id', result.id)
+
+      if (updateError) throw new Error(`Failed to save citations of result ${result.id}: ${updateError.message}`)
+      updated++
+    }
+  }
+}
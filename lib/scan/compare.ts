@@ -0,0 +1,267 @@
+/**
+ * Scan-to-scan comparison
+ *
+ * Compares initial responses (follow_up_level = 0) of two scans per
+ * query×model pair, per model and per query, and flags which changes are
+ * beyond noise:
+ * - Aggregates (per model, per query, overall) use a paired t-test over the
+ *   pairs present in both scans
+ * - Single pairs use Welch's t-test when both scans have repeated samples,
+ *   otherwise a fixed threshold (one answer is not enough for statistics)
+ */
+
+import type { ScanMetrics } from '@/lib/db/schema'
+import { getTCritical95 } from '@/lib/scan/sampling'
+
+// ============================================
+// TYPES
+// ============================================
+
+export const COMPARED_METRICS = [
+  'visibility_score',
+  'sentiment_score',
+  'ranking_score',
+  'recommendation_score',
+] as const
+
+export type ComparedMetric = typeof COMPARED_METRICS[number]
+
+/**
+ * Minimum change (points on the 0-100 scale) treated as real when a pair
+ * has only one sample per scan
+ */
+export const SINGLE_SAMPLE_THRESHOLD = 25
+
+export interface ResultForComparison {
+  query_text: string
+  model: string
+  follow_up_level: number | null
+  metrics_json: ScanMetrics | null
+}
+
+export interface MetricDelta {
+  before: number | null
+  after: number | null
+  delta: number | null      // after - before, null if either side is missing
+  significant: boolean      // Change is beyond noise
+}
+
+export type MetricDeltas = Record<ComparedMetric, MetricDelta>
+
+export interface PairComparison {
+  query_text: string
+  model: string
+  metrics: MetricDeltas
+}
+
+export interface GroupComparison {
+  key: string               // Model ID or query text
+  pairs: number             // Pairs present in both scans
+  metrics: MetricDeltas
+}
+
+export interface BrandChange {
+  query_text: string
+  model: string
+  change: 'appeared' | 'disappeared'
+}
+
+export interface ScanComparison {
+  overall: GroupComparison
+  byModel: GroupComparison[]
+  byQuery: GroupComparison[]
+  pairs: PairComparison[]
+  brandChanges: BrandChange[]
+  onlyInBase: number        // Pairs missing in the target scan
+  onlyInTarget: number      // Pairs missing in the base scan
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length
+const variance = (values: number[]) => {
+  const m = mean(values)
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
+}
+
+/**
+ * Paired t-test: is the mean of differences significantly different from 0?
+ */
+export function isPairedChangeSignificant(differences: number[]): boolean {
+  const n = differences.length
+  if (n < 2) return false
+
+  const meanDiff = mean(differences)
+  if (meanDiff === 0) return false
+
+  const standardError = Math.sqrt(variance(differences) / n)
+  // All differences identical and non-zero - consistent shift
+  if (standardError === 0) return true
+
+  return Math.abs(meanDiff) / standardError > getTCritical95(n - 1)
+}
+
+/**
+ * Welch's t-test for two independent sample sets
+ * Falls back to SINGLE_SAMPLE_THRESHOLD when either side has one sample.
+ */
+export function isSampleChangeSignificant(before: number[], after: number[]): boolean {
+  if (before.length === 0 || after.length === 0) return false
+
+  const delta = mean(after) - mean(before)
+  if (before.length < 2 || after.length < 2) {
+    return Math.abs(delta) >= SINGLE_SAMPLE_THRESHOLD
+  }
+  if (delta === 0) return false
+
+  const seBefore = variance(before) / before.length
+  const seAfter = variance(after) / after.length
+  const standardError = Math.sqrt(seBefore + seAfter)
+  if (standardError === 0) return true
+
+  // Welch–Satterthwaite degrees of freedom
+  const df = (seBefore + seAfter) ** 2 /
+    ((seBefore ** 2) / (before.length - 1) + (seAfter ** 2) / (after.length - 1))
+
+  return Math.abs(delta) / standardError > getTCritical95(df)
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+type SampleValues = Record<ComparedMetric, number[]>
+
+function getMetricValue(metrics: ScanMetrics, metric: ComparedMetric): number | null {
+  // Sentiment and ranking only make sense when the brand was mentioned
+  if (metric === 'sentiment_score') {
+    return metrics.visibility_score > 0 ? metrics.sentiment_score : null
+  }
+  if (metric === 'ranking_score') {
+    return metrics.visibility_score > 0 && metrics.ranking_score > 0 ? metrics.ranking_score : null
+  }
+  return metrics[metric] ?? 0
+}
+
+/**
+ * Collect sample values per query×model pair (initial responses only)
+ */
+function groupSamples(results: ResultForComparison[]): Map<string, { query_text: string; model: string; values: SampleValues }> {
+  const groups = new Map<string, { query_text: string; model: string; values: SampleValues }>()
+
+  for (const result of results) {
+    if ((result.follow_up_level || 0) !== 0 || !result.metrics_json) continue
+
+    const key = `${result.query_text}|||${result.model}`
+    const group = groups.get(key) || {
+      query_text: result.query_text,
+      model: result.model,
+      values: { visibility_score: [], sentiment_score: [], ranking_score: [], recommendation_score: [] },
+    }
+    for (const metric of COMPARED_METRICS) {
+      const value = getMetricValue(result.metrics_json, metric)
+      if (value !== null && value !== undefined) group.values[metric].push(value)
+    }
+    groups.set(key, group)
+  }
+
+  return groups
+}
+
+function compareSamples(before: SampleValues, after: SampleValues): MetricDeltas {
+  return Object.fromEntries(COMPARED_METRICS.map(metric => {
+    const b = before[metric]
+    const a = after[metric]
+    const beforeMean = b.length > 0 ? round1(mean(b)) : null
+    const afterMean = a.length > 0 ? round1(mean(a)) : null
+    return [metric, {
+      before: beforeMean,
+      after: afterMean,
+      delta: beforeMean !== null && afterMean !== null ? round1(afterMean - beforeMean) : null,
+      significant: isSampleChangeSignificant(b, a),
+    }]
+  })) as MetricDeltas
+}
+
+function compareGroup(key: string, pairs: PairComparison[]): GroupComparison {
+  const metrics = Object.fromEntries(COMPARED_METRICS.map(metric => {
+    const paired = pairs
+      .map(p => p.metrics[metric])
+      .filter((m): m is MetricDelta & { before: number; after: number } => m.before !== null && m.after !== null)
+
+    if (paired.length === 0) {
+      return [metric, { before: null, after: null, delta: null, significant: false }]
+    }
+
+    const before = round1(mean(paired.map(m => m.before)))
+    const after = round1(mean(paired.map(m => m.after)))
+    // A single pair falls back to its own (sample-based) significance
+    const significant = paired.length === 1
+      ? paired[0].significant
+      : isPairedChangeSignificant(paired.map(m => m.after - m.before))
+
+    return [metric, { before, after, delta: round1(after - before), significant }]
+  })) as MetricDeltas
+
+  return { key, pairs: pairs.length, metrics }
+}
+
+function groupBy(pairs: PairComparison[], keyOf: (p: PairComparison) => string): GroupComparison[] {
+  const groups = new Map<string, PairComparison[]>()
+  for (const pair of pairs) {
+    const key = keyOf(pair)
+    groups.set(key, [...(groups.get(key) || []), pair])
+  }
+  return Array.from(groups.entries()).map(([key, group]) => compareGroup(key, group))
+}
+
+/**
+ * Compare two scans (base = earlier, target = later)
+ */
+export function compareScans(
+  baseResults: ResultForComparison[],
+  targetResults: ResultForComparison[]
+): ScanComparison {
+  const base = groupSamples(baseResults)
+  const target = groupSamples(targetResults)
+
+  const pairs: PairComparison[] = []
+  const brandChanges: BrandChange[] = []
+
+  for (const [key, before] of base.entries()) {
+    const after = target.get(key)
+    if (!after) continue
+
+    pairs.push({
+      query_text: before.query_text,
+      model: before.model,
+      metrics: compareSamples(before.values, after.values),
+    })
+
+    // Appeared/disappeared: brand never mentioned in one scan, mentioned in the other
+    const mentionedBefore = before.values.visibility_score.some(v => v > 0)
+    const mentionedAfter = after.values.visibility_score.some(v => v > 0)
+    if (mentionedBefore !== mentionedAfter) {
+      brandChanges.push({
+        query_text: before.query_text,
+        model: before.model,
+        change: mentionedAfter ? 'appeared' : 'disappeared',
+      })
+    }
+  }
+
+  const sharedKeys = new Set(pairs.map(p => `${p.query_text}|||${p.model}`))
+
+  return {
+    overall: compareGroup('overall', pairs),
+    byModel: groupBy(pairs, p => p.model),
+    byQuery: groupBy(pairs, p => p.query_text),
+    pairs,
+    brandChanges,
+    onlyInBase: base.size - sharedKeys.size,
+    onlyInTarget: Array.from(target.keys()).filter(k => !sharedKeys.has(k)).length,
+  }
+}
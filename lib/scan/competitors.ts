@@ -0,0 +1,183 @@
+/**
+ * Competitor tracking and share-of-voice calculation
+ *
+ * Detects which competitors an AI response mentions (and at which list
+ * position), and aggregates those mentions into share-of-voice metrics
+ * so reports can compare how often models name us vs. the competition.
+ */
+
+import type { Competitor, CompetitorMention, CompetitorShareOfVoice } from '@/lib/db/schema'
+import {
+  extractMentions,
+  findNameSpans,
+  getListItemRanges,
+  getListPositionForSpans,
+} from '@/lib/scan/mentions'
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/** Maximum number of competitors tracked per project */
+export const MAX_COMPETITORS = 10
+
+/**
+ * Normalize competitor input from API requests
+ * Drops entries without a name, trims values and strips protocol from domains
+ */
+export function normalizeCompetitors(input: unknown): Competitor[] {
+  if (!Array.isArray(input)) return []
+
+  const competitors: Competitor[] = []
+  const seen = new Set<string>()
+
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue
+    const entry = raw as Record<string, unknown>
+
+    const name = typeof entry.name === 'string' ? entry.name.trim() : ''
+    if (!name || seen.has(name.toLowerCase())) continue
+    seen.add(name.toLowerCase())
+
+    const variations = Array.isArray(entry.variations)
+      ? [...new Set(entry.variations
+          .filter((v): v is string => typeof v === 'string')
+          .map(v => v.trim())
+          .filter(v => v.length > 0 && v.toLowerCase() !== name.toLowerCase()))]
+      : []
+
+    const domain = typeof entry.domain === 'string' && entry.domain.trim()
+      ? entry.domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+      : null
+
+    competitors.push({ name, variations, domain })
+    if (competitors.length >= MAX_COMPETITORS) break
+  }
+
+  return competitors
+}
+
+// ============================================
+// MENTION DETECTION
+// ============================================
+
+/**
+ * Split response into top-level list items (numbered or bulleted)
+ * Continuation lines are appended to the preceding item.
+ */
+export function extractListItems(content: string): string[] {
+  return getListItemRanges(content).map(range => content.slice(range.start, range.end))
+}
+
+/**
+ * Get 1-based position of the first list item mentioning any of the terms
+ * Returns null when the terms do not appear in a list
+ */
+export function getListPosition(content: string, terms: string[], language?: string): number | null {
+  return getListPositionForSpans(getListItemRanges(content), findNameSpans(content, terms, language))
+}
+
+/**
+ * Detect which competitors are mentioned in an AI response
+ * Uses the same deterministic extractor as brand detection (word boundaries,
+ * diacritics, inflections, domain normalization).
+ */
+export function detectCompetitorMentions(
+  content: string,
+  competitors: Competitor[],
+  language?: string
+): CompetitorMention[] {
+  if (competitors.length === 0) return []
+
+  const { competitors: mentions } = extractMentions(content, { brandVariations: [], competitors, language })
+
+  return mentions.map(mention => ({
+    name: mention.name,
+    mentioned: mention.mentioned,
+    domain_mentioned: mention.domain_mentioned,
+    position: mention.position,
+  }))
+}
+
+// ============================================
+// SHARE OF VOICE
+// ============================================
+
+/**
+ * Result fields needed for share-of-voice calculation
+ */
+export interface ResultForShareOfVoice {
+  model?: string
+  visibility_score: number
+  competitor_mentions: CompetitorMention[] | null
+}
+
+export interface ShareOfVoiceResult {
+  share_of_voice: number | null        // Our share of all entity mentions (0-100), null if nobody mentioned
+  brand_mention_rate: number           // % of results mentioning our brand or domain
+  competitors: CompetitorShareOfVoice[]
+}
+
+/**
+ * Calculate share of voice across a set of results
+ *
+ * Each result counts once per entity (our brand, each competitor).
+ * Share of voice = our mentions / (our mentions + all competitor mentions).
+ */
+export function calculateShareOfVoice(
+  results: ResultForShareOfVoice[],
+  competitors: Competitor[]
+): ShareOfVoiceResult {
+  const total = results.length
+  const brandMentions = results.filter(r => r.visibility_score > 0).length
+
+  const competitorStats = competitors.map(competitor => {
+    let mentions = 0
+    const positions: number[] = []
+    for (const result of results) {
+      const mention = result.competitor_mentions?.find(m => m.name === competitor.name)
+      if (mention && (mention.mentioned || mention.domain_mentioned)) {
+        mentions++
+        if (mention.position !== null) positions.push(mention.position)
+      }
+    }
+    return { name: competitor.name, mentions, positions }
+  })
+
+  const allMentions = brandMentions + competitorStats.reduce((sum, c) => sum + c.mentions, 0)
+  const share = (count: number) => allMentions > 0 ? Math.round(count / allMentions * 1000) / 10 : 0
+
+  return {
+    share_of_voice: allMentions > 0 ? share(brandMentions) : null,
+    brand_mention_rate: total > 0 ? Math.round(brandMentions / total * 100) : 0,
+    competitors: competitorStats.map(c => ({
+      name: c.name,
+      mention_rate: total > 0 ? Math.round(c.mentions / total * 100) : 0,
+      share_of_voice: share(c.mentions),
+      avg_position: c.positions.length > 0
+        ? Math.round(c.positions.reduce((a, b) => a + b, 0) / c.positions.length * 10) / 10
+        : null,
+    })),
+  }
+}
+
+/**
+ * Calculate share of voice separately for each model
+ * Used for per-model reporting ("ChatGPT names Competitor X in 70% of answers")
+ */
+export function calculateShareOfVoiceByModel(
+  results: ResultForShareOfVoice[],
+  competitors: Competitor[]
+): Record<string, ShareOfVoiceResult> {
+  const byModel = new Map<string, ResultForShareOfVoice[]>()
+  for (const result of results) {
+    const key = result.model || 'unknown'
+    const group = byModel.get(key) || []
+    group.push(result)
+    byModel.set(key, group)
+  }
+
+  return Object.fromEntries(
+    Array.from(byModel.entries()).map(([model, group]) => [model, calculateShareOfVoice(group, competitors)])
+  )
+}
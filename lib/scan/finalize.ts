@@ -0,0 +1,373 @@
+/**
+ * Scan finalization
+ *
+ * Turns the stored scan_results of a scan into its aggregate metrics
+ * (resilience score, legacy averages, share of voice, sampling stats),
+ * records monthly usage per model and settles the credit reservation.
+ * Shared by the /complete route and the server-side queue runner.
+ *
+ * After a retry of missing pairs the scan is finalized a second time: the
+ * aggregates are recomputed from all results, but only the new results are
+ * charged and added to monthly usage.
+ *
+ * Resilience scores use the project's scoring profile; the scan keeps the
+ * profile version, its coefficients and the formula version, so it can be
+ * re-scored from the stored metrics later (lib/scan/rescore.ts).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES, type ScanMetrics, type Competitor, type CompetitorMention, type ScanSamplingStats } from '@/lib/db/schema'
+import { consumeReservation } from '@/lib/credits'
+import {
+  calculateAggregatedResilienceScore,
+  type ResilienceScoreResult,
+  type ResultForResilience,
+} from '@/lib/scan/follow-up-templates'
+import {
+  DEFAULT_SCORING_PROFILE_VERSION,
+  SCORING_FORMULA_VERSION,
+  resolveScoringProfile,
+  type ScoringProfile,
+} from '@/lib/scan/scoring-profile'
+import { calculateShareOfVoice, type ResultForShareOfVoice } from '@/lib/scan/competitors'
+import { calculateSamplingStats, type ResultForSampling } from '@/lib/scan/sampling'
+
+export interface FinalizeScanOptions {
+  scanId: string
+  projectId: string
+  userId: string
+  reservationId?: string | null
+  previous?: { chargedCents: number; resultIds: string[] }  // Already charged when the scan first completed (retry)
+}
+
+export interface FinalizeScanResult {
+  overallScore: number
+  initialScore: number
+  conversationalBonus: number
+  brandPersistence: number
+  followUpActive: boolean
+  avgVisibility: number
+  avgSentiment: number | null
+  avgRanking: number | null
+  shareOfVoice: number | null
+  samplingStats: ScanSamplingStats | null
+  credits: { success: boolean; refunded?: number; error?: string } | null
+}
+
+/**
+ * Calculate final metrics and mark the scan as completed
+ * Throws when the scan row cannot be updated.
+ */
+export async function finalizeScan(
+  supabase: Pick<SupabaseClient, 'from'>,
+  { scanId, projectId, userId, reservationId, previous }: FinalizeScanOptions
+): Promise<FinalizeScanResult> {
+  // Get project settings for follow-up configuration
+  const { data: project } = await supabase
+    .from(TABLES.PROJECTS)
+    .select('follow_up_enabled, competitors, scoring_profile, scoring_profile_version')
+    .eq('id', projectId)
+    .single()
+
+  const followUpEnabled = project?.follow_up_enabled ?? false
+  const competitors: Competitor[] = project?.competitors || []
+  const scoringProfile = resolveScoringProfile(project?.scoring_profile)
+
+  // Get all results for this scan to calculate metrics
+  const { data: results } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('query_text, model, follow_up_level, sample_index, metrics_json, competitor_mentions')
+    .eq('scan_id', scanId)
+    .order('query_text')
+    .order('model')
+    .order('follow_up_level')
+
+  const { resilienceScore, avgVisibility, avgSentiment, avgRanking } =
+    calculateScoreAggregates(results || [], followUpEnabled, scoringProfile)
+
+  const shareOfVoiceResults: ResultForShareOfVoice[] = []
+  const samplingResults: ResultForSampling[] = []
+
+  for (const result of results || []) {
+    if (!result.metrics_json) continue
+    const metrics = result.metrics_json as ScanMetrics
+
+    shareOfVoiceResults.push({
+      model: result.model,
+      visibility_score: metrics.visibility_score || 0,
+      competitor_mentions: result.competitor_mentions as CompetitorMention[] | null,
+    })
+
+    samplingResults.push({
+      follow_up_level: result.follow_up_level || 0,
+      sample_index: result.sample_index ?? 0,
+      visibility_score: metrics.visibility_score || 0,
+      recommendation_score: metrics.recommendation_score || 0,
+    })
+  }
+
+  // Calculate share of voice (only meaningful when competitors are tracked)
+  const shareOfVoice = competitors.length > 0
+    ? calculateShareOfVoice(shareOfVoiceResults, competitors)
+    : null
+
+  // Calculate run-to-run variance (only when pairs were sampled more than once)
+  const samplingStats = calculateSamplingStats(samplingResults)
+
+  // Update scan status and metrics
+  const { error: updateError } = await supabase
+    .from(TABLES.SCANS)
+    .update({
+      status: 'completed',
+      overall_score: resilienceScore.final_score,
+      initial_score: resilienceScore.initial_score,
+      conversational_bonus: resilienceScore.conversational_bonus,
+      brand_persistence: resilienceScore.brand_persistence,
+      follow_up_active: resilienceScore.follow_up_active,
+      avg_visibility: avgVisibility,
+      avg_sentiment: avgSentiment,
+      avg_ranking: avgRanking,
+      share_of_voice: shareOfVoice?.share_of_voice ?? null,
+      competitor_share_of_voice: shareOfVoice?.competitors ?? null,
+      sampling_stats: samplingStats,
+      scoring_profile_version: project?.scoring_profile_version ?? DEFAULT_SCORING_PROFILE_VERSION,
+      scoring_profile: scoringProfile,
+      scoring_formula_version: SCORING_FORMULA_VERSION,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', scanId)
+
+  if (updateError) {
+    throw new Error(`Failed to complete scan: ${updateError.message}`)
+  }
+
+  await recordMonthlyUsage(supabase, scanId, userId, previous?.resultIds)
+
+  // Process credit reservation if provided
+  let creditResult: FinalizeScanResult['credits'] = null
+  if (reservationId) {
+    // Get total cost from scan results (stored cost already includes our pricing)
+    const { data: costData } = await supabase
+      .from(TABLES.SCAN_RESULTS)
+      .select('cost_usd')
+      .eq('scan_id', scanId)
+
+    const totalCostUsd = (costData || []).reduce((sum: number, r: { cost_usd: number | null }) => sum + (r.cost_usd || 0), 0)
+    const totalCostCents = Math.max(0, Math.ceil(totalCostUsd * 100) - (previous?.chargedCents || 0))
+
+    // Consume the reservation with actual cost
+    creditResult = await consumeReservation(reservationId, totalCostCents, scanId)
+
+    if (creditResult.success) {
+      console.log(`[Complete Scan] Consumed reservation ${reservationId}: charged ${totalCostCents} cents, refunded ${creditResult.refunded} cents`)
+    } else {
+      console.error(`[Complete Scan] Failed to consume reservation: ${creditResult.error}`)
+    }
+  }
+
+  const bonusStr = resilienceScore.conversational_bonus !== 0
+    ? ` (base: ${resilienceScore.initial_score}%, bonus: ${resilienceScore.conversational_bonus > 0 ? '+' : ''}${resilienceScore.conversational_bonus}%)`
+    : ''
+  console.log(`[Complete Scan] Scan ${scanId} marked as completed with score ${resilienceScore.final_score}%${bonusStr}`)
+
+  return {
+    overallScore: resilienceScore.final_score,
+    initialScore: resilienceScore.initial_score,
+    conversationalBonus: resilienceScore.conversational_bonus,
+    brandPersistence: resilienceScore.brand_persistence,
+    followUpActive: resilienceScore.follow_up_active,
+    avgVisibility,
+    avgSentiment,
+    avgRanking,
+    shareOfVoice: shareOfVoice?.share_of_voice ?? null,
+    samplingStats,
+    credits: creditResult,
+  }
+}
+
+export interface ResultForAggregates {
+  query_text: string
+  model: string
+  follow_up_level: number | null
+  sample_index: number | null
+  metrics_json: ScanMetrics | null
+}
+
+export interface ScanScoreAggregates {
+  resilienceScore: ResilienceScoreResult
+  avgVisibility: number
+  avgSentiment: number | null
+  avgRanking: number | null
+}
+
+/**
+ * Score aggregates of a scan from its stored metrics (SCORING_FORMULA_VERSION)
+ * Pure: used when a scan completes and when it is re-scored.
+ */
+export function calculateScoreAggregates(
+  results: ResultForAggregates[],
+  followUpEnabled: boolean,
+  profile: ScoringProfile
+): ScanScoreAggregates {
+  // Calculate aggregated metrics (for backwards compatibility)
+  let totalVisibility = 0
+  let totalSentiment = 0
+  let sentimentCount = 0  // Only count when visibility > 0
+  let totalRanking = 0
+  let rankingCount = 0    // Only count when ranking > 0 (brand in list)
+  let validResults = 0
+
+  // Group results by query+model for resilience calculation
+  const chainMap = new Map<string, ResultForResilience[]>()
+
+  for (const result of results) {
+    if (!result.metrics_json) continue
+
+    const metrics = result.metrics_json
+    totalVisibility += metrics.visibility_score || 0
+    validResults++
+
+    // Only include sentiment when visibility > 0
+    if ((metrics.visibility_score || 0) > 0 && metrics.sentiment_score !== null && metrics.sentiment_score !== undefined) {
+      totalSentiment += metrics.sentiment_score
+      sentimentCount++
+    }
+
+    // Only include ranking when brand is actually in a list (ranking > 0)
+    if ((metrics.visibility_score || 0) > 0 && (metrics.ranking_score || 0) > 0) {
+      totalRanking += metrics.ranking_score
+      rankingCount++
+    }
+
+    // Build chain for resilience scoring (each sample is its own conversation)
+    const chainKey = `${result.query_text}|||${result.model}|||${result.sample_index ?? 0}`
+    const chainResults = chainMap.get(chainKey) || []
+    chainResults.push({
+      follow_up_level: result.follow_up_level || 0,
+      recommendation_score: metrics.recommendation_score || 0,
+      visibility_score: metrics.visibility_score || 0,
+      sentiment_score: metrics.sentiment_score,
+      brand_mentioned: (metrics.visibility_score || 0) > 0,
+    })
+    chainMap.set(chainKey, chainResults)
+  }
+
+  return {
+    resilienceScore: calculateAggregatedResilienceScore(Array.from(chainMap.values()), followUpEnabled, profile),
+    // Calculate final averages (legacy metrics)
+    avgVisibility: validResults > 0 ? Math.round(totalVisibility / validResults) : 0,
+    avgSentiment: sentimentCount > 0 ? Math.round(totalSentiment / sentimentCount) : null,
+    avgRanking: rankingCount > 0 ? Math.round(totalRanking / rankingCount) : null,
+  }
+}
+
+/**
+ * Increment scan_count (and AI call counters) in monthly_usage for every model in the scan
+ * With recordedResultIds (retry) those results are skipped and the scan is not counted again.
+ */
+async function recordMonthlyUsage(
+  supabase: Pick<SupabaseClient, 'from'>,
+  scanId: string,
+  userId: string,
+  recordedResultIds?: string[]
+) {
+  const month = new Date().toISOString().slice(0, 7)
+  const recorded = new Set(recordedResultIds || [])
+  const scanIncrement = recordedResultIds ? 0 : 1
+
+  // Get distinct provider/model combinations from results with token/cost data
+  const { data: allResults } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('id, provider, model, input_tokens, output_tokens, cost_usd, ai_calls, cache_hits')
+    .eq('scan_id', scanId)
+
+  if (!allResults) return
+  const distinctModels = allResults.filter((r: { id: string }) => !recorded.has(r.id))
+
+  // Aggregate totals per model
+  const modelAggregates = new Map<string, {
+    provider: string
+    model: string
+    totalInputTokens: number
+    totalOutputTokens: number
+    totalCost: number
+    aiCalls: number
+    cacheHits: number
+  }>()
+
+  for (const m of distinctModels) {
+    const key = `${m.provider}:${m.model}`
+    const existing = modelAggregates.get(key)
+    if (existing) {
+      existing.totalInputTokens += m.input_tokens || 0
+      existing.totalOutputTokens += m.output_tokens || 0
+      existing.totalCost += m.cost_usd || 0
+      existing.aiCalls += m.ai_calls || 0
+      existing.cacheHits += m.cache_hits || 0
+    } else {
+      modelAggregates.set(key, {
+        provider: m.provider,
+        model: m.model,
+        totalInputTokens: m.input_tokens || 0,
+        totalOutputTokens: m.output_tokens || 0,
+        totalCost: m.cost_usd || 0,
+        aiCalls: m.ai_calls || 0,
+        cacheHits: m.cache_hits || 0,
+      })
+    }
+  }
+
+  // Increment scan_count for each unique model
+  for (const { provider, model, totalInputTokens, totalOutputTokens, totalCost, aiCalls, cacheHits } of modelAggregates.values()) {
+    const { data: existing, error: selectError } = await supabase
+      .from(TABLES.MONTHLY_USAGE)
+      .select('id, scan_count, ai_call_count, cache_hit_count')
+      .eq('user_id', userId)
+      .eq('month', month)
+      .eq('provider', provider)
+      .eq('model', model)
+      .eq('usage_type', 'scan')
+      .single()
+
+    if (existing) {
+      // Update existing record
+      const { error: updateUsageError } = await supabase
+        .from(TABLES.MONTHLY_USAGE)
+        .update({
+          scan_count: (existing.scan_count || 0) + scanIncrement,
+          ai_call_count: (existing.ai_call_count || 0) + aiCalls,
+          cache_hit_count: (existing.cache_hit_count || 0) + cacheHits,
+        })
+        .eq('id', existing.id)
+
+      if (updateUsageError) {
+        console.error(`[Complete Scan] Failed to update scan_count for ${provider}/${model}:`, updateUsageError)
+      }
+    } else if (selectError?.code === 'PGRST116') {
+      // Only create a new record when specifically receiving PGRST116 (no rows returned)
+      // This handles the case where results were saved but monthly_usage wasn't created
+      const { error: insertError } = await supabase
+        .from(TABLES.MONTHLY_USAGE)
+        .insert({
+          user_id: userId,
+          month,
+          provider,
+          model,
+          usage_type: 'scan',
+          total_input_tokens: totalInputTokens,
+          total_output_tokens: totalOutputTokens,
+          total_cost_usd: totalCost,
+          scan_count: scanIncrement,
+          ai_call_count: aiCalls,
+          cache_hit_count: cacheHits,
+        })
+
+      if (insertError) {
+        console.error(`[Complete Scan] Failed to create monthly_usage for ${provider}/${model}:`, insertError)
+      }
+    } else if (selectError) {
+      // Unexpected error (not PGRST116)
+      console.error(`[Complete Scan] Failed to check monthly_usage for ${provider}/${model}:`, selectError)
+    }
+  }
+}
@@ -7,15 +7,27 @@
  * 3. Test if the brand "persists" through the conversation
  */
 
+import type { FollowUpTemplateOverrides } from '@/lib/db/schema'
+import { resolveLanguage, type SupportedLanguage } from '@/lib/locales'
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from './scoring-profile'
+import { findDomainSpans, findNameSpans } from './mentions'
+
 export type QueryType = 'informational' | 'transactional' | 'comparison'
 
+export const QUERY_TYPES: QueryType[] = ['informational', 'transactional', 'comparison']
+
+// template = fixed questions (custom or built-in), adaptive = a helper model reacts to the last answer
+export type FollowUpMode = 'template' | 'adaptive'
+export const FOLLOW_UP_MODES: FollowUpMode[] = ['template', 'adaptive']
+
+// Follow-up depth is 1-3, so custom chains hold at most three questions
+export const MAX_FOLLOW_UP_LEVEL = 3
+export const MAX_FOLLOW_UP_QUESTION_LENGTH = 500
+
 export interface FollowUpTemplate {
   level: 1 | 2 | 3
   queryType: QueryType
-  questions: {
-    en: string
-    cs: string
-  }
+  questions: Record<SupportedLanguage, string>
 }
 
 /**
@@ -30,7 +42,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'informational',
     questions: {
       en: 'Can you elaborate more on your top recommendations?',
-      cs: 'Můžeš více rozvést svá hlavní doporučení?'
+      cs: 'Můžeš více rozvést svá hlavní doporučení?',
+      de: 'Kannst du deine wichtigsten Empfehlungen genauer erläutern?',
+      fr: 'Peux-tu détailler davantage tes principales recommandations ?',
+      es: '¿Puedes profundizar más en tus principales recomendaciones?',
+      pl: 'Czy możesz bardziej rozwinąć swoje główne rekomendacje?',
+      sk: 'Môžeš viac rozviesť svoje hlavné odporúčania?',
+      it: 'Puoi approfondire le tue principali raccomandazioni?',
+      pt: 'Você pode detalhar mais suas principais recomendações?',
+      nl: 'Kun je meer vertellen over je belangrijkste aanbevelingen?',
+      ru: 'Можешь подробнее рассказать о своих главных рекомендациях?'
     }
   },
   {
@@ -38,7 +59,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'informational',
     questions: {
       en: 'What specific features or qualities should I look for?',
-      cs: 'Na jaké konkrétní vlastnosti nebo kvality bych se měl zaměřit?'
+      cs: 'Na jaké konkrétní vlastnosti nebo kvality bych se měl zaměřit?',
+      de: 'Auf welche konkreten Eigenschaften oder Qualitäten sollte ich achten?',
+      fr: 'Quelles caractéristiques ou qualités précises dois-je rechercher ?',
+      es: '¿Qué características o cualidades concretas debería buscar?',
+      pl: 'Na jakie konkretne cechy lub właściwości powinienem zwrócić uwagę?',
+      sk: 'Na aké konkrétne vlastnosti alebo kvality by som sa mal zamerať?',
+      it: 'Quali caratteristiche o qualità specifiche dovrei cercare?',
+      pt: 'Quais características ou qualidades específicas devo procurar?',
+      nl: 'Op welke specifieke kenmerken of eigenschappen moet ik letten?',
+      ru: 'На какие конкретные характеристики или качества мне стоит обратить внимание?'
     }
   },
   {
@@ -46,7 +76,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'informational',
     questions: {
       en: 'Are there any other alternatives I should consider?',
-      cs: 'Jsou nějaké další alternativy, které bych měl zvážit?'
+      cs: 'Jsou nějaké další alternativy, které bych měl zvážit?',
+      de: 'Gibt es noch andere Alternativen, die ich in Betracht ziehen sollte?',
+      fr: "Y a-t-il d'autres alternatives que je devrais envisager ?",
+      es: '¿Hay otras alternativas que debería considerar?',
+      pl: 'Czy są jeszcze inne alternatywy, które powinienem rozważyć?',
+      sk: 'Sú nejaké ďalšie alternatívy, ktoré by som mal zvážiť?',
+      it: 'Ci sono altre alternative che dovrei considerare?',
+      pt: 'Existem outras alternativas que eu deveria considerar?',
+      nl: 'Zijn er nog andere alternatieven die ik zou moeten overwegen?',
+      ru: 'Есть ли другие альтернативы, которые мне стоит рассмотреть?'
     }
   },
 
@@ -58,7 +97,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'transactional',
     questions: {
       en: 'Which option would you specifically recommend to buy and why?',
-      cs: 'Kterou možnost bys konkrétně doporučil ke koupi a proč?'
+      cs: 'Kterou možnost bys konkrétně doporučil ke koupi a proč?',
+      de: 'Welche Option würdest du konkret zum Kauf empfehlen und warum?',
+      fr: "Quelle option me recommanderais-tu concrètement d'acheter et pourquoi ?",
+      es: '¿Qué opción me recomendarías comprar concretamente y por qué?',
+      pl: 'Którą opcję konkretnie poleciłbyś do kupienia i dlaczego?',
+      sk: 'Ktorú možnosť by si konkrétne odporučil kúpiť a prečo?',
+      it: 'Quale opzione mi consiglieresti concretamente di acquistare e perché?',
+      pt: 'Qual opção você recomendaria especificamente comprar e por quê?',
+      nl: 'Welke optie zou je specifiek aanraden om te kopen en waarom?',
+      ru: 'Какой вариант ты бы конкретно порекомендовал купить и почему?'
     }
   },
   {
@@ -66,7 +114,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'transactional',
     questions: {
       en: 'What should I consider before making a purchase?',
-      cs: 'Co bych měl zvážit před nákupem?'
+      cs: 'Co bych měl zvážit před nákupem?',
+      de: 'Was sollte ich vor dem Kauf beachten?',
+      fr: "Que dois-je prendre en compte avant d'acheter ?",
+      es: '¿Qué debería tener en cuenta antes de comprar?',
+      pl: 'Co powinienem wziąć pod uwagę przed zakupem?',
+      sk: 'Čo by som mal zvážiť pred nákupom?',
+      it: 'Cosa dovrei considerare prima di fare un acquisto?',
+      pt: 'O que devo considerar antes de fazer uma compra?',
+      nl: 'Waar moet ik rekening mee houden voordat ik iets koop?',
+      ru: 'Что мне стоит учесть перед покупкой?'
     }
   },
   {
@@ -74,7 +131,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'transactional',
     questions: {
       en: 'Can you compare the top options in terms of value for money?',
-      cs: 'Můžeš porovnat top možnosti z hlediska hodnoty za peníze?'
+      cs: 'Můžeš porovnat top možnosti z hlediska hodnoty za peníze?',
+      de: 'Kannst du die besten Optionen hinsichtlich Preis-Leistungs-Verhältnis vergleichen?',
+      fr: 'Peux-tu comparer les meilleures options en termes de rapport qualité-prix ?',
+      es: '¿Puedes comparar las mejores opciones en cuanto a relación calidad-precio?',
+      pl: 'Czy możesz porównać najlepsze opcje pod względem stosunku jakości do ceny?',
+      sk: 'Môžeš porovnať top možnosti z hľadiska pomeru ceny a kvality?',
+      it: 'Puoi confrontare le migliori opzioni in termini di rapporto qualità-prezzo?',
+      pt: 'Você pode comparar as melhores opções em termos de custo-benefício?',
+      nl: 'Kun je de beste opties vergelijken op prijs-kwaliteitverhouding?',
+      ru: 'Можешь сравнить лучшие варианты по соотношению цены и качества?'
     }
   },
 
@@ -86,7 +152,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'comparison',
     questions: {
       en: 'Can you rank these options and explain your reasoning?',
-      cs: 'Můžeš seřadit tyto možnosti a vysvětlit své pořadí?'
+      cs: 'Můžeš seřadit tyto možnosti a vysvětlit své pořadí?',
+      de: 'Kannst du diese Optionen in eine Rangfolge bringen und deine Begründung erklären?',
+      fr: 'Peux-tu classer ces options et expliquer ton raisonnement ?',
+      es: '¿Puedes ordenar estas opciones y explicar tu razonamiento?',
+      pl: 'Czy możesz uszeregować te opcje i wyjaśnić swój wybór?',
+      sk: 'Môžeš zoradiť tieto možnosti a vysvetliť svoje poradie?',
+      it: 'Puoi classificare queste opzioni e spiegare il tuo ragionamento?',
+      pt: 'Você pode classificar essas opções e explicar seu raciocínio?',
+      nl: 'Kun je deze opties rangschikken en je redenering uitleggen?',
+      ru: 'Можешь расставить эти варианты по местам и объяснить свою логику?'
     }
   },
   {
@@ -94,7 +169,16 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'comparison',
     questions: {
       en: 'What are the key differences between the top options?',
-      cs: 'Jaké jsou hlavní rozdíly mezi top možnostmi?'
+      cs: 'Jaké jsou hlavní rozdíly mezi top možnostmi?',
+      de: 'Was sind die wichtigsten Unterschiede zwischen den besten Optionen?',
+      fr: 'Quelles sont les principales différences entre les meilleures options ?',
+      es: '¿Cuáles son las principales diferencias entre las mejores opciones?',
+      pl: 'Jakie są główne różnice między najlepszymi opcjami?',
+      sk: 'Aké sú hlavné rozdiely medzi top možnosťami?',
+      it: 'Quali sono le differenze principali tra le migliori opzioni?',
+      pt: 'Quais são as principais diferenças entre as melhores opções?',
+      nl: 'Wat zijn de belangrijkste verschillen tussen de beste opties?',
+      ru: 'В чём ключевые различия между лучшими вариантами?'
     }
   },
   {
@@ -102,33 +186,57 @@ export const FOLLOW_UP_TEMPLATES: FollowUpTemplate[] = [
     queryType: 'comparison',
     questions: {
       en: 'Which one has the best reputation and why?',
-      cs: 'Která z nich má nejlepší reputaci a proč?'
+      cs: 'Která z nich má nejlepší reputaci a proč?',
+      de: 'Welche hat den besten Ruf und warum?',
+      fr: 'Laquelle a la meilleure réputation et pourquoi ?',
+      es: '¿Cuál tiene la mejor reputación y por qué?',
+      pl: 'Która z nich ma najlepszą reputację i dlaczego?',
+      sk: 'Ktorá z nich má najlepšiu reputáciu a prečo?',
+      it: 'Quale ha la migliore reputazione e perché?',
+      pt: 'Qual delas tem a melhor reputação e por quê?',
+      nl: 'Welke heeft de beste reputatie en waarom?',
+      ru: 'У какого из них лучшая репутация и почему?'
     }
   },
 ]
 
+/**
+ * Fallback question when no template exists for a type and level
+ */
+export const GENERIC_FOLLOW_UP: Record<SupportedLanguage, string> = {
+  en: 'Can you tell me more?',
+  cs: 'Můžeš mi říct více?',
+  sk: 'Môžeš mi povedať viac?',
+  de: 'Kannst du mir mehr erzählen?',
+  pl: 'Czy możesz powiedzieć mi więcej?',
+  es: '¿Puedes contarme más?',
+  fr: "Peux-tu m'en dire plus ?",
+  it: 'Puoi dirmi di più?',
+  pt: 'Você pode me contar mais?',
+  nl: 'Kun je me meer vertellen?',
+  ru: 'Можешь рассказать подробнее?',
+}
+
 /**
  * Get follow-up question for a specific query type and depth level
+ * A project's custom question for the level wins over the built-in template.
  */
 export function getFollowUpQuestion(
   queryType: QueryType,
   level: 1 | 2 | 3,
-  language: string = 'en'
+  language: string = 'en',
+  custom?: FollowUpTemplateOverrides | null
 ): string {
+  const customQuestion = custom?.[queryType]?.[level - 1]?.trim()
+  if (customQuestion) return customQuestion
+
   const template = FOLLOW_UP_TEMPLATES.find(
     t => t.queryType === queryType && t.level === level
   )
 
-  if (!template) {
-    // Fallback to generic question
-    return language === 'cs' 
-      ? 'Můžeš mi říct více?'
-      : 'Can you tell me more?'
-  }
-
-  // Use Czech if language starts with 'cs', otherwise English
-  const lang = language.toLowerCase().startsWith('cs') ? 'cs' : 'en'
-  return template.questions[lang]
+  const lang = resolveLanguage(language)
+  // Unsupported languages get English questions
+  return template ? template.questions[lang] : GENERIC_FOLLOW_UP[lang]
 }
 
 /**
@@ -137,17 +245,118 @@ export function getFollowUpQuestion(
 export function getFollowUpQuestions(
   queryType: QueryType,
   depth: number,
-  language: string = 'en'
+  language: string = 'en',
+  custom?: FollowUpTemplateOverrides | null
 ): string[] {
   const questions: string[] = []
   
-  for (let level = 1; level <= Math.min(depth, 3); level++) {
-    questions.push(getFollowUpQuestion(queryType, level as 1 | 2 | 3, language))
+  for (let level = 1; level <= Math.min(depth, MAX_FOLLOW_UP_LEVEL); level++) {
+    questions.push(getFollowUpQuestion(queryType, level as 1 | 2 | 3, language, custom))
   }
   
   return questions
 }
 
+// =====================================================
+// CUSTOM TEMPLATES (per project)
+// =====================================================
+
+export interface FollowUpTemplateIssue {
+  queryType: QueryType
+  level: number
+  question: string
+  message: string
+}
+
+/**
+ * Clean custom templates from the settings form
+ * Known query types only, trimmed, at most MAX_FOLLOW_UP_LEVEL questions each.
+ * Empty strings are kept as gaps so later levels stay on their level.
+ */
+export function normalizeFollowUpTemplates(input: unknown): FollowUpTemplateOverrides {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {}
+
+  const templates: FollowUpTemplateOverrides = {}
+  for (const queryType of QUERY_TYPES) {
+    const questions = (input as Record<string, unknown>)[queryType]
+    if (!Array.isArray(questions)) continue
+
+    const chain = questions
+      .slice(0, MAX_FOLLOW_UP_LEVEL)
+      .map(q => (typeof q === 'string' ? q.trim().slice(0, MAX_FOLLOW_UP_QUESTION_LENGTH) : ''))
+    // Trailing gaps carry no information
+    while (chain.length > 0 && !chain[chain.length - 1]) chain.pop()
+    if (chain.length > 0) templates[queryType] = chain
+  }
+  return templates
+}
+
+/**
+ * Brand name or domain as it appears in a follow-up question, null when it stays organic
+ * Uses the same matching as mention detection (diacritics, inflections, URLs).
+ */
+export function findBrandInQuestion(
+  question: string,
+  brandVariations: string[],
+  domain: string | null | undefined,
+  language?: string
+): string | null {
+  const spans = [...findNameSpans(question, brandVariations, language), ...findDomainSpans(question, domain)]
+  return spans.length > 0 ? spans[0].text : null
+}
+
+/**
+ * Custom questions that name the brand or its domain
+ * Follow-ups must stay organic - naming the brand would make every answer mention it.
+ */
+export function findBrandMentionsInTemplates(
+  templates: FollowUpTemplateOverrides,
+  brandVariations: string[],
+  domain: string | null | undefined,
+  language?: string
+): FollowUpTemplateIssue[] {
+  const issues: FollowUpTemplateIssue[] = []
+
+  for (const queryType of QUERY_TYPES) {
+    (templates[queryType] || []).forEach((question, index) => {
+      if (!question) return
+      const mention = findBrandInQuestion(question, brandVariations, domain, language)
+      if (mention) {
+        issues.push({
+          queryType,
+          level: index + 1,
+          question,
+          message: `Follow-up ${index + 1} for ${queryType} queries mentions the brand ("${mention}")`,
+        })
+      }
+    })
+  }
+
+  return issues
+}
+
+export function normalizeFollowUpMode(input: unknown): FollowUpMode {
+  return FOLLOW_UP_MODES.includes(input as FollowUpMode) ? (input as FollowUpMode) : 'template'
+}
+
+/**
+ * Question text from a helper model reply: first line, without quotes or a "Question:" label
+ * Returns an empty string when nothing usable is left.
+ */
+export function cleanGeneratedFollowUp(content: string): string {
+  const line = content
+    .split('\n')
+    .map(l => l.trim())
+    .find(l => l.length > 0) || ''
+
+  const question = line
+    .replace(/^(?:\*\*)?(?:question|follow-up|user)\s*:\s*(?:\*\*)?/i, '')
+    .replace(/^["'“”„«»]+|["'“”„«»]+$/g, '')
+    .trim()
+
+  return question.length > MAX_FOLLOW_UP_QUESTION_LENGTH ? '' : question
+}
+
 /**
  * Weight configuration for calculating overall score with follow-ups
  * 
@@ -155,22 +364,23 @@ export function getFollowUpQuestions(
  * - Give significant weight to initial response (baseline)
  * - Reward brands that persist through the conversation
  * - Slightly decrease importance at deeper levels
+ *
+ * Default of the scoring profile; projects can override them.
  */
-export const FOLLOW_UP_WEIGHTS = {
-  // Weights for different configurations
-  depth1: { 0: 0.5, 1: 0.5 },                      // 50% initial, 50% F1
-  depth2: { 0: 0.35, 1: 0.35, 2: 0.30 },           // 35% initial, 35% F1, 30% F2
-  depth3: { 0: 0.30, 1: 0.30, 2: 0.25, 3: 0.15 }, // 30% initial, 30% F1, 25% F2, 15% F3
-} as const
+export const FOLLOW_UP_WEIGHTS = DEFAULT_SCORING_PROFILE.followUpWeights
 
 /**
  * Get weight for a specific follow-up level based on total depth
  */
-export function getFollowUpWeight(level: number, totalDepth: number): number {
-  const weightsKey = `depth${totalDepth}` as keyof typeof FOLLOW_UP_WEIGHTS
-  const weights = FOLLOW_UP_WEIGHTS[weightsKey] || FOLLOW_UP_WEIGHTS.depth1
+export function getFollowUpWeight(
+  level: number,
+  totalDepth: number,
+  followUpWeights: ScoringProfile['followUpWeights'] = FOLLOW_UP_WEIGHTS
+): number {
+  const weightsKey = `depth${totalDepth}` as keyof typeof followUpWeights
+  const weights = followUpWeights[weightsKey] || followUpWeights.depth1
   
-  return (weights as Record<number, number>)[level] || 0
+  return weights[level] || 0
 }
 
 /**
@@ -179,7 +389,8 @@ export function getFollowUpWeight(level: number, totalDepth: number): number {
  */
 export function calculateWeightedScore(
   scores: { level: number; score: number | null }[],
-  totalDepth: number
+  totalDepth: number,
+  followUpWeights: ScoringProfile['followUpWeights'] = FOLLOW_UP_WEIGHTS
 ): number | null {
   let totalWeight = 0
   let weightedSum = 0
@@ -188,7 +399,7 @@ export function calculateWeightedScore(
   for (const { level, score } of scores) {
     if (score === null) continue
     
-    const weight = getFollowUpWeight(level, totalDepth)
+    const weight = getFollowUpWeight(level, totalDepth, followUpWeights)
     weightedSum += score * weight
     totalWeight += weight
     hasValidScores = true
@@ -229,21 +440,24 @@ export interface ResilienceScoreResult {
 /**
  * Calculate Resilience Score
  * 
- * Scoring algorithm where follow-ups act as confirmation bonuses and persistence matters:
+ * Scoring algorithm where follow-ups act as confirmation bonuses and persistence matters
+ * (percentages and points are the defaults of the scoring profile):
  * - Base: Score from Level 0 (Initial)
- * - If follow-up is BETTER: add 50% of the difference
- * - If follow-up is WORSE: subtract only 20% of the difference
- * - Special case: if brand completely disappears in follow-up, penalize more (40%)
+ * - If follow-up is BETTER: add 50% of the difference (improvementFactor)
+ * - If follow-up is WORSE: subtract only 20% of the difference (declineFactor)
+ * - Special case: if brand completely disappears in follow-up, penalize more (40%, disappearanceFactor)
  * - Persistence bonus/penalty:
- *   - 100% persistence: +5 points bonus (brand mentioned in all levels)
- *   - Partial persistence: penalty proportional to lost visibility
+ *   - 100% persistence: +5 points bonus (persistenceBonus)
+ *   - Partial persistence: penalty proportional to lost visibility (up to persistencePenalty)
  * 
  * @param results - Array of results from a single query-model chain
  * @param followUpEnabled - Whether follow-ups are enabled for this project
+ * @param profile - Scoring coefficients (project profile or defaults)
  */
 export function calculateResilienceScore(
   results: ResultForResilience[],
-  followUpEnabled: boolean
+  followUpEnabled: boolean,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): ResilienceScoreResult {
   // Sort by level to ensure correct order
   const sorted = [...results].sort((a, b) => a.follow_up_level - b.follow_up_level)
@@ -310,34 +524,34 @@ export function calculateResilienceScore(
   // Part 1: Asymmetric adjustment based on follow-up recommendation scores
   let scoreAdjustment: number
   if (diff > 0) {
-    // Follow-up is BETTER: add 50% of the improvement
-    scoreAdjustment = diff * 0.5
+    // Follow-up is BETTER: add a share of the improvement
+    scoreAdjustment = diff * profile.improvementFactor
   } else if (brandDisappearedInFollowUp) {
-    // Brand disappeared: penalize more (40% of the drop)
-    scoreAdjustment = diff * 0.4
+    // Brand disappeared: penalize more
+    scoreAdjustment = diff * profile.disappearanceFactor
   } else {
-    // Follow-up is WORSE but brand still present: mild penalty (20%)
-    scoreAdjustment = diff * 0.2
+    // Follow-up is WORSE but brand still present: mild penalty
+    scoreAdjustment = diff * profile.declineFactor
   }
   
   // Part 2: Persistence bonus/penalty
-  // - 100% persistence (brand in all levels): +5 points bonus
+  // - 100% persistence (brand in all levels): bonus points
   // - Partial persistence: penalty proportional to lost percentage
   // - 0% persistence (brand never mentioned): no persistence bonus (already penalized by low scores)
   let persistenceAdjustment = 0
   if (initial.visibility_score > 0) {
     // Only apply persistence adjustment if brand was initially mentioned
     if (brandPersistence === 100) {
-      // Full persistence: +5 points bonus
-      persistenceAdjustment = 5
+      // Full persistence: bonus points
+      persistenceAdjustment = profile.persistenceBonus
     } else if (brandPersistence > 0) {
       // Partial persistence: penalty based on how much was lost
-      // e.g., 50% persistence = -2.5 points, 25% = -3.75 points
+      // e.g., with the default 5 points: 50% persistence = -2.5 points, 25% = -3.75 points
       const lostPercentage = (100 - brandPersistence) / 100
-      persistenceAdjustment = -lostPercentage * 5
+      persistenceAdjustment = -lostPercentage * profile.persistencePenalty
     } else {
-      // 0% persistence in follow-ups (brand completely lost): -5 points
-      persistenceAdjustment = -5
+      // 0% persistence in follow-ups (brand completely lost): full penalty
+      persistenceAdjustment = -profile.persistencePenalty
     }
   }
   
@@ -362,10 +576,12 @@ export function calculateResilienceScore(
  * 
  * @param chainResults - Array of arrays, each representing a conversation chain
  * @param followUpEnabled - Whether follow-ups are enabled
+ * @param profile - Scoring coefficients (project profile or defaults)
  */
 export function calculateAggregatedResilienceScore(
   chainResults: ResultForResilience[][],
-  followUpEnabled: boolean
+  followUpEnabled: boolean,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): ResilienceScoreResult {
   if (chainResults.length === 0) {
     return {
@@ -379,7 +595,7 @@ export function calculateAggregatedResilienceScore(
   }
   
   // Calculate resilience for each chain
-  const chainScores = chainResults.map(chain => calculateResilienceScore(chain, followUpEnabled))
+  const chainScores = chainResults.map(chain => calculateResilienceScore(chain, followUpEnabled, profile))
   
   // Average all metrics
   const count = chainScores.length
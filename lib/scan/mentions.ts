@@ -0,0 +1,321 @@
+/**
+ * Deterministic brand mention extraction
+ *
+ * Finds brand, domain and competitor mentions in AI responses without
+ * calling an LLM:
+ * 1. Word-boundary matching (no "small" → "Mall" false positives)
+ * 2. Diacritic folding ("Café" matches "Cafe")
+ * 3. Per-language inflection rules (Czech "Alzy", "Alzou" → "Alza")
+ * 4. Domain/URL normalization ("https://www.alza.cz/shop" → "alza.cz")
+ *
+ * Returns character offsets into the original content, so the same
+ * result can drive scoring and UI highlighting.
+ */
+
+import type { Competitor } from '@/lib/db/schema'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MentionSpan {
+  start: number          // Offset in original content (inclusive)
+  end: number            // Offset in original content (exclusive)
+  text: string           // Matched text as it appears in content
+  kind: 'name' | 'domain'
+}
+
+export interface EntityMentions {
+  name: string
+  mentioned: boolean         // Name or variation found
+  domain_mentioned: boolean  // Domain found (bare or inside URL)
+  position: number | null    // 1-based list position of first mention, null if not listed
+  spans: MentionSpan[]
+}
+
+export interface MentionExtraction {
+  brand: EntityMentions
+  competitors: EntityMentions[]
+}
+
+export interface MentionExtractionOptions {
+  brandVariations: string[]
+  domain?: string | null
+  competitors?: Competitor[]
+  language?: string
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g
+
+/**
+ * Fold text for matching: lowercase and strip diacritics
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase()
+}
+
+/**
+ * Fold text while keeping a map from folded offsets back to original offsets
+ * (folding can change string length, e.g. decomposed characters)
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = ''
+  const offsets: number[] = []
+  let index = 0
+
+  for (const char of text) {
+    const foldedChar = foldText(char)
+    for (let i = 0; i < foldedChar.length; i++) {
+      offsets.push(index)
+    }
+    folded += foldedChar
+    index += char.length
+  }
+  offsets.push(index)
+
+  return { folded, offsets }
+}
+
+/**
+ * Normalize a domain or URL to its bare host
+ * "https://www.Alza.cz/shop?x=1" → "alza.cz"
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#:].*$/, '')
+    .replace(/\.$/, '')
+}
+
+// ============================================
+// INFLECTION RULES
+// ============================================
+
+/**
+ * Case endings (already diacritic-folded) appended to a brand stem
+ * Languages not listed only match the exact brand form.
+ */
+export const INFLECTION_SUFFIXES: Record<string, string[]> = {
+  cs: ['a', 'e', 'i', 'u', 'y', 'o', 'ou', 'em', 'ovi', 'um', 'ach', 'ech', 'ami'],
+  sk: ['a', 'e', 'i', 'u', 'y', 'o', 'ou', 'om', 'ovi', 'och', 'ach', 'ami'],
+  pl: ['a', 'e', 'i', 'u', 'y', 'o', 'ie', 'em', 'owi', 'om', 'ach', 'ami'],
+  ru: ['а', 'е', 'и', 'у', 'ы', 'о', 'ои', 'ом', 'ам', 'ах', 'ами'],
+  de: ['s', 'es'],
+}
+
+const STEM_VOWELS = /[aeiouyаеиоуыя]$/
+
+function getLanguageKey(language?: string): string {
+  return (language || 'en').toLowerCase().slice(0, 2)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build regex source for a folded term, allowing inflected endings on the last word
+ */
+function buildTermPattern(foldedTerm: string, language?: string): string {
+  const suffixes = INFLECTION_SUFFIXES[getLanguageKey(language)]
+  const words = foldedTerm.split(/\s+/)
+  const lastWord = words[words.length - 1]
+
+  // Only inflect plain alphabetic words long enough to have a meaningful stem
+  const canInflect = !!suffixes && lastWord.length >= 3 && /^\p{L}+$/u.test(lastWord)
+  const head = words.slice(0, -1).map(escapeRegExp)
+
+  let last = escapeRegExp(lastWord)
+  if (canInflect) {
+    const stem = STEM_VOWELS.test(lastWord) && lastWord.length > 3 ? lastWord.slice(0, -1) : lastWord
+    const endings = [...new Set([lastWord.slice(stem.length), ...suffixes])]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+    last = `${escapeRegExp(stem)}(?:${endings.join('|')})?`
+  }
+
+  return [...head, last].join('\\s+')
+}
+
+const BOUNDARY_BEFORE = '(?<![\\p{L}\\p{N}])'
+const BOUNDARY_AFTER = '(?![\\p{L}\\p{N}])'
+
+// ============================================
+// LIST DETECTION
+// ============================================
+
+const LIST_ITEM_PATTERN = /^\s*(?:\d+[.)]|[-*•])\s+/
+
+/**
+ * Get offset ranges of top-level list items (numbered or bulleted)
+ * Continuation lines belong to the preceding item.
+ */
+export function getListItemRanges(content: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = []
+  let current: { start: number; end: number } | null = null
+  let offset = 0
+
+  for (const line of content.split('\n')) {
+    const lineStart = offset
+    const lineEnd = offset + line.length
+    offset = lineEnd + 1
+
+    if (LIST_ITEM_PATTERN.test(line) && !/^\s{2,}/.test(line)) {
+      if (current) ranges.push(current)
+      current = { start: lineStart, end: lineEnd }
+    } else if (current) {
+      if (line.trim() === '' || /^#{1,6}\s/.test(line)) {
+        ranges.push(current)
+        current = null
+      } else {
+        current.end = lineEnd
+      }
+    }
+  }
+  if (current) ranges.push(current)
+
+  return ranges
+}
+
+/**
+ * Get 1-based list position for the earliest span, null if not inside a list
+ */
+export function getListPositionForSpans(
+  listRanges: Array<{ start: number; end: number }>,
+  spans: MentionSpan[]
+): number | null {
+  let best: number | null = null
+  for (const span of spans) {
+    const index = listRanges.findIndex(r => span.start >= r.start && span.start < r.end)
+    if (index >= 0 && (best === null || index + 1 < best)) {
+      best = index + 1
+    }
+  }
+  return best
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Find all occurrences of the given names in content
+ */
+export function findNameSpans(content: string, names: string[], language?: string): MentionSpan[] {
+  const { folded, offsets } = foldWithOffsets(content)
+  const spans: MentionSpan[] = []
+
+  const terms = [...new Set(names.map(n => foldText(n.trim())).filter(n => n.length > 0))]
+  for (const term of terms) {
+    const regex = new RegExp(`${BOUNDARY_BEFORE}${buildTermPattern(term, language)}${BOUNDARY_AFTER}`, 'gu')
+    for (const match of folded.matchAll(regex)) {
+      const start = offsets[match.index ?? 0]
+      const end = offsets[(match.index ?? 0) + match[0].length]
+      spans.push({ start, end, text: content.slice(start, end), kind: 'name' })
+    }
+  }
+
+  return mergeSpans(spans)
+}
+
+/**
+ * Find all occurrences of a domain in content (bare, with www/subdomain or inside URLs)
+ */
+export function findDomainSpans(content: string, domain: string | null | undefined): MentionSpan[] {
+  if (!domain) return []
+  const normalized = normalizeDomain(domain)
+  if (!normalized) return []
+
+  const { folded, offsets } = foldWithOffsets(content)
+  // Allow subdomains (www.alza.cz, shop.alza.cz) but not lookalikes (notalza.cz)
+  const regex = new RegExp(`${BOUNDARY_BEFORE}${escapeRegExp(normalized)}${BOUNDARY_AFTER}`, 'gu')
+  const spans: MentionSpan[] = []
+
+  for (const match of folded.matchAll(regex)) {
+    const start = offsets[match.index ?? 0]
+    const end = offsets[(match.index ?? 0) + match[0].length]
+    spans.push({ start, end, text: content.slice(start, end), kind: 'domain' })
+  }
+
+  return spans
+}
+
+/**
+ * Merge overlapping spans, preferring earlier and then longer matches
+ */
+export function mergeSpans(spans: MentionSpan[]): MentionSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start))
+  const merged: MentionSpan[] = []
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && span.start < last.end) continue
+    merged.push(span)
+  }
+
+  return merged
+}
+
+function extractEntity(
+  content: string,
+  name: string,
+  names: string[],
+  domain: string | null | undefined,
+  listRanges: Array<{ start: number; end: number }>,
+  language?: string
+): EntityMentions {
+  const domainSpans = findDomainSpans(content, domain)
+  const nameSpans = findNameSpans(content, names, language)
+  // Domain matches take precedence over overlapping name matches ("alza.cz" vs "Alza")
+  const ownNameSpans = nameSpans.filter(s => !domainSpans.some(d => s.start < d.end && d.start < s.end))
+  const spans = mergeSpans([...domainSpans, ...ownNameSpans])
+
+  return {
+    name,
+    mentioned: ownNameSpans.length > 0,
+    domain_mentioned: domainSpans.length > 0,
+    position: getListPositionForSpans(listRanges, spans),
+    spans,
+  }
+}
+
+/**
+ * Extract brand, domain and competitor mentions from an AI response
+ */
+export function extractMentions(content: string, options: MentionExtractionOptions): MentionExtraction {
+  const listRanges = getListItemRanges(content)
+  const brandNames = options.brandVariations.filter(b => b && b.trim())
+
+  return {
+    brand: extractEntity(content, brandNames[0] || '', brandNames, options.domain, listRanges, options.language),
+    competitors: (options.competitors || []).map(c =>
+      extractEntity(content, c.name, [c.name, ...c.variations], c.domain, listRanges, options.language)
+    ),
+  }
+}
+
+// ============================================
+// DETERMINISTIC SCORES
+// ============================================
+
+/**
+ * Visibility: brand mention = 50 points, domain mention = 50 points
+ */
+export function visibilityScoreFromMentions(mentions: EntityMentions): number {
+  return (mentions.mentioned ? 50 : 0) + (mentions.domain_mentioned ? 50 : 0)
+}
+
+/**
+ * Ranking: 1st = 100, 2nd = 80, 3rd = 60, 4th or lower = 40, not listed = 0
+ */
+export function rankingScoreFromPosition(position: number | null): number {
+  if (position === null || position < 1) return 0
+  return Math.max(40, 100 - (position - 1) * 20)
+}
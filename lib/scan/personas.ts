@@ -0,0 +1,47 @@
+/**
+ * Persona breakdown of scan results
+ *
+ * Results store the persona their query was asked as (scan_results.persona_id,
+ * lib/queries/personas.ts), so unlike topics the grouping does not change when
+ * a query is reassigned later. Personas removed from the project keep their
+ * group under a null name; results asked without a persona are grouped under
+ * a null persona.
+ */
+
+import type { ProjectPersona, ScanResult } from '@/lib/db/schema'
+import { aggregateResultScores, type ResultForScores, type ResultScores } from '@/lib/scan/topics'
+
+export interface PersonaScore extends ResultScores {
+  persona_id: string | null   // null = asked without a persona
+  name: string | null         // Current persona name, null when removed (or no persona)
+}
+
+type ResultForPersonas = ResultForScores & Pick<ScanResult, 'persona_id'>
+
+/**
+ * Whether any result was asked as a persona (persona breakdowns are skipped otherwise)
+ */
+export function hasPersonaResults(results: Pick<ScanResult, 'persona_id'>[]): boolean {
+  return results.some(r => !!r.persona_id)
+}
+
+/**
+ * Visibility and recommendation per persona
+ * Sorted in the project's persona order, then removed personas, with results
+ * without a persona last.
+ */
+export function aggregatePersonaScores(
+  results: ResultForPersonas[],
+  personas: ProjectPersona[]
+): PersonaScore[] {
+  const order = new Map(personas.map((persona, index) => [persona.id, index]))
+  const rank = (id: string | null) => id === null ? personas.length + 1 : order.get(id) ?? personas.length
+
+  return Array.from(aggregateResultScores(results, result => [result.persona_id || null]).entries())
+    .map(([personaId, score]) => ({
+      persona_id: personaId,
+      name: personas.find(p => p.id === personaId)?.name ?? null,
+      ...score,
+    }))
+    .sort((a, b) => rank(a.persona_id) - rank(b.persona_id))
+}
@@ -0,0 +1,84 @@
+/**
+ * Realtime scan progress
+ *
+ * Browser-side subscriptions to the tables the scan worker writes
+ * (Migration 032 publishes them). Row Level Security limits every
+ * subscription to the signed-in user's rows.
+ *
+ * - scan_queue: progress counters and last_pair (one event per finished pair)
+ * - scan_results: each saved answer, including follow-ups
+ * - scans: totals, status and final scores
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Scan, ScanQueueItem, ScanResult } from '@/lib/db/schema'
+
+/** Called when the channel cannot deliver events - callers fall back to polling */
+type OnChannelError = (error?: Error) => void
+
+function watchChannelStatus(onError?: OnChannelError) {
+  return (status: string, error?: Error) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`[Realtime] Channel ${status.toLowerCase()}`, error?.message || '')
+      onError?.(error)
+    }
+  }
+}
+
+/**
+ * Follow all queue items of a user (sidebar job list, project page)
+ * @returns Unsubscribe function
+ */
+export function subscribeToScanQueue(
+  supabase: SupabaseClient,
+  userId: string,
+  onItem: (item: ScanQueueItem) => void,
+  onError?: OnChannelError
+): () => void {
+  const channel = supabase
+    .channel(`scan-queue:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'scan_queue', filter: `user_id=eq.${userId}` },
+      payload => {
+        if (payload.eventType !== 'DELETE') onItem(payload.new as ScanQueueItem)
+      }
+    )
+    .subscribe(watchChannelStatus(onError))
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+/**
+ * Follow one scan while it runs (scan detail page)
+ * @returns Unsubscribe function
+ */
+export function subscribeToScan(
+  supabase: SupabaseClient,
+  scanId: string,
+  handlers: {
+    onResult: (result: ScanResult) => void
+    onScan: (scan: Scan) => void
+    onError?: OnChannelError
+  }
+): () => void {
+  const channel = supabase
+    .channel(`scan:${scanId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'scan_results', filter: `scan_id=eq.${scanId}` },
+      payload => handlers.onResult(payload.new as ScanResult)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'scans', filter: `id=eq.${scanId}` },
+      payload => handlers.onScan(payload.new as Scan)
+    )
+    .subscribe(watchChannelStatus(handlers.onError))
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
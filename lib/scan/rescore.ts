@@ -0,0 +1,258 @@
+/**
+ * Re-scoring of completed scans
+ *
+ * Score aggregates are frozen on the scans row when a scan completes. When
+ * the formulas (SCORING_FORMULA_VERSION) or the project's scoring profile
+ * change, older scans are recomputed from scan_results.metrics_json - no AI
+ * calls, no credits. A preview shows the diff per scan; applying it updates
+ * the scans and writes the previous and new values with their formula and
+ * profile versions to scan_score_audit. Users can only read the audit: rows
+ * are written with the service-role client.
+ *
+ * Share of voice and sampling stats are not touched: they depend on the
+ * competitor list at scan time, not on the scoring formulas.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES, type ScanScoreSnapshot } from '@/lib/db/schema'
+import { calculateScoreAggregates, type ResultForAggregates } from '@/lib/scan/finalize'
+import {
+  DEFAULT_SCORING_PROFILE_VERSION,
+  SCORING_FORMULA_VERSION,
+  resolveScoringProfile,
+  type ScoringProfile,
+} from '@/lib/scan/scoring-profile'
+
+// Scans per request (one results query each); older scans are paged with nextCursor
+export const MAX_RESCORE_SCANS = 50
+
+// Results of this many scans are loaded in parallel
+const RESULT_BATCH_SIZE = 10
+
+export const SCAN_SCORE_FIELDS = [
+  'overall_score',
+  'initial_score',
+  'conversational_bonus',
+  'brand_persistence',
+  'follow_up_active',
+  'avg_visibility',
+  'avg_sentiment',
+  'avg_ranking',
+  'scoring_formula_version',
+  'scoring_profile_version',
+] as const satisfies readonly (keyof ScanScoreSnapshot)[]
+
+export type ScanScoreField = (typeof SCAN_SCORE_FIELDS)[number]
+
+export interface RescoreOptions {
+  projectId: string
+  userId: string
+  from?: string | null      // ISO date, inclusive (scans.created_at)
+  to?: string | null        // ISO date, inclusive
+  scanIds?: string[]        // Limit to these scans
+  before?: string | null    // Page cursor: only scans created before this (nextCursor of the previous page)
+}
+
+export interface ScanRescore {
+  scanId: string
+  createdAt: string
+  previous: ScanScoreSnapshot
+  current: ScanScoreSnapshot
+  changed: ScanScoreField[]  // Fields whose value differs (versions included)
+}
+
+export interface RescorePreview {
+  scans: ScanRescore[]
+  changedScans: number
+  truncated: boolean         // More completed scans in the range than MAX_RESCORE_SCANS (newest first)
+  nextCursor: string | null  // Pass as `before` for the next, older page; null on the last page
+  formulaVersion: number
+  profileVersion: number
+}
+
+export interface RescoreResult extends RescorePreview {
+  updated: number
+}
+
+type ScanRow = ScanScoreSnapshot & { id: string; created_at: string }
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Date range and page cursor from query or body parameters
+ * Plain dates cover the whole day (UTC): "to=2026-03-31" includes March 31.
+ * The cursor is kept as sent - it is a created_at value with microseconds.
+ * Returns null when a date is invalid or the range is reversed.
+ */
+export function parseRescoreRange(
+  from?: string | null,
+  to?: string | null,
+  before?: string | null
+): { from: string | null; to: string | null; before: string | null } | null {
+  const parse = (value: string | null | undefined, endOfDay: boolean) => {
+    if (!value) return null
+    const date = new Date(DATE_ONLY.test(value) ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value)
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+  }
+
+  const range = { from: parse(from, false), to: parse(to, true) }
+  if (range.from === undefined || range.to === undefined) return null
+  if (range.from && range.to && range.from > range.to) return null
+  if (before && Number.isNaN(new Date(before).getTime())) return null
+  return { ...range, before: before || null } as { from: string | null; to: string | null; before: string | null }
+}
+
+/**
+ * Recompute the aggregates of a project's completed scans without writing anything
+ */
+export async function previewRescore(
+  supabase: Pick<SupabaseClient, 'from'>,
+  options: RescoreOptions
+): Promise<RescorePreview> {
+  return (await buildRescore(supabase, options)).preview
+}
+
+async function buildRescore(
+  supabase: Pick<SupabaseClient, 'from'>,
+  options: RescoreOptions
+): Promise<{ preview: RescorePreview; profile: ScoringProfile }> {
+  const { data: project } = await supabase
+    .from(TABLES.PROJECTS)
+    .select('scoring_profile, scoring_profile_version')
+    .eq('id', options.projectId)
+    .single()
+
+  const profile = resolveScoringProfile(project?.scoring_profile)
+  const profileVersion = project?.scoring_profile_version ?? DEFAULT_SCORING_PROFILE_VERSION
+
+  let query = supabase
+    .from(TABLES.SCANS)
+    .select('id, created_at, overall_score, initial_score, conversational_bonus, brand_persistence, follow_up_active, avg_visibility, avg_sentiment, avg_ranking, scoring_formula_version, scoring_profile_version')
+    .eq('project_id', options.projectId)
+    .eq('user_id', options.userId)
+    .eq('status', 'completed')
+  if (options.from) query = query.gte('created_at', options.from)
+  if (options.to) query = query.lte('created_at', options.to)
+  if (options.scanIds) query = query.in('id', options.scanIds)
+  if (options.before) query = query.lt('created_at', options.before)
+
+  const { data: rows } = await query
+    .order('created_at', { ascending: false })
+    .limit(MAX_RESCORE_SCANS + 1)
+
+  const scans = ((rows || []) as ScanRow[]).slice(0, MAX_RESCORE_SCANS)
+  const rescores: ScanRescore[] = []
+
+  for (let i = 0; i < scans.length; i += RESULT_BATCH_SIZE) {
+    const batch = scans.slice(i, i + RESULT_BATCH_SIZE)
+    rescores.push(...await Promise.all(batch.map(scan => rescoreScanRow(supabase, scan, profile, profileVersion))))
+  }
+
+  const truncated = (rows || []).length > MAX_RESCORE_SCANS
+  const preview: RescorePreview = {
+    scans: rescores,
+    changedScans: rescores.filter(r => r.changed.length > 0).length,
+    truncated,
+    nextCursor: truncated ? scans[scans.length - 1].created_at : null,
+    formulaVersion: SCORING_FORMULA_VERSION,
+    profileVersion,
+  }
+  return { preview, profile }
+}
+
+/**
+ * Re-score a project's completed scans and record the changes in scan_score_audit
+ * Only scans with a difference are written. Throws when a scan cannot be updated.
+ * auditClient must be the service-role client (no INSERT policy on scan_score_audit).
+ */
+export async function applyRescore(
+  supabase: Pick<SupabaseClient, 'from'>,
+  options: RescoreOptions,
+  auditClient: Pick<SupabaseClient, 'from'>
+): Promise<RescoreResult> {
+  const { preview, profile } = await buildRescore(supabase, options)
+  let updated = 0
+
+  for (const rescore of preview.scans) {
+    if (rescore.changed.length === 0) continue
+
+    const { error } = await supabase
+      .from(TABLES.SCANS)
+      .update({ ...rescore.current, scoring_profile: profile })
+      .eq('id', rescore.scanId)
+
+    if (error) {
+      throw new Error(`Failed to re-score scan ${rescore.scanId}: ${error.message}`)
+    }
+    updated++
+
+    const { error: auditError } = await auditClient
+      .from(TABLES.SCAN_SCORE_AUDIT)
+      .insert({
+        scan_id: rescore.scanId,
+        project_id: options.projectId,
+        user_id: options.userId,
+        previous: rescore.previous,
+        current: rescore.current,
+      })
+
+    if (auditError) {
+      console.error(`[Rescore] Failed to write audit for scan ${rescore.scanId}:`, auditError)
+    }
+  }
+
+  console.log(`[Rescore] Project ${options.projectId}: ${updated} of ${preview.scans.length} scans re-scored (formula v${preview.formulaVersion}, profile v${preview.profileVersion})`)
+
+  return { ...preview, updated }
+}
+
+async function rescoreScanRow(
+  supabase: Pick<SupabaseClient, 'from'>,
+  scan: ScanRow,
+  profile: ScoringProfile,
+  profileVersion: number
+): Promise<ScanRescore> {
+  const { data: results } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('query_text, model, follow_up_level, sample_index, metrics_json')
+    .eq('scan_id', scan.id)
+
+  // Follow-ups count when the scan has follow-up results, whatever the project setting is now
+  const resultRows = (results || []) as ResultForAggregates[]
+  const hasFollowUps = resultRows.some(r => r.metrics_json && (r.follow_up_level || 0) > 0)
+  const { resilienceScore, avgVisibility, avgSentiment, avgRanking } =
+    calculateScoreAggregates(resultRows, hasFollowUps, profile)
+
+  const previous = pickSnapshot(scan)
+  const current: ScanScoreSnapshot = {
+    overall_score: resilienceScore.final_score,
+    initial_score: resilienceScore.initial_score,
+    conversational_bonus: resilienceScore.conversational_bonus,
+    brand_persistence: resilienceScore.brand_persistence,
+    follow_up_active: resilienceScore.follow_up_active,
+    avg_visibility: avgVisibility,
+    avg_sentiment: avgSentiment,
+    avg_ranking: avgRanking,
+    scoring_formula_version: SCORING_FORMULA_VERSION,
+    scoring_profile_version: profileVersion,
+  }
+
+  return {
+    scanId: scan.id,
+    createdAt: scan.created_at,
+    previous,
+    current,
+    changed: SCAN_SCORE_FIELDS.filter(field => !isSameValue(previous[field], current[field])),
+  }
+}
+
+function pickSnapshot(scan: ScanRow): ScanScoreSnapshot {
+  return Object.fromEntries(SCAN_SCORE_FIELDS.map(field => [field, scan[field] ?? null])) as unknown as ScanScoreSnapshot
+}
+
+// NUMERIC columns come back as numbers or strings; scores are compared to one decimal
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return (a ?? null) === (b ?? null)
+  if (typeof a === 'boolean' || typeof b === 'boolean') return a === b
+  return Math.abs(Number(a) - Number(b)) < 0.05
+}
@@ -0,0 +1,195 @@
+/**
+ * Retry of failed query-model pairs
+ *
+ * A finished scan can have gaps: pairs without any answer (failed chunk,
+ * provider error) or conversations that stopped before the last follow-up.
+ * findMissingPairs() compares the stored results against the scan's grid
+ * (queries × models × samples × follow-up levels); the queue runner then
+ * re-runs only the missing answers into the same scan.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { TABLES, type Project, type ProjectQuery, type Scan, type ScanResult, type ScanRetryCheckpoint } from '@/lib/db/schema'
+import { resolveProjectModels } from '@/lib/ai/deprecation'
+import { getPairKey } from '@/lib/scan/runner'
+
+export type ResultForRetry = Pick<ScanResult, 'id' | 'query_text' | 'model' | 'sample_index' | 'follow_up_level'>
+
+export interface MissingPair {
+  queryId: string
+  queryText: string
+  modelId: string
+  sampleIndex: number
+  missingLevels: number[]  // Follow-up levels without a result (0 = initial answer)
+}
+
+export interface RetryPlan {
+  missing: MissingPair[]
+  completedPairKeys: string[]  // Pairs with every level saved
+  missingResults: number       // Answers to re-run across all pairs
+  rerunResultIds: string[]     // Saved after a gap - deleted and re-run with the missing levels
+}
+
+/** A scan's grid and its retry plan, as loaded by loadScanRetryPlan() */
+export interface ScanRetrySetup {
+  queries: Pick<ProjectQuery, 'id' | 'query_text' | 'query_type'>[]
+  models: string[]
+  samplesPerQuery: number
+  followUpDepth: number
+  results: (ResultForRetry & { cost_usd: number | null })[]
+  plan: RetryPlan
+}
+
+/**
+ * Find the (query, model, sample, follow-up level) combinations a scan has no result for
+ * A chain can only continue from its last saved level, so levels after a gap count as missing.
+ */
+export function findMissingPairs(
+  queries: { id: string; query_text: string }[],
+  models: string[],
+  samplesPerQuery: number,
+  followUpDepth: number,
+  results: ResultForRetry[]
+): RetryPlan {
+  const savedLevels = new Map<string, Set<number>>()
+  for (const result of results) {
+    const key = `${result.query_text}|${result.model}|${result.sample_index ?? 0}`
+    const levels = savedLevels.get(key) || new Set<number>()
+    levels.add(result.follow_up_level || 0)
+    savedLevels.set(key, levels)
+  }
+
+  const missing: MissingPair[] = []
+  const completedPairKeys: string[] = []
+  const firstMissingLevels = new Map<string, number>()
+
+  for (const query of queries) {
+    for (const modelId of models) {
+      for (let sampleIndex = 0; sampleIndex < samplesPerQuery; sampleIndex++) {
+        const levels = savedLevels.get(`${query.query_text}|${modelId}|${sampleIndex}`) || new Set<number>()
+
+        // First gap in the chain, everything from there on is re-run
+        let firstMissing = 0
+        while (firstMissing <= followUpDepth && levels.has(firstMissing)) firstMissing++
+        firstMissingLevels.set(`${query.query_text}|${modelId}|${sampleIndex}`, firstMissing)
+
+        if (firstMissing > followUpDepth) {
+          completedPairKeys.push(getPairKey(query.id, modelId, sampleIndex))
+          continue
+        }
+
+        missing.push({
+          queryId: query.id,
+          queryText: query.query_text,
+          modelId,
+          sampleIndex,
+          missingLevels: Array.from({ length: followUpDepth - firstMissing + 1 }, (_, i) => firstMissing + i),
+        })
+      }
+    }
+  }
+
+  return {
+    missing,
+    completedPairKeys,
+    missingResults: missing.reduce((sum, pair) => sum + pair.missingLevels.length, 0),
+    rerunResultIds: results
+      .filter(r => (r.follow_up_level || 0) >= (firstMissingLevels.get(`${r.query_text}|${r.model}|${r.sample_index ?? 0}`) ?? Infinity))
+      .map(r => r.id),
+  }
+}
+
+/**
+ * Retry state of a scan's queue checkpoint
+ * Results the retry keeps were charged when the scan first completed; results
+ * after a gap are deleted and re-run, so they are charged again and not part
+ * of the baseline.
+ */
+export function createRetryCheckpoint(setup: Pick<ScanRetrySetup, 'followUpDepth' | 'results' | 'plan'>): ScanRetryCheckpoint {
+  const rerun = new Set(setup.plan.rerunResultIds)
+  const kept = setup.results.filter(r => !rerun.has(r.id))
+
+  return {
+    followUpDepth: setup.followUpDepth,
+    chargedCents: Math.ceil(kept.reduce((sum, r) => sum + (r.cost_usd || 0), 0) * 100),
+    resultIds: kept.map(r => r.id),
+  }
+}
+
+/**
+ * Follow-up depth a scan ran with
+ * The deepest saved level, or the project setting when no follow-up answer was saved.
+ */
+export function getScanFollowUpDepth(
+  scan: { follow_up_active: boolean | null },
+  project: { follow_up_enabled: boolean; follow_up_depth: number },
+  results: ResultForRetry[]
+): number {
+  const deepest = results.reduce((max, r) => Math.max(max, r.follow_up_level || 0), 0)
+  if (deepest > 0) return deepest
+  return scan.follow_up_active && project.follow_up_enabled ? (project.follow_up_depth || 1) : 0
+}
+
+/**
+ * Rebuild the grid a scan ran with and find its missing answers
+ * Queries, models and samples come from the scan's queue checkpoint; scans run
+ * before the queue fall back to the scan row and the project settings.
+ */
+export async function loadScanRetryPlan(
+  supabase: Pick<SupabaseClient, 'from'>,
+  scan: Pick<Scan, 'id' | 'created_at' | 'models' | 'follow_up_active' | 'sampling_stats'>,
+  project: Pick<Project, 'id' | 'selected_models' | 'follow_up_enabled' | 'follow_up_depth'>
+): Promise<ScanRetrySetup> {
+  const { data: queueItem } = await supabase
+    .from('scan_queue')
+    .select('checkpoint')
+    .eq('scan_id', scan.id)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  const checkpoint = queueItem?.checkpoint || null
+
+  let queries: ScanRetrySetup['queries']
+  if (checkpoint) {
+    const { data: rows } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('id, query_text, query_type')
+      .in('id', checkpoint.queryIds)
+    queries = checkpoint.queryIds
+      .map((id: string) => (rows || []).find((q: { id: string }) => q.id === id))
+      .filter(Boolean)
+  } else {
+    // Active queries that existed when the scan started
+    const { data: rows } = await supabase
+      .from(TABLES.PROJECT_QUERIES)
+      .select('id, query_text, query_type')
+      .eq('project_id', project.id)
+      .eq('is_active', true)
+      .lte('created_at', scan.created_at)
+    queries = rows || []
+  }
+
+  const { data: resultRows } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('id, query_text, model, sample_index, follow_up_level, cost_usd')
+    .eq('scan_id', scan.id)
+  const results: ScanRetrySetup['results'] = resultRows || []
+
+  const models: string[] = checkpoint?.models
+    || scan.models
+    || resolveProjectModels((project.selected_models || []) as string[]).models
+  const samplesPerQuery: number = checkpoint?.samplesPerQuery
+    || scan.sampling_stats?.samples_per_query
+    || results.reduce((max, r) => Math.max(max, (r.sample_index ?? 0) + 1), 1)
+  const followUpDepth = getScanFollowUpDepth(scan, project, results)
+
+  return {
+    queries,
+    models,
+    samplesPerQuery,
+    followUpDepth,
+    results,
+    plan: findMissingPairs(queries, models, samplesPerQuery, followUpDepth, results),
+  }
+}
@@ -0,0 +1,916 @@
+/**
+ * Server-side scan runner
+ *
+ * A scan is a set of query×model×sample "pairs". Each pair asks the initial
+ * query, evaluates it and runs the follow-up chain, saving one scan_result per
+ * level. runScanPair() does that for one pair and is shared by the chunk route,
+ * the queue worker and the scheduled scan worker (cron/process-scan).
+ *
+ * Manual scans run on scan_queue: the queue route creates the scan and a
+ * checkpoint (queries, models, samples, reservation), the process-queue worker
+ * claims the item and works through the pairs, writing the checkpoint after
+ * every finished pair. When the worker runs out of time the item goes back to
+ * 'pending'; when the worker is killed the item goes stale and is claimed
+ * again. Either way the next worker discards half-finished pairs and continues
+ * with the remaining ones. The browser only reads progress.
+ *
+ * Retrying a finished scan (lib/scan/retry.ts) uses the same queue: the
+ * checkpoint's retry field keeps partial chains, which are continued from
+ * their last saved level instead of being discarded.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  callGEOQuery,
+  callEvaluation,
+  getModelInfo,
+  getCheapestEvaluationModel,
+  createSupabaseCacheStore,
+  countAICalls,
+  getCallDiagnostics,
+} from '@/lib/ai'
+import type { AIResponseCacheStore } from '@/lib/ai/cache'
+import { calculateDynamicCost, releaseReservation } from '@/lib/credits'
+import { TABLES, type Project, type ProjectQuery, type ScanMetrics, type ScanResult, type ScanQueueCheckpoint, type ScanQueueItem, type ScanQueueTotals, type ScanPairEvent } from '@/lib/db/schema'
+import { normalizeFollowUpMode, type QueryType } from '@/lib/scan/follow-up-templates'
+import { getNextFollowUp, getFollowUpHelperModel } from '@/lib/scan/adaptive-follow-up'
+import { detectCompetitorMentions } from '@/lib/scan/competitors'
+import { extractCitations } from '@/lib/scan/citations'
+import { finalizeScan } from '@/lib/scan/finalize'
+import { findPersona } from '@/lib/queries/personas'
+
+type Supabase = Pick<SupabaseClient, 'from'>
+
+// ============================================
+// SETTINGS
+// ============================================
+
+/** Pairs processed in parallel by one worker */
+export const PAIR_CONCURRENCY = 3
+
+/** A running item without checkpoint writes for this long belongs to a dead worker */
+export const QUEUE_STALE_AFTER_MS = 10 * 60 * 1000
+
+/** Claims per queue item before it is given up (worker timeouts, crashes) */
+export const MAX_QUEUE_ATTEMPTS = 10
+
+// ============================================
+// PAIRS
+// ============================================
+
+export interface ScanPair {
+  query: Pick<ProjectQuery, 'id' | 'query_text' | 'query_type' | 'persona_id'>
+  modelId: string
+  sampleIndex: number
+  chain?: ScanChainResult[]  // Saved levels 0..n-1 to continue from (retry), ordered by level
+}
+
+export type ScanChainResult = Pick<ScanResult, 'id' | 'follow_up_level' | 'ai_response_raw' | 'follow_up_query_used' | 'metrics_json'>
+
+export interface ScanPairContext {
+  supabase: Supabase
+  scanId: string
+  project: Pick<Project, 'domain' | 'brand_variations' | 'language' | 'follow_up_enabled' | 'follow_up_depth' | 'competitors' | 'cache_geo_responses' | 'follow_up_templates' | 'follow_up_mode' | 'query_generation_model' | 'personas'>
+  evaluationModel: string
+  cacheStore: AIResponseCacheStore
+}
+
+export interface ScanPairResult {
+  queryId: string
+  modelId: string
+  sampleIndex: number
+  success: boolean
+  metrics?: ScanMetrics
+  error?: string
+  costCents: number
+  inputTokens: number
+  outputTokens: number
+  operationCount: number
+}
+
+/**
+ * Checkpoint key of a pair
+ */
+export function getPairKey(queryId: string, modelId: string, sampleIndex: number): string {
+  return `${queryId}|${modelId}|${sampleIndex}`
+}
+
+/**
+ * Every pair of a scan, queries first (same order the chunk flow used)
+ */
+export function buildScanPairs(
+  queries: ScanPair['query'][],
+  models: string[],
+  samplesPerQuery: number
+): ScanPair[] {
+  return queries.flatMap(query =>
+    models.flatMap(modelId =>
+      Array.from({ length: samplesPerQuery }, (_, sampleIndex) => ({ query, modelId, sampleIndex }))
+    )
+  )
+}
+
+/**
+ * Evaluation model for a user (Settings → helper models), default cheapest
+ */
+export async function getEvaluationModelForUser(supabase: Supabase, userId: string): Promise<string> {
+  const { data: helperSettings } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('provider', '_helpers')
+    .single()
+
+  return helperSettings?.encrypted_api_key || getCheapestEvaluationModel()
+}
+
+/**
+ * Run one query×model sample: initial answer, evaluation and follow-up chain
+ * With pair.chain the saved levels are kept and the chain continues after the last one.
+ * Queries with a persona are asked with the persona system prompt (the whole chain).
+ * Never throws - failures are reported in the result with the tokens spent so far.
+ */
+export async function runScanPair(ctx: ScanPairContext, pair: ScanPair): Promise<ScanPairResult> {
+  const { supabase, scanId, project, evaluationModel, cacheStore } = ctx
+  const { query, modelId, sampleIndex } = pair
+  const language = project.language || 'en'
+  const competitors = project.competitors || []
+  const followUpEnabled = project.follow_up_enabled === true
+  const followUpDepth = project.follow_up_depth || 1
+  // A removed persona asks without one (and is not stored on the results)
+  const persona = findPersona(project.personas, query.persona_id)
+
+  let operationCount = 0
+  let costCents = 0
+  let inputTokens = 0
+  let outputTokens = 0
+
+  const result = (fields: Partial<ScanPairResult>): ScanPairResult => ({
+    queryId: query.id,
+    modelId,
+    sampleIndex,
+    success: false,
+    costCents,
+    inputTokens,
+    outputTokens,
+    operationCount,
+    ...fields,
+  })
+
+  const modelInfo = getModelInfo(modelId)
+  if (!modelInfo || !modelInfo.isActive) {
+    console.warn(`[Scan Pair] Model ${modelId} not found or inactive`)
+    return result({ error: 'Model unavailable' })
+  }
+
+  try {
+    // Samples stay distinct in the cache (variant = sample index)
+    const geoCache = project.cache_geo_responses === true ? { store: cacheStore, variant: sampleIndex } : false
+    const chain = pair.chain || []
+    const conversationHistory: Array<{ role: 'user' | 'assistant', content: string }> = []
+    let metrics: ScanMetrics
+    let parentResultId: string | null = null
+
+    if (chain.length > 0 && chain[0].metrics_json) {
+      // ========================================
+      // CONTINUE A SAVED CHAIN (retry)
+      // ========================================
+      metrics = chain[0].metrics_json
+      for (const saved of chain) {
+        conversationHistory.push(
+          { role: 'user', content: saved.follow_up_level === 0 ? query.query_text : saved.follow_up_query_used || '' },
+          { role: 'assistant', content: saved.ai_response_raw }
+        )
+      }
+      parentResultId = chain[chain.length - 1].id
+    } else {
+      // ========================================
+      // INITIAL RESPONSE (follow_up_level = 0)
+      // ========================================
+      const response = await callGEOQuery(modelId, query.query_text, language, undefined, { cache: geoCache, persona })
+      operationCount++
+      // Accumulate tokens immediately so partial progress is tracked on error
+      inputTokens += response.inputTokens
+      outputTokens += response.outputTokens
+
+      if (!response.content) {
+        console.log(`[Scan Pair] Empty response from ${modelId}`)
+        return result({ error: 'Empty response' })
+      }
+
+      // Analyze response with AI evaluation
+      const evalResult = await callEvaluation(
+        evaluationModel,
+        response.content,
+        project.brand_variations || [],
+        project.domain,
+        language,
+        { cache: { store: cacheStore }, fallback: true }
+      )
+      inputTokens += evalResult.inputTokens
+      outputTokens += evalResult.outputTokens
+
+      // Calculate costs with dynamic pricing (includes markup), also when the evaluation failed
+      const queryCostCents = await calculateDynamicCost(modelId, response.inputTokens, response.outputTokens)
+      // Fallback model when the evaluation model failed
+      const evalCostCents = await calculateDynamicCost(evalResult.model, evalResult.inputTokens, evalResult.outputTokens)
+      costCents += queryCostCents + evalCostCents
+
+      if (!evalResult.metrics) {
+        return result({ error: 'No metrics' })
+      }
+
+      // Validate metrics
+      metrics = {
+        visibility_score: evalResult.metrics.visibility_score,
+        sentiment_score: evalResult.metrics.visibility_score > 0
+          ? evalResult.metrics.sentiment_score
+          : null,
+        ranking_score: evalResult.metrics.ranking_score,
+        recommendation_score: evalResult.metrics.visibility_score > 0
+          ? evalResult.metrics.recommendation_score
+          : 0,
+      }
+
+      // Save initial result
+      const { data: initialResult } = await supabase
+        .from(TABLES.SCAN_RESULTS)
+        .insert({
+          scan_id: scanId,
+          provider: modelInfo.provider,
+          model: modelId,
+          query_text: query.query_text,
+          ai_response_raw: response.content,
+          metrics_json: metrics,
+          input_tokens: response.inputTokens + evalResult.inputTokens,
+          output_tokens: response.outputTokens + evalResult.outputTokens,
+          answer_input_tokens: response.inputTokens,
+          answer_output_tokens: response.outputTokens,
+          cost_usd: (queryCostCents + evalCostCents) / 100,
+          follow_up_level: 0,
+          parent_result_id: null,
+          follow_up_query_used: null,
+          sample_index: sampleIndex,
+          competitor_mentions: detectCompetitorMentions(response.content, competitors, language),
+          citations: extractCitations(response.content),
+          ...countAICalls(response, evalResult),
+          ai_diagnostics: getCallDiagnostics(response, evalResult),
+          persona_id: persona?.id ?? null,
+        })
+        .select()
+        .single()
+
+      conversationHistory.push(
+        { role: 'user', content: query.query_text },
+        { role: 'assistant', content: response.content }
+      )
+      parentResultId = initialResult?.id ?? null
+    }
+
+    // ========================================
+    // FOLLOW-UP QUERIES (if enabled)
+    // ========================================
+    if (followUpEnabled && followUpDepth > 0 && parentResultId) {
+      for (let level = Math.max(chain.length, 1); level <= followUpDepth; level++) {
+        // Template question, or written by the helper model from the last answer (adaptive mode)
+        const followUp = await getNextFollowUp({
+          mode: normalizeFollowUpMode(project.follow_up_mode),
+          helperModel: getFollowUpHelperModel(project.query_generation_model, evaluationModel),
+          queryType: query.query_type as QueryType,
+          level: level as 1 | 2 | 3,
+          language,
+          templates: project.follow_up_templates,
+          brandVariations: project.brand_variations || [],
+          domain: project.domain,
+          conversationHistory,
+          cache: { store: cacheStore, variant: sampleIndex },
+        })
+        const followUpQuestion = followUp.question
+        const helperCalls = followUp.generation ? [followUp.generation] : []
+        let helperCostCents = 0
+        for (const call of helperCalls) {
+          inputTokens += call.inputTokens
+          outputTokens += call.outputTokens
+          helperCostCents += await calculateDynamicCost(call.model, call.inputTokens, call.outputTokens)
+        }
+        costCents += helperCostCents
+
+        // Call LLM with conversation history
+        const followUpResponse = await callGEOQuery(modelId, followUpQuestion, language, conversationHistory, { cache: geoCache, persona })
+        operationCount++
+        inputTokens += followUpResponse.inputTokens
+        outputTokens += followUpResponse.outputTokens
+
+        if (!followUpResponse.content) {
+          console.log(`[Scan Pair] Empty follow-up response ${level} from ${modelId}, stopping chain`)
+          break
+        }
+
+        const followUpEvalResult = await callEvaluation(
+          evaluationModel,
+          followUpResponse.content,
+          project.brand_variations || [],
+          project.domain,
+          language,
+          { cache: { store: cacheStore }, fallback: true }
+        )
+        inputTokens += followUpEvalResult.inputTokens
+        outputTokens += followUpEvalResult.outputTokens
+
+        // Both calls are paid for even when the chain stops here
+        const followUpQueryCostCents = await calculateDynamicCost(modelId, followUpResponse.inputTokens, followUpResponse.outputTokens)
+        const followUpEvalCostCents = await calculateDynamicCost(followUpEvalResult.model, followUpEvalResult.inputTokens, followUpEvalResult.outputTokens)
+        costCents += followUpQueryCostCents + followUpEvalCostCents
+
+        if (!followUpEvalResult.metrics) {
+          console.log(`[Scan Pair] Follow-up ${level} evaluation failed for ${modelId}, stopping chain`)
+          break
+        }
+
+        const { data: followUpResult }: { data: { id: string } | null } = await supabase
+          .from(TABLES.SCAN_RESULTS)
+          .insert({
+            scan_id: scanId,
+            provider: modelInfo.provider,
+            model: modelId,
+            query_text: query.query_text, // Original query for grouping
+            ai_response_raw: followUpResponse.content,
+            metrics_json: followUpEvalResult.metrics,
+            input_tokens: followUpResponse.inputTokens + followUpEvalResult.inputTokens + helperCalls.reduce((sum, c) => sum + c.inputTokens, 0),
+            output_tokens: followUpResponse.outputTokens + followUpEvalResult.outputTokens + helperCalls.reduce((sum, c) => sum + c.outputTokens, 0),
+            answer_input_tokens: followUpResponse.inputTokens,
+            answer_output_tokens: followUpResponse.outputTokens,
+            cost_usd: (followUpQueryCostCents + followUpEvalCostCents + helperCostCents) / 100,
+            follow_up_level: level,
+            parent_result_id: parentResultId,
+            follow_up_query_used: followUpQuestion,
+            sample_index: sampleIndex,
+            competitor_mentions: detectCompetitorMentions(followUpResponse.content, competitors, language),
+            citations: extractCitations(followUpResponse.content),
+            ...countAICalls(followUpResponse, followUpEvalResult, ...helperCalls),
+            ai_diagnostics: getCallDiagnostics(followUpResponse, followUpEvalResult, ...helperCalls),
+            persona_id: persona?.id ?? null,
+          })
+          .select()
+          .single()
+
+        if (followUpResult) {
+          parentResultId = followUpResult.id
+        }
+
+        conversationHistory.push(
+          { role: 'user', content: followUpQuestion },
+          { role: 'assistant', content: followUpResponse.content }
+        )
+      }
+    }
+
+    return result({ success: true, metrics, costCents, inputTokens, outputTokens, operationCount })
+  } catch (error: any) {
+    console.error(`[Scan Pair] Error for ${modelId}:`, error.message)
+    return result({ error: 'Processing failed', costCents, inputTokens, outputTokens, operationCount })
+  }
+}
+
+/**
+ * Add a batch of pair results to the scan totals
+ * Returns the scan cost so far in USD (null when the scan is gone).
+ */
+export async function addScanTotals(supabase: Supabase, scanId: string, results: ScanPairResult[]): Promise<number | null> {
+  const costCents = results.reduce((sum, r) => sum + r.costCents, 0)
+  const inputTokens = results.reduce((sum, r) => sum + r.inputTokens, 0)
+  const outputTokens = results.reduce((sum, r) => sum + r.outputTokens, 0)
+  const successful = results.filter(r => r.success).length
+
+  const { data: currentScan } = await supabase
+    .from(TABLES.SCANS)
+    .select('total_cost_usd, total_input_tokens, total_output_tokens, total_results')
+    .eq('id', scanId)
+    .single()
+
+  if (!currentScan) return null
+
+  const totalCostUsd = (currentScan.total_cost_usd || 0) + (costCents / 100)
+  if (costCents === 0 && inputTokens === 0 && successful === 0) return totalCostUsd
+
+  await supabase
+    .from(TABLES.SCANS)
+    .update({
+      total_cost_usd: totalCostUsd,
+      total_input_tokens: (currentScan.total_input_tokens || 0) + inputTokens,
+      total_output_tokens: (currentScan.total_output_tokens || 0) + outputTokens,
+      total_results: (currentScan.total_results || 0) + successful,
+    })
+    .eq('id', scanId)
+
+  return totalCostUsd
+}
+
+/**
+ * Totals saved on the scan row, the starting point of a checkpoint without totals
+ */
+async function loadScanTotals(supabase: Supabase, scanId: string): Promise<ScanQueueTotals> {
+  const { data: scan } = await supabase
+    .from(TABLES.SCANS)
+    .select('total_cost_usd, total_input_tokens, total_output_tokens, total_results')
+    .eq('id', scanId)
+    .single()
+
+  return {
+    costUsd: scan?.total_cost_usd || 0,
+    inputTokens: scan?.total_input_tokens || 0,
+    outputTokens: scan?.total_output_tokens || 0,
+    results: scan?.total_results || 0,
+  }
+}
+
+/**
+ * Copy checkpointed totals to the scan row
+ * Absolute values, so repeating the write after a crash changes nothing.
+ */
+async function saveScanTotals(supabase: Supabase, scanId: string, totals: ScanQueueTotals): Promise<void> {
+  await supabase
+    .from(TABLES.SCANS)
+    .update({
+      total_cost_usd: totals.costUsd,
+      total_input_tokens: totals.inputTokens,
+      total_output_tokens: totals.outputTokens,
+      total_results: totals.results,
+    })
+    .eq('id', scanId)
+}
+
+// ============================================
+// QUEUE
+// ============================================
+
+export interface QueueRunOptions {
+  workerId: string
+  deadline: number // Epoch ms - no new pairs are started after this
+  concurrency?: number
+}
+
+export interface QueueRunResult {
+  status: 'completed' | 'paused' | 'cancelled' | 'failed'
+  scanId: string | null
+  processedPairs: number
+  remainingPairs: number
+  error?: string
+}
+
+/**
+ * Checkpoint for a new queue item
+ */
+export function createScanCheckpoint(
+  queryIds: string[],
+  models: string[],
+  samplesPerQuery: number,
+  reservationId: string | null
+): ScanQueueCheckpoint {
+  return { queryIds, models, samplesPerQuery, reservationId, completed: [], failed: {} }
+}
+
+/**
+ * Pairs of a checkpoint that have not finished yet
+ */
+export function getRemainingPairs(checkpoint: ScanQueueCheckpoint, queries: ScanPair['query'][]): ScanPair[] {
+  const done = new Set([...checkpoint.completed, ...Object.keys(checkpoint.failed)])
+  return buildScanPairs(queries, checkpoint.models, checkpoint.samplesPerQuery)
+    .filter(pair => !done.has(getPairKey(pair.query.id, pair.modelId, pair.sampleIndex)))
+}
+
+/**
+ * Wake the process-queue worker instead of waiting for its cron (fire and forget)
+ */
+export function triggerQueueWorker(): void {
+  try {
+    const baseUrl = process.env.VERCEL_URL 
+      ? `https://${process.env.VERCEL_URL}` 
+      : process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = cronSecret ? `Bearer ${cronSecret}` : ''
+    
+    // Fire and forget - don't wait for response
+    fetch(`${baseUrl}/api/cron/process-queue`, {
+      method: 'POST',
+      headers: {
+        'Authorization': authHeader,
+        'Content-Type': 'application/json'
+      }
+    }).catch(err => {
+      console.warn('[Scan Queue] Worker trigger failed:', err.message)
+    })
+  } catch (error) {
+    console.warn('[Scan Queue] Failed to trigger worker:', error)
+  }
+}
+
+/**
+ * Claim the next queue item (pending, or running with a dead worker)
+ * Uses the claim_pending_queue_scan RPC, with an optimistic update as fallback.
+ */
+export async function claimQueueItem(
+  supabase: Pick<SupabaseClient, 'from' | 'rpc'>,
+  workerId: string,
+  now: number = Date.now()
+): Promise<ScanQueueItem | null> {
+  const { data: claimedRpc, error: rpcError } = await supabase.rpc('claim_pending_queue_scan', {
+    stale_after_seconds: Math.round(QUEUE_STALE_AFTER_MS / 1000),
+  })
+
+  if (!rpcError && claimedRpc && claimedRpc.length > 0) {
+    const { data: fullItem } = await supabase
+      .from('scan_queue')
+      .select('*')
+      .eq('id', claimedRpc[0].id)
+      .single()
+    return fullItem as ScanQueueItem | null
+  }
+
+  if (rpcError) {
+    console.log(`[Worker ${workerId}] RPC claim failed, using fallback method:`, rpcError.message)
+  } else if (claimedRpc !== null) {
+    return null // RPC worked, queue is empty
+  }
+
+  // Fallback: oldest pending item, else a stale running one
+  const { data: pending } = await supabase
+    .from('scan_queue')
+    .select('*')
+    .eq('status', 'pending')
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  let candidate = pending as ScanQueueItem | null
+  if (!candidate) {
+    const { data: stale } = await supabase
+      .from('scan_queue')
+      .select('*')
+      .eq('status', 'running')
+      .lt('updated_at', new Date(now - QUEUE_STALE_AFTER_MS).toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+    candidate = stale as ScanQueueItem | null
+  }
+
+  if (!candidate) return null
+
+  // Only succeeds if nobody else claimed it in the meantime
+  const { data: claimed } = await supabase
+    .from('scan_queue')
+    .update({
+      status: 'running',
+      started_at: candidate.started_at || new Date(now).toISOString(),
+      attempts: (candidate.attempts || 0) + 1,
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq('id', candidate.id)
+    .eq('status', candidate.status)
+    .eq('updated_at', candidate.updated_at)
+    .select()
+    .maybeSingle()
+
+  return claimed as ScanQueueItem | null
+}
+
+/**
+ * Work on a claimed queue item until it is done or the deadline passes
+ */
+export async function runQueueItem(
+  supabase: Supabase,
+  item: ScanQueueItem,
+  { workerId, deadline, concurrency = PAIR_CONCURRENCY }: QueueRunOptions
+): Promise<QueueRunResult> {
+  const checkpoint = item.checkpoint
+  const scanId = item.scan_id
+
+  if (!checkpoint || !scanId) {
+    await updateQueueItem(supabase, item.id, {
+      status: 'failed',
+      error_message: 'Queue item has no scan checkpoint',
+      completed_at: new Date().toISOString(),
+      progress_message: 'Failed: queue item has no scan checkpoint',
+    })
+    return { status: 'failed', scanId, processedPairs: 0, remainingPairs: 0, error: 'Missing checkpoint' }
+  }
+
+  if ((item.attempts || 0) > MAX_QUEUE_ATTEMPTS) {
+    return closeQueueItem(supabase, item, checkpoint, 'failed', `Gave up after ${MAX_QUEUE_ATTEMPTS} attempts`)
+  }
+
+  const { data: project } = await supabase
+    .from(TABLES.PROJECTS)
+    .select('*')
+    .eq('id', item.project_id)
+    .single()
+
+  if (!project) {
+    return closeQueueItem(supabase, item, checkpoint, 'failed', 'Project not found')
+  }
+
+  const { data: queryRows } = await supabase
+    .from(TABLES.PROJECT_QUERIES)
+    .select('id, query_text, query_type, persona_id')
+    .in('id', checkpoint.queryIds)
+
+  // Keep checkpoint order; queries deleted since queueing are skipped
+  const queries = checkpoint.queryIds
+    .map(id => (queryRows || []).find((q: ScanPair['query']) => q.id === id))
+    .filter((q): q is ScanPair['query'] => !!q)
+
+  const totalPairs = buildScanPairs(queries, checkpoint.models, checkpoint.samplesPerQuery).length
+  const retry = checkpoint.retry
+  let chains = new Map<string, ScanChainResult[]>()
+  if (retry) {
+    chains = await loadSavedChains(supabase, scanId, queries)
+  } else {
+    await discardUnfinishedPairs(supabase, scanId, checkpoint, queries)
+  }
+
+  const ctx: ScanPairContext = {
+    supabase,
+    scanId,
+    // A retry runs with the follow-up depth of the original scan
+    project: retry
+      ? { ...project, follow_up_enabled: retry.followUpDepth > 0, follow_up_depth: retry.followUpDepth }
+      : project,
+    evaluationModel: await getEvaluationModelForUser(supabase, item.user_id),
+    cacheStore: createSupabaseCacheStore(supabase),
+  }
+
+  let remaining = getRemainingPairs(checkpoint, queries).map(pair => {
+    const chain = chains.get(getPairKey(pair.query.id, pair.modelId, pair.sampleIndex))
+    return chain ? { ...pair, chain } : pair
+  })
+  let processedPairs = 0
+  console.log(`[Worker ${workerId}] Scan ${scanId}: ${remaining.length}/${totalPairs} pairs left (attempt ${item.attempts || 1})`)
+
+  // Totals travel with the checkpoint: a pair is counted exactly when it is checkpointed,
+  // and a worker that dies between the two writes leaves nothing to count twice
+  const totals = checkpoint.totals ?? await loadScanTotals(supabase, scanId)
+  checkpoint.totals = totals
+
+  // Checkpoint writes are serialized so a slow write never overwrites a newer one
+  let writes: Promise<void> = Promise.resolve()
+  const queryTextById = new Map(queries.map(q => [q.id, q.query_text]))
+  const saveCheckpoint = (pairResult: ScanPairResult) => {
+    const key = getPairKey(pairResult.queryId, pairResult.modelId, pairResult.sampleIndex)
+    if (pairResult.success) {
+      checkpoint.completed.push(key)
+    } else {
+      checkpoint.failed[key] = pairResult.error || 'Processing failed'
+    }
+    totals.costUsd += pairResult.costCents / 100
+    totals.inputTokens += pairResult.inputTokens
+    totals.outputTokens += pairResult.outputTokens
+    totals.results += pairResult.success ? 1 : 0
+    const done = checkpoint.completed.length + Object.keys(checkpoint.failed).length
+    const snapshot = structuredClone({ ...checkpoint, totals })
+
+    writes = writes.then(async () => {
+      // last_pair is what realtime subscribers see for every finished pair
+      const lastPair: ScanPairEvent = {
+        queryId: pairResult.queryId,
+        queryText: queryTextById.get(pairResult.queryId) || '',
+        model: pairResult.modelId,
+        sampleIndex: pairResult.sampleIndex,
+        success: pairResult.success,
+        metrics: pairResult.metrics || null,
+        error: pairResult.error || null,
+        costUsd: pairResult.costCents / 100,
+        totalCostUsd: snapshot.totals.costUsd,
+        finishedAt: new Date().toISOString(),
+      }
+      await updateQueueItem(supabase, item.id, {
+        checkpoint: snapshot,
+        last_pair: lastPair,
+        progress_current: done,
+        progress_total: totalPairs,
+        progress_message: `Processed ${done}/${totalPairs} query-model pairs`,
+      })
+      await saveScanTotals(supabase, scanId, snapshot.totals)
+    })
+    return writes
+  }
+
+  while (remaining.length > 0) {
+    if (Date.now() >= deadline) {
+      await writes
+      await updateQueueItem(supabase, item.id, {
+        status: 'pending',
+        progress_message: `Paused at ${totalPairs - remaining.length}/${totalPairs} pairs, resuming...`,
+      })
+      console.log(`[Worker ${workerId}] Time budget used, ${remaining.length} pairs left for the next worker`)
+      return { status: 'paused', scanId, processedPairs, remainingPairs: remaining.length }
+    }
+
+    // Cancelled from the UI (DELETE /scan/queue/[queueId])
+    const { data: current } = await supabase
+      .from('scan_queue')
+      .select('status')
+      .eq('id', item.id)
+      .single()
+
+    if (current?.status === 'cancelled') {
+      await writes
+      console.log(`[Worker ${workerId}] Scan ${scanId} cancelled by user`)
+      await closeScan(supabase, item, checkpoint)
+      return { status: 'cancelled', scanId, processedPairs, remainingPairs: remaining.length }
+    }
+
+    const batch = remaining.slice(0, concurrency)
+    await Promise.all(batch.map(pair => runScanPair(ctx, pair).then(saveCheckpoint)))
+    processedPairs += batch.length
+    remaining = remaining.slice(batch.length)
+  }
+
+  await writes
+
+  if (checkpoint.completed.length === 0) {
+    return closeQueueItem(supabase, item, checkpoint, 'failed', 'No query-model pair produced a result')
+  }
+  return closeQueueItem(supabase, item, checkpoint, 'completed')
+}
+
+/**
+ * Delete results of pairs a previous worker started but did not checkpoint
+ * (a pair is only complete with its whole follow-up chain)
+ */
+async function discardUnfinishedPairs(
+  supabase: Supabase,
+  scanId: string,
+  checkpoint: ScanQueueCheckpoint,
+  queries: ScanPair['query'][]
+): Promise<void> {
+  const { data: existing } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('query_text, model, sample_index')
+    .eq('scan_id', scanId)
+
+  if (!existing || existing.length === 0) return
+
+  const done = new Set([...checkpoint.completed, ...Object.keys(checkpoint.failed)])
+  const queryIdByText = new Map(queries.map(q => [q.query_text, q.id]))
+  const unfinished = new Map<string, { query_text: string; model: string; sample_index: number }>()
+
+  for (const row of existing as { query_text: string; model: string; sample_index: number | null }[]) {
+    const queryId = queryIdByText.get(row.query_text)
+    if (!queryId) continue
+    const key = getPairKey(queryId, row.model, row.sample_index ?? 0)
+    if (!done.has(key)) {
+      unfinished.set(key, { query_text: row.query_text, model: row.model, sample_index: row.sample_index ?? 0 })
+    }
+  }
+
+  for (const pair of unfinished.values()) {
+    await supabase
+      .from(TABLES.SCAN_RESULTS)
+      .delete()
+      .eq('scan_id', scanId)
+      .eq('query_text', pair.query_text)
+      .eq('model', pair.model)
+      .eq('sample_index', pair.sample_index)
+  }
+
+  if (unfinished.size > 0) {
+    console.log(`[Scan Runner] Discarded ${unfinished.size} unfinished pair(s) of scan ${scanId}`)
+  }
+}
+
+/**
+ * Saved results of a scan per pair, for continuing chains on retry
+ * Only the gapless levels from 0 are kept; results after a gap are deleted and re-run.
+ */
+async function loadSavedChains(
+  supabase: Supabase,
+  scanId: string,
+  queries: ScanPair['query'][]
+): Promise<Map<string, ScanChainResult[]>> {
+  const { data: existing } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('id, query_text, model, sample_index, follow_up_level, ai_response_raw, follow_up_query_used, metrics_json')
+    .eq('scan_id', scanId)
+
+  const queryIdByText = new Map(queries.map(q => [q.query_text, q.id]))
+  const byPair = new Map<string, (ScanChainResult & { model: string })[]>()
+
+  for (const row of (existing || []) as (ScanChainResult & { query_text: string; model: string; sample_index: number | null })[]) {
+    const queryId = queryIdByText.get(row.query_text)
+    if (!queryId) continue
+    const key = getPairKey(queryId, row.model, row.sample_index ?? 0)
+    byPair.set(key, [...(byPair.get(key) || []), row])
+  }
+
+  const chains = new Map<string, ScanChainResult[]>()
+  for (const [key, rows] of byPair) {
+    rows.sort((a, b) => (a.follow_up_level || 0) - (b.follow_up_level || 0))
+    const chain: ScanChainResult[] = []
+    for (const row of rows) {
+      if ((row.follow_up_level || 0) === chain.length && (chain.length > 0 || row.metrics_json)) {
+        chain.push(row)
+        continue
+      }
+      await supabase.from(TABLES.SCAN_RESULTS).delete().eq('id', row.id)
+    }
+    if (chain.length > 0) chains.set(key, chain)
+  }
+
+  return chains
+}
+
+/**
+ * Finish the scan with whatever results exist
+ * Results are scored and charged; a scan without results is stopped and its reservation released.
+ */
+export async function closeScan(
+  supabase: Supabase,
+  item: Pick<ScanQueueItem, 'scan_id' | 'project_id' | 'user_id'>,
+  checkpoint: ScanQueueCheckpoint | null
+): Promise<void> {
+  if (!item.scan_id) return
+  const reservationId = checkpoint?.reservationId || null
+
+  const { data: anyResult } = await supabase
+    .from(TABLES.SCAN_RESULTS)
+    .select('id')
+    .eq('scan_id', item.scan_id)
+    .limit(1)
+
+  if (anyResult && anyResult.length > 0) {
+    await finalizeScan(supabase, {
+      scanId: item.scan_id,
+      projectId: item.project_id,
+      userId: item.user_id,
+      reservationId,
+      previous: checkpoint?.retry,
+    })
+    return
+  }
+
+  if (reservationId) {
+    await releaseReservation(reservationId, 'Scan stopped without results')
+  }
+  await supabase
+    .from(TABLES.SCANS)
+    .update({ status: 'stopped', completed_at: new Date().toISOString() })
+    .eq('id', item.scan_id)
+}
+
+async function closeQueueItem(
+  supabase: Supabase,
+  item: ScanQueueItem,
+  checkpoint: ScanQueueCheckpoint,
+  status: 'completed' | 'failed',
+  error?: string
+): Promise<QueueRunResult> {
+  let finalStatus = status
+  let finalError = error
+
+  try {
+    await closeScan(supabase, item, checkpoint)
+  } catch (closeError: any) {
+    console.error(`[Scan Runner] Failed to finalize scan ${item.scan_id}:`, closeError.message)
+    finalStatus = 'failed'
+    finalError = 'Failed to finalize scan'
+  }
+
+  if (finalStatus === 'failed' && item.scan_id && checkpoint.completed.length === 0) {
+    await supabase
+      .from(TABLES.SCANS)
+      .update({ status: 'failed', completed_at: new Date().toISOString() })
+      .eq('id', item.scan_id)
+  }
+
+  const failedPairs = Object.keys(checkpoint.failed).length
+  await updateQueueItem(supabase, item.id, {
+    status: finalStatus,
+    error_message: finalError || null,
+    completed_at: new Date().toISOString(),
+    progress_message: finalStatus === 'completed'
+      ? failedPairs > 0 ? `Scan completed (${failedPairs} pair(s) failed)` : 'Scan completed'
+      : `Failed: ${finalError}`,
+  })
+
+  return {
+    status: finalStatus,
+    scanId: item.scan_id,
+    processedPairs: 0,
+    remainingPairs: 0,
+    error: finalError,
+  }
+}
+
+async function updateQueueItem(supabase: Supabase, id: string, updates: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('scan_queue')
+    .update(updates)
+    .eq('id', id)
+
+  if (error) {
+    console.error(`[Scan Runner] Failed to update queue item ${id}:`, error.message)
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Repeated sampling per query
+ *
+ * Each query×model pair can be asked N times (temperature 0.7 makes answers
+ * vary). Every sample is stored as a sibling result (same query, model and
+ * follow-up level, different sample_index). The scan then reports how much
+ * the score moves between runs instead of trusting a single answer.
+ */
+
+import type { SampleStats, ScanSamplingStats } from '@/lib/db/schema'
+
+// ============================================
+// SETTINGS
+// ============================================
+
+/** Maximum number of samples per query×model pair */
+export const MAX_SAMPLES_PER_QUERY = 5
+
+/**
+ * Normalize samples_per_query from API input (integer 1-MAX_SAMPLES_PER_QUERY)
+ */
+export function normalizeSamplesPerQuery(input: unknown): number {
+  const value = typeof input === 'string' ? parseInt(input, 10) : Number(input)
+  if (!Number.isFinite(value)) return 1
+  return Math.min(MAX_SAMPLES_PER_QUERY, Math.max(1, Math.round(value)))
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Two-sided 95% t-distribution critical values by degrees of freedom
+ * (df > 30 uses the normal approximation 1.96)
+ */
+const T_CRITICAL_95: Record<number, number> = {
+  1: 12.706, 2: 4.303, 3: 3.182, 4: 2.776, 5: 2.571,
+  6: 2.447, 7: 2.365, 8: 2.306, 9: 2.262, 10: 2.228,
+  11: 2.201, 12: 2.179, 13: 2.160, 14: 2.145, 15: 2.131,
+  16: 2.120, 17: 2.110, 18: 2.101, 19: 2.093, 20: 2.086,
+  21: 2.080, 22: 2.074, 23: 2.069, 24: 2.064, 25: 2.060,
+  26: 2.056, 27: 2.052, 28: 2.048, 29: 2.045, 30: 2.042,
+}
+
+/**
+ * Two-sided 95% t critical value for the given degrees of freedom
+ */
+export function getTCritical95(df: number): number {
+  if (df < 1) return Infinity
+  return T_CRITICAL_95[Math.floor(df)] ?? 1.96
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * Mean, min/max and 95% confidence interval of the mean
+ * Confidence interval is null with fewer than 2 values. Bounds are clamped to 0-100.
+ */
+export function calculateSampleStats(values: number[]): SampleStats {
+  const n = values.length
+  if (n === 0) {
+    return { mean: 0, min: 0, max: 0, ci_low: null, ci_high: null, n: 0 }
+  }
+
+  const mean = values.reduce((a, b) => a + b, 0) / n
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+
+  if (n < 2) {
+    return { mean: round1(mean), min, max, ci_low: null, ci_high: null, n }
+  }
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)
+  const t = getTCritical95(n - 1)
+  const margin = t * Math.sqrt(variance / n)
+
+  return {
+    mean: round1(mean),
+    min: round1(min),
+    max: round1(max),
+    ci_low: round1(Math.max(0, mean - margin)),
+    ci_high: round1(Math.min(100, mean + margin)),
+    n,
+  }
+}
+
+/**
+ * Result fields needed for sampling statistics
+ */
+export interface ResultForSampling {
+  follow_up_level: number
+  sample_index: number
+  visibility_score: number
+  recommendation_score: number
+}
+
+/**
+ * Calculate scan-level sampling statistics
+ *
+ * Initial responses (level 0) are grouped into runs by sample_index; each run
+ * is scored like a single-sample scan (average over all query×model pairs).
+ * Stats across runs show how much the scan score would move on a re-run.
+ * Returns null when the scan has only one sample per pair.
+ */
+export function calculateSamplingStats(results: ResultForSampling[]): ScanSamplingStats | null {
+  const runs = new Map<number, { visibility: number[]; recommendation: number[] }>()
+
+  for (const result of results) {
+    if (result.follow_up_level !== 0) continue
+    const run = runs.get(result.sample_index) || { visibility: [], recommendation: [] }
+    run.visibility.push(result.visibility_score)
+    run.recommendation.push(result.recommendation_score)
+    runs.set(result.sample_index, run)
+  }
+
+  if (runs.size < 2) return null
+
+  const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length
+  const runList = Array.from(runs.values())
+
+  return {
+    samples_per_query: runs.size,
+    visibility: calculateSampleStats(runList.map(r => avg(r.visibility))),
+    recommendation: calculateSampleStats(runList.map(r => avg(r.recommendation))),
+  }
+}
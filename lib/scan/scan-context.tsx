@@ -1,24 +1,30 @@
 'use client'
 
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { subscribeToScanQueue } from '@/lib/scan/realtime'
+import type { ScanPairEvent, ScanQueueItem } from '@/lib/db/schema'
 
 // ============================================
 // Types
 // ============================================
 
 export interface ScanJob {
-  id: string          // Scan ID (from /scan/start)
+  id: string          // Scan ID (from /scan/queue)
   projectId: string
   projectName: string
   status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
   progress: {
-    current: number   // Completed queries count
-    total: number     // Total queries count
+    current: number   // Finished query-model pairs
+    total: number     // Total query-model pairs
     message?: string
   }
   error?: string
   errorCode?: string  // For specific error handling (SCAN_LIMIT_REACHED, INSUFFICIENT_CREDITS, etc.)
-  scanId?: string     // Same as id for browser-based scans
+  warning?: string    // Non-blocking notice, e.g. the project nearing its monthly budget
+  scanId?: string     // Same as id
+  queueId?: string    // scan_queue item the server-side worker runs
+  lastPair?: ScanPairEvent  // Latest finished query-model pair (model, query, metrics, cost so far)
   startedAt?: Date
 }
 
@@ -56,42 +62,71 @@ interface ScanProviderProps {
 // Constants
 // ============================================
 
-/** Maximum queries per chunk — keeps edge runtime under 25s timeout */
-const MAX_QUERIES_PER_CHUNK = 2
+/** How often progress of a queued scan is polled when realtime is unavailable */
+const POLL_INTERVAL_MS = 2000
 
-/** Maximum retry attempts for a failed chunk */
-const MAX_CHUNK_RETRIES = 1
+/** Queue statuses after which the worker no longer touches the scan */
+const TERMINAL_QUEUE_STATUSES = ['completed', 'failed', 'cancelled']
 
-// ============================================
-// Helper: Calculate optimal chunk size
-// ============================================
+interface QueueStatus {
+  queueId: string
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+  scanId: string | null
+  progress: { current: number; total: number; message: string | null }
+  error: string | null
+  lastPair: ScanPairEvent | null
+}
 
 /**
- * Calculate how many queries to include per chunk based on model count.
- * Each query×model takes ~3-8s (LLM call + evaluation), so we need to fit
- * within the 25s edge timeout.
- * 
- * @param modelCount - Number of models selected
- * @returns Number of queries per chunk
+ * Job fields from a scan_queue row (realtime payload)
  */
-function calculateChunkSize(modelCount: number): number {
-  // Rough estimate: ~5s per query×model (LLM call + evaluation)
-  // Edge timeout: 25s, with safety margin: 20s usable
-  // So: Math.floor(20 / (modelCount * 5))
-  const estimated = Math.max(1, Math.floor(20 / (modelCount * 5)))
-  return Math.min(estimated, MAX_QUERIES_PER_CHUNK)
+function fromQueueItem(item: ScanQueueItem): Partial<ScanJob> {
+  return {
+    status: toJobStatus(item.status),
+    scanId: item.scan_id || undefined,
+    progress: {
+      current: item.progress_current || 0,
+      total: item.progress_total || 0,
+      message: item.progress_message || undefined,
+    },
+    error: item.error_message || undefined,
+    lastPair: item.last_pair || undefined,
+  }
+}
+
+/**
+ * Map a scan_queue status onto the job status shown in the UI.
+ * Paused items are pending until the next worker claims them.
+ */
+function toJobStatus(status: QueueStatus['status']): ScanJob['status'] {
+  switch (status) {
+    case 'pending':
+    case 'paused':
+      return 'queued'
+    case 'running':
+      return 'running'
+    default:
+      return status
+  }
 }
 
 // ============================================
 // Provider
 // ============================================
 
+/**
+ * Scans run server-side (scan_queue + /api/cron/process-queue), so the browser
+ * only starts them and follows their progress. Progress is pushed via Supabase
+ * realtime; polling is the fallback when the realtime channel fails.
+ * Closing the tab does not stop a scan; active scans are picked up again on the next page load.
+ */
 export function ScanProvider({ children }: ScanProviderProps) {
   const [jobs, setJobs] = useState<ScanJob[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   
-  // Track AbortControllers for active scans (keyed by projectId)
-  const abortControllersRef = useRef<Map<string, AbortController>>(new Map())
+  // Progress polling timers (keyed by projectId), only used without realtime
+  const pollersRef = useRef<Map<string, ReturnType<typeof setInterval>>>(new Map())
+  const realtimeFailedRef = useRef(false)
   
   // Use a ref to always have access to the latest jobs state
   const jobsRef = useRef<ScanJob[]>(jobs)
@@ -100,64 +135,14 @@ export function ScanProvider({ children }: ScanProviderProps) {
     setIsProcessing(jobs.some(j => ['queued', 'running'].includes(j.status)))
   }, [jobs])
   
-  // Prevent accidental window close during active scan
-  useEffect(() => {
-    const hasRunningScan = jobs.some(j => j.status === 'running')
-    
-    if (!hasRunningScan) {
-      // No active scan — no need for listener
-      return
-    }
-    
-    // Add beforeunload listener to warn user before closing
-    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
-      // Standard way to trigger browser's "Are you sure?" dialog
-      event.preventDefault()
-      // Chrome requires returnValue to be set
-      event.returnValue = ''
-      return ''
-    }
-    
-    window.addEventListener('beforeunload', handleBeforeUnload)
-    
-    // Cleanup: remove listener when scan finishes or component unmounts
-    return () => {
-      window.removeEventListener('beforeunload', handleBeforeUnload)
-    }
-  }, [jobs])
-  
   // Cleanup on unmount
   useEffect(() => {
+    const pollers = pollersRef.current
     return () => {
-      abortControllersRef.current.forEach(controller => controller.abort())
-      abortControllersRef.current.clear()
+      pollers.forEach(timer => clearInterval(timer))
+      pollers.clear()
     }
   }, [])
-
-  // Restore active scans on initial load — mark any "running" scans as stopped
-  // (since browser-based scans can't survive a page refresh)
-  useEffect(() => {
-    const cleanupStuckScans = async () => {
-      try {
-        const res = await fetch('/api/scan/active')
-        if (!res.ok) return
-        
-        const data = await res.json()
-        const { stuckScansFixed } = data
-        
-        if (stuckScansFixed && stuckScansFixed > 0) {
-          console.log(`[Scan] Auto-cleaned ${stuckScansFixed} stuck scan(s)`)
-          window.dispatchEvent(new CustomEvent('stuck-scans-cleaned', { 
-            detail: { count: stuckScansFixed } 
-          }))
-        }
-      } catch (error) {
-        console.warn('[Scan] Failed to cleanup stuck scans:', error)
-      }
-    }
-    
-    cleanupStuckScans()
-  }, [])
   
   // ============================================
   // Update job helper
@@ -170,70 +155,155 @@ export function ScanProvider({ children }: ScanProviderProps) {
   }, [])
 
   // ============================================
-  // Process chunks in browser
+  // Follow progress of a queued scan
   // ============================================
 
+  const stopPolling = useCallback((projectId: string) => {
+    const timer = pollersRef.current.get(projectId)
+    if (timer) {
+      clearInterval(timer)
+      pollersRef.current.delete(projectId)
+    }
+  }, [])
+
+  const pollJob = useCallback(async (projectId: string, queueId: string) => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/scan/queue/${queueId}`)
+      if (!res.ok) {
+        if (res.status === 404) {
+          stopPolling(projectId)
+          updateJob(projectId, { status: 'failed', error: 'Scan not found' })
+        }
+        return
+      }
+
+      const data: QueueStatus = await res.json()
+      const status = toJobStatus(data.status)
+
+      updateJob(projectId, {
+        status,
+        scanId: data.scanId || undefined,
+        progress: {
+          current: data.progress.current,
+          total: data.progress.total,
+          message: data.progress.message || undefined,
+        },
+        error: data.error || undefined,
+        lastPair: data.lastPair || undefined,
+      })
+
+      if (TERMINAL_QUEUE_STATUSES.includes(data.status)) {
+        stopPolling(projectId)
+        console.log(`[Scan] Scan ${data.scanId} ${data.status}: ${data.progress.current}/${data.progress.total} pairs`)
+      }
+    } catch (error) {
+      // Keep polling - the scan itself runs on the server
+      console.warn('[Scan] Failed to poll scan progress:', error)
+    }
+  }, [stopPolling, updateJob])
+
+  const startPolling = useCallback((projectId: string, queueId: string) => {
+    stopPolling(projectId)
+    pollersRef.current.set(projectId, setInterval(() => pollJob(projectId, queueId), POLL_INTERVAL_MS))
+  }, [stopPolling, pollJob])
+
   /**
-   * Process a single chunk of queries via the /scan/chunk API endpoint.
-   * Retries once on failure before giving up.
-   * 
-   * @returns Object with completedQueries count and totalCostCents
+   * Load the current state once, then rely on realtime (or polling without it)
    */
-  const processChunk = useCallback(async (
-    projectId: string,
-    scanId: string,
-    queryIds: string[],
-    modelIds: string[],
-    signal: AbortSignal
-  ): Promise<{ completedQueries: number; totalCostCents: number; success: boolean }> => {
-    let lastError: Error | null = null
-    
-    for (let attempt = 0; attempt <= MAX_CHUNK_RETRIES; attempt++) {
-      try {
-        if (signal.aborted) {
-          return { completedQueries: 0, totalCostCents: 0, success: false }
-        }
-        
-        const res = await fetch(`/api/projects/${projectId}/scan/chunk`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ scanId, queryIds, modelIds }),
-          signal,
-        })
-        
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({ error: 'Unknown error' }))
-          throw new Error(errorData.error || `Chunk failed (${res.status})`)
+  const followJob = useCallback((projectId: string, queueId: string) => {
+    pollJob(projectId, queueId)
+    if (realtimeFailedRef.current) startPolling(projectId, queueId)
+  }, [pollJob, startPolling])
+
+  // Push channel for all of the user's queue items
+  useEffect(() => {
+    const supabase = createClient()
+    let unsubscribe: (() => void) | null = null
+    let cancelled = false
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return
+
+      unsubscribe = subscribeToScanQueue(
+        supabase,
+        user.id,
+        item => {
+          // Cancelled jobs are already closed locally
+          const job = jobsRef.current.find(j => j.queueId === item.id)
+          if (!job || job.status === 'cancelled') return
+
+          updateJob(job.projectId, fromQueueItem(item))
+          if (TERMINAL_QUEUE_STATUSES.includes(item.status)) {
+            stopPolling(job.projectId)
+          }
+        },
+        () => {
+          // Realtime unavailable - poll active jobs instead
+          realtimeFailedRef.current = true
+          jobsRef.current
+            .filter(j => j.queueId && ['queued', 'running'].includes(j.status))
+            .forEach(j => startPolling(j.projectId, j.queueId!))
         }
+      )
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [updateJob, stopPolling, startPolling])
+
+  // Restore active scans on initial load (they keep running server-side)
+  // and clean up scans of the old browser-based flow that can no longer finish
+  useEffect(() => {
+    const restoreActiveScans = async () => {
+      try {
+        const res = await fetch('/api/scan/active')
+        if (!res.ok) return
         
         const data = await res.json()
-        return {
-          completedQueries: data.completedQueries || queryIds.length,
-          totalCostCents: data.totalCostCents || 0,
-          success: true,
-        }
-      } catch (error: unknown) {
-        if (error instanceof DOMException && error.name === 'AbortError') {
-          return { completedQueries: 0, totalCostCents: 0, success: false }
-        }
-        
-        lastError = error instanceof Error ? error : new Error(String(error))
+        const { scans = [], stuckScansFixed } = data
         
-        if (attempt < MAX_CHUNK_RETRIES) {
-          console.warn(`[Scan] Chunk retry ${attempt + 1}/${MAX_CHUNK_RETRIES} for queries [${queryIds.join(',')}]:`, lastError.message)
-          // Brief pause before retry
-          await new Promise(resolve => setTimeout(resolve, 1000))
+        if (stuckScansFixed && stuckScansFixed > 0) {
+          console.log(`[Scan] Auto-cleaned ${stuckScansFixed} stuck scan(s)`)
+          window.dispatchEvent(new CustomEvent('stuck-scans-cleaned', { 
+            detail: { count: stuckScansFixed } 
+          }))
         }
+
+        const restored: ScanJob[] = scans.map((scan: QueueStatus & { projectId: string; projectName: string; startedAt: string | null }) => ({
+          id: scan.scanId || scan.queueId,
+          projectId: scan.projectId,
+          projectName: scan.projectName,
+          status: toJobStatus(scan.status),
+          scanId: scan.scanId || undefined,
+          queueId: scan.queueId,
+          progress: {
+            current: scan.progress.current,
+            total: scan.progress.total,
+            message: scan.progress.message || undefined,
+          },
+          lastPair: scan.lastPair || undefined,
+          startedAt: scan.startedAt ? new Date(scan.startedAt) : undefined,
+        }))
+
+        if (restored.length === 0) return
+
+        setJobs(prev => [
+          ...prev.filter(j => !restored.some(r => r.projectId === j.projectId)),
+          ...restored,
+        ])
+        restored.forEach(job => followJob(job.projectId, job.queueId!))
+      } catch (error) {
+        console.warn('[Scan] Failed to restore active scans:', error)
       }
     }
     
-    // All retries exhausted — log error but continue with other chunks
-    console.error(`[Scan] Chunk failed after ${MAX_CHUNK_RETRIES + 1} attempts:`, lastError?.message)
-    return { completedQueries: queryIds.length, totalCostCents: 0, success: false }
-  }, [])
+    restoreActiveScans()
+  }, [followJob])
 
   // ============================================
-  // Start Scan (browser-based chunked)
+  // Start Scan (server-side queue)
   // ============================================
 
   const startScan = useCallback(async (projectId: string, projectName: string) => {
@@ -247,21 +317,29 @@ export function ScanProvider({ children }: ScanProviderProps) {
       return
     }
     
-    // Create AbortController for this scan
-    const abortController = new AbortController()
-    abortControllersRef.current.set(projectId, abortController)
-    const { signal } = abortController
-    
     try {
-      // Step 1: Call /scan/start to create scan record and get metadata
-      const startRes = await fetch(`/api/projects/${projectId}/scan/start`, {
-        method: 'POST',
-        signal,
-      })
-      
-      if (!startRes.ok) {
-        const errorData = await startRes.json().catch(() => ({ error: 'Unknown error' }))
-        
+      const res = await fetch(`/api/projects/${projectId}/scan/queue`, { method: 'POST' })
+      const data = await res.json().catch(() => ({ error: 'Unknown error' }))
+
+      // Already running (e.g. started in another tab) - follow that scan instead
+      if (res.status === 409 && data.code === 'SCAN_ALREADY_QUEUED' && data.queueId) {
+        setJobs(prev => [
+          ...prev.filter(j => j.projectId !== projectId),
+          {
+            id: data.queueId,
+            projectId,
+            projectName,
+            status: 'queued' as const,
+            queueId: data.queueId,
+            progress: { current: 0, total: 0, message: 'Scan already in progress...' },
+            startedAt: new Date(),
+          },
+        ])
+        followJob(projectId, data.queueId)
+        return
+      }
+
+      if (!res.ok) {
         // Add failed job to show error
         setJobs(prev => {
           const filtered = prev.filter(j => j.projectId !== projectId)
@@ -271,173 +349,37 @@ export function ScanProvider({ children }: ScanProviderProps) {
             projectName,
             status: 'failed' as const,
             progress: { current: 0, total: 0 },
-            error: errorData.error || `Failed to start scan (${startRes.status})`,
-            errorCode: errorData.code,
+            error: data.error || `Failed to start scan (${res.status})`,
+            errorCode: data.code,
           }]
         })
-        abortControllersRef.current.delete(projectId)
         return
       }
-      
-      const scanData = await startRes.json()
-      const { 
-        scanId, 
-        queries, 
-        models, 
-        reservationId,
-        followUpEnabled,
-        followUpDepth,
-      } = scanData
-      
-      const totalQueries = queries.length
-      const queryIds: string[] = queries.map((q: { id: string }) => q.id)
-      
-      // Add running job
-      const newJob: ScanJob = {
-        id: scanId,
-        projectId,
-        projectName,
-        status: 'running',
-        scanId,
-        progress: { 
-          current: 0, 
-          total: totalQueries, 
-          message: `Starting scan (${totalQueries} queries, ${models.length} models)...` 
-        },
-        startedAt: new Date(),
-      }
-      
+
+      const { queueId, scanId, totalPairs, models = [], budgetWarning } = data
+
       setJobs(prev => {
         const filtered = prev.filter(j => j.projectId !== projectId)
-        return [...filtered, newJob]
-      })
-      
-      console.log(`[Scan] Started scan ${scanId}: ${totalQueries} queries × ${models.length} models`)
-      
-      // Step 2: Split queries into chunks and process sequentially
-      const chunkSize = calculateChunkSize(models.length)
-      const chunks: string[][] = []
-      
-      for (let i = 0; i < queryIds.length; i += chunkSize) {
-        chunks.push(queryIds.slice(i, i + chunkSize))
-      }
-      
-      console.log(`[Scan] Processing ${chunks.length} chunks (${chunkSize} queries per chunk)`)
-      
-      let completedQueries = 0
-      let totalCostCents = 0
-      let failedChunks = 0
-      
-      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-        // Check if cancelled
-        if (signal.aborted) {
-          console.log(`[Scan] Scan ${scanId} cancelled by user`)
-          break
-        }
-        
-        const chunkQueryIds = chunks[chunkIndex]
-        
-        // Update progress message
-        updateJob(projectId, {
-          progress: {
-            current: completedQueries,
-            total: totalQueries,
-            message: `Processing query ${completedQueries + 1}/${totalQueries}...`,
-          },
-        })
-        
-        // Process chunk
-        const result = await processChunk(projectId, scanId, chunkQueryIds, models, signal)
-        
-        if (signal.aborted) break
-        
-        if (result.success) {
-          completedQueries += result.completedQueries
-          totalCostCents += result.totalCostCents
-        } else {
-          // Chunk failed after retries — count queries as processed but failed
-          completedQueries += chunkQueryIds.length
-          failedChunks++
-        }
-        
-        // Update progress
-        updateJob(projectId, {
-          progress: {
-            current: completedQueries,
-            total: totalQueries,
-            message: completedQueries < totalQueries 
-              ? `Processing query ${completedQueries + 1}/${totalQueries}...`
-              : 'Finalizing scan...',
-          },
-        })
-      }
-      
-      // Step 3: Complete the scan (calculate scores)
-      if (!signal.aborted) {
-        try {
-          const completeRes = await fetch(`/api/projects/${projectId}/scan/${scanId}/complete`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ reservationId }),
-            signal,
-          })
-          
-          if (!completeRes.ok) {
-            console.error(`[Scan] Failed to complete scan ${scanId}:`, completeRes.status)
-          }
-        } catch (error) {
-          if (!(error instanceof DOMException && (error as DOMException).name === 'AbortError')) {
-            console.error(`[Scan] Error completing scan ${scanId}:`, error)
-          }
-        }
-        
-        // Mark as completed
-        const finalStatus = failedChunks > 0 && failedChunks === chunks.length ? 'failed' : 'completed'
-        
-        updateJob(projectId, {
-          status: finalStatus,
-          progress: {
-            current: completedQueries,
-            total: totalQueries,
-            message: finalStatus === 'completed' 
-              ? `Scan completed (${completedQueries} queries processed)`
-              : `Scan completed with errors (${failedChunks} chunks failed)`,
-          },
-          error: failedChunks > 0 ? `${failedChunks} chunk(s) failed` : undefined,
-        })
-        
-        console.log(`[Scan] Scan ${scanId} ${finalStatus}: ${completedQueries}/${totalQueries} queries, cost: ${totalCostCents} cents, failed chunks: ${failedChunks}`)
-      } else {
-        // Scan was cancelled — mark as stopped on server
-        try {
-          await fetch(`/api/projects/${projectId}/scan/${scanId}/complete`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ reservationId }),
-          })
-        } catch {
-          // Best effort cleanup
-        }
-        
-        updateJob(projectId, {
-          status: 'cancelled',
+        return [...filtered, {
+          id: scanId,
+          projectId,
+          projectName,
+          status: 'queued' as const,
+          scanId,
+          queueId,
           progress: {
-            current: completedQueries,
-            total: totalQueries,
-            message: 'Scan cancelled by user',
+            current: 0,
+            total: totalPairs,
+            message: `Waiting in queue (${totalPairs} query-model pairs, ${models.length} models)...`,
           },
-          error: 'Cancelled by user',
-        })
-        
-        console.log(`[Scan] Scan ${scanId} cancelled: ${completedQueries}/${totalQueries} queries completed before cancel`)
-      }
-      
+          warning: budgetWarning || undefined,
+          startedAt: new Date(),
+        }]
+      })
+
+      console.log(`[Scan] Queued scan ${scanId} (queue item ${queueId}): ${totalPairs} pairs`)
+      followJob(projectId, queueId)
     } catch (error: unknown) {
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        // Cancelled during start — already handled
-        return
-      }
-      
       const errorMessage = error instanceof Error ? error.message : 'Failed to start scan'
       console.error('[Scan] Error starting scan:', error)
       
@@ -452,43 +394,42 @@ export function ScanProvider({ children }: ScanProviderProps) {
           error: errorMessage,
         }]
       })
-    } finally {
-      abortControllersRef.current.delete(projectId)
     }
-  }, [updateJob, processChunk])
+  }, [followJob])
 
   // ============================================
   // Cancel Scan
   // ============================================
 
   const cancelScan = useCallback((projectId: string) => {
-    const controller = abortControllersRef.current.get(projectId)
-    if (controller) {
-      controller.abort()
-      // The startScan async loop will handle cleanup and status update
-    } else {
-      // No active controller — just update status locally
-      setJobs(prev => prev.map(j => 
-        j.projectId === projectId && ['queued', 'running'].includes(j.status)
-          ? { ...j, status: 'cancelled' as const, error: 'Cancelled by user' }
-          : j
-      ))
+    const job = jobsRef.current.find(
+      j => j.projectId === projectId && ['queued', 'running'].includes(j.status)
+    )
+    if (!job) return
+
+    // The worker finishes its current pairs, then scores or stops the scan
+    updateJob(projectId, {
+      status: 'cancelled',
+      error: 'Cancelled by user',
+      progress: { ...job.progress, message: 'Scan cancelled by user' },
+    })
+    stopPolling(projectId)
+
+    if (job.queueId) {
+      fetch(`/api/projects/${projectId}/scan/queue/${job.queueId}`, { method: 'DELETE' })
+        .catch(error => console.error('[Scan] Failed to cancel scan:', error))
     }
-  }, [])
+  }, [updateJob, stopPolling])
 
   // ============================================
   // Clear helpers
   // ============================================
 
   const clearJob = useCallback((projectId: string) => {
-    // Ensure any active scan is cancelled
-    const controller = abortControllersRef.current.get(projectId)
-    if (controller) {
-      controller.abort()
-      abortControllersRef.current.delete(projectId)
-    }
+    // Stops following the scan; a running scan continues on the server
+    stopPolling(projectId)
     setJobs(prev => prev.filter(job => job.projectId !== projectId))
-  }, [])
+  }, [stopPolling])
   
   const clearCompleted = useCallback(() => {
     setJobs(prev => prev.filter(job => !['completed', 'failed', 'cancelled'].includes(job.status)))
@@ -0,0 +1,124 @@
+/**
+ * Resilience scoring profiles
+ *
+ * The coefficients of calculateResilienceScore (how much a better or worse
+ * follow-up moves the score, the persistence bonus/penalty) and the legacy
+ * follow-up weights. Projects can override any of them; missing values use
+ * DEFAULT_SCORING_PROFILE. Every change bumps the project's
+ * scoring_profile_version, and each scan stores the version and the resolved
+ * coefficients it was scored with, so it can be re-scored from its stored
+ * metrics without AI calls.
+ */
+
+import type { ScoringProfileOverrides } from '@/lib/db/schema'
+
+export type FollowUpDepthKey = 'depth1' | 'depth2' | 'depth3'
+
+export interface ScoringProfile {
+  improvementFactor: number    // Share of a follow-up improvement that is added
+  declineFactor: number        // Share of a decline that is subtracted while the brand stays
+  disappearanceFactor: number  // Share of a decline that is subtracted when the brand disappears
+  persistenceBonus: number     // Points for a brand mentioned at every level
+  persistencePenalty: number   // Points lost when the brand drops out of every follow-up
+  followUpWeights: Record<FollowUpDepthKey, Record<number, number>>  // Level weights per depth (legacy weighted score)
+}
+
+export type ScoringCoefficient = Exclude<keyof ScoringProfile, 'followUpWeights'>
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  improvementFactor: 0.5,
+  declineFactor: 0.2,
+  disappearanceFactor: 0.4,
+  persistenceBonus: 5,
+  persistencePenalty: 5,
+  followUpWeights: {
+    depth1: { 0: 0.5, 1: 0.5 },                      // 50% initial, 50% F1
+    depth2: { 0: 0.35, 1: 0.35, 2: 0.30 },           // 35% initial, 35% F1, 30% F2
+    depth3: { 0: 0.30, 1: 0.30, 2: 0.25, 3: 0.15 },  // 30% initial, 30% F1, 25% F2, 15% F3
+  },
+}
+
+// Version of projects that never changed their profile
+export const DEFAULT_SCORING_PROFILE_VERSION = 1
+
+// Version of the aggregate formulas (calculateScoreAggregates in lib/scan/finalize.ts),
+// stored with every scan. Bump it whenever a formula changes.
+// 1 = weighted average of all levels (before migration 018)
+// 2 = resilience score: initial score, follow-up adjustment, persistence bonus/penalty
+export const SCORING_FORMULA_VERSION = 2
+
+// Accepted range per coefficient (settings form and API)
+export const SCORING_COEFFICIENT_LIMITS: Record<ScoringCoefficient, { min: number; max: number }> = {
+  improvementFactor: { min: 0, max: 1 },
+  declineFactor: { min: 0, max: 1 },
+  disappearanceFactor: { min: 0, max: 1 },
+  persistenceBonus: { min: 0, max: 20 },
+  persistencePenalty: { min: 0, max: 20 },
+}
+
+export const SCORING_COEFFICIENTS = Object.keys(SCORING_COEFFICIENT_LIMITS) as ScoringCoefficient[]
+
+const DEPTH_KEYS: FollowUpDepthKey[] = ['depth1', 'depth2', 'depth3']
+
+/**
+ * Clean profile overrides from the settings form
+ * Known coefficients within their limits only; weights are kept per depth
+ * when every level has a weight between 0 and 1 and they sum to 1.
+ */
+export function normalizeScoringProfile(input: unknown): ScoringProfileOverrides {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {}
+  const raw = input as Record<string, unknown>
+  const profile: ScoringProfileOverrides = {}
+
+  for (const key of SCORING_COEFFICIENTS) {
+    if (raw[key] === null || raw[key] === undefined || raw[key] === '') continue
+    const value = Number(raw[key])
+    if (!Number.isFinite(value)) continue
+    const { min, max } = SCORING_COEFFICIENT_LIMITS[key]
+    profile[key] = Math.round(Math.min(max, Math.max(min, value)) * 1000) / 1000
+  }
+
+  const weights = raw.followUpWeights
+  if (weights && typeof weights === 'object' && !Array.isArray(weights)) {
+    DEPTH_KEYS.forEach((depthKey, index) => {
+      const levels = (weights as Record<string, unknown>)[depthKey]
+      const normalized = normalizeDepthWeights(levels, index + 1)
+      if (normalized) {
+        profile.followUpWeights = { ...profile.followUpWeights, [depthKey]: normalized }
+      }
+    })
+  }
+
+  return profile
+}
+
+function normalizeDepthWeights(input: unknown, depth: number): Record<number, number> | null {
+  if (!input || typeof input !== 'object') return null
+  const weights: Record<number, number> = {}
+  let sum = 0
+  for (let level = 0; level <= depth; level++) {
+    const value = Number((input as Record<number, unknown>)[level])
+    if (!Number.isFinite(value) || value < 0 || value > 1) return null
+    weights[level] = value
+    sum += value
+  }
+  return Math.abs(sum - 1) < 0.001 ? weights : null
+}
+
+/**
+ * Full profile from a project's overrides
+ */
+export function resolveScoringProfile(overrides?: ScoringProfileOverrides | null): ScoringProfile {
+  return {
+    ...DEFAULT_SCORING_PROFILE,
+    ...overrides,
+    followUpWeights: { ...DEFAULT_SCORING_PROFILE.followUpWeights, ...overrides?.followUpWeights },
+  }
+}
+
+/**
+ * Whether two override sets score identically (used to decide on a version bump)
+ */
+export function isSameScoringProfile(a?: ScoringProfileOverrides | null, b?: ScoringProfileOverrides | null): boolean {
+  return JSON.stringify(resolveScoringProfile(a)) === JSON.stringify(resolveScoringProfile(b))
+}
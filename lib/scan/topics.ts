@@ -0,0 +1,116 @@
+/**
+ * Topic breakdown of scan results
+ *
+ * Queries carry free-form tags (project_queries.tags), e.g. a product line or
+ * funnel stage. Results are matched to their query by text, using the tags the
+ * queries have now, so tagging a query also groups its past results. A query
+ * with several tags counts towards each of them; results of untagged or
+ * deleted queries are grouped under a null topic.
+ */
+
+import type { ProjectQuery, ScanMetrics } from '@/lib/db/schema'
+import { normalizeQueryText } from '@/lib/queries/import-export'
+
+export interface ResultScores {
+  queries: number             // Distinct queries with results
+  results: number             // Results with metrics (all follow-up levels and samples)
+  visibility: number          // Average visibility_score (0-100)
+  recommendation: number      // Average recommendation_score (0-100, one decimal)
+  mention_rate: number        // % of results mentioning the brand or domain
+}
+
+export interface TopicScore extends ResultScores {
+  topic: string | null        // null = untagged
+}
+
+export type ResultForScores = {
+  query_text: string
+  metrics_json: ScanMetrics | null
+}
+
+/**
+ * Tags per query text (normalized), from the project's queries
+ */
+export function buildQueryTopicMap(
+  queries: Pick<ProjectQuery, 'query_text' | 'tags'>[]
+): Map<string, string[]> {
+  const map = new Map<string, string[]>()
+  for (const query of queries) {
+    const key = normalizeQueryText(query.query_text)
+    map.set(key, Array.from(new Set([...(map.get(key) || []), ...(query.tags || [])])))
+  }
+  return map
+}
+
+/**
+ * Whether any query has a tag (topic breakdowns are skipped otherwise)
+ */
+export function hasTopics(queries: Pick<ProjectQuery, 'tags'>[]): boolean {
+  return queries.some(q => (q.tags || []).length > 0)
+}
+
+/**
+ * Visibility and recommendation per group of results
+ * groupsOf returns the groups a result counts towards (null = ungrouped);
+ * results without metrics are skipped. Shared by the topic and persona
+ * breakdowns (lib/scan/personas.ts).
+ */
+export function aggregateResultScores<R extends ResultForScores>(
+  results: R[],
+  groupsOf: (result: R) => (string | null)[]
+): Map<string | null, ResultScores> {
+  const stats = new Map<string | null, {
+    queries: Set<string>
+    results: number
+    visibility: number
+    recommendation: number
+    mentioned: number
+  }>()
+
+  for (const result of results) {
+    if (!result.metrics_json) continue
+
+    const key = normalizeQueryText(result.query_text)
+    const metrics = result.metrics_json
+
+    for (const group of groupsOf(result)) {
+      const entry = stats.get(group) || { queries: new Set<string>(), results: 0, visibility: 0, recommendation: 0, mentioned: 0 }
+      entry.queries.add(key)
+      entry.results++
+      entry.visibility += metrics.visibility_score || 0
+      entry.recommendation += metrics.recommendation_score || 0
+      if ((metrics.visibility_score || 0) > 0) entry.mentioned++
+      stats.set(group, entry)
+    }
+  }
+
+  return new Map(Array.from(stats.entries()).map(([group, s]) => [group, {
+    queries: s.queries.size,
+    results: s.results,
+    visibility: Math.round(s.visibility / s.results),
+    recommendation: Math.round(s.recommendation / s.results * 10) / 10,
+    mention_rate: Math.round(s.mentioned / s.results * 100),
+  }]))
+}
+
+/**
+ * Visibility and recommendation per topic
+ * Sorted by topic name with the untagged group last.
+ */
+export function aggregateTopicScores(
+  results: ResultForScores[],
+  topicMap: Map<string, string[]>
+): TopicScore[] {
+  const scores = aggregateResultScores(results, result => {
+    const tags = topicMap.get(normalizeQueryText(result.query_text)) || []
+    return tags.length > 0 ? tags : [null]
+  })
+
+  return Array.from(scores.entries())
+    .map(([topic, score]) => ({ topic, ...score }))
+    .sort((a, b) => {
+      if (a.topic === null) return 1
+      if (b.topic === null) return -1
+      return a.topic.localeCompare(b.topic)
+    })
+}
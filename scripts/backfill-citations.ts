@@ -0,0 +1,51 @@
+/**
+ * Backfill citations of scan results stored before citation tracking
+ * (Migration 025). Parses the stored ai_response_raw - no AI calls.
+ * Safe to re-run: only results without citations are touched.
+ *
+ * Run with: npx tsx scripts/backfill-citations.ts
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import * as fs from 'fs'
+import * as path from 'path'
+import { backfillCitations } from '@/lib/scan/citations'
+
+// Load environment variables from .env.local
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  const envContent = fs.readFileSync(envPath, 'utf-8')
+  envContent.split('\n').forEach(line => {
+    const match = line.match(/^([^#=]+)=(.*)$/)
+    if (match) {
+      const key = match[1].trim()
+      const value = match[2].trim().replace(/^["']|["']$/g, '')
+      process.env[key] = value
+    }
+  })
+}
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ Missing environment variables:')
+  console.error('   NEXT_PUBLIC_SUPABASE_URL:', !!supabaseUrl)
+  console.error('   SUPABASE_SERVICE_ROLE_KEY:', !!serviceRoleKey)
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+})
+
+async function main() {
+  console.log('🔍 Extracting citations from stored responses...')
+  const updated = await backfillCitations(supabase)
+  console.log(`✅ Citations saved for ${updated} scan results`)
+}
+
+main().catch(error => {
+  console.error('❌ Backfill failed:', error)
+  process.exit(1)
+})
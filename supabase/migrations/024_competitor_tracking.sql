@@ -0,0 +1,29 @@
+-- =====================================================
+-- Migration 024: Competitor Tracking & Share of Voice
+-- Description: Per-project competitor list, per-result competitor mentions
+--              and share-of-voice aggregates on scans
+-- =====================================================
+
+-- 1. Competitors per project
+-- Array of { name, variations[], domain }
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS competitors jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Competitor mentions per scan result
+-- Array of { name, mentioned, domain_mentioned, position }
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS competitor_mentions jsonb;
+
+-- 3. Share of voice aggregates per scan
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS share_of_voice numeric;
+
+-- Array of { name, mention_rate, share_of_voice, avg_position }
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS competitor_share_of_voice jsonb;
+
+-- 4. Comments for documentation
+COMMENT ON COLUMN projects.competitors IS 'Tracked competitors: [{ name, variations, domain }]';
+COMMENT ON COLUMN scan_results.competitor_mentions IS 'Competitors mentioned in the response and their list position';
+COMMENT ON COLUMN scans.share_of_voice IS 'Our share of all brand mentions incl. competitors (0-100)';
+COMMENT ON COLUMN scans.competitor_share_of_voice IS 'Per-competitor mention rate, share of voice and average position';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration 025: Scan Result Citations
+-- Description: Structured sources (URLs, markdown links, bare domains)
+--              cited in each AI response
+-- =====================================================
+
+-- 1. Citations per scan result
+-- Array of { url, domain, title, type }
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS citations jsonb;
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN scan_results.citations IS 'Sources cited in the response: [{ url, domain, title, type }]';
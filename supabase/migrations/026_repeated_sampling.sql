@@ -0,0 +1,24 @@
+-- =====================================================
+-- Migration 026: Repeated Sampling
+-- Description: Ask each query×model pair N times per scan and report
+--              run-to-run variance of visibility and recommendation
+-- =====================================================
+
+-- 1. Samples per query×model pair
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS samples_per_query integer NOT NULL DEFAULT 1
+CHECK (samples_per_query BETWEEN 1 AND 5);
+
+-- 2. Sample number per result (siblings share query_text, model and follow_up_level)
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS sample_index integer NOT NULL DEFAULT 0;
+
+-- 3. Sampling statistics per scan
+-- { samples_per_query, visibility: { mean, min, max, ci_low, ci_high, n }, recommendation: {...} }
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS sampling_stats jsonb;
+
+-- 4. Comments for documentation
+COMMENT ON COLUMN projects.samples_per_query IS 'Number of times each query×model pair is asked per scan (1-5)';
+COMMENT ON COLUMN scan_results.sample_index IS '0-based sample number; results with the same query, model and level are siblings';
+COMMENT ON COLUMN scans.sampling_stats IS 'Mean, min/max and 95% confidence interval of visibility and recommendation across sample runs';
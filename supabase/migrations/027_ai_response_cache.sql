@@ -0,0 +1,60 @@
+-- =====================================================
+-- Migration 027: AI Response Cache
+-- Description: Content-addressed cache for identical AI calls
+--              (evaluations by default, GEO queries opt-in per project)
+--              and cache hit tracking for the costs page
+-- =====================================================
+
+-- 1. Shared cache table (key = SHA-256 of model, prompts, temperature, max tokens)
+CREATE TABLE IF NOT EXISTS ai_response_cache (
+  cache_key text PRIMARY KEY,
+  content text NOT NULL,
+  finish_reason text NOT NULL DEFAULT 'stop',
+  input_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires_at ON ai_response_cache(expires_at);
+
+-- Entries are addressed by a hash of the full request, so they can be shared
+-- between users without exposing anything the caller doesn't already have
+ALTER TABLE ai_response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read cache"
+  ON ai_response_cache FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can write cache"
+  ON ai_response_cache FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can refresh cache"
+  ON ai_response_cache FOR UPDATE
+  TO authenticated
+  USING (true);
+
+-- 2. Opt-in caching of GEO query answers per project
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS cache_geo_responses boolean NOT NULL DEFAULT false;
+
+-- 3. AI calls and cache hits per scan result
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS ai_calls integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cache_hits integer NOT NULL DEFAULT 0;
+
+-- 4. Monthly totals for hit rates
+ALTER TABLE monthly_usage
+ADD COLUMN IF NOT EXISTS ai_call_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cache_hit_count integer NOT NULL DEFAULT 0;
+
+-- 5. Comments for documentation
+COMMENT ON TABLE ai_response_cache IS 'Content-addressed cache of AI responses; hits are recorded as zero-cost calls';
+COMMENT ON COLUMN projects.cache_geo_responses IS 'Reuse cached answers for identical GEO queries (evaluations are always cached)';
+COMMENT ON COLUMN scan_results.ai_calls IS 'AI calls behind this result (query + evaluation)';
+COMMENT ON COLUMN scan_results.cache_hits IS 'AI calls served from the response cache';
+COMMENT ON COLUMN monthly_usage.ai_call_count IS 'AI calls made for scans, including cache hits';
+COMMENT ON COLUMN monthly_usage.cache_hit_count IS 'AI calls served from the response cache';
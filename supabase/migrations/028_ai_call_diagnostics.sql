@@ -0,0 +1,12 @@
+-- =====================================================
+-- Migration 028: AI Call Diagnostics
+-- Description: Per-result record of retried provider errors
+--              and evaluation model fallbacks
+-- =====================================================
+
+-- 1. Retries and fallbacks behind each scan result (NULL = every call went through first time)
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS ai_diagnostics jsonb;
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN scan_results.ai_diagnostics IS 'Retries ({ model, attempt, code, message, delayMs }) and evaluation fallbacks ({ from, to, code, message }); NULL when no call failed';
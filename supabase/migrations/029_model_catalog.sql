@@ -0,0 +1,80 @@
+-- =====================================================
+-- Migration 029: Model Catalog
+-- Description: Single registry of AI models (capabilities, context window,
+--              chain-of-thought flag, aliases, deprecation, replacement).
+--              Runtime code reads it through lib/ai/catalog.ts,
+--              admins manage it from the admin dashboard.
+-- =====================================================
+
+-- 1. Catalog table
+CREATE TABLE IF NOT EXISTS model_catalog (
+  id text PRIMARY KEY,
+  provider text NOT NULL,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  gateway_model_id text,
+  context_window integer NOT NULL DEFAULT 128000,
+  capabilities text[] NOT NULL DEFAULT '{}',
+  chain_of_thought boolean NOT NULL DEFAULT false,
+  aliases text[] NOT NULL DEFAULT '{}',
+  input_price_usd numeric(10, 4) NOT NULL DEFAULT 0,
+  output_price_usd numeric(10, 4) NOT NULL DEFAULT 0,
+  available_free_tier boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  deprecated_at date,
+  replacement_model text REFERENCES model_catalog(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT model_catalog_no_self_replacement CHECK (replacement_model IS NULL OR replacement_model <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_catalog_provider ON model_catalog(provider);
+
+-- 2. RLS: everyone signed in can read, admins manage
+ALTER TABLE model_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read model catalog"
+  ON model_catalog FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage model catalog"
+  ON model_catalog FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.user_id = auth.uid()
+      AND user_profiles.tier = 'admin'
+    )
+  );
+
+-- 3. Seed with the current models (list prices per 1M tokens, see migration 014)
+INSERT INTO model_catalog (id, provider, name, description, gateway_model_id, context_window, capabilities, chain_of_thought, aliases, input_price_usd, output_price_usd, available_free_tier) VALUES
+  -- OpenAI
+  ('gpt-5-2', 'openai', 'GPT-5.2', 'Most capable OpenAI model', 'openai/gpt-5.2', 256000, '{}', false, '{gpt-4-turbo}', 1.75, 14.00, false),
+  ('gpt-5-mini', 'openai', 'GPT-5 Mini', 'Balanced performance and cost', 'openai/gpt-5-mini', 256000, '{}', false, '{gpt-4o,gpt-4o-mini}', 0.25, 2.00, true),
+  ('gpt-5-nano', 'openai', 'GPT-5 Nano', 'Fastest and most affordable OpenAI model', 'openai/gpt-5-nano', 128000, '{reasoning}', true, '{}', 0.10, 0.40, true),
+  -- Anthropic
+  ('claude-opus-4-5', 'anthropic', 'Claude Opus 4.5', 'Premium model combining maximum intelligence with practical performance', 'anthropic/claude-opus-4-5', 200000, '{}', false, '{claude-3-opus-latest}', 5.00, 25.00, false),
+  ('claude-sonnet-4-5', 'anthropic', 'Claude Sonnet 4.5', 'Smart model for complex agents and coding', 'anthropic/claude-sonnet-4-5', 200000, '{}', false, '{claude-3-5-sonnet-latest}', 3.00, 15.00, false),
+  ('claude-haiku-4-5', 'anthropic', 'Claude Haiku 4.5', 'Fastest model with near-frontier intelligence', 'anthropic/claude-haiku-4-5', 200000, '{}', false, '{claude-3-5-haiku-latest}', 1.00, 5.00, true),
+  ('claude-opus-4-1', 'anthropic', 'Claude Opus 4.1', 'Previous generation flagship', 'anthropic/claude-opus-4-1', 200000, '{}', false, '{}', 12.00, 60.00, false),
+  -- Google
+  ('gemini-3-flash-preview', 'google', 'Gemini 3 Flash Preview', 'Most intelligent model built for speed', 'google/gemini-3-flash-preview', 2000000, '{}', false, '{gemini-1.5-pro}', 0.50, 3.00, false),
+  ('gemini-2-5-flash', 'google', 'Gemini 2.5 Flash', 'Production-ready fast model', 'google/gemini-2.5-flash', 1000000, '{}', false, '{gemini-2.0-flash}', 0.60, 3.50, true),
+  ('gemini-2-5-flash-lite', 'google', 'Gemini 2.5 Flash Lite', 'Most affordable Google model', 'google/gemini-2.5-flash-lite', 1000000, '{}', false, '{gemini-1.5-flash}', 0.30, 2.50, true),
+  -- Groq / Meta
+  ('llama-4-scout', 'groq', 'Llama 4 Scout', 'Meta Llama 4 on Groq - ultra fast', 'groq/llama-4-scout', 256000, '{}', false, '{}', 0.10, 0.15, true),
+  ('llama-4-maverick', 'groq', 'Llama 4 Maverick', 'Most capable open model on Groq', 'meta/llama-4-maverick', 256000, '{}', false, '{}', 0.20, 0.60, true),
+  -- Perplexity
+  ('sonar-reasoning-pro', 'perplexity', 'Sonar Reasoning Pro', 'Advanced reasoning with web access', 'perplexity/sonar-reasoning-pro', 128000, '{web_search,reasoning}', false, '{}', 2.00, 8.00, false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 4. Comments for documentation
+COMMENT ON TABLE model_catalog IS 'AI model registry. Billing prices stay in pricing_config. Manage via Admin Dashboard.';
+COMMENT ON COLUMN model_catalog.gateway_model_id IS 'Vercel AI Gateway model ID (provider/model); NULL = provider/id';
+COMMENT ON COLUMN model_catalog.chain_of_thought IS 'Model spends output tokens on hidden reasoning: higher token limits, excluded from evaluation';
+COMMENT ON COLUMN model_catalog.aliases IS 'Legacy model IDs that resolve to this model';
+COMMENT ON COLUMN model_catalog.input_price_usd IS 'Provider list price per 1M input tokens (USD), used for base cost and cheapest-model selection';
+COMMENT ON COLUMN model_catalog.deprecated_at IS 'Date the provider retires the model';
+COMMENT ON COLUMN model_catalog.replacement_model IS 'Successor model for projects still using this one';
@@ -0,0 +1,23 @@
+-- =====================================================
+-- Migration 030: Model Deprecation
+-- Description: Record which models each scan ran, so history
+--              charts can mark scans across a model switch
+-- =====================================================
+
+-- 1. Models behind each scan (retired models already replaced by their successor)
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS models jsonb;
+
+-- 2. Backfill from results of existing scans
+UPDATE scans s
+SET models = sub.models
+FROM (
+  SELECT scan_id, jsonb_agg(DISTINCT model ORDER BY model) AS models
+  FROM scan_results
+  GROUP BY scan_id
+) sub
+WHERE sub.scan_id = s.id
+  AND s.models IS NULL;
+
+-- 3. Comments for documentation
+COMMENT ON COLUMN scans.models IS 'Model IDs the scan ran, after replacing retired models with model_catalog.replacement_model; NULL for scans without results';
@@ -0,0 +1,63 @@
+-- =====================================================
+-- Migration 031: Resumable Scan Queue
+-- Description: Run manual scans server-side from scan_queue with a
+--              per query-model pair checkpoint, and let workers reclaim
+--              items whose worker timed out or crashed
+-- =====================================================
+
+-- 1. Checkpoint and claim counter
+ALTER TABLE scan_queue
+ADD COLUMN IF NOT EXISTS checkpoint jsonb,
+ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+
+-- 2. Claim pending items, or running items without progress for stale_after_seconds
+--    (the worker died - its checkpoint says where to continue)
+DROP FUNCTION IF EXISTS claim_pending_queue_scan();
+
+CREATE OR REPLACE FUNCTION claim_pending_queue_scan(stale_after_seconds INTEGER DEFAULT 600)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  project_id UUID,
+  priority INTEGER,
+  progress_total INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE scan_queue sq
+    SET
+      status = 'running',
+      started_at = COALESCE(sq.started_at, NOW()),
+      attempts = sq.attempts + 1,
+      progress_message = 'Processing...'
+    WHERE sq.id = (
+      SELECT inner_sq.id
+      FROM scan_queue inner_sq
+      WHERE inner_sq.status = 'pending'
+         OR (inner_sq.status = 'running' AND inner_sq.updated_at < NOW() - make_interval(secs => stale_after_seconds))
+      ORDER BY (inner_sq.status = 'pending') DESC, inner_sq.priority DESC, inner_sq.created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING
+      sq.id,
+      sq.user_id,
+      sq.project_id,
+      sq.priority,
+      sq.progress_total
+  )
+  SELECT claimed.id, claimed.user_id, claimed.project_id, claimed.priority, claimed.progress_total
+  FROM claimed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Index for reclaiming stale items
+CREATE INDEX IF NOT EXISTS idx_scan_queue_stale
+ON scan_queue(updated_at)
+WHERE status = 'running';
+
+-- 4. Comments for documentation
+COMMENT ON COLUMN scan_queue.checkpoint IS 'Scan plan and progress: queryIds, models, samplesPerQuery, reservationId, completed pair keys (queryId|model|sampleIndex) and failed pairs';
+COMMENT ON COLUMN scan_queue.attempts IS 'Number of times a worker claimed the item; the runner gives up after too many';
+COMMENT ON FUNCTION claim_pending_queue_scan(INTEGER) IS 'Atomically claim a pending scan, or a running scan whose worker stopped updating it, from the queue. Returns the claimed scan details or empty if nothing to claim.';
@@ -0,0 +1,28 @@
+-- =====================================================
+-- Migration 032: Realtime Scan Progress
+-- Description: Push scan progress to the browser via Supabase realtime
+--              instead of polling. Workers write the latest finished
+--              query-model pair to scan_queue.last_pair.
+-- =====================================================
+
+-- 1. Latest finished pair (model, query, interim metrics, cost so far)
+ALTER TABLE scan_queue
+ADD COLUMN IF NOT EXISTS last_pair jsonb;
+
+-- 2. Publish progress tables (RLS decides which rows a user receives)
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['scan_queue', 'scans', 'scan_results'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+-- 3. Comments for documentation
+COMMENT ON COLUMN scan_queue.last_pair IS 'Latest finished query-model pair: queryId, queryText, model, sampleIndex, success, metrics, error, costUsd, totalCostUsd, finishedAt';
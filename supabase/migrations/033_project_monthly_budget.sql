@@ -0,0 +1,17 @@
+-- =====================================================
+-- Migration 033: Project Monthly Budget
+-- Description: Optional spending cap per project and calendar month (UTC).
+--              Scans whose estimate would exceed it are refused; scheduled
+--              runs are marked skipped in scheduled_scan_history.
+-- =====================================================
+
+-- 1. Budget in cents (NULL = no cap)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS monthly_budget_cents INTEGER
+CHECK (monthly_budget_cents IS NULL OR monthly_budget_cents > 0);
+
+-- 2. Monthly spend is summed from scans of the project since the 1st
+CREATE INDEX IF NOT EXISTS idx_scans_project_created_at ON scans(project_id, created_at);
+
+-- 3. Comments for documentation
+COMMENT ON COLUMN projects.monthly_budget_cents IS 'Spending cap per calendar month (UTC) in cents; scans over the cap are refused or skipped, the owner is warned at 80%. NULL = no cap';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration 034: Custom Follow-up Templates
+-- Description: Projects can replace the built-in follow-up questions with
+--              their own chain per query type and level, in any language.
+--              Missing levels fall back to the built-in templates.
+-- =====================================================
+
+-- 1. Custom chains: { "transactional": ["F1", "F2", "F3"], ... }
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS follow_up_templates JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN projects.follow_up_templates IS 'Custom follow-up questions per query type (informational, transactional, comparison), index 0 = level 1. Empty levels use the built-in templates; questions must not mention the brand';
@@ -0,0 +1,16 @@
+-- =====================================================
+-- Migration 035: Adaptive Follow-ups
+-- Description: Follow-up mode per project. 'template' asks the fixed
+--              (custom or built-in) questions, 'adaptive' lets a helper
+--              model write each follow-up from the previous answer. The
+--              question actually asked stays in follow_up_query_used.
+-- =====================================================
+
+-- 1. Follow-up mode
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS follow_up_mode TEXT NOT NULL DEFAULT 'template'
+CHECK (follow_up_mode IN ('template', 'adaptive'));
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN projects.follow_up_mode IS 'template = fixed follow-up questions, adaptive = helper model (query_generation_model) writes a brand-neutral next question from the last answer';
+COMMENT ON COLUMN scan_results.follow_up_query_used IS 'Follow-up question sent at this level (template or generated in adaptive mode), NULL for the initial query';
@@ -0,0 +1,28 @@
+-- =====================================================
+-- Migration 036: Resilience Scoring Profiles
+-- Description: Per-project overrides of the resilience scoring coefficients
+--              (follow-up improvement/decline factors, persistence points,
+--              legacy level weights). Each change bumps the profile version;
+--              scans store the version and resolved coefficients they were
+--              scored with, so they can be re-scored from metrics_json.
+-- =====================================================
+
+-- 1. Scoring profile per project
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS scoring_profile JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS scoring_profile_version INTEGER NOT NULL DEFAULT 1;
+
+-- 2. Profile a scan was scored with (NULL = scored before profiles, i.e. defaults)
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS scoring_profile_version INTEGER;
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS scoring_profile JSONB;
+
+-- 3. Comments for documentation
+COMMENT ON COLUMN projects.scoring_profile IS 'Resilience scoring coefficients overriding the defaults: improvementFactor, declineFactor, disappearanceFactor, persistenceBonus, persistencePenalty, followUpWeights';
+COMMENT ON COLUMN projects.scoring_profile_version IS 'Incremented whenever scoring_profile changes';
+COMMENT ON COLUMN scans.scoring_profile_version IS 'projects.scoring_profile_version the scores were calculated with, NULL for scans before scoring profiles';
+COMMENT ON COLUMN scans.scoring_profile IS 'Resolved scoring coefficients used for overall_score, initial_score, conversational_bonus and brand_persistence';
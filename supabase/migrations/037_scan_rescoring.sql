@@ -0,0 +1,42 @@
+-- =====================================================
+-- Migration 037: Scan Re-scoring
+-- Description: Formula version per scan and an audit trail for re-scored
+--              scans. Aggregates are recomputed from scan_results.metrics_json
+--              (lib/scan/rescore.ts); each change keeps the previous and new
+--              values with the formula and scoring profile versions.
+-- =====================================================
+
+-- 1. Formula version of the stored aggregates (NULL = scored before auditing)
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS scoring_formula_version INTEGER;
+
+-- 2. Audit trail of re-scored scans
+CREATE TABLE IF NOT EXISTS scan_score_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scan_id uuid NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous jsonb NOT NULL,
+  current jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_score_audit_scan_id ON scan_score_audit(scan_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scan_score_audit_project_id ON scan_score_audit(project_id, created_at DESC);
+
+ALTER TABLE scan_score_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their scan score audit"
+  ON scan_score_audit FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can audit their own scans"
+  ON scan_score_audit FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+  );
+
+-- 3. Comments for documentation
+COMMENT ON COLUMN scans.scoring_formula_version IS 'SCORING_FORMULA_VERSION that produced the aggregates (2 = resilience scoring), NULL for scans before auditing';
+COMMENT ON TABLE scan_score_audit IS 'Re-scored scans: aggregates with formula and scoring profile versions before (previous) and after (current)';
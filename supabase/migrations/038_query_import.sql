@@ -0,0 +1,14 @@
+-- =====================================================
+-- Migration 038: Query Tags and Bulk Import
+-- Description: Tags on project queries, set by bulk CSV/JSON import and
+--              included in exports (lib/queries/import-export.ts).
+--              Imported rows are deduplicated by query text and limited
+--              by the tier's max_queries_per_project.
+-- =====================================================
+
+-- 1. Tags per query
+ALTER TABLE project_queries
+ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN project_queries.tags IS 'Lowercase topic labels, e.g. ["pricing", "integrations"]';
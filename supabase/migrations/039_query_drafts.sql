@@ -0,0 +1,54 @@
+-- =====================================================
+-- Migration 039: Query Generation Review Queue
+-- Description: Generated queries are stored as drafts instead of being
+--              inserted into project_queries. Each draft keeps the model's
+--              rationale and near-duplicate match; accepting copies it to
+--              project_queries (lib/queries/drafts.ts), so only accepted
+--              drafts count against max_queries_per_project.
+-- =====================================================
+
+-- 1. Drafts
+CREATE TABLE IF NOT EXISTS query_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL,
+  query_text text NOT NULL,
+  query_type text NOT NULL DEFAULT 'informational'
+    CHECK (query_type IN ('informational', 'transactional', 'comparison')),
+  rationale text,
+  similar_to text,
+  similarity numeric(3,2),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected')),
+  query_id uuid REFERENCES project_queries(id) ON DELETE SET NULL,
+  generation_model text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  reviewed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_drafts_project_status ON query_drafts(project_id, status, created_at);
+
+-- 2. Row level security
+ALTER TABLE query_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their query drafts"
+  ON query_drafts FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create drafts for their projects"
+  ON query_drafts FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can review their query drafts"
+  ON query_drafts FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- 3. Comments for documentation
+COMMENT ON TABLE query_drafts IS 'Generated queries awaiting review; accepted drafts are copied to project_queries';
+COMMENT ON COLUMN query_drafts.rationale IS 'Why the generation model proposed the query';
+COMMENT ON COLUMN query_drafts.similar_to IS 'Closest existing query when the draft is a near-duplicate (lib/queries/similarity.ts)';
+COMMENT ON COLUMN query_drafts.query_id IS 'project_queries row created when the draft was accepted';
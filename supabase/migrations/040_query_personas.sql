@@ -0,0 +1,29 @@
+-- =====================================================
+-- Migration 040: Query Personas
+-- Description: Project-level personas (role, expertise, region, budget).
+--              Queries generated for a persona keep its id; scans ask
+--              those queries with a persona system prompt and store the
+--              persona on each result, so results can be compared per
+--              audience (lib/queries/personas.ts, lib/scan/personas.ts).
+-- =====================================================
+
+-- 1. Personas per project
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS personas JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Persona of queries and drafts (ids refer to projects.personas entries)
+ALTER TABLE project_queries
+ADD COLUMN IF NOT EXISTS persona_id TEXT;
+
+ALTER TABLE query_drafts
+ADD COLUMN IF NOT EXISTS persona_id TEXT;
+
+-- 3. Persona a result was asked as (kept when the persona is removed later)
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS persona_id TEXT;
+
+-- 4. Comments for documentation
+COMMENT ON COLUMN projects.personas IS 'Audiences queries are written for: [{id, name, role, expertise, region, budget}]';
+COMMENT ON COLUMN project_queries.persona_id IS 'projects.personas id the query is asked as, NULL = no persona';
+COMMENT ON COLUMN query_drafts.persona_id IS 'projects.personas id the draft was generated for';
+COMMENT ON COLUMN scan_results.persona_id IS 'projects.personas id the query was asked as at scan time';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration 041: Scheduled Scan Budget Warning
+-- Description: Scheduled runs that bring a project to 80% of its monthly
+--              budget keep the warning on their history record, where the
+--              owner sees it with the scan (lib/credits/budget.ts).
+-- =====================================================
+
+-- 1. Warning of the run (NULL = below the warning threshold or no budget)
+ALTER TABLE scheduled_scan_history
+ADD COLUMN IF NOT EXISTS budget_warning TEXT;
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN scheduled_scan_history.budget_warning IS 'Monthly budget warning raised when the run was started, NULL = none';
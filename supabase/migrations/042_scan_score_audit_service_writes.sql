@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration 042: Scan Score Audit Service Writes
+-- Description: The re-scoring audit trail is written by the server with the
+--              service-role client only (lib/scan/rescore.ts). Users keep
+--              read access to their own audit rows but can no longer insert
+--              rows of their own.
+-- =====================================================
+
+-- 1. Drop the user INSERT policy (service role bypasses RLS)
+DROP POLICY IF EXISTS "Users can audit their own scans" ON scan_score_audit;
+
+-- 2. Comments for documentation
+COMMENT ON TABLE scan_score_audit IS 'Re-scored scans: aggregates with formula and scoring profile versions before (previous) and after (current). Written by the service role only';
@@ -0,0 +1,15 @@
+-- =====================================================
+-- Migration 043: AI Response Cache Service Only
+-- Description: The shared response cache is read and written by server code
+--              with the service-role client only (lib/ai/cache.ts). Any
+--              authenticated user could read every cached answer and insert
+--              or overwrite entries served to other users' scans.
+-- =====================================================
+
+-- 1. Drop the authenticated policies (RLS stays enabled, service role bypasses it)
+DROP POLICY IF EXISTS "Authenticated users can read cache" ON ai_response_cache;
+DROP POLICY IF EXISTS "Authenticated users can write cache" ON ai_response_cache;
+DROP POLICY IF EXISTS "Authenticated users can refresh cache" ON ai_response_cache;
+
+-- 2. Comments for documentation
+COMMENT ON TABLE ai_response_cache IS 'Content-addressed cache of AI responses; hits are recorded as zero-cost calls. Service role only';
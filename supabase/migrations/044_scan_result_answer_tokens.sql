@@ -0,0 +1,16 @@
+-- =====================================================
+-- Migration 044: Scan Result Answer Tokens
+-- Description: Token usage of the answer model alone, next to the totals
+--              that include the evaluator (and adaptive follow-up helper)
+--              calls. Cost estimates (lib/credits/estimate.ts) price the
+--              answer from these and the evaluator separately.
+-- =====================================================
+
+-- 1. Answer tokens per result (NULL = saved before this migration)
+ALTER TABLE scan_results
+ADD COLUMN IF NOT EXISTS answer_input_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS answer_output_tokens INTEGER;
+
+-- 2. Comments for documentation
+COMMENT ON COLUMN scan_results.answer_input_tokens IS 'Input tokens of the answer model call alone (input_tokens also counts the evaluation), NULL for older results';
+COMMENT ON COLUMN scan_results.answer_output_tokens IS 'Output tokens of the answer model call alone, NULL for older results';
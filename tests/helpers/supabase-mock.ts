@@ -0,0 +1,209 @@
+/**
+ * In-memory Supabase client for route tests
+ *
+ * Supports the query builder subset used by the API routes:
+ * select / insert / update / upsert / delete, eq / neq / in / gte / lt / lte / is,
+ * order, limit, range, single / maybeSingle, auth.getUser and a no-op rpc.
+ * Column lists in select() are ignored (full rows are returned). Like
+ * PostgREST, a read returns at most MAX_ROWS rows.
+ */
+
+type Row = Record<string, any>
+type Filter = (row: Row) => boolean
+
+let idCounter = 0
+
+// PostgREST db-max-rows
+const MAX_ROWS = 1000
+
+class QueryBuilder implements PromiseLike<{ data: any; error: any }> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+  private payload: Row[] = []
+  private conflictColumn: string | null = null
+  private changes: Row = {}
+  private filters: Filter[] = []
+  private orders: { column: string; ascending: boolean }[] = []
+  private limitCount: number | null = null
+  private offset = 0
+  private singleMode: 'single' | 'maybeSingle' | null = null
+
+  constructor(private tables: Record<string, Row[]>, private table: string) {}
+
+  select(_columns?: string) {
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[], options?: { onConflict?: string }) {
+    this.operation = 'upsert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    this.conflictColumn = options?.onConflict ?? null
+    return this
+  }
+
+  update(changes: Row) {
+    this.operation = 'update'
+    this.changes = changes
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  gte(column: string, value: any) {
+    this.filters.push(row => row[column] >= value)
+    return this
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push(row => row[column] < value)
+    return this
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push(row => row[column] <= value)
+    return this
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.orders.push({ column, ascending: options?.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.offset = from
+    this.limitCount = to - from + 1
+    return this
+  }
+
+  single() {
+    this.singleMode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle'
+    return this
+  }
+
+  then<T1 = { data: any; error: any }, T2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private execute(): { data: any; error: any } {
+    const rows = this.tables[this.table] || (this.tables[this.table] = [])
+    let data: Row[]
+
+    switch (this.operation) {
+      case 'upsert':
+        if (this.conflictColumn) {
+          const column = this.conflictColumn
+          data = this.payload.map(row => {
+            const existing = rows.find(r => r[column] === row[column])
+            if (existing) return Object.assign(existing, row)
+            const inserted = { id: `${this.table}-${++idCounter}`, created_at: new Date().toISOString(), ...row }
+            rows.push(inserted)
+            return inserted
+          })
+          break
+        }
+      // falls through
+      case 'insert':
+        data = this.payload.map(row => ({
+          id: `${this.table}-${++idCounter}`,
+          created_at: new Date().toISOString(),
+          ...row,
+        }))
+        rows.push(...data)
+        break
+      case 'update':
+        data = rows.filter(row => this.filters.every(f => f(row)))
+        data.forEach(row => Object.assign(row, this.changes))
+        break
+      case 'delete':
+        data = rows.filter(row => this.filters.every(f => f(row)))
+        this.tables[this.table] = rows.filter(row => !data.includes(row))
+        break
+      default:
+        data = rows.filter(row => this.filters.every(f => f(row)))
+    }
+
+    data = [...data].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        if (a[column] === b[column]) continue
+        return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1)
+      }
+      return 0
+    })
+    if (this.operation === 'select') {
+      data = data.slice(this.offset, this.offset + Math.min(this.limitCount ?? MAX_ROWS, MAX_ROWS))
+    } else if (this.limitCount !== null) {
+      data = data.slice(0, this.limitCount)
+    }
+
+    if (this.singleMode) {
+      if (data.length === 0) {
+        return this.singleMode === 'single'
+          ? { data: null, error: { code: 'PGRST116', message: 'No rows found' } }
+          : { data: null, error: null }
+      }
+      return { data: { ...data[0] }, error: null }
+    }
+
+    return { data: data.map(row => ({ ...row })), error: null }
+  }
+}
+
+/**
+ * Create an in-memory client seeded with table rows
+ */
+export function createSupabaseMock(user: { id: string } | null, seed: Record<string, Row[]> = {}) {
+  const tables: Record<string, Row[]> = Object.fromEntries(
+    Object.entries(seed).map(([table, rows]) => [table, rows.map(row => ({ ...row }))])
+  )
+
+  const client = {
+    auth: {
+      getUser: async () => ({ data: { user }, error: user ? null : { message: 'Not authenticated' } }),
+    },
+    from: (table: string) => new QueryBuilder(tables, table),
+    rpc: async () => ({ data: null, error: null }),
+  }
+
+  return { client, tables }
+}
@@ -0,0 +1,138 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest'
+
+/**
+ * Adaptive follow-ups on the mock AI provider
+ *
+ * A helper model writes the next question from the conversation; rejected or
+ * failed generations fall back to the template question. In a scan the asked
+ * question is stored in follow_up_query_used and the helper call is counted.
+ */
+
+const db = vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+  return { client: null as any }
+})
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { getNextFollowUp } from '@/lib/scan/adaptive-follow-up'
+import { cleanGeneratedFollowUp, findBrandInQuestion, getFollowUpQuestion } from '@/lib/scan/follow-up-templates'
+import { runScanPair, type ScanPairContext } from '@/lib/scan/runner'
+import { createSupabaseCacheStore } from '@/lib/ai'
+import { queueMockErrors, resetMockProvider } from '@/lib/ai/mock'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const HISTORY = [
+  { role: 'user' as const, content: 'What is the best CRM for a small business?' },
+  { role: 'assistant' as const, content: '1. **Northwind** is simple.\n2. **Contoso** has the most features.' },
+]
+
+const OPTIONS = {
+  helperModel: 'mock-model',
+  queryType: 'comparison' as const,
+  level: 1 as const,
+  language: 'en',
+  brandVariations: ['Acme'],
+  domain: 'acme.com',
+  conversationHistory: HISTORY,
+}
+
+describe('generated question cleanup', () => {
+  it('keeps the first line without labels or quotes', () => {
+    expect(cleanGeneratedFollowUp('\n"Which one is cheaper?"\nBecause...')).toBe('Which one is cheaper?')
+    expect(cleanGeneratedFollowUp('Question: Which one scales best?')).toBe('Which one scales best?')
+    expect(cleanGeneratedFollowUp('   ')).toBe('')
+  })
+
+  it('finds the brand or domain in a question', () => {
+    expect(findBrandInQuestion('Is Acme better than the rest?', ['Acme'], 'acme.com', 'en')).toBe('Acme')
+    expect(findBrandInQuestion('What about www.acme.com?', ['Acme Corp'], 'acme.com', 'en')).toBe('acme.com')
+    expect(findBrandInQuestion('Which one is cheaper?', ['Acme'], 'acme.com', 'en')).toBeNull()
+  })
+})
+
+describe('getNextFollowUp', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  beforeEach(() => resetMockProvider())
+
+  afterAll(() => {
+    delete process.env.AI_MOCK_PROVIDER
+    vi.restoreAllMocks()
+  })
+
+  it('uses the template question in template mode without calling a model', async () => {
+    const followUp = await getNextFollowUp({ ...OPTIONS, mode: 'template', templates: { comparison: ['Which is fastest?'] } })
+    expect(followUp).toEqual({ question: 'Which is fastest?', adaptive: false, generation: null })
+  })
+
+  it('asks the helper model for the next question in adaptive mode', async () => {
+    const followUp = await getNextFollowUp({ ...OPTIONS, mode: 'adaptive' })
+
+    expect(followUp.adaptive).toBe(true)
+    expect(followUp.question).toMatch(/\?$/)
+    expect(followUp.question).not.toBe(getFollowUpQuestion('comparison', 1, 'en'))
+    expect(followUp.generation?.inputTokens).toBeGreaterThan(0)
+  })
+
+  it('falls back to the template when the helper fails', async () => {
+    queueMockErrors(new Error('Helper unavailable'))
+    const followUp = await getNextFollowUp({ ...OPTIONS, mode: 'adaptive' })
+
+    expect(followUp).toEqual({ question: getFollowUpQuestion('comparison', 1, 'en'), adaptive: false, generation: null })
+  })
+
+  it('stores the generated question and counts the helper call in a scan', async () => {
+    const { client, tables } = createSupabaseMock({ id: 'user-1' }, {
+      scan_results: [],
+      pricing_config: [{
+        provider: 'mock',
+        model: 'mock-model',
+        base_input_cost_cents: 5,
+        base_output_cost_cents: 10,
+        markup_percentage: 100,
+        is_active: true,
+      }],
+    })
+    db.client = client
+
+    const ctx: ScanPairContext = {
+      supabase: client,
+      scanId: 'scan-1',
+      project: {
+        domain: 'acme.com',
+        brand_variations: ['Acme'],
+        language: 'en',
+        follow_up_enabled: true,
+        follow_up_depth: 1,
+        competitors: [],
+        cache_geo_responses: false,
+        follow_up_templates: {},
+        follow_up_mode: 'adaptive',
+        query_generation_model: 'mock-model',
+      },
+      evaluationModel: 'mock-model',
+      cacheStore: createSupabaseCacheStore(client),
+    }
+
+    const result = await runScanPair(ctx, {
+      query: { id: 'query-1', query_text: HISTORY[0].content, query_type: 'comparison' },
+      modelId: 'mock-model',
+      sampleIndex: 0,
+    })
+    expect(result.success).toBe(true)
+
+    const followUp = tables.scan_results.find(r => r.follow_up_level === 1)
+    expect(followUp?.follow_up_query_used).toMatch(/\?$/)
+    expect(followUp?.follow_up_query_used).not.toBe(getFollowUpQuestion('comparison', 1, 'en'))
+    // Answer + helper (+ evaluation unless pre-checked)
+    expect(followUp?.ai_calls).toBeGreaterThanOrEqual(2)
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+
+// Cache behaviour is exercised through the mock provider
+vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+})
+
+import { callAI, callGEOQuery, callEvaluation, countAICalls } from '@/lib/ai'
+import {
+  getCacheKey,
+  getCacheTtlSeconds,
+  clearMemoryCache,
+  createSupabaseCacheStore,
+  DEFAULT_CACHE_TTL_SECONDS,
+  type CacheKeyInput,
+} from '@/lib/ai/cache'
+import { resetMockProvider } from '@/lib/ai/mock'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+afterAll(() => {
+  delete process.env.AI_MOCK_PROVIDER
+})
+
+beforeEach(() => {
+  clearMemoryCache()
+  resetMockProvider()
+})
+
+const baseKey: CacheKeyInput = {
+  model: 'gpt-5-mini',
+  systemPrompt: 'system',
+  userPrompt: 'Which CRM is best?',
+  temperature: 0.1,
+  maxOutputTokens: 1024,
+}
+
+describe('AI Response Cache', () => {
+  describe('getCacheKey', () => {
+    it('is stable for identical input', async () => {
+      expect(await getCacheKey(baseKey)).toBe(await getCacheKey({ ...baseKey }))
+      expect(await getCacheKey(baseKey)).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('changes with model, prompts, messages, temperature, max tokens and variant', async () => {
+      const key = await getCacheKey(baseKey)
+      const variants: Partial<CacheKeyInput>[] = [
+        { model: 'gpt-5-2' },
+        { systemPrompt: 'other system' },
+        { userPrompt: 'Which CRM is cheapest?' },
+        { conversationHistory: [{ role: 'user', content: 'hi' }] },
+        { temperature: 0.7 },
+        { maxOutputTokens: 4096 },
+        { variant: 1 },
+      ]
+
+      for (const change of variants) {
+        expect(await getCacheKey({ ...baseKey, ...change })).not.toBe(key)
+      }
+    })
+  })
+
+  describe('getCacheTtlSeconds', () => {
+    it('reads AI_CACHE_TTL_SECONDS and falls back to the default', () => {
+      vi.stubEnv('AI_CACHE_TTL_SECONDS', '60')
+      expect(getCacheTtlSeconds()).toBe(60)
+      vi.stubEnv('AI_CACHE_TTL_SECONDS', 'nope')
+      expect(getCacheTtlSeconds()).toBe(DEFAULT_CACHE_TTL_SECONDS)
+      vi.unstubAllEnvs()
+    })
+  })
+
+  describe('callAI', () => {
+    it('returns cache hits as zero-cost results', async () => {
+      const config = { model: 'mock-model', userPrompt: 'Best CRM?', temperature: 0.7, cache: true }
+      const first = await callAI(config)
+      const second = await callAI(config)
+
+      expect(first.cached).toBeUndefined()
+      expect(first.baseCostUsd).toBeGreaterThan(0)
+      expect(second.cached).toBe(true)
+      expect(second.content).toBe(first.content)
+      expect(second.inputTokens).toBe(0)
+      expect(second.outputTokens).toBe(0)
+      expect(second.baseCostUsd).toBe(0)
+    })
+
+    it('does not cache unless asked', async () => {
+      await callAI({ model: 'mock-model', userPrompt: 'Best CRM?' })
+      const second = await callAI({ model: 'mock-model', userPrompt: 'Best CRM?' })
+      expect(second.cached).toBeUndefined()
+    })
+
+    it('reads through to a shared store across instances', async () => {
+      const { client, tables } = createSupabaseMock({ id: 'user-1' })
+      const store = createSupabaseCacheStore(client as any)
+
+      const first = await callAI({ model: 'mock-model', userPrompt: 'Best CRM?', cache: { store } })
+      expect(tables.ai_response_cache).toHaveLength(1)
+      expect(tables.ai_response_cache[0].output_tokens).toBe(first.outputTokens)
+
+      clearMemoryCache() // Simulate another serverless instance
+      const second = await callAI({ model: 'mock-model', userPrompt: 'Best CRM?', cache: { store } })
+      expect(second.cached).toBe(true)
+      expect(second.content).toBe(first.content)
+    })
+
+    it('ignores expired shared entries', async () => {
+      const { client, tables } = createSupabaseMock({ id: 'user-1' })
+      const store = createSupabaseCacheStore(client as any)
+
+      await callAI({ model: 'mock-model', userPrompt: 'Best CRM?', cache: { store } })
+      tables.ai_response_cache[0].expires_at = new Date(Date.now() - 1000).toISOString()
+      clearMemoryCache()
+
+      const second = await callAI({ model: 'mock-model', userPrompt: 'Best CRM?', cache: { store } })
+      expect(second.cached).toBeUndefined()
+    })
+  })
+
+  describe('defaults', () => {
+    it('caches evaluations by default', async () => {
+      const content = '1. **Acme** is a great choice.'
+      await callEvaluation('mock-model', content, ['Acme'], 'acme.com')
+      const second = await callEvaluation('mock-model', content, ['Acme'], 'acme.com')
+
+      expect(second.cached).toBe(true)
+      expect(second.metrics?.visibility_score).toBe(50)
+    })
+
+    it('keeps GEO queries opt-in and repeated samples distinct', async () => {
+      await callGEOQuery('mock-model', 'Best CRM?')
+      expect((await callGEOQuery('mock-model', 'Best CRM?')).cached).toBeUndefined()
+
+      await callGEOQuery('mock-model', 'Best CRM?', 'en', undefined, { cache: { variant: 0 } })
+      expect((await callGEOQuery('mock-model', 'Best CRM?', 'en', undefined, { cache: { variant: 0 } })).cached).toBe(true)
+      expect((await callGEOQuery('mock-model', 'Best CRM?', 'en', undefined, { cache: { variant: 1 } })).cached).toBeUndefined()
+    })
+  })
+
+  describe('countAICalls', () => {
+    it('counts query and evaluation calls and their cache hits', async () => {
+      const response = await callGEOQuery('mock-model', 'Best CRM?', 'en', undefined, { cache: true })
+      const cachedResponse = await callGEOQuery('mock-model', 'Best CRM?', 'en', undefined, { cache: true })
+      const preCheck = await callEvaluation('mock-model', 'No brand here.', ['Acme'], 'acme.com')
+
+      expect(countAICalls(response, preCheck)).toEqual({ ai_calls: 1, cache_hits: 0 })
+      expect(countAICalls(cachedResponse, preCheck)).toEqual({ ai_calls: 1, cache_hits: 1 })
+    })
+  })
+})
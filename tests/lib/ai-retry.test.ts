@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+
+// Provider failures are simulated through the mock provider
+vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+})
+
+import { APICallError } from 'ai'
+import { callAI, callEvaluation, getEvaluationFallbackChain, getCallDiagnostics } from '@/lib/ai'
+import {
+  classifyAIError,
+  isRetryableAIError,
+  getRetryAfterMs,
+  getRetryDelayMs,
+  DEFAULT_RETRY_POLICY,
+} from '@/lib/ai/retry'
+import { queueMockErrors, resetMockProvider } from '@/lib/ai/mock'
+import { clearMemoryCache } from '@/lib/ai/cache'
+
+afterAll(() => {
+  delete process.env.AI_MOCK_PROVIDER
+})
+
+beforeEach(() => {
+  clearMemoryCache()
+  resetMockProvider()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+function providerError(statusCode: number, responseHeaders?: Record<string, string>) {
+  return new APICallError({
+    message: `Provider returned ${statusCode}`,
+    url: 'https://gateway.test/v1/chat/completions',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+    isRetryable: statusCode === 429 || statusCode >= 500,
+  })
+}
+
+// Retry-After: 0 keeps the tests instant
+const rateLimited = () => providerError(429, { 'retry-after': '0' })
+
+describe('AI Retry Policy', () => {
+  describe('classifyAIError', () => {
+    it('maps status codes and network errors to AICallError codes', () => {
+      expect(classifyAIError(providerError(429))).toBe('RATE_LIMITED')
+      expect(classifyAIError(providerError(503))).toBe('PROVIDER_UNAVAILABLE')
+      expect(classifyAIError(providerError(408))).toBe('TIMEOUT')
+      expect(classifyAIError(providerError(401))).toBe('AUTH_ERROR')
+      expect(classifyAIError(providerError(400))).toBe('INVALID_REQUEST')
+      expect(classifyAIError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe('NETWORK_ERROR')
+      expect(classifyAIError(new Error('Unknown model: foo'))).toBe('AI_CALL_FAILED')
+    })
+
+    it('only retries transient errors', () => {
+      expect(isRetryableAIError('RATE_LIMITED')).toBe(true)
+      expect(isRetryableAIError('PROVIDER_UNAVAILABLE')).toBe(true)
+      expect(isRetryableAIError('INVALID_REQUEST')).toBe(false)
+      expect(isRetryableAIError('AUTH_ERROR')).toBe(false)
+    })
+  })
+
+  describe('delays', () => {
+    it('reads Retry-After as seconds, milliseconds or HTTP date', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z')
+      expect(getRetryAfterMs(providerError(429, { 'Retry-After': '3' }))).toBe(3000)
+      expect(getRetryAfterMs(providerError(429, { 'retry-after-ms': '250' }))).toBe(250)
+      expect(getRetryAfterMs(providerError(429, { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }), now)).toBe(5000)
+      expect(getRetryAfterMs(providerError(429))).toBeNull()
+    })
+
+    it('backs off exponentially with jitter, capped, and honours Retry-After', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 }
+      expect(getRetryDelayMs(1, policy, null, () => 0)).toBe(500)
+      expect(getRetryDelayMs(1, policy, null, () => 1)).toBe(1000)
+      expect(getRetryDelayMs(2, policy, null, () => 1)).toBe(2000)
+      expect(getRetryDelayMs(10, policy, null, () => 1)).toBe(5000)
+      expect(getRetryDelayMs(1, policy, 3000)).toBe(3000)
+      expect(getRetryDelayMs(1, policy, 60000)).toBe(5000)
+    })
+  })
+
+  describe('callAI', () => {
+    it('retries transient errors and records them on the result', async () => {
+      queueMockErrors(rateLimited(), providerError(503, { 'retry-after': '0' }))
+      const result = await callAI({ model: 'mock-model', userPrompt: 'Best CRM?' })
+
+      expect(result.content).toBeTruthy()
+      expect(result.retries?.map(r => [r.attempt, r.code, r.delayMs])).toEqual([
+        [1, 'RATE_LIMITED', 0],
+        [2, 'PROVIDER_UNAVAILABLE', 0],
+      ])
+    })
+
+    it('does not retry client errors', async () => {
+      queueMockErrors(providerError(400))
+      await expect(callAI({ model: 'mock-model', userPrompt: 'Best CRM?' }))
+        .rejects.toMatchObject({ code: 'INVALID_REQUEST', retries: [] })
+    })
+
+    it('gives up after maxRetries', async () => {
+      queueMockErrors(rateLimited(), rateLimited())
+      await expect(callAI({ model: 'mock-model', userPrompt: 'Best CRM?', retry: { maxRetries: 1 } }))
+        .rejects.toMatchObject({ code: 'RATE_LIMITED', retries: [{ attempt: 1 }] })
+    })
+
+    it('makes a single attempt with retry: false', async () => {
+      queueMockErrors(rateLimited())
+      await expect(callAI({ model: 'mock-model', userPrompt: 'Best CRM?', retry: false }))
+        .rejects.toMatchObject({ code: 'RATE_LIMITED' })
+    })
+  })
+
+  describe('evaluation fallback', () => {
+    it('falls back to the next-cheapest evaluation models', () => {
+      const chain = getEvaluationFallbackChain('gpt-5-mini')
+      expect(chain).toHaveLength(2)
+      expect(chain).not.toContain('gpt-5-mini')
+      expect(chain).not.toContain('gpt-5-nano')
+      expect(getEvaluationFallbackChain('mock-model')).not.toContain('mock-model')
+    })
+
+    it('switches models once retries are exhausted and records both', async () => {
+      // Primary: first attempt + 2 retries fail, fallback answers
+      queueMockErrors(rateLimited(), rateLimited(), rateLimited())
+      const result = await callEvaluation('mock-model', '1. **Acme** is great.', ['Acme'], 'acme.com', 'en', {
+        fallback: ['mock-model'],
+      })
+
+      expect(result.metrics?.visibility_score).toBe(50)
+      expect(result.fallbacks).toEqual([
+        { from: 'mock-model', to: 'mock-model', code: 'RATE_LIMITED', message: expect.any(String) },
+      ])
+      expect(result.retries).toHaveLength(2)
+      expect(getCallDiagnostics(result)).toEqual({ retries: result.retries, fallbacks: result.fallbacks })
+    })
+
+    it('rethrows when the whole chain fails and skips fallback by default', async () => {
+      queueMockErrors(providerError(400), providerError(400))
+      await expect(callEvaluation('mock-model', '**Acme**', ['Acme'], 'acme.com', 'en', { fallback: ['mock-model'] }))
+        .rejects.toMatchObject({ code: 'INVALID_REQUEST' })
+
+      queueMockErrors(providerError(400))
+      await expect(callEvaluation('mock-model', '**Acme**', ['Acme'], 'acme.com'))
+        .rejects.toMatchObject({ code: 'INVALID_REQUEST' })
+    })
+  })
+
+  describe('getCallDiagnostics', () => {
+    it('is null for clean calls', async () => {
+      const result = await callAI({ model: 'mock-model', userPrompt: 'Best CRM?' })
+      expect(getCallDiagnostics(result, result)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const db = vi.hoisted(() => ({ client: null as any }))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { NextRequest } from 'next/server'
+import { GET as getCitations } from '@/app/api/projects/[id]/citations/route'
+import { extractCitations, aggregateCitedDomains, isOwnDomain, backfillCitations } from '@/lib/scan/citations'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+describe('Citation Extraction', () => {
+  describe('extractCitations', () => {
+    it('extracts markdown links with titles', () => {
+      const citations = extractCitations('See [Alza review](https://www.heureka.cz/alza/recenze).')
+      expect(citations).toEqual([
+        { url: 'https://www.heureka.cz/alza/recenze', domain: 'heureka.cz', title: 'Alza review', type: 'markdown_link' },
+      ])
+    })
+
+    it('extracts raw URLs and trims sentence punctuation', () => {
+      const citations = extractCitations('Sources: https://alza.cz/notebooks, https://mall.cz.')
+      expect(citations.map(c => c.url)).toEqual(['https://alza.cz/notebooks', 'https://mall.cz'])
+      expect(citations.every(c => c.type === 'url')).toBe(true)
+    })
+
+    it('extracts bare domains', () => {
+      const citations = extractCitations('You can buy it at alza.cz or www.datart.cz.')
+      expect(citations).toEqual([
+        { url: null, domain: 'alza.cz', title: null, type: 'domain' },
+        { url: null, domain: 'datart.cz', title: null, type: 'domain' },
+      ])
+    })
+
+    it('skips bare domains already cited via URL', () => {
+      const citations = extractCitations('Visit https://alza.cz/deals - alza.cz has the best prices.')
+      expect(citations).toHaveLength(1)
+      expect(citations[0].type).toBe('url')
+    })
+
+    it('ignores emails, file names and abbreviations', () => {
+      expect(extractCitations('Write to info@alza.cz, open index.html, use Node.js, e.g. today.')).toEqual([])
+    })
+
+    it('deduplicates repeated URLs', () => {
+      const content = '[Alza](https://alza.cz) and again https://alza.cz'
+      expect(extractCitations(content)).toHaveLength(1)
+    })
+  })
+
+  describe('isOwnDomain', () => {
+    it('matches project domain and subdomains', () => {
+      expect(isOwnDomain('alza.cz', 'https://www.alza.cz')).toBe(true)
+      expect(isOwnDomain('blog.alza.cz', 'alza.cz')).toBe(true)
+      expect(isOwnDomain('notalza.cz', 'alza.cz')).toBe(false)
+      expect(isOwnDomain('alza.cz', null)).toBe(false)
+    })
+  })
+
+  describe('aggregateCitedDomains', () => {
+    const results = [
+      { citations: [
+        { url: 'https://heureka.cz/a', domain: 'heureka.cz', title: null, type: 'url' as const },
+        { url: 'https://heureka.cz/b', domain: 'heureka.cz', title: null, type: 'url' as const },
+        { url: null, domain: 'alza.cz', title: null, type: 'domain' as const },
+      ] },
+      { citations: [{ url: null, domain: 'heureka.cz', title: null, type: 'domain' as const }] },
+      { citations: null },
+      { citations: [] },
+    ]
+
+    it('ranks domains by citing results and counts citations', () => {
+      expect(aggregateCitedDomains(results, 'alza.cz')).toEqual([
+        { domain: 'heureka.cz', citations: 3, results: 2, citation_rate: 50, is_own_domain: false },
+        { domain: 'alza.cz', citations: 1, results: 1, citation_rate: 25, is_own_domain: true },
+      ])
+    })
+
+    it('respects limit', () => {
+      expect(aggregateCitedDomains(results, 'alza.cz', 1)).toHaveLength(1)
+    })
+
+    it('handles empty results', () => {
+      expect(aggregateCitedDomains([], 'alza.cz')).toEqual([])
+    })
+  })
+})
+
+describe('backfillCitations', () => {
+  it('extracts citations from stored responses of older results only', async () => {
+    const { client, tables } = createSupabaseMock(null, {
+      scan_results: [
+        { id: 'result-1', ai_response_raw: 'Compare prices on heureka.cz.', citations: null },
+        { id: 'result-2', ai_response_raw: 'No sources here.', citations: null },
+        { id: 'result-3', ai_response_raw: 'See zbozi.cz.', citations: [] },
+      ],
+    })
+
+    expect(await backfillCitations(client, 1)).toBe(2)
+
+    expect(tables.scan_results[0].citations).toEqual([{ url: null, domain: 'heureka.cz', title: null, type: 'domain' }])
+    expect(tables.scan_results[1].citations).toEqual([])
+    expect(tables.scan_results[2].citations).toEqual([])
+    expect(await backfillCitations(client)).toBe(0)
+  })
+})
+
+describe('GET /api/projects/[id]/citations', () => {
+  // More results than PostgREST returns in one request
+  function seedDatabase(resultCount: number) {
+    return createSupabaseMock({ id: 'user-1' }, {
+      projects: [{ id: 'project-1', user_id: 'user-1', domain: 'alza.cz' }],
+      scans: [{ id: 'scan-1', project_id: 'project-1', status: 'completed', created_at: new Date().toISOString() }],
+      scan_results: Array.from({ length: resultCount }, (_, i) => ({
+        id: `result-${String(i).padStart(4, '0')}`,
+        scan_id: 'scan-1',
+        citations: i % 2 === 0 ? [{ url: null, domain: 'heureka.cz', title: null, type: 'domain' }] : [],
+      })),
+    })
+  }
+
+  function get(query: string) {
+    return getCitations(
+      new NextRequest(`http://localhost/api/projects/project-1/citations${query}`),
+      { params: Promise.resolve({ id: 'project-1' }) }
+    )
+  }
+
+  it('counts every result of the range, past the 1000-row page', async () => {
+    db.client = seedDatabase(1500).client
+
+    const response = await get('')
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body).toMatchObject({ totalResults: 1500, resultsWithCitations: 750 })
+    expect(body.domains[0]).toMatchObject({ domain: 'heureka.cz', results: 750, citation_rate: 50 })
+  })
+
+  it('falls back to 30 days for invalid day counts', async () => {
+    db.client = seedDatabase(2).client
+
+    for (const days of ['abc', '0', '-5', '100000', '1.5']) {
+      const response = await get(`?days=${days}&limit=x`)
+      expect(response.status).toBe(200)
+      expect((await response.json()).totalResults).toBe(2)
+    }
+  })
+})
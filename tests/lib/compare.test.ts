@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareScans,
+  isPairedChangeSignificant,
+  isSampleChangeSignificant,
+  SINGLE_SAMPLE_THRESHOLD,
+  type ResultForComparison,
+} from '@/lib/scan/compare'
+
+const result = (
+  query_text: string,
+  model: string,
+  visibility_score: number,
+  recommendation_score: number,
+  extra: { sentiment_score?: number | null; ranking_score?: number; follow_up_level?: number } = {}
+): ResultForComparison => ({
+  query_text,
+  model,
+  follow_up_level: extra.follow_up_level ?? 0,
+  metrics_json: {
+    visibility_score,
+    sentiment_score: extra.sentiment_score ?? null,
+    ranking_score: extra.ranking_score ?? 0,
+    recommendation_score,
+  },
+})
+
+describe('Scan Comparison', () => {
+  describe('isSampleChangeSignificant', () => {
+    it('uses a fixed threshold for single samples', () => {
+      expect(isSampleChangeSignificant([50], [50 + SINGLE_SAMPLE_THRESHOLD])).toBe(true)
+      expect(isSampleChangeSignificant([50], [60])).toBe(false)
+    })
+
+    it('uses Welch t-test for repeated samples', () => {
+      expect(isSampleChangeSignificant([0, 0, 0], [100, 100, 100])).toBe(true)
+      expect(isSampleChangeSignificant([0, 100, 50], [50, 100, 0])).toBe(false)
+    })
+
+    it('is not significant when a side has no samples', () => {
+      expect(isSampleChangeSignificant([], [100])).toBe(false)
+    })
+  })
+
+  describe('isPairedChangeSignificant', () => {
+    it('detects a consistent shift', () => {
+      expect(isPairedChangeSignificant([20, 25, 30, 20])).toBe(true)
+    })
+
+    it('ignores mixed changes', () => {
+      expect(isPairedChangeSignificant([50, -50, 40, -40])).toBe(false)
+    })
+
+    it('needs at least two pairs', () => {
+      expect(isPairedChangeSignificant([100])).toBe(false)
+    })
+  })
+
+  describe('compareScans', () => {
+    const base = [
+      result('best shop', 'gpt-5-mini', 0, 0),
+      result('best shop', 'claude-haiku-4-5', 50, 40, { sentiment_score: 60, ranking_score: 80 }),
+      result('cheap laptops', 'gpt-5-mini', 100, 80, { sentiment_score: 70, ranking_score: 100 }),
+      result('cheap laptops', 'gpt-5-mini', 0, 0, { follow_up_level: 1 }),
+      result('only in base', 'gpt-5-mini', 50, 30),
+    ]
+    const target = [
+      result('best shop', 'gpt-5-mini', 100, 70, { sentiment_score: 80, ranking_score: 100 }),
+      result('best shop', 'claude-haiku-4-5', 50, 45, { sentiment_score: 65, ranking_score: 80 }),
+      result('cheap laptops', 'gpt-5-mini', 0, 0),
+      result('only in target', 'claude-haiku-4-5', 50, 30),
+    ]
+
+    const comparison = compareScans(base, target)
+
+    it('compares pairs present in both scans', () => {
+      expect(comparison.pairs).toHaveLength(3)
+      expect(comparison.onlyInBase).toBe(1)
+      expect(comparison.onlyInTarget).toBe(1)
+    })
+
+    it('calculates per-pair deltas and flags large single-sample changes', () => {
+      const pair = comparison.pairs.find(p => p.query_text === 'best shop' && p.model === 'gpt-5-mini')
+      expect(pair?.metrics.visibility_score).toEqual({ before: 0, after: 100, delta: 100, significant: true })
+      expect(pair?.metrics.sentiment_score).toEqual({ before: null, after: 80, delta: null, significant: false })
+
+      const small = comparison.pairs.find(p => p.model === 'claude-haiku-4-5')
+      expect(small?.metrics.recommendation_score).toMatchObject({ delta: 5, significant: false })
+    })
+
+    it('groups by model and query', () => {
+      expect(comparison.byModel.map(g => g.key)).toEqual(['gpt-5-mini', 'claude-haiku-4-5'])
+      const gpt = comparison.byModel.find(g => g.key === 'gpt-5-mini')
+      expect(gpt?.pairs).toBe(2)
+      // +100 and -100 cancel out
+      expect(gpt?.metrics.visibility_score).toMatchObject({ before: 50, after: 50, delta: 0, significant: false })
+      expect(comparison.byQuery.map(g => g.key)).toEqual(['best shop', 'cheap laptops'])
+    })
+
+    it('lists queries where the brand appeared or disappeared', () => {
+      expect(comparison.brandChanges).toEqual([
+        { query_text: 'best shop', model: 'gpt-5-mini', change: 'appeared' },
+        { query_text: 'cheap laptops', model: 'gpt-5-mini', change: 'disappeared' },
+      ])
+    })
+
+    it('ignores follow-up results', () => {
+      const laptops = comparison.pairs.find(p => p.query_text === 'cheap laptops')
+      expect(laptops?.metrics.visibility_score.before).toBe(100)
+    })
+  })
+})
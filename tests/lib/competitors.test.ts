@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeCompetitors,
+  extractListItems,
+  getListPosition,
+  detectCompetitorMentions,
+  calculateShareOfVoice,
+  calculateShareOfVoiceByModel,
+  MAX_COMPETITORS,
+} from '@/lib/scan/competitors'
+import type { Competitor } from '@/lib/db/schema'
+
+const COMPETITORS: Competitor[] = [
+  { name: 'Alza', variations: ['Alza.cz'], domain: 'alza.cz' },
+  { name: 'Mall', variations: [], domain: 'mall.cz' },
+]
+
+const LIST_RESPONSE = `Here are the best electronics shops:
+
+1. **Alza** - huge selection and fast delivery
+2. **Datart** - good prices
+3. **Mall** - wide range of products
+
+All of them are reliable.`
+
+describe('Competitor Tracking', () => {
+  describe('normalizeCompetitors', () => {
+    it('returns empty array for invalid input', () => {
+      expect(normalizeCompetitors(undefined)).toEqual([])
+      expect(normalizeCompetitors('Alza')).toEqual([])
+      expect(normalizeCompetitors([null, 42])).toEqual([])
+    })
+
+    it('trims values and strips protocol/path from domain', () => {
+      const result = normalizeCompetitors([
+        { name: '  Alza ', variations: [' Alza.cz ', '', 'alza'], domain: 'https://www.Alza.cz/shop' },
+      ])
+      expect(result).toEqual([
+        { name: 'Alza', variations: ['Alza.cz'], domain: 'www.alza.cz' },
+      ])
+    })
+
+    it('drops entries without name and duplicate names', () => {
+      const result = normalizeCompetitors([
+        { name: '' },
+        { name: 'Mall' },
+        { name: 'mall', domain: 'mall.cz' },
+      ])
+      expect(result).toHaveLength(1)
+      expect(result[0]).toEqual({ name: 'Mall', variations: [], domain: null })
+    })
+
+    it('limits number of competitors', () => {
+      const input = Array.from({ length: MAX_COMPETITORS + 5 }, (_, i) => ({ name: `Competitor ${i}` }))
+      expect(normalizeCompetitors(input)).toHaveLength(MAX_COMPETITORS)
+    })
+  })
+
+  describe('extractListItems', () => {
+    it('extracts numbered list items', () => {
+      const items = extractListItems(LIST_RESPONSE)
+      expect(items).toHaveLength(3)
+      expect(items[0]).toContain('Alza')
+      expect(items[2]).toContain('Mall')
+    })
+
+    it('extracts bulleted list items and ignores nested bullets', () => {
+      const content = '- First shop\n  - nested detail\n- Second shop'
+      const items = extractListItems(content)
+      expect(items).toHaveLength(2)
+      expect(items[0]).toContain('nested detail')
+    })
+
+    it('returns empty array for plain text', () => {
+      expect(extractListItems('No list here at all.')).toEqual([])
+    })
+  })
+
+  describe('getListPosition', () => {
+    it('returns 1-based position of first matching item', () => {
+      expect(getListPosition(LIST_RESPONSE, ['Datart'])).toBe(2)
+      expect(getListPosition(LIST_RESPONSE, ['mall'])).toBe(3)
+    })
+
+    it('returns null when term is not in a list', () => {
+      expect(getListPosition(LIST_RESPONSE, ['Heureka'])).toBeNull()
+      expect(getListPosition('Alza is great.', ['Alza'])).toBeNull()
+    })
+  })
+
+  describe('detectCompetitorMentions', () => {
+    it('detects mentioned competitors with list positions', () => {
+      const mentions = detectCompetitorMentions(LIST_RESPONSE, COMPETITORS)
+      expect(mentions).toEqual([
+        { name: 'Alza', mentioned: true, domain_mentioned: false, position: 1 },
+        { name: 'Mall', mentioned: true, domain_mentioned: false, position: 3 },
+      ])
+    })
+
+    it('detects domain-only mentions', () => {
+      const mentions = detectCompetitorMentions('Check mall.cz for deals.', [COMPETITORS[1]])
+      expect(mentions[0]).toEqual({ name: 'Mall', mentioned: false, domain_mentioned: true, position: null })
+    })
+
+    it('reports not mentioned competitors', () => {
+      const mentions = detectCompetitorMentions('Try Datart.', COMPETITORS)
+      expect(mentions.every(m => !m.mentioned && !m.domain_mentioned && m.position === null)).toBe(true)
+    })
+  })
+
+  describe('calculateShareOfVoice', () => {
+    const results = [
+      {
+        model: 'gpt-5-mini',
+        visibility_score: 50,
+        competitor_mentions: [
+          { name: 'Alza', mentioned: true, domain_mentioned: false, position: 1 },
+          { name: 'Mall', mentioned: false, domain_mentioned: false, position: null },
+        ],
+      },
+      {
+        model: 'gpt-5-mini',
+        visibility_score: 0,
+        competitor_mentions: [
+          { name: 'Alza', mentioned: true, domain_mentioned: false, position: 3 },
+          { name: 'Mall', mentioned: true, domain_mentioned: false, position: null },
+        ],
+      },
+      {
+        model: 'claude-haiku-4-5',
+        visibility_score: 100,
+        competitor_mentions: null,
+      },
+    ]
+
+    it('calculates share of voice and mention rates', () => {
+      const sov = calculateShareOfVoice(results, COMPETITORS)
+      // Mentions: brand 2, Alza 2, Mall 1 → total 5
+      expect(sov.share_of_voice).toBe(40)
+      expect(sov.brand_mention_rate).toBe(67)
+      expect(sov.competitors).toEqual([
+        { name: 'Alza', mention_rate: 67, share_of_voice: 40, avg_position: 2 },
+        { name: 'Mall', mention_rate: 33, share_of_voice: 20, avg_position: null },
+      ])
+    })
+
+    it('returns null share of voice when nobody is mentioned', () => {
+      const sov = calculateShareOfVoice([{ visibility_score: 0, competitor_mentions: [] }], COMPETITORS)
+      expect(sov.share_of_voice).toBeNull()
+      expect(sov.brand_mention_rate).toBe(0)
+    })
+
+    it('handles empty results', () => {
+      const sov = calculateShareOfVoice([], COMPETITORS)
+      expect(sov.share_of_voice).toBeNull()
+      expect(sov.competitors.every(c => c.mention_rate === 0)).toBe(true)
+    })
+
+    it('groups results by model', () => {
+      const byModel = calculateShareOfVoiceByModel(results, COMPETITORS)
+      expect(Object.keys(byModel)).toEqual(['gpt-5-mini', 'claude-haiku-4-5'])
+      expect(byModel['gpt-5-mini'].competitors[0].mention_rate).toBe(100)
+      expect(byModel['claude-haiku-4-5'].brand_mention_rate).toBe(100)
+    })
+  })
+})
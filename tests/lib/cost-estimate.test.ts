@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { buildScanCostEstimate, buildTokenHistory, type ResultForTokenHistory } from '@/lib/credits/estimate'
+import type { PricingConfig } from '@/lib/credits/types'
+
+/**
+ * Dry-run scan cost estimate: pricing_config × historical token counts,
+ * per query × model, including follow-ups and evaluator calls.
+ */
+
+function pricing(model: string, inputCents: number, outputCents: number): PricingConfig {
+  return {
+    model,
+    provider: 'test',
+    final_input_cost_cents: inputCents,
+    final_output_cost_cents: outputCents,
+  } as PricingConfig
+}
+
+const PRICING = [
+  pricing('answer-model', 100_000, 200_000),  // $1 / $2 per 1K tokens
+  pricing('eval-model', 10_000, 10_000),
+]
+
+const QUERIES = [
+  { id: 'q1', query_text: 'Best CRM?' },
+  { id: 'q2', query_text: 'Cheapest CRM?' },
+]
+
+// Evaluator call stored with each answer: its tokens are part of input/output_tokens
+const EVALUATION = { input: 400, output: 40 }
+
+// Tokens are those of the answer; the stored totals add the evaluation
+function row({ input_tokens = 100, output_tokens = 100, ...fields }: Partial<ResultForTokenHistory>): ResultForTokenHistory {
+  return {
+    model: 'answer-model',
+    query_text: 'Best CRM?',
+    follow_up_level: 0,
+    input_tokens: input_tokens! + EVALUATION.input,
+    output_tokens: output_tokens! + EVALUATION.output,
+    answer_input_tokens: input_tokens,
+    answer_output_tokens: output_tokens,
+    ai_calls: 2,
+    ...fields,
+  }
+}
+
+describe('buildTokenHistory', () => {
+  it('averages tokens per model and per query, initial answers separately from follow-ups', () => {
+    const history = buildTokenHistory([
+      row({ input_tokens: 100, output_tokens: 300 }),
+      row({ input_tokens: 300, output_tokens: 500, query_text: 'Other?', ai_calls: 1 }),
+      row({ follow_up_level: 1, input_tokens: 900, output_tokens: 200 }),
+    ])
+
+    expect(history.byModel['answer-model'].initial).toEqual({ inputTokens: 200, outputTokens: 400, count: 2 })
+    expect(history.byModel['answer-model'].followUp).toEqual({ inputTokens: 900, outputTokens: 200, count: 1 })
+    expect(history.byModel['answer-model'].evaluationRate).toBeCloseTo(2 / 3)
+    expect(history.byQuery['answer-model|Best CRM?'].initial).toEqual({ inputTokens: 100, outputTokens: 300, count: 1 })
+  })
+
+  it('takes the estimated evaluation share off results saved without answer tokens', () => {
+    const history = buildTokenHistory([
+      // 1000 in / 2000 out for the answer, (350 prompt + 2000 answer) in / 40 out for the evaluation
+      { ...row({}), answer_input_tokens: null, answer_output_tokens: null, input_tokens: 3350, output_tokens: 2040 },
+    ])
+    expect(history.byModel['answer-model'].initial).toEqual({ inputTokens: 1000, outputTokens: 2000, count: 1 })
+  })
+
+  it('ignores results saved before AI calls were counted for the evaluation rate', () => {
+    const history = buildTokenHistory([row({ ai_calls: 0 })])
+    expect(history.byModel['answer-model'].evaluationRate).toBeNull()
+  })
+})
+
+describe('buildScanCostEstimate', () => {
+  it('prices every query × model pair with follow-ups, samples and evaluation', () => {
+    const history = buildTokenHistory([
+      row({ input_tokens: 1000, output_tokens: 2000 }),
+      row({ follow_up_level: 1, input_tokens: 3000, output_tokens: 1000 }),
+    ])
+
+    const estimate = buildScanCostEstimate({
+      pricing: PRICING,
+      queries: QUERIES,
+      models: ['answer-model'],
+      samplesPerQuery: 2,
+      followUpDepth: 1,
+      evaluationModel: 'eval-model',
+      history,
+    })
+
+    // q1 has its own history: 1000 in × $1 + 2000 out × $2 = 500 cents per answer
+    const [q1, q2] = estimate.lines
+    expect(q1).toMatchObject({ queryId: 'q1', model: 'answer-model', source: 'query', queryCents: 1000 })
+    // Follow-up: 3000 × 0.1 + 1000 × 0.2 = 500 cents, × 2 samples
+    expect(q1.followUpCents).toBe(1000)
+    // Evaluation: (350 + 2000) + 40 tokens → 24 cents, (350 + 1000) + 40 → 14 cents, × 2 samples
+    expect(q1.evaluationCents).toBe(76)
+    // q2 was never asked - falls back to the model average (same rows here)
+    expect(q2.source).toBe('model')
+
+    expect(estimate.answerCalls).toBe(8)
+    expect(estimate.totalCents).toBe(2 * (1000 + 1000 + 76))
+    expect(estimate.byModel).toEqual([{ model: 'answer-model', priced: true, totalCents: estimate.totalCents }])
+    expect(estimate.queryCents + estimate.followUpCents + estimate.evaluationCents).toBe(estimate.totalCents)
+  })
+
+  it('uses defaults without history and skips follow-ups when disabled', () => {
+    const estimate = buildScanCostEstimate({
+      pricing: PRICING,
+      queries: QUERIES.slice(0, 1),
+      models: ['answer-model', 'unpriced-model'],
+      samplesPerQuery: 1,
+      followUpDepth: 0,
+      evaluationModel: 'eval-model',
+      history: buildTokenHistory([]),
+    })
+
+    // 500 in × $1 + 1000 out × $2 per 1K tokens
+    expect(estimate.lines[0]).toMatchObject({ source: 'default', queryCents: 250, followUpCents: 0 })
+    expect(estimate.followUpCents).toBe(0)
+    expect(estimate.byModel[1]).toEqual({ model: 'unpriced-model', priced: false, totalCents: estimate.lines[1].totalCents })
+    expect(estimate.lines[1].queryCents).toBe(0)
+  })
+})
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+/**
+ * Credit reservations: a finished scan consumes its reservation and gets the
+ * unused part back on the balance.
+ */
+
+const db = vi.hoisted(() => ({ client: null as any }))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { consumeReservation } from '@/lib/credits'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const USER = { id: 'user-1' }
+
+describe('consumeReservation', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('refunds the unused part of the reservation to the balance', async () => {
+    const { client, tables } = createSupabaseMock(USER, {
+      credit_reservations: [{ id: 'reservation-1', user_id: USER.id, amount_cents: 500, status: 'active' }],
+      user_profiles: [{ user_id: USER.id, tier: 'paid', credit_balance_cents: 1000 }],
+      credit_transactions: [],
+    })
+    db.client = client
+
+    const result = await consumeReservation('reservation-1', 200, 'scan-1')
+
+    expect(result).toEqual({ success: true, refunded: 300 })
+    expect(tables.credit_reservations[0].status).toBe('consumed')
+    expect(tables.user_profiles[0].credit_balance_cents).toBe(1300)
+    expect(tables.credit_transactions[0]).toMatchObject({ amount_cents: -200, balance_after_cents: 1300, reference_id: 'scan-1' })
+  })
+
+  it('does not consume a reservation twice', async () => {
+    const { client, tables } = createSupabaseMock(USER, {
+      credit_reservations: [{ id: 'reservation-1', user_id: USER.id, amount_cents: 500, status: 'consumed' }],
+      user_profiles: [{ user_id: USER.id, tier: 'paid', credit_balance_cents: 1000 }],
+    })
+    db.client = client
+
+    expect(await consumeReservation('reservation-1', 200, 'scan-1')).toEqual({ success: false, error: 'Reservation already processed' })
+    expect(tables.user_profiles[0].credit_balance_cents).toBe(1000)
+  })
+})
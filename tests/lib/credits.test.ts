@@ -7,6 +7,7 @@ import {
   calculateTopUpBonus,
   estimateScanCost,
   canUserPerformAction,
+  getRemainingQueries,
   getAvailableModels,
   type UserProfile,
   type TierLimits,
@@ -234,6 +235,19 @@ describe('User Permission Checks', () => {
       expect(result.allowed).toBe(false)
       expect(result.reason).toContain('Pro users')
     })
+
+    it('checks batches of queries against the per-project limit', () => {
+      const profile = createMockProfile({ tier: 'free' })
+      const limits = createMockLimits({ max_queries_per_project: 5 })
+
+      expect(canUserPerformAction(profile, limits, 'add_query', { queries: 4 }).allowed).toBe(true)
+      expect(canUserPerformAction(profile, limits, 'add_query', { queries: 5 }).allowed).toBe(false)
+      expect(canUserPerformAction(profile, limits, 'add_query', { queries: 2, adding: 3 }).allowed).toBe(true)
+      expect(canUserPerformAction(profile, limits, 'add_query', { queries: 2, adding: 4 }).allowed).toBe(false)
+      expect(getRemainingQueries(profile, limits, 2)).toBe(3)
+      expect(getRemainingQueries(profile, limits, 7)).toBe(0)
+      expect(getRemainingQueries(createMockProfile({ tier: 'admin' }), limits, 7)).toBeNull()
+    })
   })
 })
 
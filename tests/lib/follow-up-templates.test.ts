@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findBrandMentionsInTemplates,
+  getFollowUpQuestion,
+  getFollowUpQuestions,
+  normalizeFollowUpTemplates,
+} from '@/lib/scan/follow-up-templates'
+
+/**
+ * Custom follow-up chains per project: built-ins as defaults, cleanup of the
+ * settings form input and the brand-neutrality check.
+ */
+
+describe('custom follow-up questions', () => {
+  it('uses the project question for its level and built-ins for the gaps', () => {
+    const custom = { transactional: ['Which one integrates with Shopify?', '', 'Welche hat den besten Support?'] }
+
+    expect(getFollowUpQuestions('transactional', 3, 'de', custom)).toEqual([
+      'Which one integrates with Shopify?',
+      getFollowUpQuestion('transactional', 2, 'de'),
+      'Welche hat den besten Support?',
+    ])
+    expect(getFollowUpQuestion('comparison', 1, 'en', custom)).toBe(getFollowUpQuestion('comparison', 1, 'en'))
+  })
+
+  it('normalizes form input to known query types and at most three levels', () => {
+    expect(normalizeFollowUpTemplates({
+      informational: ['  Tell me more  ', '', 'Any others?', 'Level four'],
+      transactional: ['', '  '],
+      comparison: 'not a list',
+      navigational: ['Unknown type'],
+    })).toEqual({
+      informational: ['Tell me more', '', 'Any others?'],
+    })
+    expect(normalizeFollowUpTemplates(null)).toEqual({})
+    expect(normalizeFollowUpTemplates(['a'])).toEqual({})
+  })
+})
+
+describe('findBrandMentionsInTemplates', () => {
+  it('flags questions naming the brand, an inflected variation or the domain', () => {
+    const issues = findBrandMentionsInTemplates(
+      {
+        informational: ['Which shop has the best prices?', 'Is Alzy cheaper than the rest?'],
+        comparison: ['How does alza.cz compare?'],
+      },
+      ['Alza'],
+      'alza.cz',
+      'cs'
+    )
+
+    expect(issues.map(i => [i.queryType, i.level])).toEqual([
+      ['informational', 2],
+      ['comparison', 1],
+    ])
+    expect(issues[0].message).toContain('mentions the brand')
+  })
+
+  it('accepts brand-neutral chains', () => {
+    expect(findBrandMentionsInTemplates(
+      { transactional: ['Which one integrates with Shopify?'] },
+      ['Acme'],
+      'acme.com',
+      'en'
+    )).toEqual([])
+  })
+})
@@ -0,0 +1,67 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  LOCALES,
+  SUPPORTED_LANGUAGES,
+  getLanguagePromptName,
+  resolveLanguage,
+} from '@/lib/locales'
+import { getGEOSystemPrompt, GEO_SYSTEM_PROMPT_BASE } from '@/lib/ai'
+import {
+  FOLLOW_UP_TEMPLATES,
+  GENERIC_FOLLOW_UP,
+  QUERY_TYPES,
+  getFollowUpQuestion,
+} from '@/lib/scan/follow-up-templates'
+
+/**
+ * Every supported project language must be complete: a prompt name for the
+ * response instruction and a translated question for every follow-up level.
+ */
+
+describe('locale registry', () => {
+  it('resolves regional variants and falls back to English', () => {
+    expect(resolveLanguage('de-AT')).toBe('de')
+    expect(resolveLanguage('PT_br')).toBe('pt')
+    expect(resolveLanguage('ja')).toBe('en')
+    expect(resolveLanguage(undefined)).toBe('en')
+  })
+
+  it('names every non-English language in the GEO system prompt', () => {
+    expect(getGEOSystemPrompt('en-US')).toBe(GEO_SYSTEM_PROMPT_BASE)
+
+    for (const language of SUPPORTED_LANGUAGES.filter(l => l !== 'en')) {
+      const name = getLanguagePromptName(language)
+      expect(name).toBe(`${LOCALES[language].label} (${LOCALES[language].nativeName})`)
+      expect(getGEOSystemPrompt(language)).toContain(`You MUST respond in ${name}`)
+    }
+    // Unknown codes are passed through
+    expect(getGEOSystemPrompt('ja')).toContain('You MUST respond in ja')
+  })
+})
+
+describe('follow-up templates per language', () => {
+  it('has one template per query type and level', () => {
+    for (const queryType of QUERY_TYPES) {
+      for (const level of [1, 2, 3]) {
+        expect(FOLLOW_UP_TEMPLATES.filter(t => t.queryType === queryType && t.level === level)).toHaveLength(1)
+      }
+    }
+  })
+
+  it.each(SUPPORTED_LANGUAGES.filter(l => l !== 'en'))('translates every template to %s', (language) => {
+    for (const template of FOLLOW_UP_TEMPLATES) {
+      const question = template.questions[language]
+      expect(question?.trim(), `${template.queryType} level ${template.level}`).toBeTruthy()
+      expect(question).not.toBe(template.questions.en)
+      expect(getFollowUpQuestion(template.queryType, template.level, language)).toBe(question)
+    }
+    expect(GENERIC_FOLLOW_UP[language]?.trim()).toBeTruthy()
+    expect(GENERIC_FOLLOW_UP[language]).not.toBe(GENERIC_FOLLOW_UP.en)
+  })
+
+  it('uses English for unsupported languages', () => {
+    expect(getFollowUpQuestion('comparison', 2, 'ja')).toBe(getFollowUpQuestion('comparison', 2, 'en'))
+    expect(getFollowUpQuestion('comparison', 2, 'de-CH')).toBe(getFollowUpQuestion('comparison', 2, 'de'))
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import {
+  foldText,
+  normalizeDomain,
+  findNameSpans,
+  findDomainSpans,
+  getListItemRanges,
+  extractMentions,
+  visibilityScoreFromMentions,
+  rankingScoreFromPosition,
+} from '@/lib/scan/mentions'
+
+describe('Brand Mention Extraction', () => {
+  describe('foldText', () => {
+    it('lowercases and strips diacritics', () => {
+      expect(foldText('Café Žluťoučký')).toBe('cafe zlutoucky')
+    })
+  })
+
+  describe('normalizeDomain', () => {
+    it('strips protocol, www, path and port', () => {
+      expect(normalizeDomain('https://www.Alza.cz/shop?x=1')).toBe('alza.cz')
+      expect(normalizeDomain('alza.cz:443')).toBe('alza.cz')
+      expect(normalizeDomain('alza.cz')).toBe('alza.cz')
+    })
+  })
+
+  describe('findNameSpans', () => {
+    it('respects word boundaries', () => {
+      expect(findNameSpans('A small shop nearby.', ['Mall'])).toEqual([])
+      expect(findNameSpans('Try Mall today.', ['Mall'])).toHaveLength(1)
+    })
+
+    it('does not match brand split into generic words', () => {
+      expect(findNameSpans('Shrnuto v kontextu celé odpovědi.', ['Vkontextu'], 'cs')).toEqual([])
+    })
+
+    it('matches regardless of diacritics and returns original offsets', () => {
+      const content = 'Doporučuji Café Praha.'
+      const spans = findNameSpans(content, ['Cafe Praha'])
+      expect(spans).toHaveLength(1)
+      expect(content.slice(spans[0].start, spans[0].end)).toBe('Café Praha')
+      expect(spans[0].text).toBe('Café Praha')
+    })
+
+    it('matches Czech inflected forms', () => {
+      const content = 'Nakupoval jsem u Alzy a s Alzou jsem spokojen.'
+      const spans = findNameSpans(content, ['Alza'], 'cs')
+      expect(spans.map(s => s.text)).toEqual(['Alzy', 'Alzou'])
+    })
+
+    it('does not apply inflections for languages without rules', () => {
+      expect(findNameSpans('I bought it at Alzy.', ['Alza'], 'en')).toEqual([])
+    })
+
+    it('matches multi-word brands with flexible whitespace', () => {
+      expect(findNameSpans('Visit Notino\n Shop online.', ['Notino Shop'])).toHaveLength(1)
+    })
+  })
+
+  describe('findDomainSpans', () => {
+    it('matches bare domains, subdomains and URLs', () => {
+      const content = 'See alza.cz, https://www.alza.cz/deals or shop.alza.cz.'
+      expect(findDomainSpans(content, 'https://alza.cz')).toHaveLength(3)
+    })
+
+    it('ignores lookalike domains', () => {
+      expect(findDomainSpans('Visit notalza.cz or alza.czech.', 'alza.cz')).toEqual([])
+    })
+  })
+
+  describe('getListItemRanges', () => {
+    it('returns offsets of top-level list items', () => {
+      const content = 'Intro\n\n1. First\n2. Second\n   detail\n\nOutro'
+      const ranges = getListItemRanges(content)
+      expect(ranges.map(r => content.slice(r.start, r.end))).toEqual(['1. First', '2. Second\n   detail'])
+    })
+  })
+
+  describe('extractMentions', () => {
+    const content = `Best shops:
+
+1. **Datart** - good prices
+2. **Alza** (alza.cz) - huge selection
+3. **Mall** - wide range`
+
+    it('extracts brand mention, domain and list position', () => {
+      const { brand } = extractMentions(content, { brandVariations: ['Alza'], domain: 'alza.cz' })
+      expect(brand.mentioned).toBe(true)
+      expect(brand.domain_mentioned).toBe(true)
+      expect(brand.position).toBe(2)
+      expect(brand.spans.map(s => s.kind)).toEqual(['name', 'domain'])
+    })
+
+    it('extracts competitor mentions alongside brand', () => {
+      const { competitors } = extractMentions(content, {
+        brandVariations: ['Alza'],
+        domain: 'alza.cz',
+        competitors: [{ name: 'Mall', variations: [], domain: 'mall.cz' }],
+      })
+      expect(competitors[0]).toMatchObject({ name: 'Mall', mentioned: true, domain_mentioned: false, position: 3 })
+    })
+
+    it('prefers domain span over overlapping name span', () => {
+      const { brand } = extractMentions('Visit alza.cz today.', { brandVariations: ['Alza'], domain: 'alza.cz' })
+      expect(brand.spans).toEqual([{ start: 6, end: 13, text: 'alza.cz', kind: 'domain' }])
+      expect(brand).toMatchObject({ mentioned: false, domain_mentioned: true })
+    })
+
+    it('counts a name mention next to the domain', () => {
+      const { brand } = extractMentions('Alza sells online at alza.cz.', { brandVariations: ['Alza'], domain: 'alza.cz' })
+      expect(brand).toMatchObject({ mentioned: true, domain_mentioned: true })
+    })
+
+    it('reports no mentions for unrelated content', () => {
+      const { brand } = extractMentions('Nothing relevant here.', { brandVariations: ['Alza'], domain: 'alza.cz' })
+      expect(brand).toEqual({ name: 'Alza', mentioned: false, domain_mentioned: false, position: null, spans: [] })
+    })
+  })
+
+  describe('deterministic scores', () => {
+    it('scores visibility from brand and domain mentions', () => {
+      const base = { name: 'Alza', position: null, spans: [] }
+      expect(visibilityScoreFromMentions({ ...base, mentioned: true, domain_mentioned: true })).toBe(100)
+      expect(visibilityScoreFromMentions({ ...base, mentioned: false, domain_mentioned: true })).toBe(50)
+      expect(visibilityScoreFromMentions({ ...base, mentioned: false, domain_mentioned: false })).toBe(0)
+    })
+
+    it('scores ranking from list position', () => {
+      expect(rankingScoreFromPosition(1)).toBe(100)
+      expect(rankingScoreFromPosition(2)).toBe(80)
+      expect(rankingScoreFromPosition(3)).toBe(60)
+      expect(rankingScoreFromPosition(7)).toBe(40)
+      expect(rankingScoreFromPosition(null)).toBe(0)
+    })
+  })
+})
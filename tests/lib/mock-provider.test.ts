@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+
+// The mock model is registered in AVAILABLE_MODELS at module load
+vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+})
+
+import { callGEOQuery, callEvaluation, getCheapestEvaluationModel, AVAILABLE_MODELS } from '@/lib/ai'
+import { getMockAnswer, setMockFixtures, resetMockProvider, estimateMockTokens } from '@/lib/ai/mock'
+
+afterAll(() => {
+  delete process.env.AI_MOCK_PROVIDER
+})
+
+beforeEach(() => {
+  resetMockProvider()
+})
+
+describe('Mock AI Provider', () => {
+  describe('registration', () => {
+    it('registers mock-model when AI_MOCK_PROVIDER is enabled', () => {
+      const model = AVAILABLE_MODELS.find(m => m.id === 'mock-model')
+      expect(model?.provider).toBe('mock')
+      expect(model?.isActive).toBe(true)
+    })
+
+    it('is the cheapest evaluation model so scans stay offline', () => {
+      expect(getCheapestEvaluationModel()).toBe('mock-model')
+    })
+  })
+
+  describe('getMockAnswer', () => {
+    it('returns the same answer for the same prompt and seed', () => {
+      const first = getMockAnswer({ modelId: 'mock-model', userPrompt: 'Best running shoes?', temperature: 0 })
+      resetMockProvider()
+      const second = getMockAnswer({ modelId: 'mock-model', userPrompt: 'Best running shoes?', temperature: 0 })
+
+      expect(first).toBe(second)
+      expect(first).toMatch(/^1\. \*\*/m)
+    })
+
+    it('varies repeated calls when temperature is above 0', () => {
+      const answers = new Set(Array.from({ length: 5 }, () =>
+        getMockAnswer({ modelId: 'mock-model', userPrompt: 'Best running shoes?', temperature: 0.7 })
+      ))
+      expect(answers.size).toBeGreaterThan(1)
+    })
+
+    it('uses fixtures keyed by query text and cycles through arrays', () => {
+      setMockFixtures({ 'Best running shoes?': ['First answer', 'Second answer'] })
+
+      expect(getMockAnswer({ modelId: 'mock-model', userPrompt: '  best RUNNING   shoes? ' })).toBe('First answer')
+      expect(getMockAnswer({ modelId: 'mock-model', userPrompt: '  best RUNNING   shoes? ' })).toBe('Second answer')
+      expect(getMockAnswer({ modelId: 'mock-model', userPrompt: '  best RUNNING   shoes? ' })).toBe('First answer')
+    })
+
+    it('answers evaluation prompts with parseable JSON scores', () => {
+      const answer = getMockAnswer({
+        modelId: 'mock-model',
+        userPrompt: 'Return ONLY a JSON object: { "sentiment_score": <number>, "recommendation_score": <number> }',
+        temperature: 0.1,
+      })
+      const parsed = JSON.parse(answer)
+
+      expect(parsed.sentiment_score).toBeGreaterThanOrEqual(0)
+      expect(parsed.recommendation_score).toBeLessThanOrEqual(100)
+    })
+
+    it('answers query generation prompts with the requested number of queries', () => {
+      const answer = getMockAnswer({
+        modelId: 'mock-model',
+        userPrompt: 'Generate exactly 3 diverse test queries. [{ "query_text": "...", "query_type": "..." }]',
+      })
+      expect(JSON.parse(answer)).toHaveLength(3)
+    })
+  })
+
+  describe('AI calls', () => {
+    it('returns realistic token usage and cost through callGEOQuery', async () => {
+      setMockFixtures({ 'Which CRM should I use?': 'Try **Acme CRM**, it is simple and affordable.' })
+
+      const result = await callGEOQuery('mock-model', 'Which CRM should I use?')
+
+      expect(result.content).toBe('Try **Acme CRM**, it is simple and affordable.')
+      expect(result.provider).toBe('mock')
+      expect(result.outputTokens).toBe(estimateMockTokens(result.content))
+      expect(result.inputTokens).toBeGreaterThan(50) // System prompt counts too
+      expect(result.baseCostUsd).toBeGreaterThan(0)
+    })
+
+    it('runs evaluation with deterministic visibility and mock scores', async () => {
+      const evaluation = await callEvaluation('mock-model', '1. **Acme** is great.\n2. Other tool.', ['Acme'], 'acme.com')
+
+      expect(evaluation.metrics?.visibility_score).toBe(50)
+      expect(evaluation.metrics?.ranking_score).toBe(100)
+      expect(evaluation.metrics?.recommendation_score).toBeGreaterThan(0)
+      expect(evaluation.inputTokens).toBeGreaterThan(0)
+    })
+  })
+})
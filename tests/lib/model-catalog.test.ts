@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+import {
+  AVAILABLE_MODELS,
+  getModelInfo,
+  resolveModelId,
+  isChainOfThoughtModel,
+  getCheapestEvaluationModel,
+  getGatewayModelId,
+} from '@/lib/ai'
+import {
+  loadModelCatalog,
+  invalidateModelCatalog,
+  resetModelCatalog,
+  catalogEntryToModelInfo,
+} from '@/lib/ai/catalog'
+import type { ModelCatalogEntry } from '@/lib/db/schema'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+function entry(overrides: Partial<ModelCatalogEntry>): ModelCatalogEntry {
+  return {
+    id: 'test-model',
+    provider: 'openai',
+    name: 'Test Model',
+    description: '',
+    gateway_model_id: null,
+    context_window: 128000,
+    capabilities: [],
+    chain_of_thought: false,
+    aliases: [],
+    input_price_usd: 1,
+    output_price_usd: 2,
+    available_free_tier: true,
+    is_active: true,
+    deprecated_at: null,
+    replacement_model: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+const CATALOG = [
+  entry({ id: 'gpt-5-mini', name: 'GPT-5 Mini', input_price_usd: 0.25, output_price_usd: 2, aliases: ['gpt-4o'] }),
+  entry({ id: 'gpt-6-nano', name: 'GPT-6 Nano', input_price_usd: 0.05, output_price_usd: 0.2, chain_of_thought: true }),
+  entry({
+    id: 'sonar-next',
+    provider: 'perplexity',
+    name: 'Sonar Next',
+    gateway_model_id: 'perplexity/sonar-next',
+    capabilities: ['web_search'],
+    aliases: ['sonar-reasoning-pro'],
+    deprecated_at: '2026-12-31',
+    replacement_model: 'gpt-5-mini',
+  }),
+]
+
+beforeEach(() => {
+  resetModelCatalog()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  resetModelCatalog()
+})
+
+describe('Model Catalog', () => {
+  it('maps catalog rows to ModelInfo', () => {
+    const info = catalogEntryToModelInfo(CATALOG[2])
+
+    expect(info).toMatchObject({
+      id: 'sonar-next',
+      provider: 'perplexity',
+      pricing: { input: 1, output: 2 },
+      gatewayId: 'perplexity/sonar-next',
+      capabilities: ['web_search'],
+      chainOfThought: false,
+      deprecatedAt: '2026-12-31',
+      replacementModel: 'gpt-5-mini',
+    })
+  })
+
+  it('replaces the registry with catalog models', async () => {
+    const { client } = createSupabaseMock(null, { model_catalog: CATALOG })
+    await loadModelCatalog(client as any)
+
+    expect(AVAILABLE_MODELS.map(m => m.id)).toEqual(['gpt-5-mini', 'gpt-6-nano', 'sonar-next'])
+    expect(getModelInfo('claude-sonnet-4-5')).toBeUndefined()
+    expect(getGatewayModelId('sonar-next')).toBe('perplexity/sonar-next')
+    expect(getGatewayModelId('gpt-6-nano')).toBe('openai/gpt-6-nano')
+  })
+
+  it('resolves catalog aliases', async () => {
+    const { client } = createSupabaseMock(null, { model_catalog: CATALOG })
+    await loadModelCatalog(client as any)
+
+    expect(resolveModelId('gpt-4o')).toBe('gpt-5-mini')
+    expect(resolveModelId('sonar-reasoning-pro')).toBe('sonar-next')
+    expect(getModelInfo('sonar-reasoning-pro')?.name).toBe('Sonar Next')
+  })
+
+  it('uses the chain-of-thought flag instead of hard-coded model IDs', async () => {
+    expect(isChainOfThoughtModel('gpt-5-nano')).toBe(true)
+    expect(isChainOfThoughtModel('gpt-5-mini')).toBe(false)
+
+    const { client } = createSupabaseMock(null, { model_catalog: CATALOG })
+    await loadModelCatalog(client as any)
+
+    expect(isChainOfThoughtModel('gpt-6-nano')).toBe(true)
+    // Cheapest model is chain-of-thought, so evaluation skips it
+    expect(getCheapestEvaluationModel()).toBe('gpt-5-mini')
+  })
+
+  it('caches the catalog until invalidated', async () => {
+    const { client, tables } = createSupabaseMock(null, { model_catalog: CATALOG })
+    await loadModelCatalog(client as any)
+
+    tables.model_catalog.push(entry({ id: 'gpt-7' }))
+    await loadModelCatalog(client as any)
+    expect(getModelInfo('gpt-7')).toBeUndefined()
+
+    invalidateModelCatalog()
+    await loadModelCatalog(client as any)
+    expect(getModelInfo('gpt-7')).toBeDefined()
+  })
+
+  it('keeps built-in models when the catalog is empty or unreachable', async () => {
+    const builtInCount = AVAILABLE_MODELS.length
+
+    const { client } = createSupabaseMock(null, {})
+    await loadModelCatalog(client as any)
+    expect(AVAILABLE_MODELS).toHaveLength(builtInCount)
+
+    const failing = {
+      from: () => ({
+        select: () => ({ order: () => ({ order: async () => ({ data: null, error: { message: 'relation does not exist' } }) }) }),
+      }),
+    }
+    await loadModelCatalog(failing as any, { force: true })
+    expect(AVAILABLE_MODELS).toHaveLength(builtInCount)
+    expect(getModelInfo('gpt-5-nano')).toBeDefined()
+  })
+})
@@ -101,7 +101,7 @@ describe('Model Centralization', () => {
     })
   })
 
-  it('should export LLMModel type union matching AVAILABLE_MODELS', async () => {
+  it('should keep the built-in model list in sync with the catalog seed', async () => {
     // This is a compile-time check, but we can verify at runtime too
     const { AVAILABLE_MODELS: models } = await import('@/lib/ai')
     
@@ -133,10 +133,9 @@ Actual: ${AVAILABLE_MODELS.length}
 
 If you added/removed a model:
 1. ✅ Update EXPECTED_MODEL_COUNT in this test
-2. ✅ Update LLMModel type union in lib/ai/index.ts
-3. ✅ Update database migration if pricing changed
-4. ✅ Update DEFAULT_MODELS if needed
-5. ✅ Run all tests to ensure consistency
+2. ✅ Add the model in Admin → Model Catalog (or a model_catalog migration)
+3. ✅ Keep the built-in fallback list in lib/ai/providers.ts in sync
+4. ✅ Run all tests to ensure consistency
       `)
     }
     
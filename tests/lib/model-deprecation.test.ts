@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest'
+import {
+  isModelRetired,
+  getModelSuccessor,
+  resolveProjectModels,
+  getDeprecatedSelections,
+  migrateModelSelection,
+  detectModelSwitches,
+} from '@/lib/ai/deprecation'
+import { registerModels, resetModelRegistry, type ModelInfo } from '@/lib/ai/providers'
+
+const NOW = new Date('2026-06-01T00:00:00Z')
+
+function model(overrides: Partial<ModelInfo>): ModelInfo {
+  return {
+    id: 'test-model',
+    name: 'Test Model',
+    provider: 'openai',
+    description: '',
+    contextWindow: 128000,
+    pricing: { input: 1, output: 2 },
+    availableFreeTier: true,
+    isActive: true,
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  registerModels([
+    model({ id: 'gpt-5-mini', aliases: ['gpt-4o'] }),
+    model({ id: 'gpt-5-2' }),
+    // Retired by date, successor is itself retired → chain continues
+    model({ id: 'old-a', deprecatedAt: '2026-01-01', replacementModel: 'old-b' }),
+    model({ id: 'old-b', isActive: false, replacementModel: 'gpt-5-2' }),
+    // Scheduled for retirement
+    model({ id: 'sunset', deprecatedAt: '2026-12-31', replacementModel: 'gpt-5-mini' }),
+    // Retired without successor
+    model({ id: 'orphan', isActive: false }),
+    // Replacement cycle
+    model({ id: 'loop-a', isActive: false, replacementModel: 'loop-b' }),
+    model({ id: 'loop-b', isActive: false, replacementModel: 'loop-a' }),
+  ])
+})
+
+afterAll(() => {
+  resetModelRegistry()
+})
+
+describe('Model Deprecation', () => {
+  it('treats unknown, inactive and past-date models as retired', () => {
+    expect(isModelRetired('gpt-5-mini', NOW)).toBe(false)
+    expect(isModelRetired('sunset', NOW)).toBe(false)
+    expect(isModelRetired('old-a', NOW)).toBe(true)
+    expect(isModelRetired('old-b', NOW)).toBe(true)
+    expect(isModelRetired('gpt-4o', NOW)).toBe(true)
+    expect(isModelRetired('sunset', new Date('2027-01-01'))).toBe(true)
+  })
+
+  it('follows the replacement chain and aliases to an active successor', () => {
+    expect(getModelSuccessor('old-a', NOW)).toBe('gpt-5-2')
+    expect(getModelSuccessor('gpt-4o', NOW)).toBe('gpt-5-mini')
+    expect(getModelSuccessor('orphan', NOW)).toBeNull()
+    expect(getModelSuccessor('loop-a', NOW)).toBeNull()
+  })
+
+  it('runs successors in scans instead of dropping retired models', () => {
+    const { models, replacements } = resolveProjectModels(['gpt-4o', 'old-a', 'gpt-5-mini', 'orphan', 'sunset'], NOW)
+
+    expect(models).toEqual(['gpt-5-mini', 'gpt-5-2', 'sunset'])
+    expect(replacements.map(r => [r.from, r.to])).toEqual([
+      ['gpt-4o', 'gpt-5-mini'],
+      ['old-a', 'gpt-5-2'],
+      ['orphan', null],
+    ])
+  })
+
+  it('migrates retired and scheduled deprecations in a project selection', () => {
+    const deprecated = getDeprecatedSelections(['gpt-5-2', 'sunset', 'orphan'], NOW)
+    expect(deprecated).toEqual([
+      { from: 'sunset', to: 'gpt-5-mini', deprecatedAt: '2026-12-31', retired: false },
+      { from: 'orphan', to: null, deprecatedAt: null, retired: true },
+    ])
+
+    expect(migrateModelSelection(['gpt-5-2', 'sunset', 'orphan'], NOW).models).toEqual(['gpt-5-2', 'gpt-5-mini'])
+    expect(getDeprecatedSelections(['gpt-5-2', 'gpt-5-mini'], NOW)).toEqual([])
+  })
+
+  it('annotates scans whose model set changed', () => {
+    const switches = detectModelSwitches([
+      { id: 's1', created_at: '2026-05-01T10:00:00Z', models: ['old-a', 'gpt-5-mini'] },
+      { id: 's2', created_at: '2026-05-02T10:00:00Z', models: null },
+      { id: 's3', created_at: '2026-05-03T10:00:00Z', models: ['gpt-5-mini', 'old-a'] },
+      { id: 's4', created_at: '2026-05-04T10:00:00Z', models: ['gpt-5-mini', 'gpt-5-2', 'sunset'] },
+    ])
+
+    expect(switches).toEqual([{
+      scanId: 's4',
+      createdAt: '2026-05-04T10:00:00Z',
+      removed: ['old-a'],
+      added: ['gpt-5-2', 'sunset'],
+      replacements: [{ from: 'old-a', to: 'gpt-5-2' }],
+    }])
+  })
+})
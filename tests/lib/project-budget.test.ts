@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkProjectBudget,
+  checkRetryBudget,
+  checkScanBudget,
+  getBudgetMonthStart,
+  getBudgetStatus,
+  normalizeMonthlyBudget,
+} from '@/lib/credits/budget'
+import type { PricingConfig } from '@/lib/credits/types'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+/**
+ * Per-project monthly budget: spend of the current month (UTC) from scans,
+ * refusal when a scan's estimate would exceed the cap, warning from 80%.
+ */
+
+const NOW = new Date('2026-03-15T12:00:00Z')
+const PROJECT = { id: 'project-1', monthly_budget_cents: 1000 }
+
+function scan(id: string, createdAt: string, costUsd: number, projectId = 'project-1') {
+  return { id, project_id: projectId, created_at: createdAt, total_cost_usd: costUsd }
+}
+
+function mockScans(...scans: ReturnType<typeof scan>[]) {
+  return createSupabaseMock({ id: 'user-1' }, { scans }).client
+}
+
+describe('budget helpers', () => {
+  it('normalizes the budget to positive whole cents or no cap', () => {
+    expect(normalizeMonthlyBudget(1234.4)).toBe(1234)
+    expect(normalizeMonthlyBudget('500')).toBe(500)
+    expect(normalizeMonthlyBudget(0)).toBeNull()
+    expect(normalizeMonthlyBudget(-5)).toBeNull()
+    expect(normalizeMonthlyBudget('')).toBeNull()
+    expect(normalizeMonthlyBudget('abc')).toBeNull()
+  })
+
+  it('starts the month at midnight UTC on the 1st', () => {
+    expect(getBudgetMonthStart(NOW)).toBe('2026-03-01T00:00:00.000Z')
+  })
+
+  it('reports ok, warning from 80% and exceeded from 100%', () => {
+    expect(getBudgetStatus(null, 500).status).toBe('none')
+    expect(getBudgetStatus(1000, 799).status).toBe('ok')
+    expect(getBudgetStatus(1000, 800).status).toBe('warning')
+    expect(getBudgetStatus(1000, 1000).status).toBe('exceeded')
+  })
+})
+
+describe('checkProjectBudget', () => {
+  it('counts only this month\'s scans of the project', async () => {
+    const supabase = mockScans(
+      scan('s1', '2026-03-02T08:00:00Z', 2.5),
+      scan('s2', '2026-03-10T08:00:00Z', 1.25),
+      scan('old', '2026-02-28T23:59:00Z', 50),
+      scan('other', '2026-03-05T08:00:00Z', 50, 'project-2'),
+    )
+
+    const check = await checkProjectBudget(supabase, PROJECT, 100, NOW)
+
+    expect(check.budget).toMatchObject({ budgetCents: 1000, spentCents: 375, status: 'ok' })
+    expect(check).toMatchObject({ allowed: true, warning: false })
+  })
+
+  it('warns when the scan brings spend to 80% and refuses above the budget', async () => {
+    const supabase = mockScans(scan('s1', '2026-03-02T08:00:00Z', 7))
+
+    const warned = await checkProjectBudget(supabase, PROJECT, 200, NOW)
+    expect(warned).toMatchObject({ allowed: true, warning: true })
+    expect(warned.reason).toContain('90%')
+
+    const refused = await checkProjectBudget(supabase, PROJECT, 301, NOW)
+    expect(refused.allowed).toBe(false)
+    expect(refused.reason).toBe('Monthly budget of $10.00 would be exceeded ($7.00 spent, this scan ~$3.01)')
+  })
+
+  it('always allows projects without a budget', async () => {
+    const supabase = mockScans(scan('s1', '2026-03-02T08:00:00Z', 500))
+    const check = await checkProjectBudget(supabase, { id: 'project-1', monthly_budget_cents: null }, 10_000, NOW)
+    expect(check).toMatchObject({ allowed: true, warning: false, budget: { status: 'none', spentCents: 50_000 } })
+  })
+})
+
+describe('checkScanBudget', () => {
+  const PRICING = [
+    { model: 'answer-model', provider: 'test', final_input_cost_cents: 100_000, final_output_cost_cents: 200_000 },
+  ] as PricingConfig[]
+  const SCAN = {
+    pricing: PRICING,
+    queries: [{ id: 'q1', query_text: 'Best CRM?' }],
+    models: ['answer-model'],
+    samplesPerQuery: 1,
+    followUpDepth: 0,
+    evaluationModel: 'unpriced-eval',
+  }
+
+  it('prices the scan like the cost preview before checking the budget', async () => {
+    // No history: 500 in + 1000 out tokens = 250 cents per answer
+    const supabase = mockScans(scan('s1', '2026-03-02T08:00:00Z', 8))
+
+    expect((await checkScanBudget(supabase, PROJECT, SCAN, NOW)).allowed).toBe(false)
+    expect((await checkScanBudget(supabase, PROJECT, { ...SCAN, models: [] }, NOW)).allowed).toBe(true)
+  })
+})
+
+describe('checkRetryBudget', () => {
+  const PRICING = [
+    { model: 'answer-model', provider: 'test', final_input_cost_cents: 100_000, final_output_cost_cents: 200_000 },
+  ] as PricingConfig[]
+  // No history: 250 cents per initial answer, 350 per follow-up - 300 per answer on average
+  const SCAN = {
+    pricing: PRICING,
+    queries: [{ id: 'q1', query_text: 'Best CRM?' }, { id: 'q2', query_text: 'Cheapest CRM?' }],
+    models: ['answer-model'],
+    samplesPerQuery: 1,
+    followUpDepth: 1,
+    evaluationModel: 'unpriced-eval',
+  }
+
+  it('counts only the missing answers of the scan against the budget', async () => {
+    const supabase = mockScans(scan('s1', '2026-03-02T08:00:00Z', 5))
+
+    // The whole grid would exceed the budget, one missing follow-up does not
+    expect((await checkScanBudget(supabase, PROJECT, SCAN, NOW)).allowed).toBe(false)
+    const one = await checkRetryBudget(supabase, PROJECT, SCAN, 1, NOW)
+    expect(one).toMatchObject({ allowed: true, warning: true })
+    expect(one.reason).toContain('80%')
+    expect((await checkRetryBudget(supabase, PROJECT, SCAN, 3, NOW)).allowed).toBe(false)
+  })
+})
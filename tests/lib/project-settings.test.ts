@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+
+/**
+ * Project settings (PATCH /api/projects/[id])
+ *
+ * Custom follow-up questions must not name the brand - also when the brand,
+ * domain or language changes under templates saved earlier.
+ */
+
+const db = vi.hoisted(() => ({ client: null as any }))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { NextRequest } from 'next/server'
+import { PATCH as updateProjectSettings } from '@/app/api/projects/[id]/route'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const USER = { id: 'user-1' }
+
+function seedDatabase() {
+  return createSupabaseMock(USER, {
+    projects: [{
+      id: 'project-1',
+      user_id: USER.id,
+      name: 'Acme',
+      domain: 'acme.com',
+      brand_variations: ['Acme'],
+      language: 'en',
+      follow_up_templates: { comparison: ['Is Zenith any good for this?'] },
+    }],
+  })
+}
+
+function patch(body: unknown) {
+  return updateProjectSettings(
+    new NextRequest('http://localhost/api/projects/project-1', { method: 'PATCH', body: JSON.stringify(body) }),
+    { params: Promise.resolve({ id: 'project-1' }) }
+  )
+}
+
+describe('PATCH /api/projects/[id] follow-up templates', () => {
+  it('re-checks saved templates when the brand changes', async () => {
+    const { client, tables } = seedDatabase()
+    db.client = client
+
+    const response = await patch({ brand_variations: ['Zenith'] })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      code: 'FOLLOW_UP_MENTIONS_BRAND',
+      issues: [{ queryType: 'comparison', level: 1 }],
+    })
+    expect(tables.projects[0].brand_variations).toEqual(['Acme'])
+  })
+
+  it('re-checks saved templates when the domain changes', async () => {
+    const { client, tables } = seedDatabase()
+    db.client = client
+    tables.projects[0].follow_up_templates = { comparison: ['Does zenith.io cover this?'] }
+
+    const response = await patch({ domain: 'zenith.io' })
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).code).toBe('FOLLOW_UP_MENTIONS_BRAND')
+  })
+
+  it('saves a brand change together with templates that no longer name it', async () => {
+    const { client, tables } = seedDatabase()
+    db.client = client
+
+    const response = await patch({
+      brand_variations: ['Zenith'],
+      follow_up_templates: { comparison: ['Is the first option any good for this?'] },
+    })
+
+    expect(response.status).toBe(200)
+    expect(tables.projects[0].brand_variations).toEqual(['Zenith'])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { findNearDuplicate, querySimilarity, tokenizeQuery } from '@/lib/queries/similarity'
+import { analyzeQueryCoverage, buildCoverageHint, queryMatchesKeyword } from '@/lib/queries/coverage'
+
+/**
+ * Near-duplicate detection of generated queries and coverage of target
+ * keywords and query types.
+ */
+
+describe('near-duplicate detection', () => {
+  it('ignores case, punctuation, stopwords, diacritics and plurals', () => {
+    expect(tokenizeQuery("What's the best CRM for small businesses?")).toEqual(['best', 'crm', 'small', 'business'])
+    expect(tokenizeQuery('Nejlepší účetní software')).toEqual(['nejlepsi', 'ucetni', 'software'])
+    expect(querySimilarity('Best CRM for a small business?', "what's the best crm for small businesses")).toBe(1)
+  })
+
+  it('keeps related but different questions apart', () => {
+    expect(querySimilarity('Best CRM for small businesses', 'How do I migrate my CRM data?')).toBeLessThan(0.6)
+  })
+
+  it('returns the closest existing query above the threshold', () => {
+    const existing = [
+      'How do I migrate my CRM data?',
+      'Best CRM tools for small businesses',
+      'Best CRM tool for a small business in 2025',
+    ]
+
+    expect(findNearDuplicate("What's the best CRM tool for small businesses?", existing)).toEqual({
+      similarTo: 'Best CRM tools for small businesses',
+      similarity: 1,
+    })
+    expect(findNearDuplicate('Cheapest invoicing app for freelancers', existing)).toBeNull()
+  })
+})
+
+describe('analyzeQueryCoverage', () => {
+  const queries = [
+    { query_text: 'Best CRM tools for startups', query_type: 'comparison' as const, is_active: true },
+    { query_text: 'Which CRM tool is cheapest?', query_type: 'comparison' as const, is_active: true },
+    { query_text: 'How does CRM software work?', query_type: 'informational' as const, is_active: true },
+    { query_text: 'Where can I buy a sales pipeline tool?', query_type: 'transactional' as const, is_active: false },
+  ]
+
+  it('matches keywords by their tokens', () => {
+    expect(queryMatchesKeyword('Best CRM tools for startups', 'crm tool')).toBe(true)
+    expect(queryMatchesKeyword('How does CRM software work?', 'crm tool')).toBe(false)
+  })
+
+  it('counts active queries per keyword and type and reports the gaps', () => {
+    const report = analyzeQueryCoverage(queries, ['CRM tool', 'CRM software', 'sales pipeline', ''])
+
+    expect(report.totalQueries).toBe(3)
+    expect(report.keywords).toEqual([
+      { keyword: 'CRM tool', queries: 2, share: 67, underrepresented: false },
+      { keyword: 'CRM software', queries: 1, share: 33, underrepresented: false },
+      { keyword: 'sales pipeline', queries: 0, share: 0, underrepresented: true },
+    ])
+    expect(report.types.map(t => [t.type, t.queries, t.underrepresented])).toEqual([
+      ['informational', 1, false],
+      ['transactional', 0, true],
+      ['comparison', 2, false],
+    ])
+    expect(report.gaps).toEqual({ keywords: ['sales pipeline'], types: ['transactional'] })
+  })
+
+  it('turns the gaps into a generation hint', () => {
+    const hint = buildCoverageHint(analyzeQueryCoverage(queries, ['CRM tool', 'sales pipeline']))
+    expect(hint).toContain('topics: sales pipeline')
+    expect(hint).toContain('query types: transactional')
+
+    expect(buildCoverageHint(analyzeQueryCoverage([], ['CRM tool']))).toBe('')
+  })
+})
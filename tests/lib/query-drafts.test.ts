@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { prepareDrafts, reviewQueryDrafts } from '@/lib/queries/drafts'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+/**
+ * Review queue for generated queries: drafts are deduplicated and flagged,
+ * and only accepted drafts become project queries, within the tier limit.
+ */
+
+describe('prepareDrafts', () => {
+  it('drops exact duplicates and flags near-duplicates', () => {
+    const drafts = prepareDrafts([
+      { query_text: ' Best CRM for startups? ', query_type: 'comparison', rationale: 'Core comparison' },
+      { query_text: 'best crm for STARTUPS?', query_type: 'comparison', rationale: null },
+      { query_text: 'How do I import contacts into a CRM?', query_type: 'informational', rationale: null },
+      { query_text: 'Which CRM tools work best for small businesses?', query_type: 'comparison', rationale: null },
+      { query_text: 'Pending draft text', query_type: 'informational', rationale: null },
+    ], ['Best CRM tool for small businesses', 'pending draft text'])
+
+    expect(drafts).toEqual([
+      { query_text: 'Best CRM for startups?', query_type: 'comparison', rationale: 'Core comparison', similar_to: null, similarity: null },
+      { query_text: 'How do I import contacts into a CRM?', query_type: 'informational', rationale: null, similar_to: null, similarity: null },
+      {
+        query_text: 'Which CRM tools work best for small businesses?',
+        query_type: 'comparison',
+        rationale: null,
+        similar_to: 'Best CRM tool for small businesses',
+        similarity: 0.83,
+      },
+    ])
+  })
+})
+
+describe('reviewQueryDrafts', () => {
+  function draft(id: string, queryText: string, status = 'pending', personaId: string | null = null) {
+    return {
+      id,
+      project_id: 'project-1',
+      user_id: 'user-1',
+      batch_id: 'batch-1',
+      query_text: queryText,
+      query_type: 'comparison',
+      rationale: null,
+      persona_id: personaId,
+      similar_to: null,
+      similarity: null,
+      status,
+      query_id: null,
+      generation_model: 'mock-model',
+      created_at: '2026-01-01T00:00:00.000Z',
+      reviewed_at: null,
+    }
+  }
+
+  function setup() {
+    return createSupabaseMock({ id: 'user-1' }, {
+      project_queries: [{ id: 'query-1', project_id: 'project-1', query_text: 'Existing query', query_type: 'informational', is_active: true }],
+      query_drafts: [
+        draft('draft-1', 'Best CRM for startups?', 'pending', 'persona-cfo'),
+        draft('draft-2', 'CRM with the best mobile app?'),
+        draft('draft-3', 'existing QUERY'),
+        draft('draft-4', 'Already reviewed', 'rejected'),
+        draft('draft-5', 'Not wanted'),
+      ],
+    })
+  }
+
+  it('accepts drafts as project queries until the limit is reached', async () => {
+    const { client, tables } = setup()
+
+    const result = await reviewQueryDrafts(client, {
+      projectId: 'project-1',
+      accept: ['draft-1', 'draft-3', 'draft-2', 'draft-4'],
+      reject: ['draft-5'],
+      remaining: 1,
+    })
+
+    expect(result.accepted.map(q => q.query_text)).toEqual(['Best CRM for startups?'])
+    expect(result.rejected).toEqual(['draft-5'])
+    expect(result.skipped).toEqual([
+      { id: 'draft-3', reason: 'duplicate' },
+      { id: 'draft-2', reason: 'over_limit' },
+      { id: 'draft-4', reason: 'not_found' },
+    ])
+
+    const accepted = tables.project_queries.find(q => q.query_text === 'Best CRM for startups?')
+    expect(accepted).toMatchObject({ is_active: true, is_ai_generated: true, query_type: 'comparison', persona_id: 'persona-cfo' })
+    expect(tables.query_drafts.find(d => d.id === 'draft-1')).toMatchObject({ status: 'accepted', query_id: accepted?.id })
+    expect(tables.query_drafts.find(d => d.id === 'draft-2')?.status).toBe('pending')
+    expect(tables.query_drafts.find(d => d.id === 'draft-5')?.status).toBe('rejected')
+  })
+
+  it('accepts everything without a limit', async () => {
+    const { client, tables } = setup()
+
+    const result = await reviewQueryDrafts(client, {
+      projectId: 'project-1',
+      accept: ['draft-1', 'draft-2'],
+      reject: [],
+      remaining: null,
+    })
+
+    expect(result.accepted).toHaveLength(2)
+    expect(tables.project_queries).toHaveLength(3)
+  })
+})
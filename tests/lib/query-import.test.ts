@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_IMPORT_ROWS,
+  detectQueryFileFormat,
+  exportQueries,
+  parseQueryFile,
+  planQueryImport,
+  validateQueryTags,
+} from '@/lib/queries/import-export'
+
+/**
+ * Bulk query import/export: CSV and JSON parsing, per-row validation,
+ * deduplication against the project and the tier limit.
+ */
+
+const CSV = [
+  'query_text,query_type,tags,active',
+  'Best CRM for startups?,comparison,pricing;  Startups ,true',
+  '"Which CRM has a ""free"" plan, if any?",transactional,,no',
+  '',
+  'How do CRMs work?,,,',
+  ',informational,,',
+  'What is lead scoring?,research,,maybe',
+].join('\r\n')
+
+describe('parseQueryFile', () => {
+  it('reads CSV rows with quoted fields, tags and active flags', () => {
+    const { rows, error } = parseQueryFile(CSV, 'csv')
+
+    expect(error).toBeNull()
+    expect(rows).toHaveLength(5)
+    expect(rows[0]).toMatchObject({
+      line: 2,
+      query_text: 'Best CRM for startups?',
+      query_type: 'comparison',
+      tags: ['pricing', 'startups'],
+      is_active: true,
+      errors: [],
+    })
+    expect(rows[1]).toMatchObject({ query_text: 'Which CRM has a "free" plan, if any?', is_active: false, tags: [] })
+    // Missing type and active fall back to the defaults
+    expect(rows[2]).toMatchObject({ line: 5, query_type: 'informational', is_active: true, errors: [] })
+  })
+
+  it('reports validation errors per row', () => {
+    const { rows } = parseQueryFile(CSV, 'csv')
+
+    expect(rows[3].errors).toEqual(['query_text is required'])
+    expect(rows[4].line).toBe(7)
+    expect(rows[4].errors).toHaveLength(2)
+    expect(rows[4].errors[0]).toContain('query_type must be one of')
+    expect(rows[4].errors[1]).toBe('active must be true or false')
+  })
+
+  it('reads JSON arrays and { queries } objects', () => {
+    const json = JSON.stringify({
+      queries: [
+        { query_text: 'Best CRM?', query_type: 'comparison', tags: ['Pricing'], active: false },
+        { query_text: 'CRM basics', tags: 'onboarding;setup' },
+        'not an object',
+      ],
+    })
+    const { rows, error } = parseQueryFile(json, 'json')
+
+    expect(error).toBeNull()
+    expect(rows[0]).toMatchObject({ tags: ['pricing'], is_active: false, errors: [] })
+    expect(rows[1].tags).toEqual(['onboarding', 'setup'])
+    expect(rows[2]).toMatchObject({ line: 3, status: 'invalid' })
+  })
+
+  it('rejects tags with the CSV tag separator', () => {
+    expect(validateQueryTags(['pricing;setup']).errors).toEqual(['Tags cannot contain ";"'])
+    expect(validateQueryTags('pricing;setup')).toEqual({ tags: ['pricing', 'setup'], errors: [] })
+  })
+
+  it('rejects unreadable files', () => {
+    expect(parseQueryFile('{ nope', 'json').error).toBe('File is not valid JSON')
+    expect(parseQueryFile('text,type\nBest CRM?,comparison', 'csv').error).toContain('Missing query_text column')
+    expect(parseQueryFile('', 'csv').error).toBe('File is empty')
+
+    const tooMany = ['query_text', ...Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `Query ${i}`)].join('\n')
+    expect(parseQueryFile(tooMany, 'csv').error).toContain(`limited to ${MAX_IMPORT_ROWS}`)
+  })
+
+  it('detects the format from the content when none is given', () => {
+    expect(detectQueryFileFormat('  [{"query_text": "x"}]')).toBe('json')
+    expect(detectQueryFileFormat('query_text\nx')).toBe('csv')
+    expect(detectQueryFileFormat('[]', 'csv')).toBe('csv')
+  })
+})
+
+describe('planQueryImport', () => {
+  const { rows } = parseQueryFile([
+    'query_text',
+    'Best CRM for startups?',
+    '  best   crm FOR startups?',
+    'Existing query',
+    'How do CRMs work?',
+    'What is lead scoring?',
+    '',
+    ',comparison',
+  ].join('\n'), 'csv')
+
+  it('dedupes against existing queries and earlier rows', () => {
+    const plan = planQueryImport(rows, ['EXISTING QUERY'], null)
+
+    expect(plan.rows.map(r => r.status)).toEqual(['new', 'duplicate', 'duplicate', 'new', 'new', 'invalid'])
+    expect(plan.toInsert.map(q => q.query_text)).toEqual(['Best CRM for startups?', 'How do CRMs work?', 'What is lead scoring?'])
+    expect(plan.summary).toEqual({ total: 6, new: 3, duplicate: 2, invalid: 1, over_limit: 0 })
+  })
+
+  it('marks new rows beyond the remaining tier limit', () => {
+    const plan = planQueryImport(rows, ['Existing query'], 2)
+
+    expect(plan.rows.map(r => r.status)).toEqual(['new', 'duplicate', 'duplicate', 'new', 'over_limit', 'invalid'])
+    expect(plan.toInsert).toHaveLength(2)
+    expect(plan.summary.over_limit).toBe(1)
+  })
+})
+
+describe('exportQueries', () => {
+  const queries = [
+    { query_text: 'Which CRM has a "free" plan, if any?', query_type: 'transactional' as const, tags: ['pricing', 'free tier'], is_active: true },
+    { query_text: 'CRM basics', query_type: 'informational' as const, tags: [], is_active: false },
+  ]
+
+  it('writes CSV that imports back to the same queries', () => {
+    const csv = exportQueries(queries, 'csv')
+    expect(csv.split('\n')[0]).toBe('query_text,query_type,tags,active')
+
+    const { rows } = parseQueryFile(csv, 'csv')
+    expect(rows.map(({ query_text, query_type, tags, is_active }) => ({ query_text, query_type, tags, is_active }))).toEqual(queries)
+  })
+
+  it('neutralizes cells a spreadsheet would run as formulas and imports them back unchanged', () => {
+    const risky = [
+      { query_text: '=HYPERLINK("http://evil.example","CRM")', query_type: 'informational' as const, tags: ['@admin'], is_active: true },
+      { query_text: '-1 reasons to switch CRM', query_type: 'comparison' as const, tags: ['+growth', 'plain'], is_active: true },
+    ]
+    const csv = exportQueries(risky, 'csv')
+    const [first, second] = csv.split('\n').slice(1)
+    expect(first).toBe(`"'=HYPERLINK(""http://evil.example"",""CRM"")",informational,'@admin,true`)
+    expect(second).toBe("'-1 reasons to switch CRM,comparison,'+growth;plain,true")
+
+    const { rows } = parseQueryFile(csv, 'csv')
+    expect(rows.map(({ query_text, query_type, tags, is_active }) => ({ query_text, query_type, tags, is_active }))).toEqual(risky)
+  })
+
+  it('writes JSON that imports back to the same queries', () => {
+    const { rows } = parseQueryFile(exportQueries(queries, 'json'), 'json')
+    expect(rows.map(({ query_text, query_type, tags, is_active }) => ({ query_text, query_type, tags, is_active }))).toEqual(queries)
+  })
+})
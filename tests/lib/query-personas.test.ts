@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const db = vi.hoisted(() => ({ client: null as any }))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { GET as getHistory } from '@/app/api/projects/[id]/history/route'
+import { normalizePersonas, findPersona, buildPersonaGenerationHint, MAX_PERSONAS } from '@/lib/queries/personas'
+import { aggregatePersonaScores, hasPersonaResults } from '@/lib/scan/personas'
+import { getGEOSystemPrompt, GEO_SYSTEM_PROMPT_BASE } from '@/lib/ai'
+import type { ProjectPersona } from '@/lib/db/schema'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+/**
+ * Personas: normalized on save, described in the generation and GEO system
+ * prompts, and used to group scan results per audience.
+ */
+
+const CFO: ProjectPersona = {
+  id: 'persona-cfo',
+  name: 'Finance lead',
+  role: 'CFO at a mid-size retailer',
+  expertise: 'expert',
+  region: 'Germany',
+  budget: null,
+}
+
+const DEV: ProjectPersona = {
+  id: 'persona-dev',
+  name: 'Developer',
+  role: 'Backend developer',
+  expertise: 'intermediate',
+  region: null,
+  budget: 'free tier',
+}
+
+describe('normalizePersonas', () => {
+  it('keeps existing ids, drops incomplete entries and fills defaults', () => {
+    const personas = normalizePersonas([
+      { ...CFO, name: '  Finance lead ', region: ' Germany ' },
+      { name: 'finance LEAD', role: 'Duplicate name' },
+      { name: 'No role' },
+      { name: 'Student', role: 'First-year student', expertise: 'guru', region: '', budget: '  ' },
+      'not an object',
+    ])
+
+    expect(personas).toHaveLength(2)
+    expect(personas[0]).toEqual(CFO)
+    expect(personas[1]).toMatchObject({ name: 'Student', role: 'First-year student', expertise: 'intermediate', region: null, budget: null })
+    expect(personas[1].id).toMatch(/^[0-9a-f-]{36}$/)
+
+    const many = Array.from({ length: MAX_PERSONAS + 2 }, (_, i) => ({ name: `Persona ${i}`, role: 'Buyer' }))
+    expect(normalizePersonas(many)).toHaveLength(MAX_PERSONAS)
+    expect(normalizePersonas('nope')).toEqual([])
+  })
+
+  it('finds personas by id', () => {
+    expect(findPersona([CFO, DEV], 'persona-dev')).toBe(DEV)
+    expect(findPersona([CFO], 'persona-removed')).toBeNull()
+    expect(findPersona([CFO], null)).toBeNull()
+  })
+})
+
+describe('persona prompts', () => {
+  it('describes the persona for query generation', () => {
+    const hint = buildPersonaGenerationHint(CFO)
+
+    expect(hint).toContain('- Role: CFO at a mid-size retailer')
+    expect(hint).toContain('- Expertise: expert')
+    expect(hint).toContain('- Region: Germany')
+    expect(hint).not.toContain('Budget')
+    expect(buildPersonaGenerationHint(null)).toBe('')
+  })
+
+  it('adds the persona to the GEO system prompt before the language instruction', () => {
+    expect(getGEOSystemPrompt('en', null)).toBe(GEO_SYSTEM_PROMPT_BASE)
+
+    const prompt = getGEOSystemPrompt('de', DEV)
+    expect(prompt.startsWith(GEO_SYSTEM_PROMPT_BASE)).toBe(true)
+    expect(prompt).toContain('About the user you are talking to:\n- Role: Backend developer')
+    expect(prompt).toContain('- Budget: free tier')
+    expect(prompt.indexOf('Backend developer')).toBeLessThan(prompt.indexOf('You MUST respond in'))
+  })
+})
+
+describe('aggregatePersonaScores', () => {
+  function result(personaId: string | null, visibility: number, recommendation: number) {
+    return {
+      query_text: `Query for ${personaId}`,
+      persona_id: personaId,
+      metrics_json: { visibility_score: visibility, sentiment_score: null, ranking_score: 0, recommendation_score: recommendation },
+    }
+  }
+
+  it('groups results per persona in project order with removed and no persona last', () => {
+    const results = [
+      result(null, 0, 0),
+      result('persona-removed', 100, 50),
+      result('persona-dev', 100, 80),
+      result('persona-dev', 0, 0),
+      result('persona-cfo', 50, 40),
+      { ...result('persona-cfo', 0, 0), metrics_json: null },
+    ]
+
+    expect(hasPersonaResults(results)).toBe(true)
+    expect(hasPersonaResults([{ persona_id: null }])).toBe(false)
+    expect(aggregatePersonaScores(results, [CFO, DEV])).toEqual([
+      { persona_id: 'persona-cfo', name: 'Finance lead', queries: 1, results: 1, visibility: 50, recommendation: 40, mention_rate: 100 },
+      { persona_id: 'persona-dev', name: 'Developer', queries: 1, results: 2, visibility: 50, recommendation: 40, mention_rate: 50 },
+      { persona_id: 'persona-removed', name: null, queries: 1, results: 1, visibility: 100, recommendation: 50, mention_rate: 100 },
+      { persona_id: null, name: null, queries: 1, results: 1, visibility: 0, recommendation: 0, mention_rate: 0 },
+    ])
+  })
+})
+
+describe('GET /api/projects/[id]/history?personas=1', () => {
+  it('breaks down every result of the range, past the 1000-row page', async () => {
+    const createdAt = new Date().toISOString()
+    // 1200 results: the first 1000 (by id) without a persona, the rest asked as the developer
+    db.client = createSupabaseMock({ id: 'user-1' }, {
+      projects: [{ id: 'project-1', user_id: 'user-1', follow_up_enabled: false, personas: [CFO, DEV] }],
+      scans: [{ id: 'scan-1', project_id: 'project-1', user_id: 'user-1', status: 'completed', created_at: createdAt, overall_score: 50, avg_visibility: 50 }],
+      scan_results: Array.from({ length: 1200 }, (_, i) => ({
+        id: `result-${String(i).padStart(4, '0')}`,
+        scan_id: 'scan-1',
+        query_text: 'Best CRM?',
+        persona_id: i < 1000 ? null : DEV.id,
+        metrics_json: { visibility_score: 100, sentiment_score: null, ranking_score: 0, recommendation_score: 50 },
+      })),
+    }).client
+
+    const response = await getHistory(
+      new Request('http://localhost/api/projects/project-1/history?personas=1'),
+      { params: Promise.resolve({ id: 'project-1' }) }
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.personas.map((p: { persona_id: string | null; results: number }) => [p.persona_id, p.results])).toEqual([
+      [DEV.id, 200],
+      [null, 1000],
+    ])
+    expect(body.personaHistory[0].personas).toEqual(body.personas)
+  })
+})
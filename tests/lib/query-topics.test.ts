@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const db = vi.hoisted(() => ({ client: null as any }))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { GET as getHistory } from '@/app/api/projects/[id]/history/route'
+import { aggregateTopicScores, buildQueryTopicMap, hasTopics } from '@/lib/scan/topics'
+import { validateQueryTags } from '@/lib/queries/import-export'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+/**
+ * Topic breakdown: results are matched to tagged queries by text and
+ * averaged per tag, with untagged results grouped last.
+ */
+
+const QUERIES = [
+  { query_text: 'How much does a CRM cost?', tags: ['pricing'] },
+  { query_text: 'Does the CRM integrate with Slack?', tags: ['integrations', 'pricing'] },
+  { query_text: 'What is a CRM?', tags: [] },
+]
+
+function result(queryText: string, visibility: number, recommendation: number) {
+  return {
+    query_text: queryText,
+    metrics_json: { visibility_score: visibility, sentiment_score: null, ranking_score: 0, recommendation_score: recommendation },
+  }
+}
+
+describe('aggregateTopicScores', () => {
+  it('averages visibility and recommendation per tag', () => {
+    const topics = aggregateTopicScores([
+      result('How much does a CRM cost?', 100, 80),
+      result('  how much does a crm COST? ', 50, 70),
+      result('Does the CRM integrate with Slack?', 0, 10),
+      result('What is a CRM?', 100, 60),
+      result('Deleted query', 0, 0),
+      { query_text: 'What is a CRM?', metrics_json: null },
+    ], buildQueryTopicMap(QUERIES))
+
+    expect(topics).toEqual([
+      { topic: 'integrations', queries: 1, results: 1, visibility: 0, recommendation: 10, mention_rate: 0 },
+      { topic: 'pricing', queries: 2, results: 3, visibility: 50, recommendation: 53.3, mention_rate: 67 },
+      { topic: null, queries: 2, results: 2, visibility: 50, recommendation: 30, mention_rate: 50 },
+    ])
+  })
+
+  it('detects whether a project has tagged queries', () => {
+    expect(hasTopics(QUERIES)).toBe(true)
+    expect(hasTopics([{ tags: [] }])).toBe(false)
+  })
+})
+
+describe('validateQueryTags', () => {
+  it('normalizes comma-separated tags from the queries page', () => {
+    expect(validateQueryTags(' Pricing, integrations ,,pricing', ',')).toEqual({ tags: ['pricing', 'integrations'], errors: [] })
+    expect(validateQueryTags(undefined)).toEqual({ tags: [], errors: [] })
+    expect(validateQueryTags(42).errors).toEqual(['tags must be a list of strings'])
+  })
+})
+
+describe('GET /api/projects/[id]/history?topics=1', () => {
+  it('breaks down every result of the range, past the 1000-row page', async () => {
+    const createdAt = new Date().toISOString()
+    // 1200 results: the first 1000 (by id) are all pricing, the rest untagged
+    db.client = createSupabaseMock({ id: 'user-1' }, {
+      projects: [{ id: 'project-1', user_id: 'user-1', follow_up_enabled: false }],
+      project_queries: [{ project_id: 'project-1', ...QUERIES[0] }, { project_id: 'project-1', ...QUERIES[2] }],
+      scans: [{ id: 'scan-1', project_id: 'project-1', user_id: 'user-1', status: 'completed', created_at: createdAt, overall_score: 50, avg_visibility: 50 }],
+      scan_results: Array.from({ length: 1200 }, (_, i) => ({
+        id: `result-${String(i).padStart(4, '0')}`,
+        scan_id: 'scan-1',
+        persona_id: null,
+        ...result(i < 1000 ? QUERIES[0].query_text : QUERIES[2].query_text, 100, 50),
+      })),
+    }).client
+
+    const response = await getHistory(
+      new Request('http://localhost/api/projects/project-1/history?topics=1'),
+      { params: Promise.resolve({ id: 'project-1' }) }
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.topics.map((t: { topic: string | null; results: number }) => [t.topic, t.results])).toEqual([
+      ['pricing', 1000],
+      [null, 200],
+    ])
+    expect(body.topicHistory).toHaveLength(1)
+    expect(body.topicHistory[0].topics).toEqual(body.topics)
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeSamplesPerQuery,
+  calculateSampleStats,
+  calculateSamplingStats,
+  MAX_SAMPLES_PER_QUERY,
+} from '@/lib/scan/sampling'
+
+describe('Repeated Sampling', () => {
+  describe('normalizeSamplesPerQuery', () => {
+    it('clamps to 1..MAX_SAMPLES_PER_QUERY', () => {
+      expect(normalizeSamplesPerQuery(0)).toBe(1)
+      expect(normalizeSamplesPerQuery(3)).toBe(3)
+      expect(normalizeSamplesPerQuery('4')).toBe(4)
+      expect(normalizeSamplesPerQuery(99)).toBe(MAX_SAMPLES_PER_QUERY)
+    })
+
+    it('falls back to 1 for invalid input', () => {
+      expect(normalizeSamplesPerQuery('abc')).toBe(1)
+      expect(normalizeSamplesPerQuery(undefined)).toBe(1)
+    })
+  })
+
+  describe('calculateSampleStats', () => {
+    it('returns zeros for empty input', () => {
+      expect(calculateSampleStats([])).toEqual({ mean: 0, min: 0, max: 0, ci_low: null, ci_high: null, n: 0 })
+    })
+
+    it('has no confidence interval for a single value', () => {
+      expect(calculateSampleStats([60])).toEqual({ mean: 60, min: 60, max: 60, ci_low: null, ci_high: null, n: 1 })
+    })
+
+    it('calculates mean, range and 95% confidence interval', () => {
+      // mean 50, sd 10, n 3 → margin = 4.303 * 10 / sqrt(3) ≈ 24.8
+      const stats = calculateSampleStats([40, 50, 60])
+      expect(stats.mean).toBe(50)
+      expect(stats.min).toBe(40)
+      expect(stats.max).toBe(60)
+      expect(stats.ci_low).toBe(25.2)
+      expect(stats.ci_high).toBe(74.8)
+      expect(stats.n).toBe(3)
+    })
+
+    it('clamps confidence interval to 0-100', () => {
+      const stats = calculateSampleStats([0, 100])
+      expect(stats.ci_low).toBe(0)
+      expect(stats.ci_high).toBe(100)
+    })
+
+    it('has zero-width interval when all samples agree', () => {
+      const stats = calculateSampleStats([50, 50, 50])
+      expect(stats.ci_low).toBe(50)
+      expect(stats.ci_high).toBe(50)
+    })
+  })
+
+  describe('calculateSamplingStats', () => {
+    const result = (sample_index: number, visibility_score: number, recommendation_score: number, follow_up_level = 0) =>
+      ({ sample_index, visibility_score, recommendation_score, follow_up_level })
+
+    it('returns null for single-sample scans', () => {
+      expect(calculateSamplingStats([result(0, 100, 80), result(0, 0, 0)])).toBeNull()
+    })
+
+    it('aggregates initial responses per sample run', () => {
+      const stats = calculateSamplingStats([
+        // Run 0: visibility avg 50, recommendation avg 40
+        result(0, 100, 80),
+        result(0, 0, 0),
+        // Run 1: visibility avg 100, recommendation avg 70
+        result(1, 100, 60),
+        result(1, 100, 80),
+        // Follow-ups are ignored
+        result(1, 0, 0, 1),
+      ])
+      expect(stats?.samples_per_query).toBe(2)
+      expect(stats?.visibility).toMatchObject({ mean: 75, min: 50, max: 100, n: 2 })
+      expect(stats?.recommendation).toMatchObject({ mean: 55, min: 40, max: 70, n: 2 })
+    })
+  })
+})
@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+/**
+ * End-to-end scan pipeline on the mock AI provider
+ *
+ * Runs the real chunk and complete routes (AI calls, evaluation, resilience
+ * scoring, credit consumption) against an in-memory Supabase client.
+ */
+
+const db = vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+  return { client: null as any, admin: null as any }
+})
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.admin ?? db.client,
+}))
+
+import { NextRequest } from 'next/server'
+import { POST as processChunk } from '@/app/api/projects/[id]/scan/chunk/route'
+import { POST as completeScan } from '@/app/api/projects/[id]/scan/[scanId]/complete/route'
+import { setMockFixtures, resetMockProvider } from '@/lib/ai/mock'
+import { clearMemoryCache } from '@/lib/ai/cache'
+import { getFollowUpQuestion } from '@/lib/scan/follow-up-templates'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const USER = { id: 'user-1' }
+const BRAND_QUERY = 'What is the best CRM for a small business?'
+const GENERIC_QUERY = 'How do I keep track of customer emails?'
+
+function seedDatabase() {
+  return createSupabaseMock(USER, {
+    projects: [{
+      id: 'project-1',
+      user_id: USER.id,
+      domain: 'acme.com',
+      brand_variations: ['Acme'],
+      language: 'en',
+      follow_up_enabled: true,
+      follow_up_depth: 1,
+      samples_per_query: 2,
+      competitors: [{ name: 'Pipedrive', variations: [], domain: null }],
+    }],
+    project_queries: [
+      { id: 'query-1', project_id: 'project-1', query_text: BRAND_QUERY, query_type: 'comparison' },
+      { id: 'query-2', project_id: 'project-1', query_text: GENERIC_QUERY, query_type: 'informational' },
+    ],
+    scans: [{
+      id: 'scan-1',
+      project_id: 'project-1',
+      user_id: USER.id,
+      status: 'running',
+      total_cost_usd: 0,
+      total_input_tokens: 0,
+      total_output_tokens: 0,
+      total_results: 0,
+    }],
+    pricing_config: [{
+      provider: 'mock',
+      model: 'mock-model',
+      base_input_cost_cents: 5,
+      base_output_cost_cents: 10,
+      markup_percentage: 100,
+      is_active: true,
+    }],
+    credit_reservations: [{ id: 'reservation-1', user_id: USER.id, amount_cents: 500, status: 'active' }],
+    user_profiles: [{ user_id: USER.id, tier: 'paid', credit_balance_cents: 1000 }],
+  })
+}
+
+function post(url: string, body: unknown) {
+  return new NextRequest(url, { method: 'POST', body: JSON.stringify(body) })
+}
+
+describe('Scan pipeline (mock provider)', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    resetMockProvider()
+    setMockFixtures({
+      [BRAND_QUERY]: '1. **Pipedrive** is built around sales pipelines.\n2. **Acme** is the simplest CRM for small teams.',
+      [getFollowUpQuestion('comparison', 1, 'en')]: 'If I had to pick one, I would go with **Acme** for a small business.',
+    })
+  })
+
+  afterAll(() => {
+    delete process.env.AI_MOCK_PROVIDER
+    vi.restoreAllMocks()
+  })
+
+  it('processes a chunk, completes the scan and consumes credits', async () => {
+    const { client, tables } = seedDatabase()
+    db.client = client
+    const params = { params: Promise.resolve({ id: 'project-1' }) }
+
+    const chunkResponse = await processChunk(
+      post('http://localhost/api/projects/project-1/scan/chunk', {
+        scanId: 'scan-1',
+        queryIds: ['query-1', 'query-2'],
+        modelIds: ['mock-model'],
+      }),
+      params
+    )
+    const chunk = await chunkResponse.json()
+
+    expect(chunkResponse.status).toBe(200)
+    expect(chunk.successful).toBe(4) // 2 queries × 2 samples
+    expect(chunk.totalOperations).toBe(8) // + 1 follow-up each
+    expect(chunk.totalCostCents).toBeGreaterThan(0)
+
+    // 2 queries × 2 samples × (initial + follow-up)
+    expect(tables.scan_results).toHaveLength(8)
+    const brandResult = tables.scan_results.find(r => r.query_text === BRAND_QUERY && r.follow_up_level === 0)
+    expect(brandResult.metrics_json.visibility_score).toBe(50)
+    expect(brandResult.metrics_json.ranking_score).toBe(80)
+    expect(brandResult.competitor_mentions[0].mentioned).toBe(true)
+
+    // Retried chunk is idempotent
+    const retry = await processChunk(
+      post('http://localhost/api/projects/project-1/scan/chunk', {
+        scanId: 'scan-1',
+        queryIds: ['query-1', 'query-2'],
+        modelIds: ['mock-model'],
+      }),
+      params
+    )
+    expect((await retry.json()).totalOperations).toBe(0)
+    expect(tables.scan_results).toHaveLength(8)
+
+    const completeResponse = await completeScan(
+      post('http://localhost/api/projects/project-1/scan/scan-1/complete', { reservationId: 'reservation-1' }),
+      { params: Promise.resolve({ id: 'project-1', scanId: 'scan-1' }) }
+    )
+    const completed = await completeResponse.json()
+
+    expect(completeResponse.status).toBe(200)
+    const scan = tables.scans[0]
+    expect(scan.status).toBe('completed')
+    expect(scan.overall_score).toBe(completed.metrics.overallScore)
+    expect(scan.overall_score).toBeGreaterThan(0)
+    expect(scan.follow_up_active).toBe(true)
+    expect(scan.sampling_stats.samples_per_query).toBe(2)
+
+    // Credits: reservation consumed, unused part refunded, usage recorded
+    const chargedCents = Math.ceil(tables.scan_results.reduce((sum, r) => sum + r.cost_usd, 0) * 100)
+    expect(tables.credit_reservations[0].status).toBe('consumed')
+    expect(tables.user_profiles[0].credit_balance_cents).toBe(1000 + 500 - chargedCents)
+    expect(tables.credit_transactions[0].amount_cents).toBe(-chargedCents)
+    expect(tables.monthly_usage[0]).toMatchObject({ provider: 'mock', model: 'mock-model', scan_count: 1 })
+
+    // Each result counts its query call, plus the evaluation unless the pre-check skipped it
+    const aiCalls = tables.scan_results.reduce((sum, r) => sum + r.ai_calls, 0)
+    expect(aiCalls).toBeGreaterThanOrEqual(8)
+    expect(tables.monthly_usage[0].ai_call_count).toBe(aiCalls)
+  })
+
+  it('uses the shared response cache through the service role only', async () => {
+    const { client, tables } = seedDatabase()
+    const service = createSupabaseMock(null, { ai_response_cache: [] })
+    db.client = client
+    db.admin = service.client
+    clearMemoryCache()
+
+    try {
+      const response = await processChunk(
+        post('http://localhost/api/projects/project-1/scan/chunk', {
+          scanId: 'scan-1',
+          queryIds: ['query-1'],
+          modelIds: ['mock-model'],
+        }),
+        { params: Promise.resolve({ id: 'project-1' }) }
+      )
+      expect(response.status).toBe(200)
+
+      // Evaluations are cached in the service-role store, never with the user's client
+      expect(service.tables.ai_response_cache.length).toBeGreaterThan(0)
+      expect(tables.ai_response_cache).toBeUndefined()
+    } finally {
+      db.admin = null
+    }
+  })
+})
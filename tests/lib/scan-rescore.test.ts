@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { applyRescore, MAX_RESCORE_SCANS, parseRescoreRange, previewRescore } from '@/lib/scan/rescore'
+import { SCORING_FORMULA_VERSION } from '@/lib/scan/scoring-profile'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+/**
+ * Re-scoring historical scans from scan_results.metrics_json: preview diff,
+ * date range, and the audit of formula and profile versions.
+ */
+
+// Initial 60, follow-up 80, brand present at both levels: 75 by default
+function chainResults(scanId: string) {
+  return [
+    { follow_up_level: 0, recommendation_score: 60 },
+    { follow_up_level: 1, recommendation_score: 80 },
+  ].map((r, i) => ({
+    id: `${scanId}-result-${i}`,
+    scan_id: scanId,
+    query_text: 'Best CRM?',
+    model: 'answer-model',
+    sample_index: 0,
+    follow_up_level: r.follow_up_level,
+    metrics_json: { visibility_score: 100, sentiment_score: 70, ranking_score: 0, recommendation_score: r.recommendation_score },
+  }))
+}
+
+function scan(id: string, createdAt: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    project_id: 'project-1',
+    user_id: 'user-1',
+    status: 'completed',
+    created_at: createdAt,
+    overall_score: 70,  // Weighted average under the pre-018 formula
+    initial_score: null,
+    conversational_bonus: null,
+    brand_persistence: null,
+    follow_up_active: true,
+    avg_visibility: 100,
+    avg_sentiment: 70,
+    avg_ranking: null,
+    share_of_voice: 40,
+    scoring_formula_version: null,
+    scoring_profile_version: null,
+    ...overrides,
+  }
+}
+
+function setup(projectOverrides: Record<string, unknown> = {}) {
+  return createSupabaseMock({ id: 'user-1' }, {
+    projects: [{ id: 'project-1', user_id: 'user-1', scoring_profile: {}, scoring_profile_version: 1, ...projectOverrides }],
+    scans: [
+      scan('scan-old', '2026-01-10T08:00:00Z'),
+      scan('scan-march', '2026-03-05T08:00:00Z'),
+      scan('scan-running', '2026-03-06T08:00:00Z', { status: 'running' }),
+    ],
+    scan_results: [...chainResults('scan-old'), ...chainResults('scan-march')],
+    scan_score_audit: [],
+  })
+}
+
+describe('parseRescoreRange', () => {
+  it('covers whole days and rejects invalid or reversed ranges', () => {
+    expect(parseRescoreRange('2026-03-01', '2026-03-31')).toEqual({
+      from: '2026-03-01T00:00:00.000Z',
+      to: '2026-03-31T23:59:59.999Z',
+      before: null,
+    })
+    expect(parseRescoreRange(null, undefined)).toEqual({ from: null, to: null, before: null })
+    expect(parseRescoreRange(null, null, '2026-03-05T08:00:00.123456+00:00')?.before).toBe('2026-03-05T08:00:00.123456+00:00')
+    expect(parseRescoreRange('not a date', null)).toBeNull()
+    expect(parseRescoreRange(null, null, 'not a cursor')).toBeNull()
+    expect(parseRescoreRange('2026-04-01', '2026-03-01')).toBeNull()
+  })
+})
+
+describe('re-scoring', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('previews the diff of completed scans in the range without writing', async () => {
+    const { client, tables } = setup()
+
+    const preview = await previewRescore(client, {
+      projectId: 'project-1',
+      userId: 'user-1',
+      ...parseRescoreRange('2026-03-01', '2026-03-31'),
+    })
+
+    expect(preview).toMatchObject({ changedScans: 1, truncated: false, formulaVersion: SCORING_FORMULA_VERSION, profileVersion: 1 })
+    expect(preview.scans).toHaveLength(1)
+    expect(preview.scans[0]).toMatchObject({
+      scanId: 'scan-march',
+      previous: { overall_score: 70, scoring_formula_version: null },
+      current: { overall_score: 75, initial_score: 60, conversational_bonus: 15, brand_persistence: 100, scoring_formula_version: SCORING_FORMULA_VERSION },
+    })
+    expect(preview.scans[0].changed).toEqual(expect.arrayContaining(['overall_score', 'initial_score', 'scoring_formula_version']))
+    expect(preview.scans[0].changed).not.toContain('avg_visibility')
+
+    expect(tables.scans.find(s => s.id === 'scan-march')?.overall_score).toBe(70)
+    expect(tables.scan_score_audit).toHaveLength(0)
+  })
+
+  it('applies the current profile, audits every change and leaves other aggregates alone', async () => {
+    const { client, tables } = setup({ scoring_profile: { improvementFactor: 0.25, persistenceBonus: 0 }, scoring_profile_version: 4 })
+    // Audit rows are written by the service role only
+    const service = createSupabaseMock(null, { scan_score_audit: [] })
+
+    const result = await applyRescore(client, { projectId: 'project-1', userId: 'user-1' }, service.client)
+
+    expect(result.updated).toBe(2)
+    const march = tables.scans.find(s => s.id === 'scan-march')
+    expect(march).toMatchObject({
+      overall_score: 65,
+      share_of_voice: 40,
+      scoring_formula_version: SCORING_FORMULA_VERSION,
+      scoring_profile_version: 4,
+      scoring_profile: { improvementFactor: 0.25, persistenceBonus: 0, declineFactor: 0.2 },
+    })
+    expect(tables.scans.find(s => s.id === 'scan-running')?.overall_score).toBe(70)
+
+    expect(tables.scan_score_audit).toHaveLength(0)
+    expect(service.tables.scan_score_audit).toHaveLength(2)
+    expect(service.tables.scan_score_audit.find(a => a.scan_id === 'scan-march')).toMatchObject({
+      project_id: 'project-1',
+      user_id: 'user-1',
+      previous: { overall_score: 70, scoring_formula_version: null, scoring_profile_version: null },
+      current: { overall_score: 65, scoring_formula_version: SCORING_FORMULA_VERSION, scoring_profile_version: 4 },
+    })
+
+    // Nothing left to change
+    const again = await applyRescore(client, { projectId: 'project-1', userId: 'user-1' }, service.client)
+    expect(again).toMatchObject({ changedScans: 0, updated: 0 })
+    expect(service.tables.scan_score_audit).toHaveLength(2)
+  })
+
+  it('pages through more scans than one request re-scores', async () => {
+    const { client, tables } = setup()
+    // One scan per day from February 1: 52 completed scans in total
+    for (let day = 0; day < MAX_RESCORE_SCANS; day++) {
+      const id = `scan-feb-${day}`
+      tables.scans.push(scan(id, new Date(Date.UTC(2026, 1, 1 + day, 8)).toISOString()))
+      tables.scan_results.push(...chainResults(id))
+    }
+
+    const first = await applyRescore(client, { projectId: 'project-1', userId: 'user-1' }, client)
+    expect(first).toMatchObject({ updated: MAX_RESCORE_SCANS, truncated: true })
+    expect(first.nextCursor).toBe(first.scans[first.scans.length - 1].createdAt)
+
+    // The next page holds the oldest scans, not the newest ones again
+    const second = await applyRescore(client, { projectId: 'project-1', userId: 'user-1', before: first.nextCursor }, client)
+    expect(second).toMatchObject({ updated: 2, truncated: false, nextCursor: null })
+    expect(second.scans.map(s => s.scanId)).toEqual(['scan-feb-0', 'scan-old'])
+
+    const completed = tables.scans.filter(s => s.status === 'completed')
+    expect(completed.every(s => s.scoring_formula_version === SCORING_FORMULA_VERSION)).toBe(true)
+  })
+})
@@ -0,0 +1,221 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+/**
+ * Retry of missing query-model pairs
+ *
+ * findMissingPairs() on its own, and a retry queue item that continues a
+ * broken follow-up chain of a finished scan without touching saved answers.
+ */
+
+const db = vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+  return { client: null as any }
+})
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { findMissingPairs, loadScanRetryPlan, createRetryCheckpoint } from '@/lib/scan/retry'
+import { claimQueueItem, runQueueItem, createScanCheckpoint } from '@/lib/scan/runner'
+import { resetMockProvider } from '@/lib/ai/mock'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const USER = { id: 'user-1' }
+const QUERY_1 = 'What is the best CRM for a small business?'
+const QUERY_2 = 'How do I keep track of customer emails?'
+const QUERIES = [{ id: 'query-1', query_text: QUERY_1 }, { id: 'query-2', query_text: QUERY_2 }]
+
+function result(id: string, queryText: string, level: number, model = 'mock-model') {
+  return {
+    id,
+    scan_id: 'scan-1',
+    provider: 'mock',
+    model,
+    query_text: queryText,
+    follow_up_level: level,
+    sample_index: 0,
+    ai_response_raw: `Saved answer ${id}`,
+    follow_up_query_used: level > 0 ? 'Any alternatives?' : null,
+    metrics_json: { visibility_score: 100, sentiment_score: 80, ranking_score: 0, recommendation_score: 60 },
+    cost_usd: 0.25,
+    ai_calls: 2,
+    cache_hits: 0,
+  }
+}
+
+describe('findMissingPairs', () => {
+  it('reports pairs without results and continues broken chains from the first gap', () => {
+    const plan = findMissingPairs(QUERIES, ['mock-model', 'other-model'], 1, 2, [
+      result('a0', QUERY_1, 0), result('a1', QUERY_1, 1), result('a2', QUERY_1, 2),
+      result('b0', QUERY_2, 0), result('b2', QUERY_2, 2),
+      result('c0', QUERY_1, 0, 'other-model'), result('c1', QUERY_1, 1, 'other-model'),
+    ])
+
+    expect(plan.completedPairKeys).toEqual(['query-1|mock-model|0'])
+    expect(plan.missing.map(p => [p.queryId, p.modelId, p.missingLevels])).toEqual([
+      ['query-1', 'other-model', [2]],
+      ['query-2', 'mock-model', [1, 2]],
+      ['query-2', 'other-model', [0, 1, 2]],
+    ])
+    expect(plan.missingResults).toBe(6)
+    // Level 2 of query 2 sits after the gap and is re-run
+    expect(plan.rerunResultIds).toEqual(['b2'])
+  })
+
+  it('leaves results re-run after a gap out of the charged baseline', () => {
+    const results = [result('b0', QUERY_2, 0), result('b2', QUERY_2, 2)]
+    const plan = findMissingPairs(QUERIES.slice(1), ['mock-model'], 1, 2, results)
+
+    expect(createRetryCheckpoint({ followUpDepth: 2, results, plan })).toEqual({
+      followUpDepth: 2,
+      chargedCents: 25,
+      resultIds: ['b0'],
+    })
+  })
+
+  it('counts every sample on its own', () => {
+    const plan = findMissingPairs(QUERIES.slice(0, 1), ['mock-model'], 2, 0, [result('a0', QUERY_1, 0)])
+
+    expect(plan.completedPairKeys).toEqual(['query-1|mock-model|0'])
+    expect(plan.missing).toEqual([
+      { queryId: 'query-1', queryText: QUERY_1, modelId: 'mock-model', sampleIndex: 1, missingLevels: [0] },
+    ])
+  })
+})
+
+describe('Scan retry (mock provider)', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    resetMockProvider()
+  })
+
+  afterAll(() => {
+    delete process.env.AI_MOCK_PROVIDER
+    vi.restoreAllMocks()
+  })
+
+  it('re-runs only the missing follow-up into the same scan and charges only the new answer', async () => {
+    const original = createScanCheckpoint(['query-1', 'query-2'], ['mock-model'], 1, null)
+    const { client, tables } = createSupabaseMock(USER, {
+      projects: [{
+        id: 'project-1',
+        user_id: USER.id,
+        domain: 'acme.com',
+        brand_variations: ['Acme'],
+        language: 'en',
+        selected_models: ['mock-model'],
+        // Settings changed since the scan ran - the retry keeps the scan's depth
+        follow_up_enabled: true,
+        follow_up_depth: 3,
+        competitors: [],
+      }],
+      project_queries: [
+        { id: 'query-1', project_id: 'project-1', query_text: QUERY_1, query_type: 'comparison', is_active: true },
+        { id: 'query-2', project_id: 'project-1', query_text: QUERY_2, query_type: 'informational', is_active: true },
+      ],
+      scans: [{
+        id: 'scan-1',
+        project_id: 'project-1',
+        user_id: USER.id,
+        status: 'completed',
+        models: ['mock-model'],
+        follow_up_active: true,
+        sampling_stats: null,
+        total_cost_usd: 0.75,
+        total_input_tokens: 0,
+        total_output_tokens: 0,
+        total_results: 2,
+        created_at: '2026-05-01T10:00:00Z',
+      }],
+      scan_queue: [{
+        id: 'queue-1',
+        user_id: USER.id,
+        project_id: 'project-1',
+        scan_id: 'scan-1',
+        status: 'completed',
+        checkpoint: { ...original, completed: ['query-1|mock-model|0', 'query-2|mock-model|0'] },
+        created_at: '2026-05-01T10:00:00Z',
+        updated_at: '2026-05-01T10:05:00Z',
+      }],
+      scan_results: [
+        result('q1-0', QUERY_1, 0),
+        { ...result('q1-1', QUERY_1, 1), parent_result_id: 'q1-0' },
+        // Follow-up of query 2 failed when the scan ran
+        result('q2-0', QUERY_2, 0),
+      ],
+      pricing_config: [{
+        provider: 'mock',
+        model: 'mock-model',
+        base_input_cost_cents: 5,
+        base_output_cost_cents: 10,
+        markup_percentage: 100,
+        is_active: true,
+      }],
+      monthly_usage: [{
+        id: 'usage-1',
+        user_id: USER.id,
+        month: new Date().toISOString().slice(0, 7),
+        provider: 'mock',
+        model: 'mock-model',
+        usage_type: 'scan',
+        scan_count: 1,
+        ai_call_count: 6,
+        cache_hit_count: 0,
+      }],
+      credit_reservations: [{ id: 'reservation-2', user_id: USER.id, amount_cents: 500, status: 'active' }],
+      user_profiles: [{ user_id: USER.id, tier: 'paid', credit_balance_cents: 1000 }],
+    })
+    db.client = client
+
+    const setup = await loadScanRetryPlan(client, tables.scans[0], tables.projects[0])
+    expect(setup.followUpDepth).toBe(1)
+    expect(setup.plan.missing).toEqual([
+      { queryId: 'query-2', queryText: QUERY_2, modelId: 'mock-model', sampleIndex: 0, missingLevels: [1] },
+    ])
+
+    // What POST /scans/[scanId]/retry queues
+    const checkpoint = createScanCheckpoint(['query-1', 'query-2'], ['mock-model'], 1, 'reservation-2')
+    checkpoint.completed = setup.plan.completedPairKeys
+    checkpoint.retry = { followUpDepth: 1, chargedCents: 75, resultIds: ['q1-0', 'q1-1', 'q2-0'] }
+    tables.scans[0].status = 'running'
+    tables.scan_queue.push({
+      id: 'queue-2',
+      user_id: USER.id,
+      project_id: 'project-1',
+      scan_id: 'scan-1',
+      status: 'pending',
+      priority: 0,
+      progress_current: 1,
+      progress_total: 2,
+      attempts: 0,
+      checkpoint,
+      created_at: '2026-05-02T10:00:00Z',
+      updated_at: new Date().toISOString(),
+    })
+
+    const item = await claimQueueItem(client, 'worker-1')
+    expect(item?.id).toBe('queue-2')
+    const run = await runQueueItem(client, item!, { workerId: 'worker-1', deadline: Date.now() + 60_000 })
+    expect(run).toMatchObject({ status: 'completed', scanId: 'scan-1' })
+
+    // Saved answers untouched, query 2 gets exactly its level-1 follow-up
+    const results = tables.scan_results
+    expect(results.filter(r => r.query_text === QUERY_1).map(r => r.id)).toEqual(['q1-0', 'q1-1'])
+    const query2 = results.filter(r => r.query_text === QUERY_2)
+    expect(query2.map(r => r.follow_up_level)).toEqual([0, 1])
+    expect(query2[0]).toMatchObject({ id: 'q2-0', ai_response_raw: 'Saved answer q2-0' })
+    expect(query2[1].parent_result_id).toBe('q2-0')
+
+    expect(tables.scans[0].status).toBe('completed')
+    expect(tables.scan_queue[1]).toMatchObject({ status: 'completed', progress_current: 2 })
+
+    // Only the new follow-up is charged and counted
+    const newCostCents = Math.ceil((0.75 + query2[1].cost_usd) * 100) - 75
+    expect(tables.credit_reservations[0].status).toBe('consumed')
+    expect(tables.user_profiles[0].credit_balance_cents).toBe(1000 + 500 - newCostCents)
+    expect(tables.monthly_usage[0]).toMatchObject({ scan_count: 1, ai_call_count: 6 + query2[1].ai_calls })
+  })
+})
@@ -0,0 +1,268 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+/**
+ * Server-side scan runner on the mock AI provider
+ *
+ * Claims scan_queue items and runs them pair by pair against an in-memory
+ * Supabase client, including resuming after a worker died mid-scan.
+ */
+
+const db = vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+  return { client: null as any }
+})
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+// Evaluations go through the real implementation unless a test overrides one
+vi.mock('@/lib/ai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/ai')>()
+  return { ...actual, callEvaluation: vi.fn(actual.callEvaluation) }
+})
+
+import { claimQueueItem, runQueueItem, runScanPair, createScanCheckpoint, QUEUE_STALE_AFTER_MS } from '@/lib/scan/runner'
+import { callEvaluation, createSupabaseCacheStore, getCheapestEvaluationModel } from '@/lib/ai'
+import { resetMockProvider } from '@/lib/ai/mock'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const USER = { id: 'user-1' }
+const QUERY_1 = 'What is the best CRM for a small business?'
+const QUERY_2 = 'How do I keep track of customer emails?'
+
+function seedDatabase(queueItem: Record<string, unknown>, scanResults: Record<string, unknown>[] = []) {
+  return createSupabaseMock(USER, {
+    projects: [{
+      id: 'project-1',
+      user_id: USER.id,
+      domain: 'acme.com',
+      brand_variations: ['Acme'],
+      language: 'en',
+      follow_up_enabled: true,
+      follow_up_depth: 1,
+      competitors: [],
+    }],
+    project_queries: [
+      { id: 'query-1', project_id: 'project-1', query_text: QUERY_1, query_type: 'comparison' },
+      { id: 'query-2', project_id: 'project-1', query_text: QUERY_2, query_type: 'informational' },
+    ],
+    scans: [{
+      id: 'scan-1',
+      project_id: 'project-1',
+      user_id: USER.id,
+      status: 'running',
+      total_cost_usd: 0,
+      total_input_tokens: 0,
+      total_output_tokens: 0,
+      total_results: 0,
+    }],
+    scan_queue: [{
+      id: 'queue-1',
+      user_id: USER.id,
+      project_id: 'project-1',
+      scan_id: 'scan-1',
+      priority: 0,
+      progress_current: 0,
+      progress_total: 2,
+      attempts: 0,
+      checkpoint: createScanCheckpoint(['query-1', 'query-2'], ['mock-model'], 1, 'reservation-1'),
+      created_at: '2026-05-01T10:00:00Z',
+      updated_at: new Date().toISOString(),
+      ...queueItem,
+    }],
+    scan_results: scanResults,
+    pricing_config: [{
+      provider: 'mock',
+      model: 'mock-model',
+      base_input_cost_cents: 5,
+      base_output_cost_cents: 10,
+      markup_percentage: 100,
+      is_active: true,
+    }],
+    credit_reservations: [{ id: 'reservation-1', user_id: USER.id, amount_cents: 500, status: 'active' }],
+    user_profiles: [{ user_id: USER.id, tier: 'paid', credit_balance_cents: 1000 }],
+  })
+}
+
+function result(queryText: string, level: number) {
+  return {
+    scan_id: 'scan-1',
+    provider: 'mock',
+    model: 'mock-model',
+    query_text: queryText,
+    follow_up_level: level,
+    sample_index: 0,
+    metrics_json: { visibility_score: 100, sentiment_score: 80, ranking_score: 0, recommendation_score: 60 },
+    cost_usd: 0.01,
+  }
+}
+
+describe('Scan runner (mock provider)', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    resetMockProvider()
+  })
+
+  afterAll(() => {
+    delete process.env.AI_MOCK_PROVIDER
+    vi.restoreAllMocks()
+  })
+
+  it('resumes a scan whose worker died, skipping finished pairs and redoing partial ones', async () => {
+    const stale = new Date(Date.now() - QUEUE_STALE_AFTER_MS - 60_000).toISOString()
+    const checkpoint = createScanCheckpoint(['query-1', 'query-2'], ['mock-model'], 1, 'reservation-1')
+    checkpoint.completed.push('query-1|mock-model|0')
+
+    const { client, tables } = seedDatabase(
+      { status: 'running', updated_at: stale, attempts: 1, progress_current: 1, checkpoint },
+      [
+        { id: 'done-0', ...result(QUERY_1, 0) },
+        { id: 'done-1', ...result(QUERY_1, 1), parent_result_id: 'done-0' },
+        // Initial answer of query 2 saved, follow-up never ran
+        { id: 'partial-0', ...result(QUERY_2, 0) },
+      ]
+    )
+    db.client = client
+
+    const item = await claimQueueItem(client, 'worker-2')
+    expect(item).toMatchObject({ id: 'queue-1', status: 'running', attempts: 2 })
+
+    const run = await runQueueItem(client, item!, { workerId: 'worker-2', deadline: Date.now() + 60_000 })
+    expect(run).toMatchObject({ status: 'completed', scanId: 'scan-1' })
+
+    // Finished pair untouched, partial pair replaced by a full chain
+    const results = tables.scan_results
+    expect(results.filter(r => r.query_text === QUERY_1).map(r => r.id)).toEqual(['done-0', 'done-1'])
+    expect(results.some(r => r.id === 'partial-0')).toBe(false)
+    expect(results.filter(r => r.query_text === QUERY_2).map(r => r.follow_up_level).sort()).toEqual([0, 1])
+
+    expect(tables.scan_queue[0]).toMatchObject({ status: 'completed', progress_current: 2, progress_total: 2 })
+    expect(tables.scan_queue[0].checkpoint.completed).toEqual(['query-1|mock-model|0', 'query-2|mock-model|0'])
+
+    // Realtime event for the pair that just finished
+    expect(tables.scan_queue[0].last_pair).toMatchObject({
+      queryId: 'query-2',
+      queryText: QUERY_2,
+      model: 'mock-model',
+      sampleIndex: 0,
+      success: true,
+      error: null,
+    })
+    expect(tables.scan_queue[0].last_pair.metrics.visibility_score).toEqual(expect.any(Number))
+    expect(tables.scan_queue[0].last_pair.costUsd).toBeGreaterThan(0)
+    expect(tables.scan_queue[0].last_pair.totalCostUsd).toBe(tables.scans[0].total_cost_usd)
+
+    expect(tables.scans[0].status).toBe('completed')
+    expect(tables.scans[0].overall_score).toBeGreaterThan(0)
+    expect(tables.credit_reservations[0].status).toBe('consumed')
+  })
+
+  it('counts a pair checkpointed just before its worker died exactly once', async () => {
+    const stale = new Date(Date.now() - QUEUE_STALE_AFTER_MS - 60_000).toISOString()
+    const checkpoint = createScanCheckpoint(['query-1', 'query-2'], ['mock-model'], 1, 'reservation-1')
+    checkpoint.completed.push('query-1|mock-model|0')
+    checkpoint.totals = { costUsd: 0.02, inputTokens: 100, outputTokens: 50, results: 1 }
+
+    // Died after saving the checkpoint, before copying its totals to the scan
+    const { client, tables } = seedDatabase(
+      { status: 'running', updated_at: stale, attempts: 1, progress_current: 1, checkpoint },
+      [
+        { id: 'done-0', ...result(QUERY_1, 0) },
+        { id: 'done-1', ...result(QUERY_1, 1), parent_result_id: 'done-0' },
+      ]
+    )
+    db.client = client
+
+    const item = await claimQueueItem(client, 'worker-2')
+    await runQueueItem(client, item!, { workerId: 'worker-2', deadline: Date.now() + 60_000 })
+
+    const scan = tables.scans[0]
+    const lastPair = tables.scan_queue[0].last_pair
+    expect(scan.total_results).toBe(2)
+    expect(scan.total_cost_usd).toBeCloseTo(0.02 + lastPair.costUsd)
+    expect(scan.total_cost_usd).toBe(lastPair.totalCostUsd)
+    expect(scan.total_input_tokens).toBeGreaterThan(100)
+    expect(tables.scan_queue[0].checkpoint.totals).toMatchObject({ costUsd: scan.total_cost_usd, results: 2 })
+  })
+
+  it('stores the persona a query was asked as on every result', async () => {
+    const { client, tables } = seedDatabase({ status: 'pending' })
+    db.client = client
+    tables.projects[0].personas = [
+      { id: 'persona-cfo', name: 'Finance lead', role: 'CFO', expertise: 'expert', region: null, budget: null },
+    ]
+    tables.project_queries[0].persona_id = 'persona-cfo'
+    // Removed from the project since: asked without a persona
+    tables.project_queries[1].persona_id = 'persona-removed'
+
+    const item = await claimQueueItem(client, 'worker-1')
+    const run = await runQueueItem(client, item!, { workerId: 'worker-1', deadline: Date.now() + 60_000 })
+
+    expect(run.status).toBe('completed')
+    const personaOf = (queryText: string) =>
+      Array.from(new Set(tables.scan_results.filter(r => r.query_text === queryText).map(r => r.persona_id)))
+    expect(personaOf(QUERY_1)).toEqual(['persona-cfo'])
+    expect(personaOf(QUERY_2)).toEqual([null])
+  })
+
+  it('counts the follow-up calls when their evaluation fails and the chain stops', async () => {
+    const { client, tables } = seedDatabase({ status: 'running' })
+    db.client = client
+
+    const evaluate = vi.mocked(callEvaluation)
+    const actualEvaluate = evaluate.getMockImplementation()!
+    evaluate
+      .mockImplementationOnce(actualEvaluate)
+      .mockImplementationOnce(async (...args) => ({ ...await actualEvaluate(...args), metrics: undefined }))
+
+    const pair = await runScanPair({
+      supabase: client,
+      scanId: 'scan-1',
+      project: tables.projects[0],
+      evaluationModel: getCheapestEvaluationModel(),
+      cacheStore: createSupabaseCacheStore(client),
+    }, { query: tables.project_queries[0], modelId: 'mock-model', sampleIndex: 0 })
+
+    // Initial answer saved, follow-up dropped - but its answer was still paid for
+    expect(pair).toMatchObject({ success: true, operationCount: 2 })
+    expect(tables.scan_results).toHaveLength(1)
+    expect(pair.costCents).toBeGreaterThan(Math.round(tables.scan_results[0].cost_usd * 100))
+  })
+
+  it('hands remaining pairs back to the queue when the time budget is used', async () => {
+    const { client, tables } = seedDatabase({ status: 'pending' })
+    db.client = client
+
+    const item = await claimQueueItem(client, 'worker-1')
+    const run = await runQueueItem(client, item!, { workerId: 'worker-1', deadline: Date.now() - 1 })
+
+    expect(run).toMatchObject({ status: 'paused', remainingPairs: 2 })
+    expect(tables.scan_queue[0].status).toBe('pending')
+    expect(tables.scans[0].status).toBe('running')
+    expect(tables.credit_reservations[0].status).toBe('active')
+
+    // A running item with a live worker is not claimed twice
+    tables.scan_queue[0].status = 'running'
+    tables.scan_queue[0].updated_at = new Date().toISOString()
+    expect(await claimQueueItem(client, 'worker-2')).toBeNull()
+  })
+
+  it('stops a cancelled scan without results and releases its credits', async () => {
+    const { client, tables } = seedDatabase({ status: 'running', attempts: 1 })
+    db.client = client
+
+    const item = { ...tables.scan_queue[0] } as any
+    tables.scan_queue[0].status = 'cancelled'
+
+    const run = await runQueueItem(client, item, { workerId: 'worker-1', deadline: Date.now() + 60_000 })
+
+    expect(run.status).toBe('cancelled')
+    expect(tables.scan_results).toHaveLength(0)
+    expect(tables.scans[0].status).toBe('stopped')
+    expect(tables.credit_reservations[0].status).toBe('released')
+    expect(tables.user_profiles[0].credit_balance_cents).toBe(1500)
+  })
+})
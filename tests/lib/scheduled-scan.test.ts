@@ -0,0 +1,199 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+/**
+ * Scheduled scans on the mock AI provider
+ *
+ * Runs the process-scan cron worker against an in-memory Supabase client:
+ * pairs go through the shared scan runner and the scan is finalized like a
+ * manual one.
+ */
+
+const db = vi.hoisted(() => {
+  process.env.AI_MOCK_PROVIDER = 'true'
+  process.env.CRON_SECRET = 'cron-secret'
+  return { client: null as any }
+})
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => db.client,
+}))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => db.client,
+  createAdminClient: () => db.client,
+}))
+
+import { NextRequest } from 'next/server'
+import { GET as processScheduledScan } from '@/app/api/cron/process-scan/route'
+import { resetMockProvider, setMockFixtures } from '@/lib/ai/mock'
+import { calculateScoreAggregates } from '@/lib/scan/finalize'
+import { getFollowUpQuestion } from '@/lib/scan/follow-up-templates'
+import { resolveScoringProfile, SCORING_FORMULA_VERSION } from '@/lib/scan/scoring-profile'
+import { createSupabaseMock } from '../helpers/supabase-mock'
+
+const USER = { id: 'user-1' }
+const QUERY_1 = 'What is the best CRM for a small business?'
+const QUERY_2 = 'How do I keep track of customer emails?'
+
+function seedDatabase(project: Record<string, unknown> = {}) {
+  const mock = createSupabaseMock(USER, {
+    projects: [{
+      id: 'project-1',
+      user_id: USER.id,
+      name: 'Acme',
+      domain: 'acme.com',
+      brand_variations: ['Acme'],
+      language: 'en',
+      selected_models: ['mock-model'],
+      follow_up_enabled: true,
+      follow_up_depth: 1,
+      competitors: [],
+      monthly_budget_cents: null,
+      ...project,
+    }],
+    project_queries: [
+      { id: 'query-1', project_id: 'project-1', query_text: QUERY_1, query_type: 'comparison', is_active: true },
+      { id: 'query-2', project_id: 'project-1', query_text: QUERY_2, query_type: 'informational', is_active: true },
+    ],
+    scheduled_scan_history: [{
+      id: 'history-1',
+      project_id: 'project-1',
+      status: 'running',
+      scheduled_for: '2026-05-01T06:00:00Z',
+    }],
+    scans: [],
+    scan_results: [],
+    pricing_config: [{
+      provider: 'mock',
+      model: 'mock-model',
+      base_input_cost_cents: 5,
+      base_output_cost_cents: 10,
+      markup_percentage: 100,
+      is_active: true,
+    }],
+    user_profiles: [{ user_id: USER.id, tier: 'paid', credit_balance_cents: 1000 }],
+  })
+
+  // claim_pending_scan hands out the seeded history record
+  mock.client.rpc = async () => ({
+    data: [{ id: 'history-1', project_id: 'project-1', scheduled_for: '2026-05-01T06:00:00Z' }],
+    error: null,
+  })
+  return mock
+}
+
+function cronRequest() {
+  return new NextRequest('http://localhost/api/cron/process-scan?worker=1', {
+    headers: { authorization: 'Bearer cron-secret' },
+  })
+}
+
+describe('Scheduled scan worker (mock provider)', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    resetMockProvider()
+    setMockFixtures({
+      [QUERY_1]: '1. **Pipedrive** is built around sales pipelines.\n2. **Acme** is the simplest CRM for small teams.',
+      [getFollowUpQuestion('comparison', 1, 'en')]: 'If I had to pick one, I would go with **Acme** for a small business.',
+    })
+  })
+
+  afterAll(() => {
+    delete process.env.AI_MOCK_PROVIDER
+    delete process.env.CRON_SECRET
+    vi.restoreAllMocks()
+  })
+
+  it('runs the pairs with the shared runner and finalizes the scan', async () => {
+    const { client, tables } = seedDatabase()
+    db.client = client
+
+    const response = await processScheduledScan(cronRequest())
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ processed: 1, results: 2 })
+
+    // 2 queries × (initial + follow-up), saved like a manual scan
+    expect(tables.scan_results).toHaveLength(4)
+    expect(tables.scan_results.every(r => r.sample_index === 0)).toBe(true)
+    expect(tables.scan_results.filter(r => r.follow_up_level === 1).every(r => r.parent_result_id)).toBe(true)
+
+    const scan = tables.scans[0]
+    expect(scan).toMatchObject({ status: 'completed', total_results: 2 })
+    expect(scan.overall_score).toEqual(expect.any(Number))
+    expect(scan.total_cost_usd).toBeGreaterThan(0)
+
+    // Charged from the stored results
+    const chargedCents = Math.ceil(tables.scan_results.reduce((sum, r) => sum + r.cost_usd, 0) * 100)
+    expect(tables.credit_reservations[0].status).toBe('consumed')
+    expect(tables.credit_transactions[0]).toMatchObject({ type: 'usage', amount_cents: -chargedCents, reference_id: scan.id })
+    expect(tables.monthly_usage[0]).toMatchObject({ model: 'mock-model', scan_count: 1 })
+
+    expect(tables.scheduled_scan_history[0]).toMatchObject({ status: 'completed', error_message: null, scan_id: scan.id })
+  })
+
+  it('scores with the project\'s scoring profile and keeps its versions on the scan', async () => {
+    const overrides = { persistenceBonus: 20, improvementFactor: 1 }
+    const { client, tables } = seedDatabase({ scoring_profile: overrides, scoring_profile_version: 4 })
+    db.client = client
+
+    await processScheduledScan(cronRequest())
+
+    const scan = tables.scans[0]
+    const { resilienceScore } = calculateScoreAggregates(tables.scan_results, true, resolveScoringProfile(overrides))
+    expect(scan.overall_score).toBe(resilienceScore.final_score)
+    expect(scan.overall_score).not.toBe(
+      calculateScoreAggregates(tables.scan_results, true, resolveScoringProfile()).resilienceScore.final_score
+    )
+    expect(scan).toMatchObject({
+      initial_score: resilienceScore.initial_score,
+      brand_persistence: resilienceScore.brand_persistence,
+      scoring_profile: resolveScoringProfile(overrides),
+      scoring_profile_version: 4,
+      scoring_formula_version: SCORING_FORMULA_VERSION,
+    })
+  })
+
+  it('asks every pair as often as the project samples and stores the sampling stats', async () => {
+    const { client, tables } = seedDatabase({ samples_per_query: 3, follow_up_enabled: false })
+    db.client = client
+
+    const response = await processScheduledScan(cronRequest())
+    expect(await response.json()).toMatchObject({ processed: 1, results: 6 })
+
+    // 2 queries × 3 samples, one conversation each
+    expect(tables.scan_results).toHaveLength(6)
+    expect(tables.scan_results.filter(r => r.query_text === QUERY_1).map(r => r.sample_index).sort()).toEqual([0, 1, 2])
+    expect(tables.scans[0].sampling_stats).toMatchObject({ samples_per_query: 3 })
+  })
+
+  it('keeps the budget warning of a run on its history record', async () => {
+    const { client, tables } = seedDatabase({ monthly_budget_cents: 1000 })
+    db.client = client
+    tables.pricing_config[0].final_input_cost_cents = 10
+    tables.pricing_config[0].final_output_cost_cents = 20
+    // $8.50 of the $10.00 budget already spent this month
+    tables.scans.push({ id: 'earlier-scan', project_id: 'project-1', created_at: new Date().toISOString(), total_cost_usd: 8.5 })
+
+    await processScheduledScan(cronRequest())
+
+    const history = tables.scheduled_scan_history[0]
+    expect(history.status).toBe('completed')
+    expect(history.budget_warning).toMatch(/^This scan brings the project to ~8\d% of its monthly budget of \$10\.00$/)
+  })
+
+  it('prices every sample when checking the budget', async () => {
+    const { client, tables } = seedDatabase({ monthly_budget_cents: 1000, samples_per_query: 5 })
+    db.client = client
+    tables.pricing_config[0].final_input_cost_cents = 10
+    tables.pricing_config[0].final_output_cost_cents = 20
+    // 1 cent per answer: 2 queries × 2 levels × 5 samples would take $9.90 over $10.00
+    tables.scans.push({ id: 'earlier-scan', project_id: 'project-1', created_at: new Date().toISOString(), total_cost_usd: 9.9 })
+
+    await processScheduledScan(cronRequest())
+
+    expect(tables.scheduled_scan_history[0].status).toBe('skipped')
+    expect(tables.scheduled_scan_history[0].error_message).toContain('would be exceeded')
+    expect(tables.scan_results).toHaveLength(0)
+  })
+})
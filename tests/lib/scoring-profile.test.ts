@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SCORING_PROFILE,
+  isSameScoringProfile,
+  normalizeScoringProfile,
+  resolveScoringProfile,
+} from '@/lib/scan/scoring-profile'
+import { calculateResilienceScore, calculateWeightedScore } from '@/lib/scan/follow-up-templates'
+
+/**
+ * Per-project scoring profiles: defaults keep the original policy, overrides
+ * change the coefficients.
+ */
+
+// Initial 60, follow-up 80, brand present at both levels
+const IMPROVING_CHAIN = [
+  { follow_up_level: 0, recommendation_score: 60, visibility_score: 100, sentiment_score: 70 },
+  { follow_up_level: 1, recommendation_score: 80, visibility_score: 100, sentiment_score: 70 },
+]
+
+// Initial 60, brand gone in the follow-up
+const DISAPPEARING_CHAIN = [
+  { follow_up_level: 0, recommendation_score: 60, visibility_score: 100, sentiment_score: 70 },
+  { follow_up_level: 1, recommendation_score: 0, visibility_score: 0, sentiment_score: null },
+]
+
+describe('resilience scoring profile', () => {
+  it('keeps the original policy by default', () => {
+    // +50% of 20 and +5 persistence
+    expect(calculateResilienceScore(IMPROVING_CHAIN, true).final_score).toBe(75)
+    // -40% of 60 and -2.5 for 50% persistence
+    expect(calculateResilienceScore(DISAPPEARING_CHAIN, true).final_score).toBe(33.5)
+    expect(calculateWeightedScore([{ level: 0, score: 60 }, { level: 1, score: 80 }], 1)).toBe(70)
+  })
+
+  it('applies the coefficients of a project profile', () => {
+    const profile = resolveScoringProfile({
+      improvementFactor: 0.25,
+      disappearanceFactor: 0.8,
+      persistenceBonus: 0,
+      persistencePenalty: 10,
+      followUpWeights: { depth1: { 0: 0.8, 1: 0.2 } },
+    })
+
+    expect(calculateResilienceScore(IMPROVING_CHAIN, true, profile).final_score).toBe(65)
+    expect(calculateResilienceScore(DISAPPEARING_CHAIN, true, profile).final_score).toBe(7)
+    expect(calculateWeightedScore([{ level: 0, score: 60 }, { level: 1, score: 80 }], 1, profile.followUpWeights)).toBe(64)
+    expect(profile.followUpWeights.depth2).toEqual(DEFAULT_SCORING_PROFILE.followUpWeights.depth2)
+  })
+
+  it('normalizes form input to known coefficients within their limits', () => {
+    expect(normalizeScoringProfile({
+      improvementFactor: '0.3',
+      declineFactor: 7,
+      persistenceBonus: '',
+      persistencePenalty: 'abc',
+      unknown: 1,
+      followUpWeights: {
+        depth1: { 0: 0.6, 1: 0.4 },
+        depth2: { 0: 0.5, 1: 0.5, 2: 0.5 },  // Does not sum to 1
+      },
+    })).toEqual({
+      improvementFactor: 0.3,
+      declineFactor: 1,
+      followUpWeights: { depth1: { 0: 0.6, 1: 0.4 } },
+    })
+    expect(normalizeScoringProfile(null)).toEqual({})
+  })
+
+  it('treats overrides equal to the defaults as the same profile', () => {
+    expect(isSameScoringProfile({}, { improvementFactor: 0.5 })).toBe(true)
+    expect(isSameScoringProfile({}, { improvementFactor: 0.6 })).toBe(false)
+  })
+})